@@ -0,0 +1,87 @@
+import { DynamoDBClient } from "@aws-sdk/client-dynamodb";
+import { DynamoDBDocumentClient } from "@aws-sdk/lib-dynamodb";
+import { createDynamoRepository } from "../src/services/repository/dynamo";
+import { TABLES } from "../src/types/assets";
+import { countIssues, dataQualityReport, DEFAULT_JUMP_THRESHOLD } from "../src/lib/dataQuality";
+
+// Reports the state of ChasingProphets-AssetPrices per ticker against the NYSE calendar:
+// sessions without a bar, bars on closed days, duplicate dates and suspicious bars (high
+// below low, zero volume, close-to-close jumps beyond --jump). Splits stored in
+// ChasingProphets-CorporateActions explain a jump on their ex-date. Writes nothing.
+//
+//   npm run check-prices                              # every asset, summary line each
+//   npm run check-prices -- --ticker AAPL --verbose   # list every gap and issue
+//   npm run check-prices -- --jump 0.15 --strict      # exit 1 when anything is found
+//
+// Point AWS_ENDPOINT_URL at DynamoDB Local (e.g. http://localhost:8000) to run it offline.
+
+const REGION = process.env.AWS_REGION || "us-east-1";
+const repository = createDynamoRepository(DynamoDBDocumentClient.from(new DynamoDBClient({ region: REGION })));
+
+const MAX_LINES_PRINTED = 20;
+
+function argValue(flag: string): string | undefined {
+  const idx = process.argv.indexOf(flag);
+  return idx >= 0 ? process.argv[idx + 1] : undefined;
+}
+
+function argValues(flag: string): string[] {
+  return process.argv.flatMap((arg, i) => (arg === flag && process.argv[i + 1] ? [process.argv[i + 1]] : []));
+}
+
+function printLimited(ticker: string, lines: string[], verbose: boolean) {
+  const shown = verbose ? lines : lines.slice(0, MAX_LINES_PRINTED);
+  shown.forEach(line => console.log(`${ticker.padEnd(8)}   ${line}`));
+  if (shown.length < lines.length) console.log(`${ticker.padEnd(8)}   ...and ${lines.length - shown.length} more (--verbose lists all)`);
+}
+
+async function checkPrices() {
+  const jumpArg = argValue("--jump");
+  const jumpThreshold = jumpArg === undefined ? DEFAULT_JUMP_THRESHOLD : Number(jumpArg);
+  const verbose = process.argv.includes("--verbose");
+  const strict = process.argv.includes("--strict");
+
+  if (!(jumpThreshold > 0)) {
+    console.error("Usage: npm run check-prices -- [--ticker T]... [--jump 0.25] [--verbose] [--strict]");
+    process.exit(1);
+  }
+
+  const requested = argValues("--ticker").map(t => t.trim().toUpperCase());
+  const assets = await repository.assets.getAllAssets();
+  const known = new Set(assets.map(a => a.ticker));
+  requested.filter(t => !known.has(t)).forEach(t => console.warn(`${t}: not in ${TABLES.ASSETS}; skipping`));
+  const tickers = (requested.length ? requested.filter(t => known.has(t)) : Array.from(known)).sort();
+
+  let flagged = 0;
+  for (const ticker of tickers) {
+    const [bars, actions] = await Promise.all([
+      repository.prices.getPrices(ticker),
+      repository.corporateActions.getActions(ticker)
+    ]);
+    const report = dataQualityReport(ticker, bars, { jumpThreshold, actions });
+    if (!report.bars) {
+      console.log(`${ticker.padEnd(8)} no bars`);
+      continue;
+    }
+
+    const counts = Object.entries(countIssues(report)).map(([kind, count]) => `${count} ${kind}`);
+    const missing = report.missingSessions.length;
+    console.log(
+      `${ticker.padEnd(8)} ${report.firstDate} → ${report.lastDate}  ${report.bars} bar(s), ` +
+      `${missing} of ${report.expectedSessions} session(s) missing${counts.length ? `, ${counts.join(", ")}` : ""}`
+    );
+    if (!missing && !report.issues.length) continue;
+
+    flagged++;
+    printLimited(ticker, report.gaps.map(gap => `missing ${gap}`), verbose);
+    printLimited(ticker, report.issues.map(issue => `${issue.date} ${issue.kind}: ${issue.message}`), verbose);
+  }
+
+  console.log(`${flagged} of ${tickers.length} ticker(s) with gaps or suspicious bars`);
+  if (flagged && strict) process.exit(1);
+}
+
+checkPrices().catch(err => {
+  console.error("Price check failed:", err);
+  process.exit(1);
+});
@@ -0,0 +1,97 @@
+import { DynamoDBClient } from "@aws-sdk/client-dynamodb";
+import { DynamoDBDocumentClient } from "@aws-sdk/lib-dynamodb";
+import { createDynamoRepository } from "../src/services/repository/dynamo";
+import { AlertRule } from "../src/types/alert";
+import { Forecast } from "../src/types/forecast";
+import { evaluateAlert, requiredHistory, describeCondition } from "../src/lib/alerts";
+
+// Evaluates every enabled alert rule against the latest AssetPrices bars and writes a
+// notification per firing rule. Safe to schedule: each (rule, bar) pair notifies once.
+//
+//   npm run evaluate-alerts                 # all users
+//   npm run evaluate-alerts -- --user admin # one user
+//   npm run evaluate-alerts -- --dry-run    # log what would fire, write nothing
+//
+// Point AWS_ENDPOINT_URL at DynamoDB Local (e.g. http://localhost:8000) to run it offline.
+
+const REGION = process.env.AWS_REGION || "us-east-1";
+const repository = createDynamoRepository(DynamoDBDocumentClient.from(new DynamoDBClient({ region: REGION })));
+
+// Forecast lookback when checking divergence; must exceed the longest horizon in use.
+const FORECAST_LOOKBACK_DAYS = 60;
+
+function argValue(flag: string): string | undefined {
+  const idx = process.argv.indexOf(flag);
+  return idx >= 0 ? process.argv[idx + 1] : undefined;
+}
+
+async function loadRules(userId?: string): Promise<AlertRule[]> {
+  const rules = userId ? await repository.alerts.list(userId) : await repository.alerts.listAll();
+  return rules.filter(rule => rule.enabled);
+}
+
+// Returns false when the notification already exists (an earlier run fired for the same bar).
+function writeNotification(rule: AlertRule, date: string, message: string): Promise<boolean> {
+  return repository.notifications.add({
+    userId: rule.userId,
+    notificationId: `alert#${rule.ruleId}#${date.slice(0, 10)}`,
+    message,
+    category: "alert",
+    ticker: rule.ticker,
+    ruleId: rule.ruleId,
+    checked: false,
+    createdAt: new Date().toISOString()
+  });
+}
+
+async function evaluate() {
+  const dryRun = process.argv.includes("--dry-run");
+  const userId = argValue("--user");
+
+  const rules = await loadRules(userId);
+  console.log(`Evaluating ${rules.length} enabled rule(s)${userId ? ` for ${userId}` : ""}${dryRun ? " (dry run)" : ""}`);
+
+  const byTicker = new Map<string, AlertRule[]>();
+  for (const rule of rules) {
+    const list = byTicker.get(rule.ticker) || [];
+    list.push(rule);
+    byTicker.set(rule.ticker, list);
+  }
+
+  let fired = 0;
+  for (const [ticker, tickerRules] of byTicker) {
+    const limit = Math.max(...tickerRules.map(rule => requiredHistory(rule.condition)));
+    const prices = await repository.prices.getLatestPrices(ticker, limit);
+    if (!prices.length) {
+      console.warn(`No prices for ${ticker}; skipping ${tickerRules.length} rule(s)`);
+      continue;
+    }
+
+    let forecasts: Forecast[] = [];
+    if (tickerRules.some(rule => rule.condition.kind === "forecastDivergence")) {
+      const since = new Date(prices[prices.length - 1].date);
+      since.setUTCDate(since.getUTCDate() - FORECAST_LOOKBACK_DAYS);
+      forecasts = await repository.forecasts.getForecasts(ticker, since.toISOString().slice(0, 10));
+    }
+
+    for (const rule of tickerRules) {
+      const trigger = evaluateAlert(rule, prices, forecasts);
+      if (!trigger) continue;
+      console.log(`[${rule.userId}] ${ticker}: ${describeCondition(rule.condition)} -> ${trigger.message}`);
+      if (dryRun) {
+        fired++;
+        continue;
+      }
+      const created = await writeNotification(rule, trigger.date, trigger.message);
+      await repository.alerts.markTriggered(rule.userId, rule.ruleId, trigger.date);
+      if (created) fired++;
+    }
+  }
+
+  console.log(`${dryRun ? "Would write" : "Wrote"} ${fired} notification(s)`);
+}
+
+evaluate().catch(err => {
+  console.error("Alert evaluation failed:", err);
+  process.exit(1);
+});
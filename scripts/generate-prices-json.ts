@@ -1,4 +1,13 @@
 import fs from 'fs';
+import { isTradingDay, sessionHours } from '../src/lib/tradingCalendar';
+import { INTERVAL_MINUTES, isIntraday } from '../src/lib/resample';
+import { PriceInterval } from '../src/types/price';
+
+// Writes the bundled sample data the local backend reads: daily bars and prophet forecasts for
+// a few tickers, plus intraday bars for their last sessions.
+//
+//   npx tsx scripts/generate-prices-json.ts
+//   npx tsx scripts/generate-prices-json.ts --intraday-interval 1m --intraday-sessions 2
 
 function seededRandom(seed: number) {
   let s = seed % 2147483647;
@@ -21,8 +30,7 @@ function generateStockData(ticker: string, startPrice: number, seed = 42) {
 
   let prevClose = startPrice;
   for (let d = startDate; d <= endDate; d = new Date(d.getTime() + msPerDay)) {
-    const day = d.getUTCDay();
-    if (day === 0 || day === 6) continue;
+    if (!isTradingDay(d.toISOString())) continue;
 
     const u1 = rand();
     const u2 = rand();
@@ -42,24 +50,137 @@ function generateStockData(ticker: string, startPrice: number, seed = 42) {
   return data;
 }
 
+function argValue(flag: string): string | undefined {
+  const idx = process.argv.indexOf(flag);
+  return idx >= 0 ? process.argv[idx + 1] : undefined;
+}
+
+// Splits daily bars into `interval` bars over the regular session: a random walk from the open
+// pinned to the close, kept inside the day's range and touching its high and low once, with more
+// volume near the open and close. Merging the bars of a session gives back the daily bar.
+function generateIntraday(ticker: string, days: Array<{ date: string; open: number; high: number; low: number; close: number; volume: number }>, interval: PriceInterval, seed = 11) {
+  const rand = seededRandom(seed + ticker.length);
+  const normal = () => Math.sqrt(-2 * Math.log(rand() || 1e-9)) * Math.cos(2 * Math.PI * rand());
+  const step = INTERVAL_MINUTES[interval] * 60 * 1000;
+  const data: any[] = [];
+
+  for (const day of days) {
+    const hours = sessionHours(day.date);
+    const start = Date.parse(hours.open);
+    const count = Math.round((Date.parse(hours.close) - start) / step);
+    const scale = (day.high - day.low) / (2 * Math.sqrt(count));
+
+    const walk = [0];
+    for (let i = 1; i <= count; i++) walk.push(walk[i - 1] + normal());
+    const path = walk.map((w, i) => {
+      if (i === 0) return day.open;
+      if (i === count) return day.close;
+      const drift = day.open + (day.close - day.open) * (i / count);
+      const value = drift + (w - walk[count] * (i / count)) * scale;
+      return +Math.min(day.high, Math.max(day.low, value)).toFixed(2);
+    });
+
+    const weights = path.slice(1).map((_, i) => (1 + 3 * ((i / Math.max(1, count - 1)) - 0.5) ** 2) * (0.5 + rand()));
+    const totalWeight = weights.reduce((sum, w) => sum + w, 0);
+    const highAt = Math.floor(rand() * count);
+    const lowAt = Math.floor(rand() * count);
+    let volumeLeft = day.volume;
+
+    for (let i = 0; i < count; i++) {
+      const open = path[i];
+      const close = path[i + 1];
+      const wiggle = (day.high - day.low) / count;
+      const high = i === highAt ? day.high : +Math.min(day.high, Math.max(open, close) + rand() * wiggle).toFixed(2);
+      const low = i === lowAt ? day.low : +Math.max(day.low, Math.min(open, close) - rand() * wiggle).toFixed(2);
+      const volume = i === count - 1 ? volumeLeft : Math.floor((day.volume * weights[i]) / totalWeight);
+      volumeLeft -= volume;
+      data.push({ date: new Date(start + i * step).toISOString(), interval, open, high, low, close, volume });
+    }
+  }
+  return data;
+}
+
+const PROPHETS = [
+  { key: 'timeSage', bias: 0.002, noise: 0.010 },
+  { key: 'trendOracle', bias: 0.0005, noise: 0.008 },
+  { key: 'marketMind', bias: -0.001, noise: 0.013 },
+  { key: 'quantumPredictor', bias: 0.001, noise: 0.011 }
+];
+const FORECAST_HORIZONS = [1, 5];
+const FORECAST_SESSIONS = 252;
+
+// Mirrors generateForecasts in setup-dynamodb.ts so the local fallback sees the same shape
+function generateForecasts(ticker: string, prices: Array<{ date: string; close: number }>, seed = 7) {
+  const rand = seededRandom(seed + ticker.length);
+  const data: any[] = [];
+  const start = Math.max(0, prices.length - FORECAST_SESSIONS);
+
+  for (const prophet of PROPHETS) {
+    for (const horizon of FORECAST_HORIZONS) {
+      for (let i = Math.max(start, horizon); i < prices.length; i++) {
+        const issue = prices[i - horizon];
+        const target = prices[i];
+        const u1 = rand();
+        const u2 = rand();
+        const z = Math.sqrt(-2 * Math.log(u1 || 1e-9)) * Math.cos(2 * Math.PI * u2);
+        const spread = prophet.noise * Math.sqrt(horizon);
+        const value = target.close * (1 + prophet.bias * horizon + spread * z);
+        const halfWidth = value * spread * 1.645;
+        data.push({
+          prophet: prophet.key,
+          ticker,
+          issueDate: issue.date,
+          targetDate: target.date,
+          horizon,
+          value: +value.toFixed(2),
+          lower: +(value - halfWidth).toFixed(2),
+          upper: +(value + halfWidth).toFixed(2)
+        });
+      }
+    }
+  }
+  return data;
+}
+
 const sampleStocks = [
-  { ticker: 'AAPL', name: 'Apple Inc.', lastPrice: 175 },
-  { ticker: 'MSFT', name: 'Microsoft Corporation', lastPrice: 330 },
-  { ticker: 'AMZN', name: 'Amazon.com Inc.', lastPrice: 130 },
-  { ticker: 'GOOGL', name: 'Alphabet Inc.', lastPrice: 130 },
-  { ticker: 'GS', name: 'Goldman Sachs', lastPrice: 310 }
+  { ticker: 'AAPL', name: 'Apple Inc.', market: 'TECH', lastPrice: 175 },
+  { ticker: 'MSFT', name: 'Microsoft Corporation', market: 'TECH', lastPrice: 330 },
+  { ticker: 'AMZN', name: 'Amazon.com Inc.', market: 'CONSUMER', lastPrice: 130 },
+  { ticker: 'GOOGL', name: 'Alphabet Inc.', market: 'TECH', lastPrice: 130 },
+  { ticker: 'GS', name: 'Goldman Sachs', market: 'FINANCE', lastPrice: 310 }
 ];
 
+const intradayInterval = (argValue('--intraday-interval') || '5m') as PriceInterval;
+const intradaySessions = Number(argValue('--intraday-sessions') || 5);
+if (!(intradayInterval in INTERVAL_MINUTES) || !isIntraday(intradayInterval) || !Number.isInteger(intradaySessions) || intradaySessions < 1) {
+  console.error('Usage: npx tsx scripts/generate-prices-json.ts [--intraday-interval 1m|5m|15m|1h] [--intraday-sessions N]');
+  process.exit(1);
+}
+
 const out: Record<string, any> = {};
+const forecasts: Record<string, any[]> = {};
+const intraday: Record<string, Record<string, any[]>> = {};
 for (let i = 0; i < sampleStocks.length; i++) {
   const s = sampleStocks[i];
   out[s.ticker] = {
-    metadata: { ticker: s.ticker, name: s.name },
+    metadata: { ticker: s.ticker, name: s.name, market: s.market },
     prices: generateStockData(s.ticker, s.lastPrice, 2000 + i)
   };
+  forecasts[s.ticker] = generateForecasts(s.ticker, out[s.ticker].prices, 3000 + i);
+  intraday[s.ticker] = {
+    [intradayInterval]: generateIntraday(s.ticker, out[s.ticker].prices.slice(-intradaySessions), intradayInterval, 4000 + i)
+  };
 }
 
 const outPath = './src/data/generatedPrices.json';
 fs.mkdirSync('./src/data', { recursive: true });
 fs.writeFileSync(outPath, JSON.stringify(out, null, 2));
 console.log(`Wrote generated prices to ${outPath}`);
+
+const forecastsPath = './src/data/generatedForecasts.json';
+fs.writeFileSync(forecastsPath, JSON.stringify(forecasts, null, 2));
+console.log(`Wrote generated forecasts to ${forecastsPath}`);
+
+const intradayPath = './src/data/generatedIntraday.json';
+fs.writeFileSync(intradayPath, JSON.stringify(intraday, null, 2));
+console.log(`Wrote ${intradaySessions} session(s) of ${intradayInterval} bars to ${intradayPath}`);
@@ -0,0 +1,98 @@
+import { readFile } from "node:fs/promises";
+import { basename } from "node:path";
+import { DynamoDBClient } from "@aws-sdk/client-dynamodb";
+import { DynamoDBDocumentClient } from "@aws-sdk/lib-dynamodb";
+import { createDynamoRepository } from "../src/services/repository/dynamo";
+import { actionKey, parseCorporateActionCsv } from "../src/lib/corporateActions";
+import { CorporateAction } from "../src/types/corporateAction";
+
+// Imports splits and cash dividends from CSV files into ChasingProphets-CorporateActions.
+// Actions are keyed by ticker, ex-date and type, so re-importing a file replaces what it
+// imported before instead of duplicating it.
+//
+//   npm run import-corporate-actions -- actions.csv                  # Ticker, Date, Type, Ratio, Amount
+//   npm run import-corporate-actions -- aapl-splits.csv --ticker AAPL  # file without a ticker column
+//   npm run import-corporate-actions -- actions.csv --dry-run        # validate and list, write nothing
+//
+// Point AWS_ENDPOINT_URL at DynamoDB Local (e.g. http://localhost:8000) to run it offline.
+
+const REGION = process.env.AWS_REGION || "us-east-1";
+const repository = createDynamoRepository(DynamoDBDocumentClient.from(new DynamoDBClient({ region: REGION })));
+
+const MAX_ISSUES_PRINTED = 20;
+const FLAGS_WITH_VALUES = ["--ticker"];
+
+function argValue(flag: string): string | undefined {
+  const idx = process.argv.indexOf(flag);
+  return idx >= 0 ? process.argv[idx + 1] : undefined;
+}
+
+function fileArgs(): string[] {
+  const args = process.argv.slice(2);
+  return args.filter((arg, i) => !arg.startsWith("--") && !FLAGS_WITH_VALUES.includes(args[i - 1]));
+}
+
+function describe(action: CorporateAction) {
+  return action.type === "split" ? `split ${action.ratio}-for-1` : `dividend ${action.amount}`;
+}
+
+async function importCorporateActions() {
+  const files = fileArgs();
+  const ticker = argValue("--ticker");
+  const dryRun = process.argv.includes("--dry-run");
+  const skipInvalid = process.argv.includes("--skip-invalid");
+
+  if (!files.length) {
+    console.error("Usage: npm run import-corporate-actions -- <file.csv>... [--ticker T] [--skip-invalid] [--dry-run]");
+    process.exit(1);
+  }
+
+  const actions = new Map<string, CorporateAction>();
+  let invalid = 0;
+  for (const file of files) {
+    const parsed = parseCorporateActionCsv(await readFile(file, "utf8"), { defaultTicker: ticker });
+    const name = basename(file);
+    if (parsed.ignoredColumns.length) console.log(`${name}: ignoring column(s) ${parsed.ignoredColumns.join(", ")}`);
+    parsed.errors.slice(0, MAX_ISSUES_PRINTED).forEach(issue => {
+      console.warn(`${name}${issue.line ? `:${issue.line}` : ""}: ${issue.message}`);
+    });
+    if (parsed.errors.length > MAX_ISSUES_PRINTED) {
+      console.warn(`${name}: ...and ${parsed.errors.length - MAX_ISSUES_PRINTED} more problem(s)`);
+    }
+    invalid += parsed.errors.length;
+
+    for (const action of parsed.actions) {
+      const key = `${action.ticker}|${actionKey(action)}`;
+      if (actions.has(key)) {
+        console.warn(`${name}: ${action.ticker} ${action.type} ${action.date} already read; keeping the first`);
+        invalid++;
+        continue;
+      }
+      actions.set(key, action);
+    }
+  }
+
+  if (invalid && !skipInvalid) {
+    console.error(`${invalid} problem(s) found; fix the file(s) or pass --skip-invalid to import the valid rows only`);
+    process.exit(1);
+  }
+
+  const toWrite = Array.from(actions.values()).sort((a, b) => a.ticker.localeCompare(b.ticker) || a.date.localeCompare(b.date));
+  toWrite.forEach(action => console.log(`${action.ticker.padEnd(8)} ${action.date}  ${describe(action)}`));
+  if (!toWrite.length) {
+    console.log("Nothing to write");
+    return;
+  }
+  if (dryRun) {
+    console.log(`Would write ${toWrite.length} action(s)`);
+    return;
+  }
+
+  await repository.corporateActions.putActions(toWrite);
+  console.log(`Wrote ${toWrite.length} action(s)`);
+}
+
+importCorporateActions().catch(err => {
+  console.error("Corporate action import failed:", err);
+  process.exit(1);
+});
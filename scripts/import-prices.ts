@@ -0,0 +1,113 @@
+import { readFile } from "node:fs/promises";
+import { basename } from "node:path";
+import { DynamoDBClient } from "@aws-sdk/client-dynamodb";
+import { DynamoDBDocumentClient } from "@aws-sdk/lib-dynamodb";
+import { createDynamoRepository } from "../src/services/repository/dynamo";
+import { buildImportPreview, parsePriceCsv, rowsToWrite } from "../src/lib/priceImport";
+import { PriceData } from "../src/types/price";
+
+// Imports OHLCV bars from CSV files into ChasingProphets-AssetPrices, using the same parsing,
+// validation and diff as the admin Price Import page. Bars already stored with the same
+// values are skipped; bars that differ are only replaced with --overwrite.
+//
+//   npm run import-prices -- data/aapl.csv --ticker AAPL   # file without a ticker column
+//   npm run import-prices -- prices/*.csv --dry-run        # show the diff, write nothing
+//   npm run import-prices -- all.csv --overwrite           # also replace changed bars
+//   npm run import-prices -- all.csv --skip-invalid        # import despite rows that fail validation
+//
+// Point AWS_ENDPOINT_URL at DynamoDB Local (e.g. http://localhost:8000) to run it offline.
+
+const REGION = process.env.AWS_REGION || "us-east-1";
+const repository = createDynamoRepository(DynamoDBDocumentClient.from(new DynamoDBClient({ region: REGION })));
+
+const MAX_ISSUES_PRINTED = 20;
+const FLAGS_WITH_VALUES = ["--ticker"];
+
+function argValue(flag: string): string | undefined {
+  const idx = process.argv.indexOf(flag);
+  return idx >= 0 ? process.argv[idx + 1] : undefined;
+}
+
+function fileArgs(): string[] {
+  const args = process.argv.slice(2);
+  return args.filter((arg, i) => !arg.startsWith("--") && !FLAGS_WITH_VALUES.includes(args[i - 1]));
+}
+
+async function importPrices() {
+  const files = fileArgs();
+  const ticker = argValue("--ticker");
+  const dryRun = process.argv.includes("--dry-run");
+  const overwrite = process.argv.includes("--overwrite");
+  const skipInvalid = process.argv.includes("--skip-invalid");
+
+  if (!files.length) {
+    console.error("Usage: npm run import-prices -- <file.csv>... [--ticker T] [--overwrite] [--skip-invalid] [--dry-run]");
+    process.exit(1);
+  }
+
+  // Rows from every file are pooled so the same bar in two files is caught as a duplicate too.
+  const rows: PriceData[] = [];
+  const seen = new Map<string, string>();
+  let invalid = 0;
+  for (const file of files) {
+    const parsed = parsePriceCsv(await readFile(file, "utf8"), { defaultTicker: ticker });
+    const name = basename(file);
+    if (parsed.ignoredColumns.length) console.log(`${name}: ignoring column(s) ${parsed.ignoredColumns.join(", ")}`);
+    parsed.errors.slice(0, MAX_ISSUES_PRINTED).forEach(issue => {
+      console.warn(`${name}${issue.line ? `:${issue.line}` : ""}: ${issue.message}`);
+    });
+    if (parsed.errors.length > MAX_ISSUES_PRINTED) {
+      console.warn(`${name}: ...and ${parsed.errors.length - MAX_ISSUES_PRINTED} more problem(s)`);
+    }
+    invalid += parsed.errors.length;
+
+    for (const row of parsed.rows) {
+      const key = `${row.ticker}|${row.date}`;
+      const other = seen.get(key);
+      if (other) {
+        console.warn(`${name}: ${row.ticker} ${row.date} already read from ${other}; keeping the first`);
+        invalid++;
+        continue;
+      }
+      seen.set(key, name);
+      rows.push(row);
+    }
+  }
+
+  if (invalid && !skipInvalid) {
+    console.error(`${invalid} problem(s) found; fix the file(s) or pass --skip-invalid to import the valid rows only`);
+    process.exit(1);
+  }
+
+  const previews = await buildImportPreview(rows, repository);
+  for (const preview of previews) {
+    console.log(
+      `${preview.ticker.padEnd(8)} ${preview.interval.padEnd(3)} ${preview.firstDate} → ${preview.lastDate}  ` +
+      `new ${preview.added.length}, changed ${preview.changed.length}, unchanged ${preview.unchanged}` +
+      (preview.knownAsset ? "" : "  (not in ChasingProphets-Assets)")
+    );
+    for (const { row, previous } of preview.changed.slice(0, 5)) {
+      console.log(`    ${row.date}: close ${previous.close} -> ${row.close}`);
+    }
+  }
+
+  const toWrite = rowsToWrite(previews, overwrite);
+  const skippedChanges = overwrite ? 0 : previews.reduce((sum, p) => sum + p.changed.length, 0);
+  if (skippedChanges) console.log(`Leaving ${skippedChanges} changed bar(s) as stored (pass --overwrite to replace them)`);
+  if (!toWrite.length) {
+    console.log("Nothing to write");
+    return;
+  }
+  if (dryRun) {
+    console.log(`Would write ${toWrite.length} bar(s)`);
+    return;
+  }
+
+  await repository.prices.putPrices(toWrite);
+  console.log(`Wrote ${toWrite.length} bar(s)`);
+}
+
+importPrices().catch(err => {
+  console.error("Price import failed:", err);
+  process.exit(1);
+});
@@ -90,6 +90,17 @@ setup_cognito() {
     
     print_status "User Pool created with ID: $USER_POOL_ID"
 
+    # Optional TOTP MFA, enrolled per user from the Settings page
+    aws cognito-idp set-user-pool-mfa-config \
+        --user-pool-id $USER_POOL_ID \
+        --software-token-mfa-configuration Enabled=true \
+        --mfa-configuration OPTIONAL > /dev/null
+
+    if [ $? -ne 0 ]; then
+        print_status "Failed to enable optional MFA" "error"
+        exit 1
+    fi
+
     # Create App Client
     print_status "Creating Cognito App Client..." "info"
     CLIENT_ID=$(aws cognito-idp create-user-pool-client \
@@ -161,6 +172,30 @@ setup_cognito() {
         exit 1
     fi
 
+    # Role groups (see src/lib/permissions.ts); users in no group are treated as viewers
+    print_status "Creating role groups..." "info"
+    for group in admin analyst viewer; do
+        aws cognito-idp create-group \
+            --user-pool-id $USER_POOL_ID \
+            --group-name $group \
+            --description "ChasingProphets $group role" > /dev/null
+
+        if [ $? -ne 0 ]; then
+            print_status "Failed to create group $group" "error"
+            exit 1
+        fi
+    done
+
+    aws cognito-idp admin-add-user-to-group \
+        --user-pool-id $USER_POOL_ID \
+        --username admin@chasingprophets.local \
+        --group-name admin
+
+    aws cognito-idp admin-add-user-to-group \
+        --user-pool-id $USER_POOL_ID \
+        --username user \
+        --group-name analyst
+
     # Update .env file
     print_status "Updating .env file with Cognito configuration..." "info"
     
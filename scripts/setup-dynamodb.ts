@@ -9,6 +9,8 @@ import {
   ResourceNotFoundException,
   BatchWriteItemCommand
 } from "@aws-sdk/client-dynamodb";
+import { batchWriteItems as batchWrite } from "../src/lib/batchWrite";
+import { isTradingDay } from "../src/lib/tradingCalendar";
 
 const REGION = process.env.AWS_REGION || "us-east-1";
 const client = new DynamoDBClient({ region: REGION });
@@ -18,6 +20,13 @@ const TABLES = {
   PRICES: "ChasingProphets-AssetPrices", // Stores historical price data
   USERS: "ChasingProphets-Users"
   ,NOTIFICATIONS: "ChasingProphets-Notifications"
+  ,FORECASTS: "ChasingProphets-Forecasts" // Stores prophet forecasts per ticker
+  ,WATCHLISTS: "ChasingProphets-Watchlists" // Stores per-user ticker watchlists
+  ,ALERT_RULES: "ChasingProphets-AlertRules" // Stores per-user price alert rules
+  ,APP_SETTINGS: "ChasingProphets-AppSettings" // Stores admin-managed platform settings
+  ,PORTFOLIO_TRANSACTIONS: "ChasingProphets-PortfolioTransactions" // Stores per-user portfolio ledgers
+  ,CORPORATE_ACTIONS: "ChasingProphets-CorporateActions" // Stores splits and dividends per ticker
+  ,INTRADAY_PRICES: "ChasingProphets-IntradayPrices" // Stores intraday bars per ticker and interval
 };
 
 // Sample data
@@ -63,9 +72,8 @@ function generateStockData(ticker: string, market: string, startPrice: number, s
 
   let prevClose = startPrice;
   for (let d = startDate; d <= endDate; d = new Date(d.getTime() + msPerDay)) {
-    // skip weekends: typical markets closed on Sat/Sun
-    const day = d.getUTCDay();
-    if (day === 0 || day === 6) continue;
+    // NYSE sessions only: no weekends or exchange holidays
+    if (!isTradingDay(d.toISOString())) continue;
 
     // daily return sampled from normal approx using Box-Muller
     const u1 = rand();
@@ -102,6 +110,59 @@ function generateStockData(ticker: string, market: string, startPrice: number, s
   return data;
 }
 
+// Prophet forecast profiles: each prophet has its own bias and noise (per sqrt(horizon) session)
+const PROPHETS = [
+  { key: "timeSage", bias: 0.002, noise: 0.010 },
+  { key: "trendOracle", bias: 0.0005, noise: 0.008 },
+  { key: "marketMind", bias: -0.001, noise: 0.013 },
+  { key: "quantumPredictor", bias: 0.001, noise: 0.011 }
+];
+const FORECAST_HORIZONS = [1, 5];
+const FORECAST_SESSIONS = 252; // forecasts are generated for the last year of history
+
+// Build forecast items from generated price items: every prophet issues a forecast
+// `horizon` sessions ahead, scattered around the realised close with a 90% interval.
+function generateForecasts(ticker: string, priceItems: any[], seed = 7) {
+  const rand = seededRandom(seed + ticker.length);
+  const bars = priceItems.map(p => ({ date: p.PutRequest.Item.date.S as string, close: Number(p.PutRequest.Item.close.N) }));
+  const data: any[] = [];
+  const start = Math.max(0, bars.length - FORECAST_SESSIONS);
+
+  for (const prophet of PROPHETS) {
+    for (const horizon of FORECAST_HORIZONS) {
+      for (let i = Math.max(start, horizon); i < bars.length; i++) {
+        const issue = bars[i - horizon];
+        const target = bars[i];
+        const u1 = rand();
+        const u2 = rand();
+        const z = Math.sqrt(-2 * Math.log(u1 || 1e-9)) * Math.cos(2 * Math.PI * u2);
+        const spread = prophet.noise * Math.sqrt(horizon);
+        const value = target.close * (1 + prophet.bias * horizon + spread * z);
+        const halfWidth = value * spread * 1.645;
+
+        data.push({
+          PutRequest: {
+            Item: {
+              prophetTicker: { S: `${prophet.key}#${ticker}` },
+              targetKey: { S: `${target.date}#${issue.date}` },
+              prophet: { S: prophet.key },
+              ticker: { S: ticker },
+              issueDate: { S: issue.date },
+              targetDate: { S: target.date },
+              horizon: { N: horizon.toString() },
+              value: { N: value.toFixed(2) },
+              lower: { N: (value - halfWidth).toFixed(2) },
+              upper: { N: (value + halfWidth).toFixed(2) }
+            }
+          }
+        });
+      }
+    }
+  }
+
+  return data;
+}
+
 const sampleStocks = [
   { ticker: 'AAPL', name: 'Apple Inc.', description: 'Consumer electronics and services', market: 'TECH', lastPrice: 175 },
   { ticker: 'MSFT', name: 'Microsoft Corporation', description: 'Software and cloud', market: 'TECH', lastPrice: 330 },
@@ -145,7 +206,21 @@ async function createNotificationsTable() {
     ],
     AttributeDefinitions: [
       { AttributeName: "userId", AttributeType: "S" as const },
-      { AttributeName: "notificationId", AttributeType: "S" as const }
+      { AttributeName: "notificationId", AttributeType: "S" as const },
+      { AttributeName: "createdAt", AttributeType: "S" as const }
+    ],
+    // Lets the notification center page through a user's inbox newest first
+    GlobalSecondaryIndexes: [
+      {
+        IndexName: "UserCreatedIndex",
+        KeySchema: [
+          { AttributeName: "userId", KeyType: "HASH" as const },
+          { AttributeName: "createdAt", KeyType: "RANGE" as const }
+        ],
+        Projection: {
+          ProjectionType: "ALL" as const
+        }
+      }
     ],
     BillingMode: "PAY_PER_REQUEST" as const
   };
@@ -162,6 +237,201 @@ async function createNotificationsTable() {
   }
 }
 
+async function createForecastsTable() {
+  const params = {
+    TableName: TABLES.FORECASTS,
+    KeySchema: [
+      { AttributeName: "prophetTicker", KeyType: "HASH" as const },
+      { AttributeName: "targetKey", KeyType: "RANGE" as const }
+    ],
+    AttributeDefinitions: [
+      { AttributeName: "prophetTicker", AttributeType: "S" as const },
+      { AttributeName: "targetKey", AttributeType: "S" as const },
+      { AttributeName: "ticker", AttributeType: "S" as const },
+      { AttributeName: "targetDate", AttributeType: "S" as const }
+    ],
+    GlobalSecondaryIndexes: [
+      {
+        IndexName: "TickerTargetIndex",
+        KeySchema: [
+          { AttributeName: "ticker", KeyType: "HASH" as const },
+          { AttributeName: "targetDate", KeyType: "RANGE" as const }
+        ],
+        Projection: {
+          ProjectionType: "ALL" as const
+        }
+      }
+    ],
+    BillingMode: "PAY_PER_REQUEST" as const
+  };
+
+  try {
+    await client.send(new CreateTableCommand(params));
+    console.log(`Created table: ${TABLES.FORECASTS}`);
+  } catch (err) {
+    if (err instanceof ResourceInUseException) {
+      console.log(`Table ${TABLES.FORECASTS} already exists`);
+    } else {
+      throw err;
+    }
+  }
+}
+
+async function createWatchlistsTable() {
+  const params = {
+    TableName: TABLES.WATCHLISTS,
+    KeySchema: [
+      { AttributeName: "userId", KeyType: "HASH" as const },
+      { AttributeName: "watchlistId", KeyType: "RANGE" as const }
+    ],
+    AttributeDefinitions: [
+      { AttributeName: "userId", AttributeType: "S" as const },
+      { AttributeName: "watchlistId", AttributeType: "S" as const }
+    ],
+    BillingMode: "PAY_PER_REQUEST" as const
+  };
+
+  try {
+    await client.send(new CreateTableCommand(params));
+    console.log(`Created table: ${TABLES.WATCHLISTS}`);
+  } catch (err) {
+    if (err instanceof ResourceInUseException) {
+      console.log(`Table ${TABLES.WATCHLISTS} already exists`);
+    } else {
+      throw err;
+    }
+  }
+}
+
+async function createAlertRulesTable() {
+  const params = {
+    TableName: TABLES.ALERT_RULES,
+    KeySchema: [
+      { AttributeName: "userId", KeyType: "HASH" as const },
+      { AttributeName: "ruleId", KeyType: "RANGE" as const }
+    ],
+    AttributeDefinitions: [
+      { AttributeName: "userId", AttributeType: "S" as const },
+      { AttributeName: "ruleId", AttributeType: "S" as const }
+    ],
+    BillingMode: "PAY_PER_REQUEST" as const
+  };
+
+  try {
+    await client.send(new CreateTableCommand(params));
+    console.log(`Created table: ${TABLES.ALERT_RULES}`);
+  } catch (err) {
+    if (err instanceof ResourceInUseException) {
+      console.log(`Table ${TABLES.ALERT_RULES} already exists`);
+    } else {
+      throw err;
+    }
+  }
+}
+
+async function createAppSettingsTable() {
+  const params = {
+    TableName: TABLES.APP_SETTINGS,
+    KeySchema: [
+      { AttributeName: "settingKey", KeyType: "HASH" as const }
+    ],
+    AttributeDefinitions: [
+      { AttributeName: "settingKey", AttributeType: "S" as const }
+    ],
+    BillingMode: "PAY_PER_REQUEST" as const
+  };
+
+  try {
+    await client.send(new CreateTableCommand(params));
+    console.log(`Created table: ${TABLES.APP_SETTINGS}`);
+  } catch (err) {
+    if (err instanceof ResourceInUseException) {
+      console.log(`Table ${TABLES.APP_SETTINGS} already exists`);
+    } else {
+      throw err;
+    }
+  }
+}
+
+async function createPortfolioTransactionsTable() {
+  const params = {
+    TableName: TABLES.PORTFOLIO_TRANSACTIONS,
+    KeySchema: [
+      { AttributeName: "userId", KeyType: "HASH" as const },
+      { AttributeName: "transactionId", KeyType: "RANGE" as const }
+    ],
+    AttributeDefinitions: [
+      { AttributeName: "userId", AttributeType: "S" as const },
+      { AttributeName: "transactionId", AttributeType: "S" as const }
+    ],
+    BillingMode: "PAY_PER_REQUEST" as const
+  };
+
+  try {
+    await client.send(new CreateTableCommand(params));
+    console.log(`Created table: ${TABLES.PORTFOLIO_TRANSACTIONS}`);
+  } catch (err) {
+    if (err instanceof ResourceInUseException) {
+      console.log(`Table ${TABLES.PORTFOLIO_TRANSACTIONS} already exists`);
+    } else {
+      throw err;
+    }
+  }
+}
+
+async function createCorporateActionsTable() {
+  const params = {
+    TableName: TABLES.CORPORATE_ACTIONS,
+    KeySchema: [
+      { AttributeName: "ticker", KeyType: "HASH" as const },
+      { AttributeName: "actionKey", KeyType: "RANGE" as const }
+    ],
+    AttributeDefinitions: [
+      { AttributeName: "ticker", AttributeType: "S" as const },
+      { AttributeName: "actionKey", AttributeType: "S" as const }
+    ],
+    BillingMode: "PAY_PER_REQUEST" as const
+  };
+
+  try {
+    await client.send(new CreateTableCommand(params));
+    console.log(`Created table: ${TABLES.CORPORATE_ACTIONS}`);
+  } catch (err) {
+    if (err instanceof ResourceInUseException) {
+      console.log(`Table ${TABLES.CORPORATE_ACTIONS} already exists`);
+    } else {
+      throw err;
+    }
+  }
+}
+
+// Partition key is "<ticker>#<interval>" (e.g. "AAPL#5m"), so each interval is its own series
+async function createIntradayPricesTable() {
+  const params = {
+    TableName: TABLES.INTRADAY_PRICES,
+    KeySchema: [
+      { AttributeName: "series", KeyType: "HASH" as const },
+      { AttributeName: "date", KeyType: "RANGE" as const }
+    ],
+    AttributeDefinitions: [
+      { AttributeName: "series", AttributeType: "S" as const },
+      { AttributeName: "date", AttributeType: "S" as const }
+    ],
+    BillingMode: "PAY_PER_REQUEST" as const
+  };
+
+  try {
+    await client.send(new CreateTableCommand(params));
+    console.log(`Created table: ${TABLES.INTRADAY_PRICES}`);
+  } catch (err) {
+    if (err instanceof ResourceInUseException) {
+      console.log(`Table ${TABLES.INTRADAY_PRICES} already exists`);
+    } else {
+      throw err;
+    }
+  }
+}
+
 async function createUsersTable() {
   const params = {
     TableName: TABLES.USERS,
@@ -275,6 +545,10 @@ async function insertSampleData() {
       const priceData = generateStockData(stock.ticker, stock.market, stock.lastPrice, 1000 + idx);
       console.log(`Writing ${priceData.length} price items to ${TABLES.PRICES}`);
       await batchWriteItems(TABLES.PRICES, priceData);
+
+      const forecasts = generateForecasts(stock.ticker, priceData, 3000 + idx);
+      console.log(`Writing ${forecasts.length} forecast items to ${TABLES.FORECASTS}`);
+      await batchWriteItems(TABLES.FORECASTS, forecasts);
       console.log(`Inserted data for ${stock.ticker}`);
     } catch (err) {
       console.error(`Failed inserting data for ${stock.ticker}:`, err);
@@ -291,6 +565,7 @@ async function insertSampleData() {
           userId: { S: "user@chasingprophets.local" },
           notificationId: { S: "notif-user-1" },
           message: { S: "Welcome to ChasingProphets! Check out the dashboard." },
+          category: { S: "system" },
           checked: { BOOL: false },
           createdAt: { S: new Date().toISOString() }
         }
@@ -302,6 +577,8 @@ async function insertSampleData() {
           userId: { S: "user@chasingprophets.local" },
           notificationId: { S: "notif-user-2" },
           message: { S: "New analysis available for AAPL." },
+          category: { S: "analysis" },
+          ticker: { S: "AAPL" },
           checked: { BOOL: false },
           createdAt: { S: new Date().toISOString() }
         }
@@ -313,6 +590,7 @@ async function insertSampleData() {
           userId: { S: "user@chasingprophets.local" },
           notificationId: { S: "notif-user-3" },
           message: { S: "Old notification (read)." },
+          category: { S: "system" },
           checked: { BOOL: true },
           createdAt: { S: new Date().toISOString() }
         }
@@ -324,6 +602,7 @@ async function insertSampleData() {
           userId: { S: "admin@chasingprophets.local" },
           notificationId: { S: "notif-admin-1" },
           message: { S: "Admin: project stats are available." },
+          category: { S: "system" },
           checked: { BOOL: false },
           createdAt: { S: new Date().toISOString() }
         }
@@ -338,6 +617,7 @@ async function insertSampleData() {
           userId: { S: "user" },
           notificationId: { S: "notif-user-1-username" },
           message: { S: "Welcome to ChasingProphets! Check out the dashboard." },
+          category: { S: "system" },
           checked: { BOOL: false },
           createdAt: { S: new Date().toISOString() }
         }
@@ -349,6 +629,8 @@ async function insertSampleData() {
           userId: { S: "user" },
           notificationId: { S: "notif-user-2-username" },
           message: { S: "New analysis available for AAPL." },
+          category: { S: "analysis" },
+          ticker: { S: "AAPL" },
           checked: { BOOL: false },
           createdAt: { S: new Date().toISOString() }
         }
@@ -360,6 +642,7 @@ async function insertSampleData() {
           userId: { S: "user" },
           notificationId: { S: "notif-user-3-username-read" },
           message: { S: "Old note for user (read)." },
+          category: { S: "system" },
           checked: { BOOL: true },
           createdAt: { S: new Date().toISOString() }
         }
@@ -371,6 +654,7 @@ async function insertSampleData() {
           userId: { S: "admin@chasingprophets.local" },
           notificationId: { S: "notif-admin-1-username" },
           message: { S: "Admin: project stats are available." },
+          category: { S: "system" },
           checked: { BOOL: false },
           createdAt: { S: new Date().toISOString() }
         }
@@ -382,6 +666,7 @@ async function insertSampleData() {
           userId: { S: "admin@chasingprophets.local" },
           notificationId: { S: "notif-admin-2-username-read" },
           message: { S: "Admin: old notice (read)." },
+          category: { S: "system" },
           checked: { BOOL: true },
           createdAt: { S: new Date().toISOString() }
         }
@@ -397,33 +682,54 @@ async function insertSampleData() {
     console.error('Failed inserting notifications:', err);
     throw err;
   }
-}
 
-// Batch write helper with retries for UnprocessedItems
-async function batchWriteItems(tableName: string, requests: any[]) {
-  const BATCH_SIZE = 25;
-  for (let i = 0; i < requests.length; i += BATCH_SIZE) {
-    const batch = requests.slice(i, i + BATCH_SIZE);
-    let requestItems: any = { [tableName]: batch };
-    let attempts = 0;
-    while (Object.keys(requestItems).length > 0 && attempts < 8) {
-      const command = new BatchWriteItemCommand({ RequestItems: requestItems });
-      const resp = await client.send(command);
-      if (resp.UnprocessedItems && Object.keys(resp.UnprocessedItems).length) {
-        requestItems = resp.UnprocessedItems;
-        attempts++;
-        const backoff = Math.min(500 * 2 ** attempts, 10000);
-        await new Promise(r => setTimeout(r, backoff));
-      } else {
-        requestItems = {};
+  // Sample alert rules so `npm run evaluate-alerts` has something to evaluate
+  const alertRules = [
+    {
+      PutRequest: {
+        Item: {
+          userId: { S: "admin" },
+          ruleId: { S: "rule-sample-move" },
+          ticker: { S: "AAPL" },
+          condition: { M: { kind: { S: "percentMove" }, percent: { N: "1" }, days: { N: "1" }, direction: { S: "either" } } },
+          enabled: { BOOL: true },
+          createdAt: { S: new Date().toISOString() }
+        }
+      }
+    },
+    {
+      PutRequest: {
+        Item: {
+          userId: { S: "admin" },
+          ruleId: { S: "rule-sample-divergence" },
+          ticker: { S: "MSFT" },
+          condition: { M: { kind: { S: "forecastDivergence" }, prophet: { S: "timeSage" }, percent: { N: "0.5" }, horizon: { N: "5" } } },
+          enabled: { BOOL: true },
+          createdAt: { S: new Date().toISOString() }
+        }
       }
     }
-    if (Object.keys(requestItems).length) {
-      console.warn(`Unprocessed items remained for table ${tableName} after retries`);
-    }
+  ];
+
+  try {
+    console.log(`Writing ${alertRules.length} alert rules to ${TABLES.ALERT_RULES}`);
+    await batchWriteItems(TABLES.ALERT_RULES, alertRules);
+    console.log("Inserted sample alert rules");
+  } catch (err) {
+    console.error('Failed inserting alert rules:', err);
+    throw err;
   }
 }
 
+// Batch write helper with retries for UnprocessedItems (shared with the price importer)
+function batchWriteItems(tableName: string, requests: any[]) {
+  return batchWrite<any>(
+    async requestItems => (await client.send(new BatchWriteItemCommand({ RequestItems: requestItems }))).UnprocessedItems,
+    tableName,
+    requests
+  );
+}
+
 async function listAllTables(): Promise<string[]> {
   const tables: string[] = [];
   
@@ -499,6 +805,20 @@ async function setup(reset = false) {
     await createPricesTable();
   // create notifications table
   await createNotificationsTable();
+  // create forecasts table
+  await createForecastsTable();
+  // create watchlists table
+  await createWatchlistsTable();
+  // create alert rules table
+  await createAlertRulesTable();
+  // create app settings table
+  await createAppSettingsTable();
+  // create portfolio transactions table
+  await createPortfolioTransactionsTable();
+  // create corporate actions table
+  await createCorporateActionsTable();
+  // create intraday prices table
+  await createIntradayPricesTable();
     // Wait for last table
     console.log("Waiting for Prices table to be ready...");
     await new Promise(resolve => setTimeout(resolve, 10000));
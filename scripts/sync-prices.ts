@@ -0,0 +1,102 @@
+import { readFile } from "node:fs/promises";
+import { join } from "node:path";
+import { DynamoDBClient } from "@aws-sdk/client-dynamodb";
+import { DynamoDBDocumentClient } from "@aws-sdk/lib-dynamodb";
+import { createDynamoRepository } from "../src/services/repository/dynamo";
+import { TABLES } from "../src/types/assets";
+import { createProvider } from "../src/lib/marketData";
+import { addCalendarDays, describeGaps, missingSessions } from "../src/lib/tradingCalendar";
+
+// Brings ChasingProphets-AssetPrices up to date from an end-of-day provider. For each asset
+// only bars after its latest stored date are fetched; the asset's lastPrice/lastUpdated are
+// moved to the newest close and NYSE sessions without a bar are logged. Safe to schedule.
+//
+//   npm run sync-prices -- --provider local --dir fixtures/prices   # <dir>/<TICKER>.csv
+//   npm run sync-prices -- --provider stooq --ticker AAPL --ticker MSFT
+//   npm run sync-prices -- --provider alphavantage --dry-run        # needs ALPHAVANTAGE_API_KEY
+//   npm run sync-prices -- --since 2024-01-01                       # start for tickers with no bars yet
+//
+// Point AWS_ENDPOINT_URL at DynamoDB Local (e.g. http://localhost:8000) to run it offline.
+
+const REGION = process.env.AWS_REGION || "us-east-1";
+const repository = createDynamoRepository(DynamoDBDocumentClient.from(new DynamoDBClient({ region: REGION })));
+
+// History requested for a ticker that has no stored bars and no --since.
+const DEFAULT_HISTORY_DAYS = 365;
+
+function argValue(flag: string): string | undefined {
+  const idx = process.argv.indexOf(flag);
+  return idx >= 0 ? process.argv[idx + 1] : undefined;
+}
+
+function argValues(flag: string): string[] {
+  return process.argv.flatMap((arg, i) => (arg === flag && process.argv[i + 1] ? [process.argv[i + 1]] : []));
+}
+
+async function syncPrices() {
+  const providerName = argValue("--provider") || process.env.PRICE_PROVIDER || "local";
+  const dir = argValue("--dir") || process.env.PRICE_FIXTURES_DIR;
+  const since = argValue("--since");
+  const dryRun = process.argv.includes("--dry-run");
+  const today = new Date().toISOString().slice(0, 10);
+
+  const provider = createProvider(providerName, {
+    readTickerFile: dir
+      ? ticker => readFile(join(dir, `${ticker}.csv`), "utf8").catch(err => (err.code === "ENOENT" ? null : Promise.reject(err)))
+      : undefined,
+    apiKey: process.env.ALPHAVANTAGE_API_KEY,
+    stooqSuffix: process.env.STOOQ_SUFFIX,
+    today
+  });
+
+  const requested = argValues("--ticker").map(t => t.trim().toUpperCase());
+  const assets = await repository.assets.getAllAssets();
+  const known = new Set(assets.map(a => a.ticker));
+  requested.filter(t => !known.has(t)).forEach(t => console.warn(`${t}: not in ${TABLES.ASSETS}; skipping`));
+  const tickers = (requested.length ? requested.filter(t => known.has(t)) : Array.from(known)).sort();
+
+  console.log(`Syncing ${tickers.length} ticker(s) from ${provider.name}${dryRun ? " (dry run)" : ""}`);
+  let written = 0;
+  let failed = 0;
+  for (const ticker of tickers) {
+    try {
+      const latest = await repository.prices.latestPriceDate(ticker);
+      const startDate = latest ? addCalendarDays(latest, 1) : since || addCalendarDays(today, -DEFAULT_HISTORY_DAYS);
+      if (startDate > today) {
+        console.log(`${ticker.padEnd(8)} up to date (${latest})`);
+        continue;
+      }
+
+      const bars = await provider.fetchDaily(ticker, startDate, today);
+      if (!bars.length) {
+        console.log(`${ticker.padEnd(8)} nothing new since ${latest ?? startDate}`);
+        continue;
+      }
+
+      const last = bars[bars.length - 1];
+      console.log(`${ticker.padEnd(8)} ${bars[0].date} → ${last.date}  ${bars.length} new bar(s), last close ${last.close}`);
+      // Only between bars we have: days after the newest fetched bar may simply not be published yet
+      const gaps = missingSessions(bars.map(b => b.date), latest ? startDate : bars[0].date, last.date);
+      if (gaps.length) console.warn(`${ticker.padEnd(8)} no bar on ${describeGaps(gaps).join(", ")}`);
+
+      if (dryRun) continue;
+      await repository.prices.putPrices(bars);
+      await repository.assets.updateAssetPrice(ticker, last.close, last.date);
+      written += bars.length;
+    } catch (err) {
+      failed++;
+      console.error(`${ticker.padEnd(8)} sync failed:`, err instanceof Error ? err.message : err);
+    }
+  }
+
+  console.log(dryRun ? "Dry run: nothing written" : `Wrote ${written} bar(s)`);
+  if (failed) {
+    console.error(`${failed} ticker(s) failed`);
+    process.exit(1);
+  }
+}
+
+syncPrices().catch(err => {
+  console.error("Price sync failed:", err);
+  process.exit(1);
+});
@@ -0,0 +1,120 @@
+import { generateKeyPairSync, sign, KeyObject } from 'node:crypto';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createCognitoVerifier } from './auth';
+
+const REGION = 'us-east-1';
+const POOL_ID = 'us-east-1_TestPool';
+const CLIENT_ID = 'test-client';
+const ISSUER = `https://cognito-idp.${REGION}.amazonaws.com/${POOL_ID}`;
+
+const poolKey = generateKeyPairSync('rsa', { modulusLength: 2048 });
+const strangerKey = generateKeyPairSync('rsa', { modulusLength: 2048 });
+
+function segment(value: object): string {
+  return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
+
+function token(claims: Record<string, unknown>, { key = poolKey.privateKey, kid = 'pool-key' }: { key?: KeyObject; kid?: string } = {}): string {
+  const signed = `${segment({ alg: 'RS256', kid })}.${segment(claims)}`;
+  return `${signed}.${sign('RSA-SHA256', Buffer.from(signed), key).toString('base64url')}`;
+}
+
+function idClaims(overrides: Record<string, unknown> = {}): Record<string, unknown> {
+  return {
+    iss: ISSUER,
+    aud: CLIENT_ID,
+    token_use: 'id',
+    exp: Math.floor(Date.now() / 1000) + 3600,
+    'cognito:username': 'ann',
+    'cognito:groups': ['analyst'],
+    email: 'ann@example.com',
+    email_verified: true,
+    ...overrides
+  };
+}
+
+describe('createCognitoVerifier', () => {
+  const fetchJwks = vi.fn(async () => Response.json({
+    keys: [{ ...poolKey.publicKey.export({ format: 'jwk' }), kid: 'pool-key', alg: 'RS256', use: 'sig' }]
+  }));
+  let verifyToken: ReturnType<typeof createCognitoVerifier>;
+
+  beforeEach(() => {
+    fetchJwks.mockClear();
+    vi.stubGlobal('fetch', fetchJwks);
+    verifyToken = createCognitoVerifier({ region: REGION, userPoolId: POOL_ID, clientId: CLIENT_ID });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('accepts ID and access tokens from the pool and caches its keys', async () => {
+    await expect(verifyToken(token(idClaims()))).resolves.toEqual({
+      username: 'ann',
+      email: 'ann@example.com',
+      groups: ['analyst'],
+      role: 'analyst'
+    });
+    const access = token({ iss: ISSUER, client_id: CLIENT_ID, token_use: 'access', exp: Math.floor(Date.now() / 1000) + 60, username: 'bob' });
+    await expect(verifyToken(access)).resolves.toEqual({ username: 'bob', email: undefined, groups: [], role: 'viewer' });
+    expect(fetchJwks).toHaveBeenCalledTimes(1);
+    expect(fetchJwks).toHaveBeenCalledWith(`${ISSUER}/.well-known/jwks.json`);
+  });
+
+  it('drops an email the user has not verified', async () => {
+    expect((await verifyToken(token(idClaims({ email_verified: 'true' })))).email).toBe('ann@example.com');
+    expect((await verifyToken(token(idClaims({ email_verified: false })))).email).toBeUndefined();
+    expect((await verifyToken(token(idClaims({ email_verified: 'false' })))).email).toBeUndefined();
+    expect((await verifyToken(token(idClaims({ email_verified: undefined })))).email).toBeUndefined();
+  });
+
+  it('rejects a signature made with another key', async () => {
+    await expect(verifyToken(token(idClaims(), { key: strangerKey.privateKey })))
+      .rejects.toMatchObject({ status: 401, message: 'Invalid token signature' });
+  });
+
+  it('rejects claims changed after signing', async () => {
+    const [header, , signature] = token(idClaims()).split('.');
+    await expect(verifyToken(`${header}.${segment(idClaims({ 'cognito:groups': ['admin'] }))}.${signature}`))
+      .rejects.toMatchObject({ status: 401, message: 'Invalid token signature' });
+  });
+
+  it('refetches the keys once for an unknown kid', async () => {
+    await verifyToken(token(idClaims()));
+    await expect(verifyToken(token(idClaims(), { key: strangerKey.privateKey, kid: 'stranger' })))
+      .rejects.toMatchObject({ status: 401, message: 'Unknown token signing key' });
+    expect(fetchJwks).toHaveBeenCalledTimes(2);
+  });
+
+  it('rejects tokens from another pool or for another client', async () => {
+    await expect(verifyToken(token(idClaims({ iss: `https://cognito-idp.${REGION}.amazonaws.com/us-east-1_Other` }))))
+      .rejects.toMatchObject({ status: 401, message: 'Token issued by another user pool' });
+    await expect(verifyToken(token(idClaims({ aud: 'other-client' }))))
+      .rejects.toMatchObject({ status: 401, message: 'Token issued for another client' });
+  });
+
+  it('reads the audience from the claim its token_use carries', async () => {
+    // An access token names its client in client_id; `aud` alone doesn't count.
+    await expect(verifyToken(token(idClaims({ token_use: 'access' }))))
+      .rejects.toMatchObject({ status: 401, message: 'Token issued for another client' });
+    await expect(verifyToken(token(idClaims({ token_use: 'refresh' }))))
+      .rejects.toMatchObject({ status: 401, message: 'Token issued for another client' });
+  });
+
+  it('rejects expired tokens beyond the clock skew allowance', async () => {
+    const now = Math.floor(Date.now() / 1000);
+    await expect(verifyToken(token(idClaims({ exp: now - 30 })))).resolves.toMatchObject({ username: 'ann' });
+    await expect(verifyToken(token(idClaims({ exp: now - 120 }))))
+      .rejects.toMatchObject({ status: 401, message: 'Token expired' });
+    await expect(verifyToken(token(idClaims({ exp: undefined }))))
+      .rejects.toMatchObject({ status: 401, message: 'Token expired' });
+  });
+
+  it('rejects malformed tokens and other algorithms', async () => {
+    await expect(verifyToken('not-a-token')).rejects.toMatchObject({ status: 401, message: 'Malformed token' });
+    const [, payload, signature] = token(idClaims()).split('.');
+    await expect(verifyToken(`${segment({ alg: 'none', kid: 'pool-key' })}.${payload}.${signature}`))
+      .rejects.toMatchObject({ status: 401, message: 'Unsupported token algorithm' });
+  });
+});
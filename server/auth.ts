@@ -0,0 +1,98 @@
+import { createPublicKey, verify, JsonWebKey, KeyObject } from 'node:crypto';
+import { HttpError } from './http';
+import { Role, roleFromGroups } from '../src/lib/permissions';
+
+// Verifies Cognito-issued JWTs against the user pool's published signing keys. Uses only
+// node:crypto: RS256 signature, issuer, audience/client id, token_use and expiry.
+
+export interface AuthUser {
+  username: string;
+  email?: string;   // only once the user has verified it
+  groups: string[];
+  role: Role;
+}
+
+export interface CognitoConfig {
+  region: string;
+  userPoolId: string;
+  clientId: string;
+}
+
+interface JwtHeader {
+  kid?: string;
+  alg?: string;
+}
+
+interface CognitoClaims {
+  iss?: string;
+  aud?: string;
+  client_id?: string;
+  token_use?: 'id' | 'access';
+  exp?: number;
+  email?: string;
+  email_verified?: boolean | 'true' | 'false';
+  username?: string;
+  'cognito:username'?: string;
+  'cognito:groups'?: string[];
+}
+
+// Tolerates small clock drift between this host and Cognito.
+const CLOCK_SKEW_SECONDS = 60;
+
+function decodeSegment<T>(segment: string): T {
+  try {
+    return JSON.parse(Buffer.from(segment, 'base64url').toString('utf8')) as T;
+  } catch {
+    throw new HttpError(401, 'Malformed token');
+  }
+}
+
+export function createCognitoVerifier({ region, userPoolId, clientId }: CognitoConfig) {
+  const issuer = `https://cognito-idp.${region}.amazonaws.com/${userPoolId}`;
+  let keys: Map<string, KeyObject> | null = null;
+
+  // Cognito rotates keys rarely; an unknown kid triggers one refetch before giving up.
+  async function signingKey(kid: string): Promise<KeyObject> {
+    if (!keys?.has(kid)) {
+      const response = await fetch(`${issuer}/.well-known/jwks.json`);
+      if (!response.ok) throw new Error(`Failed to fetch Cognito JWKS (${response.status})`);
+      const { keys: jwks } = (await response.json()) as { keys: (JsonWebKey & { kid: string })[] };
+      keys = new Map(jwks.map(jwk => [jwk.kid, createPublicKey({ key: jwk, format: 'jwk' })]));
+    }
+    const key = keys.get(kid);
+    if (!key) throw new HttpError(401, 'Unknown token signing key');
+    return key;
+  }
+
+  return async function verifyToken(token: string): Promise<AuthUser> {
+    const parts = token.split('.');
+    if (parts.length !== 3) throw new HttpError(401, 'Malformed token');
+    const [headerPart, payloadPart, signaturePart] = parts;
+
+    const header = decodeSegment<JwtHeader>(headerPart);
+    if (header.alg !== 'RS256' || !header.kid) throw new HttpError(401, 'Unsupported token algorithm');
+
+    const valid = verify(
+      'RSA-SHA256',
+      Buffer.from(`${headerPart}.${payloadPart}`),
+      await signingKey(header.kid),
+      Buffer.from(signaturePart, 'base64url')
+    );
+    if (!valid) throw new HttpError(401, 'Invalid token signature');
+
+    const claims = decodeSegment<CognitoClaims>(payloadPart);
+    if (claims.iss !== issuer) throw new HttpError(401, 'Token issued by another user pool');
+    // ID tokens carry the app client in `aud`, access tokens in `client_id`.
+    const audience = claims.token_use === 'id' ? claims.aud : claims.token_use === 'access' ? claims.client_id : undefined;
+    if (audience !== clientId) throw new HttpError(401, 'Token issued for another client');
+    if (!claims.exp || claims.exp + CLOCK_SKEW_SECONDS < Date.now() / 1000) throw new HttpError(401, 'Token expired');
+
+    const username = claims['cognito:username'] || claims.username;
+    if (!username) throw new HttpError(401, 'Token has no username');
+    const groups = claims['cognito:groups'] || [];
+    // Users can change their email without confirming it, so an unverified address is no identity.
+    // ID tokens send the flag as a boolean; some pool configurations send it as a string.
+    const emailVerified = claims.email_verified === true || claims.email_verified === 'true';
+    return { username, email: emailVerified ? claims.email : undefined, groups, role: roleFromGroups(groups) };
+  };
+}
@@ -0,0 +1,17 @@
+import { describe, expect, it } from 'vitest';
+import { createRouter } from './http';
+
+describe('createRouter', () => {
+  const handler = async () => undefined;
+  const router = createRouter();
+  router.add('GET', '/api/assets/:ticker', handler);
+
+  it('decodes path parameters', () => {
+    expect(router.match('GET', '/api/assets/BRK%2EB')?.params).toEqual({ ticker: 'BRK.B' });
+  });
+
+  it('treats a malformed escape as no match', () => {
+    expect(router.match('GET', '/api/assets/%E0')).toBeNull();
+    expect(router.allowsPath('/api/assets/%E0')).toBe(false);
+  });
+});
@@ -0,0 +1,159 @@
+import { IncomingMessage, RequestListener, ServerResponse } from 'node:http';
+import type { AuthUser } from './auth';
+
+// Minimal routing on top of node:http. The API surface is small enough that a framework
+// would only add a dependency the browser bundle doesn't otherwise need.
+
+const MAX_BODY_BYTES = 1024 * 1024;
+
+// Thrown by handlers to end the request with a specific status; anything else becomes a 500.
+export class HttpError extends Error {
+  constructor(public readonly status: number, message: string) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+export interface RequestContext {
+  params: Record<string, string>;
+  query: URLSearchParams;
+  body: unknown;
+  user: AuthUser;
+}
+
+// A handler's return value is sent as JSON; `undefined` becomes 204 No Content.
+export type Handler = (ctx: RequestContext) => Promise<unknown>;
+
+interface Route {
+  method: string;
+  pattern: RegExp;
+  keys: string[];
+  handler: Handler;
+}
+
+export interface Router {
+  add(method: string, path: string, handler: Handler): void;
+  match(method: string, pathname: string): { handler: Handler; params: Record<string, string> } | null;
+  allowsPath(pathname: string): boolean;
+}
+
+// Decoded `:name` parameters when `pathname` matches the route, otherwise null. A malformed
+// escape (e.g. `%E0`) can't name anything, so the route doesn't match.
+function paramsFor(route: Route, pathname: string): Record<string, string> | null {
+  const found = route.pattern.exec(pathname);
+  if (!found) return null;
+  const params: Record<string, string> = {};
+  try {
+    route.keys.forEach((key, i) => {
+      params[key] = decodeURIComponent(found[i + 1]);
+    });
+  } catch {
+    return null;
+  }
+  return params;
+}
+
+// Paths use `:name` segments, e.g. `/api/assets/:ticker/prices`.
+export function createRouter(): Router {
+  const routes: Route[] = [];
+
+  return {
+    add(method, path, handler) {
+      const keys: string[] = [];
+      const source = path.replace(/:(\w+)/g, (_, key: string) => {
+        keys.push(key);
+        return '([^/]+)';
+      });
+      routes.push({ method, pattern: new RegExp(`^${source}/?$`), keys, handler });
+    },
+
+    match(method, pathname) {
+      for (const route of routes) {
+        if (route.method !== method) continue;
+        const params = paramsFor(route, pathname);
+        if (params) return { handler: route.handler, params };
+      }
+      return null;
+    },
+
+    allowsPath(pathname) {
+      return routes.some(route => paramsFor(route, pathname) !== null);
+    }
+  };
+}
+
+export async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_BODY_BYTES) throw new HttpError(413, 'Request body too large');
+    chunks.push(chunk as Buffer);
+  }
+  if (!chunks.length) return undefined;
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  } catch {
+    throw new HttpError(400, 'Request body must be valid JSON');
+  }
+}
+
+export function sendJson(res: ServerResponse, status: number, payload?: unknown) {
+  if (payload === undefined) {
+    res.writeHead(status === 200 ? 204 : status);
+    res.end();
+    return;
+  }
+  res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8' });
+  res.end(JSON.stringify(payload));
+}
+
+export interface ListenerOptions {
+  corsOrigin: string;
+  // Resolves the caller from the Authorization header or throws a 401 HttpError.
+  authenticate: (authorization: string | undefined) => Promise<AuthUser>;
+  publicPaths?: string[];
+}
+
+// Serves `router` with CORS headers, authenticating every path not listed in `publicPaths`.
+export function createRequestListener(router: Router, { corsOrigin, authenticate, publicPaths = [] }: ListenerOptions): RequestListener {
+  return async (req, res) => {
+    res.setHeader('Access-Control-Allow-Origin', corsOrigin);
+    res.setHeader('Access-Control-Allow-Headers', 'Authorization, Content-Type');
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PUT, PATCH, DELETE, OPTIONS');
+    res.setHeader('Vary', 'Origin');
+
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204);
+      res.end();
+      return;
+    }
+
+    const url = new URL(req.url || '/', `http://${req.headers.host || 'localhost'}`);
+    const method = req.method || 'GET';
+
+    try {
+      const matched = router.match(method, url.pathname);
+      if (!matched) {
+        throw router.allowsPath(url.pathname)
+          ? new HttpError(405, `${method} not allowed on ${url.pathname}`)
+          : new HttpError(404, `No route for ${url.pathname}`);
+      }
+
+      const user: AuthUser = publicPaths.includes(url.pathname)
+        ? { username: '', groups: [], role: 'viewer' }
+        : await authenticate(req.headers.authorization);
+      const body = method === 'GET' ? undefined : await readJsonBody(req);
+
+      const result = await matched.handler({ params: matched.params, query: url.searchParams, body, user });
+      sendJson(res, 200, result);
+    } catch (error) {
+      if (error instanceof HttpError) {
+        sendJson(res, error.status, { error: error.message });
+        return;
+      }
+      console.error(`Error handling ${method} ${url.pathname}:`, error);
+      sendJson(res, 500, { error: 'Internal server error' });
+    }
+  };
+}
@@ -0,0 +1,59 @@
+import { createServer } from 'node:http';
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient } from '@aws-sdk/lib-dynamodb';
+import { createDynamoRepository } from '../src/services/repository/dynamo';
+import { roleFromGroups } from '../src/lib/permissions';
+import { AuthUser, createCognitoVerifier } from './auth';
+import { createRequestListener, createRouter, HttpError } from './http';
+import { registerRoutes } from './routes';
+
+// HTTP API in front of DynamoDB so AWS credentials stay on the server. The browser uses it
+// when built with VITE_API_URL (see src/services/repository/api.ts).
+//
+//   npm run api                                            # against AWS
+//   AWS_ENDPOINT_URL=http://localhost:8000 npm run api     # against DynamoDB Local
+//   API_DEV_USER=admin npm run api                         # skip Cognito, act as "admin" (local only)
+//   API_DEV_USER=bob API_DEV_GROUPS=viewer npm run api     # ...or as a viewer
+
+const PORT = Number(process.env.API_PORT || 8787);
+const REGION = process.env.AWS_REGION || 'us-east-1';
+const CORS_ORIGIN = process.env.API_CORS_ORIGIN || 'http://localhost:5173';
+const DEV_USER = process.env.API_DEV_USER;
+
+const userPoolId = process.env.COGNITO_USER_POOL_ID || process.env.VITE_COGNITO_USER_POOL_ID || '';
+const clientId = process.env.COGNITO_CLIENT_ID || process.env.VITE_COGNITO_CLIENT_ID || '';
+
+if (!DEV_USER && (!userPoolId || !clientId)) {
+  console.error('COGNITO_USER_POOL_ID and COGNITO_CLIENT_ID are required (or set API_DEV_USER for local development)');
+  process.exit(1);
+}
+
+const ddb = DynamoDBDocumentClient.from(new DynamoDBClient({ region: REGION }));
+const repository = createDynamoRepository(ddb);
+const verifyToken = createCognitoVerifier({ region: REGION, userPoolId, clientId });
+
+const router = createRouter();
+router.add('GET', '/api/health', async () => ({ status: 'ok' }));
+registerRoutes(router, repository);
+
+async function authenticate(authorization: string | undefined): Promise<AuthUser> {
+  if (DEV_USER) {
+    const groups = (process.env.API_DEV_GROUPS || 'admin').split(',').map(g => g.trim()).filter(Boolean);
+    return { username: DEV_USER, email: process.env.API_DEV_EMAIL, groups, role: roleFromGroups(groups) };
+  }
+  const token = authorization?.match(/^Bearer (.+)$/)?.[1];
+  if (!token) throw new HttpError(401, 'Missing bearer token');
+  return verifyToken(token);
+}
+
+const server = createServer(createRequestListener(router, {
+  corsOrigin: CORS_ORIGIN,
+  authenticate,
+  publicPaths: ['/api/health']
+}));
+
+server.listen(PORT, () => {
+  console.log(`API listening on http://localhost:${PORT}`);
+  if (DEV_USER) console.warn(`API_DEV_USER is set: Cognito verification is disabled and every request acts as "${DEV_USER}"`);
+  if (process.env.AWS_ENDPOINT_URL) console.log(`Using DynamoDB endpoint ${process.env.AWS_ENDPOINT_URL}`);
+});
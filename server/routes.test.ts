@@ -0,0 +1,84 @@
+import { createServer, Server } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { createLocalRepository } from '../src/services/repository/local';
+import { roleFromGroups } from '../src/lib/permissions';
+import { AuthUser } from './auth';
+import { createRequestListener, createRouter, HttpError } from './http';
+import { registerRoutes } from './routes';
+
+// The bearer token is simply the caller's username; the local repository keeps per-user data
+// in localStorage, stubbed here with a Map.
+const USERS: Record<string, AuthUser> = {
+  ann: { username: 'ann', email: 'ann@example.com', groups: ['analyst'], role: roleFromGroups(['analyst']) },
+  bob: { username: 'bob', groups: [], role: roleFromGroups([]) }
+};
+
+async function authenticate(authorization: string | undefined): Promise<AuthUser> {
+  const user = USERS[authorization?.match(/^Bearer (.+)$/)?.[1] ?? ''];
+  if (!user) throw new HttpError(401, 'Missing bearer token');
+  return user;
+}
+
+describe('registerRoutes', () => {
+  let server: Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    const storage = new Map<string, string>();
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => storage.get(key) ?? null,
+      setItem: (key: string, value: string) => storage.set(key, value)
+    });
+    const router = createRouter();
+    router.add('GET', '/api/health', async () => ({ status: 'ok' }));
+    registerRoutes(router, createLocalRepository());
+    server = createServer(createRequestListener(router, { corsOrigin: '*', authenticate, publicPaths: ['/api/health'] }));
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+    vi.unstubAllGlobals();
+  });
+
+  async function call(method: string, path: string, { as, body }: { as?: string; body?: unknown } = {}) {
+    const response = await fetch(baseUrl + path, {
+      method,
+      headers: { ...(as && { Authorization: `Bearer ${as}` }), ...(body !== undefined && { 'Content-Type': 'application/json' }) },
+      body: body === undefined ? undefined : JSON.stringify(body)
+    });
+    return { status: response.status, body: response.status === 204 ? undefined : await response.json() };
+  }
+
+  it('answers 401 without a valid token, except on public paths', async () => {
+    expect(await call('GET', '/api/alerts')).toEqual({ status: 401, body: { error: 'Missing bearer token' } });
+    expect(await call('GET', '/api/alerts', { as: 'mallory' })).toMatchObject({ status: 401 });
+    expect(await call('GET', '/api/health')).toEqual({ status: 200, body: { status: 'ok' } });
+  });
+
+  it("answers 403 when the caller's role lacks the permission", async () => {
+    const rule = { ticker: 'ACME', condition: { kind: 'priceCross', level: 100, direction: 'above' } };
+    expect(await call('POST', '/api/alerts', { as: 'bob', body: rule }))
+      .toEqual({ status: 403, body: { error: 'Role viewer lacks alerts:manage' } });
+    expect(await call('POST', '/api/prices/import', { as: 'ann', body: { prices: [] } }))
+      .toEqual({ status: 403, body: { error: 'Role analyst lacks data:import' } });
+    expect(await call('POST', '/api/alerts', { as: 'ann', body: rule })).toMatchObject({ status: 200, body: { userId: 'ann', ticker: 'ACME' } });
+  });
+
+  it("answers 403 for another user's notifications", async () => {
+    expect(await call('GET', '/api/notifications/ann/unread', { as: 'ann' })).toEqual({ status: 200, body: [] });
+    expect(await call('GET', '/api/notifications/ann@example.com/unread', { as: 'ann' })).toMatchObject({ status: 200 });
+    expect(await call('GET', '/api/notifications/ann/unread', { as: 'bob' }))
+      .toEqual({ status: 403, body: { error: "Cannot access another user's notifications" } });
+    expect(await call('GET', '/api/notifications/ann@example.com', { as: 'bob' })).toMatchObject({ status: 403 });
+    expect(await call('PATCH', '/api/notifications/ann/n-1', { as: 'bob', body: { checked: true } })).toMatchObject({ status: 403 });
+  });
+
+  it("scopes per-user lists to the caller's username", async () => {
+    await call('POST', '/api/alerts', { as: 'ann', body: { ticker: 'ACME', condition: { kind: 'priceCross', level: 90, direction: 'below' } } });
+    expect((await call('GET', '/api/alerts', { as: 'ann' })).body.length).toBeGreaterThan(0);
+    expect(await call('GET', '/api/alerts', { as: 'bob' })).toEqual({ status: 200, body: [] });
+  });
+});
@@ -0,0 +1,352 @@
+import { DataRepository } from '../src/services/repository/types';
+import { NOTIFICATION_CATEGORIES, NotificationCategory, NotificationStatus } from '../src/types/notification';
+import { buildWatchlist, normalizeTicker } from '../src/lib/watchlists';
+import { hasPermission, Permission } from '../src/lib/permissions';
+import { parseSessionPolicy } from '../src/lib/sessionPolicy';
+import { validatePriceRow } from '../src/lib/priceImport';
+import { actionKey, validateCorporateAction } from '../src/lib/corporateActions';
+import { buildAlertRule, validateAlertCondition } from '../src/lib/alerts';
+import { buildTransaction, ledgerIssue, validateTransaction } from '../src/lib/portfolio';
+import { TransactionInput } from '../src/types/portfolio';
+import { CorporateAction } from '../src/types/corporateAction';
+import { PriceData, PriceInterval, PRICE_INTERVALS, PROPHET_KEYS, ProphetKey } from '../src/types/price';
+import { AuthUser } from './auth';
+import { HttpError, RequestContext, Router } from './http';
+
+// Route table for the API. Everything under /api except /api/health requires a verified
+// Cognito token and the permission src/lib/permissions.ts grants the caller's role;
+// per-user data is only ever read or written for the caller's own ids.
+
+const NOTIFICATION_STATUSES: NotificationStatus[] = ['all', 'read', 'unread'];
+const MAX_PAGE_SIZE = 100;
+const MAX_IMPORT_ROWS = 5000;
+const MAX_LATEST_BARS = 1000;
+
+function intParam(query: URLSearchParams, name: string, fallback: number, max: number): number {
+  const raw = query.get(name);
+  if (raw === null) return fallback;
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < 1) throw new HttpError(400, `${name} must be a positive integer`);
+  return Math.min(value, max);
+}
+
+function bodyOf(ctx: RequestContext): Record<string, unknown> {
+  if (!ctx.body || typeof ctx.body !== 'object' || Array.isArray(ctx.body)) {
+    throw new HttpError(400, 'Expected a JSON object body');
+  }
+  return ctx.body as Record<string, unknown>;
+}
+
+function stringField(body: Record<string, unknown>, name: string): string {
+  const value = body[name];
+  if (typeof value !== 'string' || !value.trim()) throw new HttpError(400, `${name} is required`);
+  return value;
+}
+
+function requirePermission(user: AuthUser, permission: Permission) {
+  if (!hasPermission(user.role, permission)) {
+    throw new HttpError(403, `Role ${user.role} lacks ${permission}`);
+  }
+}
+
+// Notifications are keyed by Cognito username or email, so either identity may be requested;
+// `user.email` is only set for a verified address.
+function assertOwnsUserId(user: AuthUser, userId: string) {
+  if (userId !== user.username && userId !== user.email) {
+    throw new HttpError(403, 'Cannot access another user\'s notifications');
+  }
+}
+
+// Conditional updates fail with ConditionalCheckFailedException when the watchlist, alert rule
+// or asset doesn't exist; surface that as a 404 rather than a 500.
+async function orNotFound<T>(work: Promise<T>, message: string): Promise<T> {
+  try {
+    return await work;
+  } catch (error) {
+    if ((error as Error).name === 'ConditionalCheckFailedException') throw new HttpError(404, message);
+    throw error;
+  }
+}
+
+export function registerRoutes(router: Router, repository: DataRepository) {
+  // Assets, prices and search
+
+  router.add('GET', '/api/assets', async ({ query, user }) => {
+    requirePermission(user, 'assets:view');
+    const market = query.get('market');
+    return market ? repository.assets.getAssetsByMarket(market) : repository.assets.getAllAssets();
+  });
+
+  router.add('GET', '/api/assets/:ticker', async ({ params, user }) => {
+    requirePermission(user, 'assets:view');
+    const asset = await repository.assets.getAsset(params.ticker);
+    if (!asset) throw new HttpError(404, `Unknown asset ${params.ticker}`);
+    return asset;
+  });
+
+  router.add('PUT', '/api/assets/:ticker/price', async ctx => {
+    requirePermission(ctx.user, 'prices:update');
+    const body = bodyOf(ctx);
+    if (typeof body.lastPrice !== 'number' || !Number.isFinite(body.lastPrice)) {
+      throw new HttpError(400, 'lastPrice must be a number');
+    }
+    const lastUpdated = typeof body.lastUpdated === 'string' ? body.lastUpdated : undefined;
+    await orNotFound(
+      repository.assets.updateAssetPrice(ctx.params.ticker, body.lastPrice, lastUpdated),
+      `Unknown asset ${ctx.params.ticker}`
+    );
+  });
+
+  router.add('GET', '/api/assets/:ticker/prices', async ({ params, query, user }) => {
+    requirePermission(user, 'assets:view');
+    const interval = (query.get('interval') || '1d') as PriceInterval;
+    if (!PRICE_INTERVALS.includes(interval)) throw new HttpError(400, `Unknown interval ${interval}`);
+    if (query.get('latest') !== null) {
+      return repository.prices.getLatestPrices(params.ticker, intParam(query, 'latest', 1, MAX_LATEST_BARS), interval);
+    }
+    return repository.prices.getPrices(params.ticker, query.get('start') || undefined, query.get('end') || undefined, interval);
+  });
+
+  // Rows arrive already diffed by the client (src/lib/priceImport.ts) but are re-validated here.
+  // Prophet predictions on an overwritten bar are passed back so the put doesn't drop them.
+  router.add('POST', '/api/prices/import', async ctx => {
+    requirePermission(ctx.user, 'data:import');
+    const rows = bodyOf(ctx).prices;
+    if (!Array.isArray(rows) || !rows.length) throw new HttpError(400, 'prices must be a non-empty array');
+    if (rows.length > MAX_IMPORT_ROWS) throw new HttpError(400, `At most ${MAX_IMPORT_ROWS} rows per request`);
+
+    const seen = new Set<string>();
+    const prices: PriceData[] = rows.map((raw, index) => {
+      const item = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+      const row = validatePriceRow(item);
+      if (typeof row === 'string') throw new HttpError(400, `Row ${index + 1}: ${row}`);
+      // BatchWriteItem rejects a batch that names the same key twice
+      const key = `${row.ticker}|${row.interval ?? '1d'}|${row.date}`;
+      if (seen.has(key)) throw new HttpError(400, `Row ${index + 1}: duplicate ${row.ticker} ${row.interval ?? '1d'} ${row.date}`);
+      seen.add(key);
+      PROPHET_KEYS.forEach(key => {
+        if (typeof item[key] === 'number' && Number.isFinite(item[key])) row[key] = item[key] as number;
+      });
+      return row;
+    });
+    await repository.prices.putPrices(prices);
+    return { written: prices.length };
+  });
+
+  router.add('GET', '/api/assets/:ticker/corporate-actions', async ({ params, user }) => {
+    requirePermission(user, 'assets:view');
+    return repository.corporateActions.getActions(params.ticker);
+  });
+
+  router.add('POST', '/api/corporate-actions/import', async ctx => {
+    requirePermission(ctx.user, 'data:import');
+    const rows = bodyOf(ctx).actions;
+    if (!Array.isArray(rows) || !rows.length) throw new HttpError(400, 'actions must be a non-empty array');
+    if (rows.length > MAX_IMPORT_ROWS) throw new HttpError(400, `At most ${MAX_IMPORT_ROWS} rows per request`);
+
+    const seen = new Set<string>();
+    const actions: CorporateAction[] = rows.map((raw, index) => {
+      const action = validateCorporateAction((raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>);
+      if (typeof action === 'string') throw new HttpError(400, `Row ${index + 1}: ${action}`);
+      const key = `${action.ticker}|${actionKey(action)}`;
+      if (seen.has(key)) throw new HttpError(400, `Row ${index + 1}: duplicate ${action.ticker} ${action.type} ${action.date}`);
+      seen.add(key);
+      return action;
+    });
+    await repository.corporateActions.putActions(actions);
+    return { written: actions.length };
+  });
+
+  router.add('GET', '/api/assets/:ticker/forecasts', async ({ params, query, user }) => {
+    requirePermission(user, 'assets:view');
+    const prophet = (query.get('prophet') || undefined) as ProphetKey | undefined;
+    if (prophet && !PROPHET_KEYS.includes(prophet)) throw new HttpError(400, `Unknown prophet ${prophet}`);
+    const horizon = query.get('horizon') === null ? undefined : intParam(query, 'horizon', 1, Number.MAX_SAFE_INTEGER);
+    return repository.forecasts.getForecasts(params.ticker, query.get('start') || undefined, query.get('end') || undefined, { prophet, horizon });
+  });
+
+  router.add('GET', '/api/search', async ({ query, user }) => {
+    requirePermission(user, 'assets:view');
+    const q = (query.get('q') || '').trim();
+    if (!q) return [];
+    return repository.assets.search(q, intParam(query, 'limit', 10, 50));
+  });
+
+  // Notifications
+
+  router.add('GET', '/api/notifications/:userId/unread', async ({ params, user }) => {
+    assertOwnsUserId(user, params.userId);
+    return repository.notifications.getUnread(params.userId);
+  });
+
+  router.add('GET', '/api/notifications/:userId', async ({ params, query, user }) => {
+    assertOwnsUserId(user, params.userId);
+
+    const status = (query.get('status') || 'all') as NotificationStatus;
+    if (!NOTIFICATION_STATUSES.includes(status)) throw new HttpError(400, `Unknown status ${status}`);
+    const category = (query.get('category') || undefined) as NotificationCategory | undefined;
+    if (category && !NOTIFICATION_CATEGORIES.includes(category)) throw new HttpError(400, `Unknown category ${category}`);
+
+    let startKey: Record<string, unknown> | undefined;
+    const rawStartKey = query.get('startKey');
+    if (rawStartKey) {
+      try {
+        startKey = JSON.parse(rawStartKey) as Record<string, unknown>;
+      } catch {
+        throw new HttpError(400, 'startKey must be JSON');
+      }
+      if (startKey?.userId !== params.userId) throw new HttpError(400, 'startKey belongs to another user');
+    }
+
+    return repository.notifications.query(params.userId, {
+      status,
+      category,
+      limit: intParam(query, 'limit', 20, MAX_PAGE_SIZE),
+      startKey
+    });
+  });
+
+  router.add('PATCH', '/api/notifications/:userId/:notificationId', async ctx => {
+    assertOwnsUserId(ctx.user, ctx.params.userId);
+    const body = bodyOf(ctx);
+    if (typeof body.checked !== 'boolean') throw new HttpError(400, 'checked must be a boolean');
+    await repository.notifications.setChecked(ctx.params.userId, ctx.params.notificationId, body.checked);
+  });
+
+  // Watchlists, always scoped to the caller's username
+
+  router.add('GET', '/api/watchlists', async ({ user }) => {
+    requirePermission(user, 'watchlists:manage');
+    return repository.watchlists.list(user.username);
+  });
+
+  router.add('POST', '/api/watchlists', async ctx => {
+    requirePermission(ctx.user, 'watchlists:manage');
+    const body = bodyOf(ctx);
+    const name = typeof body.name === 'string' ? body.name : '';
+    const tickers = Array.isArray(body.tickers) ? body.tickers.filter((t): t is string => typeof t === 'string') : [];
+    return repository.watchlists.create(buildWatchlist(ctx.user.username, name, tickers));
+  });
+
+  router.add('PATCH', '/api/watchlists/:watchlistId', async ctx => {
+    requirePermission(ctx.user, 'watchlists:manage');
+    const name = stringField(bodyOf(ctx), 'name').trim();
+    await orNotFound(
+      repository.watchlists.rename(ctx.user.username, ctx.params.watchlistId, name),
+      `Watchlist ${ctx.params.watchlistId} not found`
+    );
+  });
+
+  router.add('DELETE', '/api/watchlists/:watchlistId', async ({ params, user }) => {
+    requirePermission(user, 'watchlists:manage');
+    await repository.watchlists.remove(user.username, params.watchlistId);
+  });
+
+  router.add('POST', '/api/watchlists/:watchlistId/tickers', async ctx => {
+    requirePermission(ctx.user, 'watchlists:manage');
+    const ticker = normalizeTicker(stringField(bodyOf(ctx), 'ticker'));
+    await orNotFound(
+      repository.watchlists.addTicker(ctx.user.username, ctx.params.watchlistId, ticker),
+      `Watchlist ${ctx.params.watchlistId} not found`
+    );
+  });
+
+  router.add('DELETE', '/api/watchlists/:watchlistId/tickers/:ticker', async ({ params, user }) => {
+    requirePermission(user, 'watchlists:manage');
+    await orNotFound(
+      repository.watchlists.removeTicker(user.username, params.watchlistId, normalizeTicker(params.ticker)),
+      `Watchlist ${params.watchlistId} not found`
+    );
+  });
+
+  // Alert rules, always scoped to the caller's username. Anyone signed in can see their own
+  // rules; creating and changing them needs alerts:manage.
+
+  router.add('GET', '/api/alerts', async ({ user }) => {
+    requirePermission(user, 'assets:view');
+    return repository.alerts.list(user.username);
+  });
+
+  router.add('POST', '/api/alerts', async ctx => {
+    requirePermission(ctx.user, 'alerts:manage');
+    const body = bodyOf(ctx);
+    const ticker = normalizeTicker(stringField(body, 'ticker'));
+    const raw = body.condition;
+    const condition = validateAlertCondition((raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>);
+    if (typeof condition === 'string') throw new HttpError(400, condition);
+    return repository.alerts.create(buildAlertRule(ctx.user.username, ticker, condition));
+  });
+
+  router.add('PATCH', '/api/alerts/:ruleId', async ctx => {
+    requirePermission(ctx.user, 'alerts:manage');
+    const body = bodyOf(ctx);
+    if (typeof body.enabled !== 'boolean') throw new HttpError(400, 'enabled must be a boolean');
+    await orNotFound(
+      repository.alerts.setEnabled(ctx.user.username, ctx.params.ruleId, body.enabled),
+      `Alert rule ${ctx.params.ruleId} not found`
+    );
+  });
+
+  router.add('DELETE', '/api/alerts/:ruleId', async ({ params, user }) => {
+    requirePermission(user, 'alerts:manage');
+    await repository.alerts.remove(user.username, params.ruleId);
+  });
+
+  // Portfolio ledger, always the caller's own. Additions and removals are rejected when they
+  // would leave a sell short of shares, so the stored ledger always replays cleanly.
+
+  router.add('GET', '/api/portfolio/transactions', async ({ user }) => {
+    requirePermission(user, 'portfolio:manage');
+    return repository.portfolios.listTransactions(user.username);
+  });
+
+  router.add('POST', '/api/portfolio/transactions', async ctx => {
+    requirePermission(ctx.user, 'portfolio:manage');
+    const rows = bodyOf(ctx).transactions;
+    if (!Array.isArray(rows) || !rows.length) throw new HttpError(400, 'transactions must be a non-empty array');
+    if (rows.length > MAX_IMPORT_ROWS) throw new HttpError(400, `At most ${MAX_IMPORT_ROWS} transactions per request`);
+
+    const inputs: TransactionInput[] = rows.map((raw, index) => {
+      const tx = validateTransaction((raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>);
+      if (typeof tx === 'string') throw new HttpError(400, `Transaction ${index + 1}: ${tx}`);
+      return tx;
+    });
+    const existing = await repository.portfolios.listTransactions(ctx.user.username);
+    const added = inputs.map(input => buildTransaction(ctx.user.username, input));
+    const issue = ledgerIssue([...existing, ...added]);
+    if (issue) throw new HttpError(400, issue);
+    await repository.portfolios.addTransactions(added);
+    return { written: added.length };
+  });
+
+  router.add('DELETE', '/api/portfolio/transactions/:transactionId', async ({ params, user }) => {
+    requirePermission(user, 'portfolio:manage');
+    const existing = await repository.portfolios.listTransactions(user.username);
+    const issue = ledgerIssue(existing.filter(tx => tx.transactionId !== params.transactionId));
+    if (issue) throw new HttpError(400, `Removing this transaction would break the ledger: ${issue}`);
+    await repository.portfolios.removeTransaction(user.username, params.transactionId);
+  });
+
+  // Platform settings: everyone signed in reads the session policy, only admins change it
+
+  router.add('GET', '/api/settings/session', async () => {
+    const policy = await repository.settings.getSessionPolicy();
+    if (!policy) throw new HttpError(404, 'No session policy saved');
+    return policy;
+  });
+
+  router.add('PUT', '/api/settings/session', async ctx => {
+    requirePermission(ctx.user, 'settings:manage');
+    let fields;
+    try {
+      fields = parseSessionPolicy(bodyOf(ctx));
+    } catch (error) {
+      throw new HttpError(400, (error as Error).message);
+    }
+    await repository.settings.saveSessionPolicy({
+      ...fields,
+      updatedAt: new Date().toISOString(),
+      updatedBy: ctx.user.username
+    });
+  });
+}
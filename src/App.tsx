@@ -5,8 +5,16 @@ import Dashboard from "./pages/Dashboard";
 import Assets from "./pages/Assets";
 import AssetPage from "./pages/AssetPage";
 import Settings from "./pages/Settings";
+import ProphetLeaderboard from "./pages/ProphetLeaderboard";
+import Notifications from "./pages/Notifications";
+import DataImport from "./pages/DataImport";
+import Compare from "./pages/Compare";
+import Correlations from "./pages/Correlations";
+import Portfolio from "./pages/Portfolio";
 import LoginPage from "./pages/auth/LoginPage";
 import Layout from "./components/layout/Layout";
+import RequirePermission from "./components/auth/RequirePermission";
+import { RedirectAfterLogin, RedirectToLogin } from "./components/auth/LoginRedirects";
 import { AuthProvider } from "./context/AuthContext";
 import { ThemeProvider } from "./context/ThemeContext";
 
@@ -21,29 +29,43 @@ export default function App() {
 }
 
 function AppRoutes() {
-  const { isAuthenticated, user } = useAuth();
+  const { isAuthenticated } = useAuth();
 
   if (!isAuthenticated) {
     return (
       <Routes>
         <Route path="/login" element={<LoginPage />} />
-        <Route path="*" element={<Navigate to="/login" replace />} />
+        <Route path="*" element={<RedirectToLogin />} />
       </Routes>
     );
   }
 
   return (
     <Routes>
-      <Route path="/login" element={<Navigate to="/dashboard" replace />} />
+      <Route path="/login" element={<RedirectAfterLogin />} />
       <Route element={<Layout />}>
         <Route path="/dashboard" element={<Dashboard />} />
         <Route path="/assets" element={
-          user?.role === 'admin' ? <Assets /> : <Navigate to="/dashboard" />
+          <RequirePermission permission="assets:view"><Assets /></RequirePermission>
         } />
         <Route path="/assets/:ticker" element={
-          user?.role === 'admin' ? <AssetPage /> : <Navigate to="/dashboard" />
+          <RequirePermission permission="assets:view"><AssetPage /></RequirePermission>
         } />
+        <Route path="/compare" element={
+          <RequirePermission permission="assets:view"><Compare /></RequirePermission>
+        } />
+        <Route path="/correlations" element={
+          <RequirePermission permission="assets:view"><Correlations /></RequirePermission>
+        } />
+        <Route path="/portfolio" element={
+          <RequirePermission permission="portfolio:manage"><Portfolio /></RequirePermission>
+        } />
+        <Route path="/prophets" element={<ProphetLeaderboard />} />
+        <Route path="/notifications" element={<Notifications />} />
         <Route path="/settings" element={<Settings />} />
+        <Route path="/admin/import" element={
+          <RequirePermission permission="data:import"><DataImport /></RequirePermission>
+        } />
         <Route path="/" element={<Navigate to="/dashboard" replace />} />
         <Route path="*" element={<Navigate to="/dashboard" replace />} />
       </Route>
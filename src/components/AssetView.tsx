@@ -4,34 +4,9 @@ import { PriceData } from '../types/price';
 import { Data } from 'plotly.js';
 import StockChart from './chart/StockChart';
 import { ProphetControls } from './ProphetControls';
+import { rsiSeries, macdSeries, stochasticSeries, lastValue } from '../lib/indicators';
 import './AssetView.css';
 
-// Technical indicators
-const calculateRSI = (prices: number[], periods = 14) => {
-  let gains = 0;
-  let losses = 0;
-  
-  for (let i = 1; i < periods + 1; i++) {
-    const difference = prices[i] - prices[i - 1];
-    if (difference >= 0) {
-      gains += difference;
-    } else {
-      losses -= difference;
-    }
-  }
-  
-  const avgGain = gains / periods;
-  const avgLoss = losses / periods;
-  const rs = avgGain / avgLoss;
-  return 100 - (100 / (1 + rs));
-};
-
-const calculateVolatility = (prices: number[], mean: number) => {
-  const squaredDiffs = prices.map(price => Math.pow(price - mean, 2));
-  const variance = squaredDiffs.reduce((a, b) => a + b) / prices.length;
-  return Math.sqrt(variance);
-};
-
 interface AssetViewProps {
   ticker: string;
 }
@@ -90,6 +65,11 @@ export default function AssetView({ ticker }: AssetViewProps) {
     ? ((currentPrice / previousPrice - 1) * 100)
     : null;
 
+  const closes = priceData.map(p => p.close);
+  const rsi = lastValue(rsiSeries(closes, 14));
+  const macdHist = lastValue(macdSeries(closes).histogram);
+  const stochK = lastValue(stochasticSeries(priceData.map(p => p.high), priceData.map(p => p.low), closes).k);
+
   // Transform price data for StockChart
   const chartData: Data[] = [{
     x: priceData.map(p => p.date),
@@ -178,15 +158,17 @@ export default function AssetView({ ticker }: AssetViewProps) {
           <div className="indicator-grid">
             <div className="indicator">
               <span className="indicator-label">RSI (14)</span>
-              <span className="indicator-value">65.4</span>
+              <span className="indicator-value">{rsi !== null ? rsi.toFixed(1) : 'N/A'}</span>
             </div>
             <div className="indicator">
               <span className="indicator-label">MACD</span>
-              <span className="indicator-value positive">+2.45</span>
+              <span className={`indicator-value ${macdHist !== null && macdHist >= 0 ? 'positive' : 'negative'}`}>
+                {macdHist !== null ? `${macdHist >= 0 ? '+' : ''}${macdHist.toFixed(2)}` : 'N/A'}
+              </span>
             </div>
             <div className="indicator">
               <span className="indicator-label">Stochastic</span>
-              <span className="indicator-value">78.2</span>
+              <span className="indicator-value">{stochK !== null ? stochK.toFixed(1) : 'N/A'}</span>
             </div>
           </div>
         </div>
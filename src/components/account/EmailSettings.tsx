@@ -0,0 +1,132 @@
+import React, { useState } from "react";
+import { resendEmailCode, updateEmail, verifyEmail } from "../../services/account";
+import { cognitoErrorMessage } from "../../services/cognito";
+
+interface EmailSettingsProps {
+  currentEmail: string;
+  emailVerified: boolean;
+  onChanged: () => void;
+}
+
+// Two steps: submit the new address (Cognito emails a code to it), then confirm the code.
+// An address left unverified from an earlier attempt starts directly at the code step.
+export default function EmailSettings({ currentEmail, emailVerified, onChanged }: EmailSettingsProps) {
+  const [email, setEmail] = useState("");
+  const [code, setCode] = useState("");
+  const [awaitingCode, setAwaitingCode] = useState(!emailVerified && !!currentEmail);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const run = async (work: () => Promise<void>) => {
+    setBusy(true);
+    setError(null);
+    setMessage(null);
+    try {
+      await work();
+    } catch (err) {
+      setError(cognitoErrorMessage(err));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSubmit = (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (awaitingCode) {
+      run(async () => {
+        await verifyEmail(code);
+        setAwaitingCode(false);
+        setCode("");
+        setMessage("Email address verified.");
+        onChanged();
+      });
+      return;
+    }
+    if (email.trim().toLowerCase() === currentEmail.toLowerCase()) {
+      setError("That is already your email address.");
+      return;
+    }
+    run(async () => {
+      await updateEmail(email);
+      setAwaitingCode(true);
+      setEmail("");
+      setMessage("We sent a verification code to the new address.");
+      onChanged();
+    });
+  };
+
+  return (
+    <form className="account-form" onSubmit={handleSubmit}>
+      <h3 className="account-form-title">
+        Email Address
+        {currentEmail && (
+          <span className={`account-badge ${emailVerified ? "ok" : "pending"}`}>
+            {emailVerified ? "Verified" : "Unverified"}
+          </span>
+        )}
+      </h3>
+      <p className="account-form-hint">Current: {currentEmail || "none on file"}</p>
+      {awaitingCode ? (
+        <label className="form-field" htmlFor="settings-email-code">
+          Verification Code
+          <input
+            id="settings-email-code"
+            inputMode="numeric"
+            autoComplete="one-time-code"
+            required
+            value={code}
+            onChange={event => setCode(event.target.value)}
+          />
+        </label>
+      ) : (
+        <label className="form-field" htmlFor="settings-email">
+          New Email Address
+          <input
+            id="settings-email"
+            type="email"
+            autoComplete="email"
+            placeholder="ops@chasingprophets.ai"
+            required
+            value={email}
+            onChange={event => setEmail(event.target.value)}
+          />
+        </label>
+      )}
+      {error && <p className="form-message error" role="alert">{error}</p>}
+      {message && <p className="form-message success">{message}</p>}
+      <div className="form-actions">
+        {awaitingCode && (
+          <>
+            <button
+              type="button"
+              className="secondary-button"
+              disabled={busy}
+              onClick={() => run(async () => {
+                await resendEmailCode();
+                setMessage("A new code is on its way.");
+              })}
+            >
+              Resend Code
+            </button>
+            <button
+              type="button"
+              className="secondary-button"
+              disabled={busy}
+              onClick={() => {
+                setAwaitingCode(false);
+                setError(null);
+                setMessage(null);
+              }}
+            >
+              Use Another Address
+            </button>
+          </>
+        )}
+        <button className="primary-button" type="submit" disabled={busy}>
+          {awaitingCode ? "Verify Email" : "Update Email"}
+        </button>
+      </div>
+    </form>
+  );
+}
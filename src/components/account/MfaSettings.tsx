@@ -0,0 +1,119 @@
+import React, { useState } from "react";
+import { QRCodeSVG } from "qrcode.react";
+import { beginTotpSetup, confirmTotpSetup, disableTotp } from "../../services/account";
+import { cognitoErrorMessage } from "../../services/cognito";
+
+interface MfaSettingsProps {
+  accountLabel: string;
+  enabled: boolean;
+  onChanged: () => void;
+}
+
+// TOTP enrolment: Cognito issues a secret, the user scans it as a QR code and proves the
+// app works with one code before MFA is switched on.
+export default function MfaSettings({ accountLabel, enabled, onChanged }: MfaSettingsProps) {
+  const [setup, setSetup] = useState<{ secret: string; uri: string } | null>(null);
+  const [code, setCode] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const run = async (work: () => Promise<void>) => {
+    setBusy(true);
+    setError(null);
+    setMessage(null);
+    try {
+      await work();
+    } catch (err) {
+      setError(cognitoErrorMessage(err));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleVerify = (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    run(async () => {
+      await confirmTotpSetup(code);
+      setSetup(null);
+      setCode("");
+      setMessage("Two-factor authentication is on. You'll be asked for a code at sign-in.");
+      onChanged();
+    });
+  };
+
+  return (
+    <form className="account-form" onSubmit={handleVerify}>
+      <h3 className="account-form-title">
+        Two-Factor Authentication
+        <span className={`account-badge ${enabled ? "ok" : "pending"}`}>{enabled ? "On" : "Off"}</span>
+      </h3>
+      <p className="account-form-hint">
+        Use an authenticator app (1Password, Google Authenticator, Authy) to generate sign-in codes.
+      </p>
+
+      {setup && (
+        <div className="mfa-setup">
+          <div className="mfa-qr">
+            <QRCodeSVG value={setup.uri} size={160} marginSize={2} />
+          </div>
+          <div className="mfa-steps">
+            <p>Scan the code with your authenticator app, or enter this key manually:</p>
+            <code className="mfa-secret">{setup.secret}</code>
+            <label className="form-field" htmlFor="settings-totp-code">
+              6-digit code from the app
+              <input
+                id="settings-totp-code"
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                pattern="[0-9]{6}"
+                maxLength={6}
+                required
+                value={code}
+                onChange={event => setCode(event.target.value)}
+              />
+            </label>
+          </div>
+        </div>
+      )}
+
+      {error && <p className="form-message error" role="alert">{error}</p>}
+      {message && <p className="form-message success">{message}</p>}
+
+      <div className="form-actions">
+        {setup ? (
+          <>
+            <button type="button" className="secondary-button" disabled={busy} onClick={() => setSetup(null)}>
+              Cancel
+            </button>
+            <button className="primary-button" type="submit" disabled={busy}>
+              Verify &amp; Enable
+            </button>
+          </>
+        ) : enabled ? (
+          <button
+            type="button"
+            className="secondary-button"
+            disabled={busy}
+            onClick={() => run(async () => {
+              await disableTotp();
+              setMessage("Two-factor authentication is off.");
+              onChanged();
+            })}
+          >
+            Disable
+          </button>
+        ) : (
+          <button
+            type="button"
+            className="primary-button"
+            disabled={busy}
+            onClick={() => run(async () => setSetup(await beginTotpSetup(accountLabel)))}
+          >
+            Set Up Authenticator
+          </button>
+        )}
+      </div>
+    </form>
+  );
+}
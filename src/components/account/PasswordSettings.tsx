@@ -0,0 +1,96 @@
+import React, { useState } from "react";
+import { changePassword } from "../../services/account";
+import { cognitoErrorMessage } from "../../services/cognito";
+
+// Change password; Cognito checks the current password itself and rejects with NotAuthorizedException.
+export default function PasswordSettings() {
+  const [currentPassword, setCurrentPassword] = useState("");
+  const [newPassword, setNewPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const reset = () => {
+    setCurrentPassword("");
+    setNewPassword("");
+    setConfirmPassword("");
+    setError(null);
+    setMessage(null);
+  };
+
+  const handleSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setMessage(null);
+    if (newPassword !== confirmPassword) {
+      setError("New passwords do not match.");
+      return;
+    }
+    if (newPassword === currentPassword) {
+      setError("Choose a password different from the current one.");
+      return;
+    }
+
+    setBusy(true);
+    setError(null);
+    try {
+      await changePassword(currentPassword, newPassword);
+      reset();
+      setMessage("Password updated.");
+    } catch (err) {
+      setError(cognitoErrorMessage(err));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <form className="account-form" onSubmit={handleSubmit}>
+      <h3 className="account-form-title">Password</h3>
+      <label className="form-field" htmlFor="settings-current-password">
+        Current Password
+        <input
+          id="settings-current-password"
+          type="password"
+          autoComplete="current-password"
+          required
+          value={currentPassword}
+          onChange={event => setCurrentPassword(event.target.value)}
+        />
+      </label>
+      <label className="form-field" htmlFor="settings-new-password">
+        New Password
+        <input
+          id="settings-new-password"
+          type="password"
+          autoComplete="new-password"
+          required
+          minLength={8}
+          value={newPassword}
+          onChange={event => setNewPassword(event.target.value)}
+        />
+      </label>
+      <label className="form-field" htmlFor="settings-confirm-password">
+        Confirm New Password
+        <input
+          id="settings-confirm-password"
+          type="password"
+          autoComplete="new-password"
+          required
+          value={confirmPassword}
+          onChange={event => setConfirmPassword(event.target.value)}
+        />
+      </label>
+      {error && <p className="form-message error" role="alert">{error}</p>}
+      {message && <p className="form-message success">{message}</p>}
+      <div className="form-actions">
+        <button type="button" className="secondary-button" onClick={reset} disabled={busy}>
+          Reset
+        </button>
+        <button className="primary-button" type="submit" disabled={busy}>
+          {busy ? "Updating…" : "Change Password"}
+        </button>
+      </div>
+    </form>
+  );
+}
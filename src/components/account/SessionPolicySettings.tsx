@@ -0,0 +1,83 @@
+import React, { useState } from "react";
+import { useAuth } from "../../context/AuthContext";
+import { saveSessionPolicy } from "../../services/appSettings";
+import { SESSION_POLICY_LIMITS } from "../../types/appSettings";
+
+// Admin-only: idle timeout applied to every signed-in user. Other sessions pick it up on their next sign-in.
+export default function SessionPolicySettings() {
+  const { user, sessionPolicy, refreshSessionPolicy } = useAuth();
+  const [idleTimeoutMinutes, setIdleTimeoutMinutes] = useState(String(sessionPolicy.idleTimeoutMinutes));
+  const [warningSeconds, setWarningSeconds] = useState(String(sessionPolicy.warningSeconds));
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const handleSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setBusy(true);
+    setError(null);
+    setMessage(null);
+    try {
+      await saveSessionPolicy(
+        { idleTimeoutMinutes: Number(idleTimeoutMinutes), warningSeconds: Number(warningSeconds) },
+        user?.username || "unknown"
+      );
+      await refreshSessionPolicy();
+      setMessage("Session policy saved.");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save the session policy.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const { idleTimeoutMinutes: idleLimits, warningSeconds: warningLimits } = SESSION_POLICY_LIMITS;
+
+  return (
+    <form className="account-form" onSubmit={handleSubmit}>
+      <h3 className="account-form-title">Idle Timeout</h3>
+      <p className="account-form-hint">
+        Users are signed out after this long without input. Set 0 to never time out.
+      </p>
+      <label className="form-field" htmlFor="settings-idle-timeout">
+        Idle Timeout (minutes)
+        <input
+          id="settings-idle-timeout"
+          type="number"
+          required
+          min={idleLimits.min}
+          max={idleLimits.max}
+          step={1}
+          value={idleTimeoutMinutes}
+          onChange={event => setIdleTimeoutMinutes(event.target.value)}
+        />
+      </label>
+      <label className="form-field" htmlFor="settings-warning-seconds">
+        Warning Before Sign-Out (seconds)
+        <input
+          id="settings-warning-seconds"
+          type="number"
+          required
+          min={warningLimits.min}
+          max={warningLimits.max}
+          step={1}
+          value={warningSeconds}
+          onChange={event => setWarningSeconds(event.target.value)}
+        />
+      </label>
+      {sessionPolicy.updatedAt && (
+        <p className="account-form-hint">
+          Last changed {new Date(sessionPolicy.updatedAt).toLocaleString()}
+          {sessionPolicy.updatedBy && ` by ${sessionPolicy.updatedBy}`}
+        </p>
+      )}
+      {error && <p className="form-message error" role="alert">{error}</p>}
+      {message && <p className="form-message success">{message}</p>}
+      <div className="form-actions">
+        <button className="primary-button" type="submit" disabled={busy}>
+          {busy ? "Saving…" : "Save Policy"}
+        </button>
+      </div>
+    </form>
+  );
+}
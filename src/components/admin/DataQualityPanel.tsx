@@ -0,0 +1,135 @@
+import React, { useEffect, useState } from "react";
+import { Activity } from "react-feather";
+import { getAllAssets } from "../../services/assets";
+import { countIssues, getDataQualityReport, DataQualityReport, QualityIssueKind } from "../../services/dataQuality";
+import type { AssetMeta } from "../../types/assets";
+
+const MAX_ROWS_SHOWN = 50;
+
+const KIND_LABELS: Record<QualityIssueKind, string> = {
+  duplicate: "Duplicate dates",
+  "closed-day": "Bars on closed days",
+  "invalid-range": "High/low inconsistent",
+  "non-positive": "Non-positive prices",
+  "zero-volume": "Zero volume",
+  jump: "Outsized jumps"
+};
+
+// Per-ticker check of the stored history: missing NYSE sessions and suspicious bars.
+export default function DataQualityPanel() {
+  const [assets, setAssets] = useState<AssetMeta[]>([]);
+  const [ticker, setTicker] = useState("");
+  const [report, setReport] = useState<DataQualityReport | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    getAllAssets()
+      .then(list => {
+        const sorted = list.sort((a, b) => a.ticker.localeCompare(b.ticker));
+        setAssets(sorted);
+        setTicker(current => current || sorted[0]?.ticker || "");
+      })
+      .catch(err => console.error("Failed to load assets", err));
+  }, []);
+
+  const handleCheck = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!ticker) return;
+    setBusy(true);
+    setError(null);
+    try {
+      setReport(await getDataQualityReport(ticker));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to check the stored prices.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const counts = report ? countIssues(report) : {};
+  const kinds = Object.keys(counts) as QualityIssueKind[];
+
+  return (
+    <>
+      <form className="import-form quality-form" onSubmit={handleCheck}>
+        <label className="form-field" htmlFor="quality-ticker">
+          Ticker
+          <select id="quality-ticker" value={ticker} onChange={event => setTicker(event.target.value)}>
+            {assets.map(asset => (
+              <option key={asset.ticker} value={asset.ticker}>{asset.ticker}</option>
+            ))}
+          </select>
+        </label>
+        <button className="ghost-btn" type="submit" disabled={!ticker || busy}>
+          <Activity size={14} /> {busy ? "Checking…" : "Check"}
+        </button>
+      </form>
+
+      {error && <p className="form-message error" role="alert">{error}</p>}
+
+      {report && !report.bars && <div className="empty-state">No stored bars for {report.ticker}.</div>}
+
+      {report && report.bars > 0 && (
+        <>
+          <table className="score-table import-table">
+            <thead>
+              <tr>
+                <th>Ticker</th>
+                <th>First</th>
+                <th>Last</th>
+                <th>Bars</th>
+                <th>{report.calendar} Sessions</th>
+                <th>Missing</th>
+                {kinds.map(kind => <th key={kind}>{KIND_LABELS[kind]}</th>)}
+              </tr>
+            </thead>
+            <tbody>
+              <tr>
+                <td>{report.ticker}</td>
+                <td>{report.firstDate}</td>
+                <td>{report.lastDate}</td>
+                <td>{report.bars.toLocaleString()}</td>
+                <td>{report.expectedSessions.toLocaleString()}</td>
+                <td>{report.missingSessions.length.toLocaleString()}</td>
+                {kinds.map(kind => <td key={kind}>{counts[kind]?.toLocaleString()}</td>)}
+              </tr>
+            </tbody>
+          </table>
+
+          {!report.gaps.length && !report.issues.length && (
+            <p className="form-message success">No gaps or suspicious bars.</p>
+          )}
+
+          {report.gaps.length > 0 && (
+            <div className="import-issues">
+              <h3>Missing sessions</h3>
+              <ul>
+                {report.gaps.slice(0, MAX_ROWS_SHOWN).map(gap => <li key={gap}>{gap}</li>)}
+              </ul>
+              {report.gaps.length > MAX_ROWS_SHOWN && (
+                <p className="import-hint">…and {(report.gaps.length - MAX_ROWS_SHOWN).toLocaleString()} more gaps.</p>
+              )}
+            </div>
+          )}
+
+          {report.issues.length > 0 && (
+            <div className="import-issues">
+              <h3>Suspicious bars</h3>
+              <ul>
+                {report.issues.slice(0, MAX_ROWS_SHOWN).map(issue => (
+                  <li key={`${issue.date}-${issue.kind}`}>
+                    <span className="import-line">{issue.date}</span> {KIND_LABELS[issue.kind]}: {issue.message}
+                  </li>
+                ))}
+              </ul>
+              {report.issues.length > MAX_ROWS_SHOWN && (
+                <p className="import-hint">…and {(report.issues.length - MAX_ROWS_SHOWN).toLocaleString()} more.</p>
+              )}
+            </div>
+          )}
+        </>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,19 @@
+import React from 'react';
+import { Navigate, useLocation } from 'react-router-dom';
+
+type LoginState = { from?: string } | null;
+
+// Signed out on some route (expired session, deep link, reload before auth resolves):
+// go to /login remembering where we were.
+export function RedirectToLogin() {
+  const location = useLocation();
+  const from = `${location.pathname}${location.search}${location.hash}`;
+  return <Navigate to="/login" replace state={location.pathname === '/login' ? null : { from }} />;
+}
+
+// Signed in while on /login: return to the remembered route, or the dashboard.
+export function RedirectAfterLogin() {
+  const location = useLocation();
+  const from = (location.state as LoginState)?.from;
+  return <Navigate to={from && from.startsWith('/') ? from : '/dashboard'} replace />;
+}
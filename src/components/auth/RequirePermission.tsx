@@ -0,0 +1,19 @@
+import React from 'react';
+import { Navigate } from 'react-router-dom';
+import { useAuth } from '../../hooks/useAuth';
+import { Permission } from '../../lib/permissions';
+
+interface RequirePermissionProps {
+  permission: Permission;
+  children: React.ReactNode;
+  redirectTo?: string;
+}
+
+// Route guard: renders children only when the signed-in user's role grants `permission`.
+export default function RequirePermission({ permission, children, redirectTo = '/dashboard' }: RequirePermissionProps) {
+  const { can } = useAuth();
+  if (!can(permission)) {
+    return <Navigate to={redirectTo} replace />;
+  }
+  return <>{children}</>;
+}
@@ -0,0 +1,215 @@
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+// @ts-ignore
+import Plotly from 'plotly.js-dist-min';
+import type { Data } from 'plotly.js';
+import { PriceData } from '../../types/price';
+import { runBacktest, StrategyDefinition, DEFAULT_BACKTEST_CONFIG } from '../../lib/backtest';
+
+interface BacktestPanelProps {
+  history: PriceData[];     // full history, used to warm up indicators
+  startDate?: string;       // first date to trade (start of the selected range)
+  height?: number;
+}
+
+type PresetKey = 'sma' | 'rsi' | 'macd';
+
+const PRESETS: Record<PresetKey, { label: string; strategy: StrategyDefinition }> = {
+  sma: { label: 'SMA20 × SMA50', strategy: { kind: 'smaCross', fast: 20, slow: 50 } },
+  rsi: { label: 'RSI < 30 / > 70', strategy: { kind: 'rsiThreshold', period: 14, buyBelow: 30, sellAbove: 70 } },
+  macd: { label: 'MACD hist flip', strategy: { kind: 'macdFlip', fast: 12, slow: 26, signal: 9 } }
+};
+
+const selectStyle: React.CSSProperties = {
+  padding: '6px 8px',
+  borderRadius: '6px',
+  border: '1px solid rgba(0,0,0,0.2)',
+  background: 'white',
+  cursor: 'pointer',
+  fontSize: '12px'
+};
+
+const labelStyle: React.CSSProperties = { fontSize: '12px', fontWeight: '600', color: 'var(--text-secondary)' };
+
+function formatPct(value: number) {
+  return `${value >= 0 ? '+' : ''}${value.toFixed(2)}%`;
+}
+
+export default function BacktestPanel({ history, startDate, height = 360 }: BacktestPanelProps) {
+  const chartRef = useRef<HTMLDivElement>(null);
+  const [preset, setPreset] = useState<PresetKey>('sma');
+  const [commissionBps, setCommissionBps] = useState<number>(DEFAULT_BACKTEST_CONFIG.commissionBps);
+  const [slippageBps, setSlippageBps] = useState<number>(DEFAULT_BACKTEST_CONFIG.slippageBps);
+  const [showTrades, setShowTrades] = useState(false);
+
+  const result = useMemo(() => {
+    if (history.length < 2) return null;
+    return runBacktest(history, PRESETS[preset].strategy, {
+      ...DEFAULT_BACKTEST_CONFIG,
+      commissionBps,
+      slippageBps,
+      startDate
+    });
+  }, [history, preset, commissionBps, slippageBps, startDate]);
+
+  useEffect(() => {
+    if (!chartRef.current) return;
+    if (!result || !result.equity.length) {
+      Plotly.purge(chartRef.current);
+      return;
+    }
+
+    const dates = result.equity.map(p => p.date);
+    const data: Data[] = [
+      {
+        x: dates,
+        y: result.equity.map(p => p.equity),
+        type: 'scatter',
+        mode: 'lines',
+        name: 'Equity',
+        line: { color: '#3ea8ff', width: 2 }
+      },
+      {
+        x: dates,
+        y: result.equity.map(p => p.drawdown),
+        type: 'scatter',
+        mode: 'lines',
+        name: 'Drawdown (%)',
+        fill: 'tozeroy',
+        line: { color: '#ef4444', width: 1 },
+        yaxis: 'y2'
+      }
+    ];
+
+    const layout = {
+      height,
+      margin: { t: 20, r: 10, l: 60, b: 40 },
+      paper_bgcolor: 'rgba(0,0,0,0)',
+      plot_bgcolor: 'rgba(0,0,0,0)',
+      showlegend: true,
+      legend: { orientation: 'h' as const, y: -0.15 },
+      xaxis: {
+        gridcolor: 'rgba(0,0,0,0.1)',
+        zerolinecolor: 'rgba(0,0,0,0.2)'
+      },
+      yaxis: {
+        title: { text: 'Equity' },
+        domain: [0.35, 1],
+        gridcolor: 'rgba(0,0,0,0.1)',
+        zerolinecolor: 'rgba(0,0,0,0.2)'
+      },
+      yaxis2: {
+        title: { text: 'DD %' },
+        domain: [0, 0.28],
+        anchor: 'x' as const,
+        gridcolor: 'rgba(0,0,0,0.1)',
+        zerolinecolor: 'rgba(0,0,0,0.2)'
+      }
+    };
+
+    Plotly.react(chartRef.current, data, layout, { responsive: true }).catch(console.error);
+
+    return () => {
+      if (chartRef.current) {
+        Plotly.purge(chartRef.current);
+      }
+    };
+  }, [result, height]);
+
+  const stats = result?.stats;
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: '12px' }}>
+      <div style={{ display: 'flex', gap: '12px', alignItems: 'center', flexWrap: 'wrap' }}>
+        <div style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+          <label style={labelStyle}>Strategy:</label>
+          <select value={preset} onChange={(e) => setPreset(e.target.value as PresetKey)} style={selectStyle}>
+            {(Object.keys(PRESETS) as PresetKey[]).map(key => (
+              <option key={key} value={key}>{PRESETS[key].label}</option>
+            ))}
+          </select>
+        </div>
+        <div style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+          <label style={labelStyle}>Commission (bps):</label>
+          <input
+            type="number"
+            min={0}
+            step={1}
+            value={commissionBps}
+            onChange={(e) => setCommissionBps(Math.max(0, Number(e.target.value) || 0))}
+            style={{ ...selectStyle, width: 64, cursor: 'text' }}
+          />
+        </div>
+        <div style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+          <label style={labelStyle}>Slippage (bps):</label>
+          <input
+            type="number"
+            min={0}
+            step={1}
+            value={slippageBps}
+            onChange={(e) => setSlippageBps(Math.max(0, Number(e.target.value) || 0))}
+            style={{ ...selectStyle, width: 64, cursor: 'text' }}
+          />
+        </div>
+      </div>
+
+      {stats && (
+        <div style={{ display: 'grid', gridTemplateColumns: 'repeat(3, minmax(0, 1fr))', gap: '8px' }}>
+          {[
+            { label: 'Total Return', value: formatPct(stats.totalReturn) },
+            { label: 'CAGR', value: formatPct(stats.cagr) },
+            { label: 'Sharpe', value: stats.sharpe.toFixed(2) },
+            { label: 'Max Drawdown', value: `${stats.maxDrawdown.toFixed(2)}%` },
+            { label: 'Win Rate', value: `${stats.winRate.toFixed(1)}%` },
+            { label: 'Trades', value: String(stats.tradeCount) }
+          ].map(stat => (
+            <div key={stat.label} style={{ padding: '6px 8px', borderRadius: '6px', border: '1px solid rgba(15,23,42,0.12)' }}>
+              <div style={{ fontSize: '11px', color: 'var(--text-secondary)' }}>{stat.label}</div>
+              <div style={{ fontSize: '14px', fontWeight: 600, color: 'var(--text)' }}>{stat.value}</div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div ref={chartRef} style={{ width: '100%', height }}></div>
+
+      {result && result.trades.length > 0 && (
+        <div>
+          <button
+            onClick={() => setShowTrades(!showTrades)}
+            style={{ background: 'none', border: 'none', cursor: 'pointer', fontSize: '12px', fontWeight: 600, color: 'var(--primary)', padding: 0 }}
+          >
+            {showTrades ? 'Hide trade log' : `Show trade log (${result.trades.length})`}
+          </button>
+          {showTrades && (
+            <div style={{ maxHeight: 200, overflowY: 'auto', marginTop: '8px' }}>
+              <table style={{ width: '100%', fontSize: '12px', borderCollapse: 'collapse' }}>
+                <thead>
+                  <tr style={{ textAlign: 'left', color: 'var(--text-secondary)' }}>
+                    <th>Entry</th>
+                    <th>Exit</th>
+                    <th>Entry Px</th>
+                    <th>Exit Px</th>
+                    <th>P&amp;L</th>
+                    <th>Return</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {result.trades.map(trade => (
+                    <tr key={trade.entryDate} style={{ borderTop: '1px solid rgba(15,23,42,0.08)' }}>
+                      <td>{trade.entryDate.slice(0, 10)}</td>
+                      <td>{trade.exitDate ? trade.exitDate.slice(0, 10) : 'open'}</td>
+                      <td>{trade.entryPrice.toFixed(2)}</td>
+                      <td>{trade.exitPrice !== null ? trade.exitPrice.toFixed(2) : '--'}</td>
+                      <td style={{ color: trade.pnl >= 0 ? '#16a34a' : '#ef4444' }}>{trade.pnl.toFixed(2)}</td>
+                      <td>{formatPct(trade.returnPct)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
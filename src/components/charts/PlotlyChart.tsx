@@ -0,0 +1,67 @@
+import React, { useEffect, useRef } from 'react';
+// @ts-ignore
+import Plotly from 'plotly.js-dist-min';
+import type { Data, Layout } from 'plotly.js';
+
+interface PlotlyChartProps {
+  data: Data[];
+  layout: Partial<Layout>;
+  height?: number;
+  onClick?: (point: { x: unknown; y: unknown }) => void;
+}
+
+type PlotlyElement = {
+  on?: (event: string, handler: (event: { points?: Array<{ x: unknown; y: unknown }> }) => void) => void;
+  removeAllListeners?: (event: string) => void;
+};
+
+const BASE_LAYOUT: Partial<Layout> = {
+  margin: { t: 20, r: 10, l: 60, b: 40 },
+  paper_bgcolor: 'rgba(0,0,0,0)',
+  plot_bgcolor: 'rgba(0,0,0,0)',
+  xaxis: { gridcolor: 'rgba(0,0,0,0.1)', zerolinecolor: 'rgba(0,0,0,0.2)' },
+  yaxis: { gridcolor: 'rgba(0,0,0,0.1)', zerolinecolor: 'rgba(0,0,0,0.2)' }
+};
+
+// Plotly figure with the transparent, light-grid look of the AssetPage charts. Redraws in
+// place with Plotly.react when data or layout change.
+export default function PlotlyChart({ data, layout, height = 360, onClick }: PlotlyChartProps) {
+  const chartRef = useRef<HTMLDivElement>(null);
+  const onClickRef = useRef(onClick);
+
+  useEffect(() => {
+    onClickRef.current = onClick;
+  }, [onClick]);
+
+  useEffect(() => {
+    const el = chartRef.current;
+    if (!el) return;
+    const merged = {
+      ...BASE_LAYOUT,
+      ...layout,
+      height,
+      xaxis: { ...BASE_LAYOUT.xaxis, ...layout.xaxis },
+      yaxis: { ...BASE_LAYOUT.yaxis, ...layout.yaxis }
+    };
+    Plotly.react(el, data, merged, { responsive: true, displaylogo: false })
+      .then(() => {
+        // Plotly keeps listeners across react() calls, so replace rather than stack them
+        const gd = el as unknown as PlotlyElement;
+        gd.removeAllListeners?.('plotly_click');
+        gd.on?.('plotly_click', event => {
+          const point = event?.points?.[0];
+          if (point && onClickRef.current) onClickRef.current({ x: point.x, y: point.y });
+        });
+      })
+      .catch(console.error);
+  }, [data, layout, height]);
+
+  useEffect(() => {
+    const el = chartRef.current;
+    return () => {
+      if (el) Plotly.purge(el);
+    };
+  }, []);
+
+  return <div ref={chartRef} style={{ width: '100%' }} />;
+}
@@ -2,6 +2,7 @@ import React, { useState, useEffect, useRef, useMemo, useCallback } from 'react'
 // @ts-ignore
 import Plotly from 'plotly.js-dist-min';
 import { PriceData } from '../../types/price';
+import { addCalendarDays, tradingDays } from '../../lib/tradingCalendar';
 
 interface TimeExplorerProps {
   prices: PriceData[];
@@ -11,12 +12,30 @@ interface TimeExplorerProps {
 type Window = 'week' | 'month' | 'quarter' | 'year';
 type Measure = 'open' | 'close' | 'high' | 'low';
 
-const windowLengths: Record<Window, number> = {
-  week: 5,
-  month: 21,
-  quarter: 63,
-  year: 252
-};
+function isoDate(year: number, month: number, day: number): string {
+  return new Date(Date.UTC(year, month, day)).toISOString().slice(0, 10);
+}
+
+// Calendar bounds of the selected period in one year; ISO weeks straddling New Year are
+// clipped to the year so each session belongs to a single line.
+function periodBounds(year: number, windowType: Window, week: number, month: number, quarter: number): [string, string] {
+  const yearStart = isoDate(year, 0, 1);
+  const yearEnd = isoDate(year, 11, 31);
+  switch (windowType) {
+    case 'week': {
+      const jan4 = new Date(Date.UTC(year, 0, 4));
+      const monday = addCalendarDays(isoDate(year, 0, 4 - ((jan4.getUTCDay() + 6) % 7)), (week - 1) * 7);
+      const friday = addCalendarDays(monday, 4);
+      return [monday < yearStart ? yearStart : monday, friday > yearEnd ? yearEnd : friday];
+    }
+    case 'month':
+      return [isoDate(year, month, 1), isoDate(year, month + 1, 0)];
+    case 'quarter':
+      return [isoDate(year, (quarter - 1) * 3, 1), isoDate(year, quarter * 3, 0)];
+    default:
+      return [yearStart, yearEnd];
+  }
+}
 
 function getYearColor(index: number, total: number): string {
   if (total <= 1) return 'hsl(213, 90%, 38%)';
@@ -26,18 +45,6 @@ function getYearColor(index: number, total: number): string {
   return `hsl(213, 90%, ${lightness}%)`;
 }
 
-function getISOWeekNumber(date: Date): number {
-  const temp = new Date(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()));
-  const day = temp.getUTCDay() || 7;
-  temp.setUTCDate(temp.getUTCDate() + 4 - day);
-  const yearStart = new Date(Date.UTC(temp.getUTCFullYear(), 0, 1));
-  return Math.ceil((((temp.getTime() - yearStart.getTime()) / 86400000) + 1) / 7);
-}
-
-function getQuarterFromMonth(monthIndex: number): number {
-  return Math.floor(monthIndex / 3) + 1;
-}
-
 export default function TimeExplorer({ prices, height = 400 }: TimeExplorerProps) {
   const chartRef = useRef<HTMLDivElement>(null);
   const [windowType, setWindowType] = useState<Window>('week');
@@ -63,7 +70,7 @@ export default function TimeExplorer({ prices, height = 400 }: TimeExplorerProps
     if (!sortedPrices.length) return [] as Array<[number, PriceData[]]>;
     const buckets = new Map<number, PriceData[]>();
     sortedPrices.forEach(price => {
-      const year = new Date(price.date).getFullYear();
+      const year = Number(price.date.slice(0, 4));
       const list = buckets.get(year);
       if (list) {
         list.push(price);
@@ -74,27 +81,28 @@ export default function TimeExplorer({ prices, height = 400 }: TimeExplorerProps
     return Array.from(buckets.entries()).sort((a, b) => a[0] - b[0]);
   }, [sortedPrices]);
 
+  // NYSE sessions of the selected period in each year, so a holiday or a missing bar leaves a
+  // hole at the right position instead of shifting the rest of the line
+  const periodSessions = useMemo(() => new Map(yearBuckets.map(([year]) => {
+    const [start, end] = periodBounds(year, windowType, selectedWeek, selectedMonth, selectedQuarter);
+    return [year, tradingDays(start, end)] as const;
+  })), [yearBuckets, windowType, selectedWeek, selectedMonth, selectedQuarter]);
+
+  const expectedLength = useMemo(
+    () => Math.max(1, ...Array.from(periodSessions.values(), sessions => sessions.length)),
+    [periodSessions]
+  );
+
   const chartData = useMemo(() => {
     if (!yearBuckets.length) return [] as any[];
 
-    const expectedLength = windowLengths[windowType];
     const xValues = Array.from({ length: expectedLength }, (_, idx) => idx + 1);
     const traces: any[] = [];
     const totalYears = yearBuckets.length;
 
     yearBuckets.forEach(([year, data], idx) => {
-      const filtered = (() => {
-        if (windowType === 'week') {
-          return data.filter(entry => getISOWeekNumber(new Date(entry.date)) === selectedWeek);
-        }
-        if (windowType === 'month') {
-          return data.filter(entry => new Date(entry.date).getMonth() === selectedMonth);
-        }
-        if (windowType === 'quarter') {
-          return data.filter(entry => getQuarterFromMonth(new Date(entry.date).getMonth()) === selectedQuarter);
-        }
-        return data;
-      })().slice(0, expectedLength);
+      const position = new Map((periodSessions.get(year) || []).map((date, i) => [date, i]));
+      const filtered = data.filter(entry => position.has(entry.date.slice(0, 10)));
 
       if (!filtered.length) return;
 
@@ -104,11 +112,11 @@ export default function TimeExplorer({ prices, height = 400 }: TimeExplorerProps
       const yValues: Array<number | null> = new Array(expectedLength).fill(null);
       const customDates: string[] = new Array(expectedLength).fill('');
 
-      filtered.forEach((entry, dayIndex) => {
-        if (dayIndex >= expectedLength) return;
+      filtered.forEach(entry => {
+        const dayIndex = position.get(entry.date.slice(0, 10)) as number;
         const pctChange = ((entry[measure] - baseline) / baseline) * 100;
         yValues[dayIndex] = pctChange;
-        customDates[dayIndex] = entry.date;
+        customDates[dayIndex] = entry.date.slice(0, 10);
       });
 
       traces.push({
@@ -122,14 +130,15 @@ export default function TimeExplorer({ prices, height = 400 }: TimeExplorerProps
           width: 2
         },
         marker: { size: 6 },
+        connectgaps: true,
         customdata: customDates,
-        hovertemplate: 'Day %{x}<br>%{customdata}<br>%{y:.2f}%<extra></extra>',
+        hovertemplate: 'Session %{x}<br>%{customdata}<br>%{y:.2f}%<extra></extra>',
         visible: hiddenYears.includes(year) ? 'legendonly' : true
       });
     });
 
     return traces;
-  }, [yearBuckets, windowType, selectedWeek, selectedMonth, selectedQuarter, measure, hiddenYears]);
+  }, [yearBuckets, periodSessions, expectedLength, measure, hiddenYears]);
 
   useEffect(() => {
     if (!chartRef.current) return;
@@ -139,7 +148,6 @@ export default function TimeExplorer({ prices, height = 400 }: TimeExplorerProps
       return;
     }
 
-    const expectedLength = windowLengths[windowType];
     const layout = {
       height,
       margin: { t: 110, r: 10, l: 60, b: 40 },
@@ -148,7 +156,7 @@ export default function TimeExplorer({ prices, height = 400 }: TimeExplorerProps
       hovermode: 'x unified' as const,
       showlegend: false,
       xaxis: {
-        title: { text: 'Day' },
+        title: { text: 'Trading session' },
         gridcolor: 'rgba(0,0,0,0.1)',
         zerolinecolor: 'rgba(0,0,0,0.2)',
         range: [0.5, expectedLength + 0.5]
@@ -167,7 +175,7 @@ export default function TimeExplorer({ prices, height = 400 }: TimeExplorerProps
         Plotly.purge(chartRef.current);
       }
     };
-  }, [chartData, height, windowType]);
+  }, [chartData, height, expectedLength]);
 
   useEffect(() => {
     setHiddenYears([]);
@@ -263,7 +271,7 @@ export default function TimeExplorer({ prices, height = 400 }: TimeExplorerProps
                 fontSize: '12px'
               }}
             >
-              {Array.from({ length: 52 }, (_, i) => i + 1).map(w => (
+              {Array.from({ length: 53 }, (_, i) => i + 1).map(w => (
                 <option key={w} value={w}>Week {w}</option>
               ))}
             </select>
@@ -0,0 +1,166 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Check, Plus, Star } from 'react-feather';
+import { useAuth } from '../../context/AuthContext';
+import {
+  getWatchlists,
+  createWatchlist,
+  addTickerToWatchlist,
+  removeTickerFromWatchlist,
+  subscribeToWatchlists
+} from '../../services/watchlists';
+import { Watchlist } from '../../types/watchlist';
+
+interface Props {
+  ticker: string;
+}
+
+const buttonStyle: React.CSSProperties = {
+  display: 'inline-flex',
+  alignItems: 'center',
+  gap: '6px',
+  padding: '6px 10px',
+  borderRadius: '6px',
+  border: '1px solid rgba(0,0,0,0.2)',
+  background: 'white',
+  cursor: 'pointer',
+  fontSize: '12px',
+  fontWeight: 600
+};
+
+const menuStyle: React.CSSProperties = {
+  position: 'absolute',
+  right: 0,
+  top: 'calc(100% + 6px)',
+  minWidth: 220,
+  padding: '6px',
+  borderRadius: '8px',
+  border: '1px solid rgba(15,23,42,0.12)',
+  background: 'white',
+  boxShadow: '0 12px 28px rgba(15,23,42,0.18)',
+  zIndex: 20
+};
+
+const itemStyle: React.CSSProperties = {
+  display: 'flex',
+  alignItems: 'center',
+  gap: '8px',
+  width: '100%',
+  padding: '6px 8px',
+  border: 'none',
+  borderRadius: '6px',
+  background: 'none',
+  cursor: 'pointer',
+  fontSize: '12px',
+  textAlign: 'left',
+  color: '#0f172a'
+};
+
+// Toggle membership of `ticker` in the signed-in user's watchlists, or start a new list with it.
+export default function AddToWatchlist({ ticker }: Props) {
+  const { user } = useAuth();
+  const [open, setOpen] = useState(false);
+  const [lists, setLists] = useState<Watchlist[]>([]);
+  const [newName, setNewName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const wrapperRef = useRef<HTMLDivElement | null>(null);
+
+  const userId = user?.username;
+
+  async function refresh() {
+    if (!userId) return;
+    try {
+      setLists(await getWatchlists(userId));
+    } catch (err) {
+      console.error('Failed to load watchlists', err);
+      setError('Could not load watchlists');
+    }
+  }
+
+  useEffect(() => {
+    refresh();
+    return subscribeToWatchlists(refresh);
+  }, [userId]);
+
+  // close when clicking outside the menu
+  useEffect(() => {
+    if (!open) return;
+    function onDocClick(e: MouseEvent) {
+      if (wrapperRef.current && !wrapperRef.current.contains(e.target as Node)) setOpen(false);
+    }
+    document.addEventListener('mousedown', onDocClick);
+    return () => document.removeEventListener('mousedown', onDocClick);
+  }, [open]);
+
+  if (!userId) return null;
+
+  const symbol = ticker.toUpperCase();
+  const watchedIn = lists.filter(list => list.tickers.includes(symbol)).length;
+
+  async function toggle(list: Watchlist) {
+    if (!userId) return;
+    try {
+      if (list.tickers.includes(symbol)) {
+        await removeTickerFromWatchlist(userId, list.watchlistId, symbol);
+      } else {
+        await addTickerToWatchlist(userId, list.watchlistId, symbol);
+      }
+      setError(null);
+    } catch (err) {
+      console.error('Failed to update watchlist', err);
+      setError('Could not update watchlist');
+    }
+  }
+
+  async function handleCreate(e: React.FormEvent) {
+    e.preventDefault();
+    if (!userId || !newName.trim()) return;
+    try {
+      await createWatchlist(userId, newName, [symbol]);
+      setNewName('');
+      setError(null);
+    } catch (err) {
+      console.error('Failed to create watchlist', err);
+      setError('Could not create watchlist');
+    }
+  }
+
+  return (
+    <div ref={wrapperRef} style={{ position: 'relative' }}>
+      <button type="button" style={buttonStyle} onClick={() => setOpen(!open)} aria-expanded={open}>
+        <Star size={14} fill={watchedIn ? 'currentColor' : 'none'} />
+        {watchedIn ? `On ${watchedIn} watchlist${watchedIn > 1 ? 's' : ''}` : 'Add to watchlist'}
+      </button>
+
+      {open && (
+        <div style={menuStyle} role="menu">
+          {lists.length === 0 && (
+            <div style={{ ...itemStyle, cursor: 'default', color: '#64748b' }}>No watchlists yet</div>
+          )}
+          {lists.map(list => {
+            const included = list.tickers.includes(symbol);
+            return (
+              <button key={list.watchlistId} type="button" role="menuitemcheckbox" aria-checked={included} style={itemStyle} onClick={() => toggle(list)}>
+                <span style={{ width: 14, display: 'inline-flex' }}>{included && <Check size={14} />}</span>
+                <span style={{ flex: 1 }}>{list.name}</span>
+                <span style={{ color: '#64748b' }}>{list.tickers.length}</span>
+              </button>
+            );
+          })}
+          <form onSubmit={handleCreate} style={{ display: 'flex', gap: '6px', padding: '6px 8px 2px', borderTop: '1px solid rgba(15,23,42,0.08)', marginTop: '4px' }}>
+            <input
+              value={newName}
+              onChange={e => setNewName(e.target.value)}
+              placeholder={`New list with ${symbol}`}
+              aria-label="New watchlist name"
+              style={{ flex: 1, minWidth: 0, padding: '4px 6px', borderRadius: '6px', border: '1px solid rgba(0,0,0,0.2)', fontSize: '12px' }}
+            />
+            <button type="submit" style={{ ...buttonStyle, padding: '4px 6px' }} disabled={!newName.trim()} title="Create watchlist">
+              <Plus size={14} />
+            </button>
+          </form>
+          {error && <div style={{ padding: '4px 8px', fontSize: '11px', color: '#ef4444' }}>{error}</div>}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,129 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Download } from 'react-feather';
+// @ts-ignore
+import Plotly from 'plotly.js-dist-min';
+import { ExportTable, toCsv, toRecords } from '../../lib/exportData';
+
+interface Props {
+  filename: string;                                  // without extension
+  getTable: () => ExportTable | null;                // built on demand so idle cards cost nothing
+  meta?: Record<string, string>;                     // written alongside the rows in JSON exports
+  chartRef?: React.RefObject<HTMLDivElement | null>; // Plotly chart to snapshot as PNG/SVG
+}
+
+type Format = 'csv' | 'json' | 'png' | 'svg';
+
+const buttonStyle: React.CSSProperties = {
+  display: 'inline-flex',
+  alignItems: 'center',
+  background: 'none',
+  border: 'none',
+  cursor: 'pointer',
+  padding: '4px 8px',
+  color: 'var(--text)'
+};
+
+const menuStyle: React.CSSProperties = {
+  position: 'absolute',
+  right: 0,
+  top: 'calc(100% + 4px)',
+  minWidth: 160,
+  padding: '6px',
+  borderRadius: '8px',
+  border: '1px solid rgba(15,23,42,0.12)',
+  background: 'white',
+  boxShadow: '0 12px 28px rgba(15,23,42,0.18)',
+  zIndex: 30
+};
+
+const itemStyle: React.CSSProperties = {
+  display: 'block',
+  width: '100%',
+  padding: '6px 8px',
+  border: 'none',
+  borderRadius: '6px',
+  background: 'none',
+  cursor: 'pointer',
+  fontSize: '12px',
+  textAlign: 'left',
+  color: '#0f172a'
+};
+
+function saveFile(name: string, content: string, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = name;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+// Download menu for an AssetPage card: the card's data as CSV or JSON, and its Plotly chart as an image.
+export default function ExportMenu({ filename, getTable, meta, chartRef }: Props) {
+  const [open, setOpen] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const wrapperRef = useRef<HTMLDivElement | null>(null);
+
+  // close when clicking outside the menu
+  useEffect(() => {
+    if (!open) return;
+    function onDocClick(e: MouseEvent) {
+      if (wrapperRef.current && !wrapperRef.current.contains(e.target as Node)) setOpen(false);
+    }
+    document.addEventListener('mousedown', onDocClick);
+    return () => document.removeEventListener('mousedown', onDocClick);
+  }, [open]);
+
+  async function handleExport(format: Format) {
+    setError(null);
+    try {
+      if (format === 'png' || format === 'svg') {
+        const chart = chartRef?.current;
+        if (!chart) throw new Error('Chart is not ready');
+        await Plotly.downloadImage(chart, {
+          format,
+          filename,
+          width: chart.clientWidth || 1200,
+          height: chart.clientHeight || 600
+        });
+      } else {
+        const table = getTable();
+        if (!table || !table.rows.length) throw new Error('Nothing to export for this range');
+        if (format === 'csv') {
+          saveFile(`${filename}.csv`, toCsv(table), 'text/csv;charset=utf-8');
+        } else {
+          const payload = { ...meta, exportedAt: new Date().toISOString(), rows: toRecords(table) };
+          saveFile(`${filename}.json`, JSON.stringify(payload, null, 2), 'application/json');
+        }
+      }
+      setOpen(false);
+    } catch (err) {
+      console.error(`Failed to export ${filename} as ${format}`, err);
+      setError(err instanceof Error ? err.message : 'Export failed');
+    }
+  }
+
+  const formats: Array<{ id: Format; label: string }> = [
+    { id: 'csv', label: 'Data as CSV' },
+    { id: 'json', label: 'Data as JSON' },
+    ...(chartRef ? [{ id: 'png' as const, label: 'Chart as PNG' }, { id: 'svg' as const, label: 'Chart as SVG' }] : [])
+  ];
+
+  return (
+    <div ref={wrapperRef} style={{ position: 'relative' }}>
+      <button type="button" style={buttonStyle} onClick={() => setOpen(!open)} aria-expanded={open} title="Export">
+        <Download size={16} />
+      </button>
+      {open && (
+        <div style={menuStyle} role="menu">
+          {formats.map(format => (
+            <button key={format.id} type="button" role="menuitem" style={itemStyle} onClick={() => handleExport(format.id)}>
+              {format.label}
+            </button>
+          ))}
+          {error && <div style={{ padding: '4px 8px', fontSize: '11px', color: '#ef4444' }}>{error}</div>}
+        </div>
+      )}
+    </div>
+  );
+}
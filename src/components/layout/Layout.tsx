@@ -2,14 +2,16 @@ import React, { useState, useEffect } from 'react';
 import { Link, Outlet, useNavigate, useLocation } from 'react-router-dom';
 import { useAuth } from '../../context/AuthContext';
 import { useTheme } from '../../context/ThemeContext';
-import { BarChart2, Database, Settings, LogOut, Bell, Moon, Sun } from 'react-feather';
+import { BarChart2, Database, Award, Settings, LogOut, Bell, Moon, Sun, Upload, Layers, Grid, Briefcase } from 'react-feather';
 import NotificationPopup from '../notifications/NotificationPopup';
 import SearchBox from '../controls/SearchBox';
+import WatchlistPanel from './WatchlistPanel';
+import SessionExpiryToast from './SessionExpiryToast';
 import { getUnreadCountForUser } from '../../services/notifications';
 import './Layout.css';
 
 const Layout: React.FC = () => {
-  const { user, signOut } = useAuth();
+  const { user, can, signOut } = useAuth();
   const { theme, toggleTheme } = useTheme();
   const navigate = useNavigate();
   const location = useLocation();
@@ -84,6 +86,50 @@ const Layout: React.FC = () => {
               <div className="nav-icon"><Database size={24} /></div>
               <span className="nav-text">Assets</span>
             </Link>
+            {can('portfolio:manage') && (
+              <Link
+                to="/portfolio"
+                className={`nav-item ${location.pathname === '/portfolio' ? 'active' : ''}`}
+                data-tooltip="Portfolio"
+              >
+                <div className="nav-icon"><Briefcase size={24} /></div>
+                <span className="nav-text">Portfolio</span>
+              </Link>
+            )}
+            <Link
+              to="/compare"
+              className={`nav-item ${location.pathname === '/compare' ? 'active' : ''}`}
+              data-tooltip="Compare"
+            >
+              <div className="nav-icon"><Layers size={24} /></div>
+              <span className="nav-text">Compare</span>
+            </Link>
+            <Link
+              to="/correlations"
+              className={`nav-item ${location.pathname === '/correlations' ? 'active' : ''}`}
+              data-tooltip="Correlations"
+            >
+              <div className="nav-icon"><Grid size={24} /></div>
+              <span className="nav-text">Correlations</span>
+            </Link>
+            <Link 
+              to="/prophets" 
+              className={`nav-item ${location.pathname === '/prophets' ? 'active' : ''}`}
+              data-tooltip="Prophets"
+            >
+              <div className="nav-icon"><Award size={24} /></div>
+              <span className="nav-text">Prophets</span>
+            </Link>
+            {can('data:import') && (
+              <Link
+                to="/admin/import"
+                className={`nav-item ${location.pathname === '/admin/import' ? 'active' : ''}`}
+                data-tooltip="Import"
+              >
+                <div className="nav-icon"><Upload size={24} /></div>
+                <span className="nav-text">Import</span>
+              </Link>
+            )}
             <Link 
               to="/settings" 
               className={`nav-item ${location.pathname === '/settings' ? 'active' : ''}`}
@@ -102,6 +148,8 @@ const Layout: React.FC = () => {
             </button>
           </div>
         </nav>
+
+        {can('watchlists:manage') && <WatchlistPanel collapsed={isCollapsed} />}
       </aside>
 
       <div className={`main-container ${isCollapsed ? 'collapsed' : ''}`}>
@@ -132,6 +180,7 @@ const Layout: React.FC = () => {
             </div>
             <div className="user-profile">
               <span className="username">{user?.username}</span>
+              {user && <span className="user-role">{user.role}</span>}
             </div>
             <button className="icon-button" onClick={handleLogout} title="Log Out">
               <LogOut size={20} />
@@ -143,6 +192,7 @@ const Layout: React.FC = () => {
           <Outlet />
         </main>
       </div>
+      <SessionExpiryToast />
     </div>
   );
 };
@@ -0,0 +1,49 @@
+import React, { useState } from 'react';
+import { Clock } from 'react-feather';
+import { useAuth } from '../../context/AuthContext';
+import './SessionExpiryToast.css';
+
+function formatCountdown(seconds: number) {
+  const m = Math.floor(seconds / 60);
+  const s = seconds % 60;
+  return m ? `${m}:${String(s).padStart(2, '0')}` : `${s}s`;
+}
+
+// Shown while the idle timeout's warning window is open; input elsewhere doesn't dismiss it.
+const SessionExpiryToast: React.FC = () => {
+  const { sessionWarningSeconds, extendSession, signOut } = useAuth();
+  const [extending, setExtending] = useState(false);
+
+  if (sessionWarningSeconds === null) return null;
+
+  const handleExtend = async () => {
+    setExtending(true);
+    try {
+      await extendSession();
+    } finally {
+      setExtending(false);
+    }
+  };
+
+  return (
+    <div className="session-toast" role="alertdialog" aria-live="assertive" aria-label="Session expiring">
+      <Clock size={20} className="session-toast-icon" />
+      <div className="session-toast-body">
+        <div className="session-toast-title">Session expiring</div>
+        <div className="session-toast-text">
+          You'll be signed out in <strong>{formatCountdown(sessionWarningSeconds)}</strong> due to inactivity.
+        </div>
+      </div>
+      <div className="session-toast-actions">
+        <button type="button" className="session-toast-secondary" onClick={signOut}>
+          Sign out
+        </button>
+        <button type="button" className="session-toast-primary" onClick={handleExtend} disabled={extending}>
+          Stay signed in
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default SessionExpiryToast;
@@ -0,0 +1,179 @@
+import React, { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { ChevronDown, ChevronRight, Edit2, Plus, Trash2, X } from 'react-feather';
+import { useAuth } from '../../context/AuthContext';
+import {
+  getWatchlists,
+  createWatchlist,
+  renameWatchlist,
+  deleteWatchlist,
+  removeTickerFromWatchlist,
+  subscribeToWatchlists
+} from '../../services/watchlists';
+import { Watchlist } from '../../types/watchlist';
+import './WatchlistPanel.css';
+
+interface Props {
+  collapsed?: boolean;
+}
+
+export default function WatchlistPanel({ collapsed = false }: Props) {
+  const { user } = useAuth();
+  const [lists, setLists] = useState<Watchlist[]>([]);
+  const [expanded, setExpanded] = useState<Record<string, boolean>>({});
+  const [newName, setNewName] = useState('');
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const userId = user?.username;
+
+  async function refresh() {
+    if (!userId) {
+      setLists([]);
+      return;
+    }
+    try {
+      setLists(await getWatchlists(userId));
+      setError(null);
+    } catch (err) {
+      console.error('Failed to load watchlists', err);
+      setError('Could not load watchlists');
+    }
+  }
+
+  useEffect(() => {
+    refresh();
+    return subscribeToWatchlists(refresh);
+  }, [userId]);
+
+  async function run(action: () => Promise<void>, failure: string) {
+    try {
+      await action();
+      setError(null);
+    } catch (err) {
+      console.error(failure, err);
+      setError(failure);
+    }
+  }
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!userId || !newName.trim()) return;
+    run(async () => {
+      const created = await createWatchlist(userId, newName);
+      setNewName('');
+      setExpanded(current => ({ ...current, [created.watchlistId]: true }));
+    }, 'Could not create watchlist');
+  };
+
+  const handleRename = (e: React.FormEvent, watchlistId: string) => {
+    e.preventDefault();
+    if (!userId) return;
+    run(async () => {
+      await renameWatchlist(userId, watchlistId, renameValue);
+      setRenamingId(null);
+    }, 'Could not rename watchlist');
+  };
+
+  const handleDelete = (list: Watchlist) => {
+    if (!userId || !window.confirm(`Delete watchlist "${list.name}"?`)) return;
+    run(() => deleteWatchlist(userId, list.watchlistId), 'Could not delete watchlist');
+  };
+
+  const handleRemoveTicker = (watchlistId: string, ticker: string) => {
+    if (!userId) return;
+    run(() => removeTickerFromWatchlist(userId, watchlistId, ticker), 'Could not remove ticker');
+  };
+
+  if (collapsed || !userId) return null;
+
+  return (
+    <section className="watchlist-panel" aria-label="Watchlists">
+      <div className="watchlist-title">Watchlists</div>
+
+      {error && <div className="watchlist-error">{error}</div>}
+
+      {lists.length === 0 && !error && (
+        <div className="watchlist-empty">No watchlists yet. Create one below or from an asset page.</div>
+      )}
+
+      <ul className="watchlist-lists">
+        {lists.map(list => {
+          const isOpen = !!expanded[list.watchlistId];
+          return (
+            <li key={list.watchlistId} className="watchlist-item">
+              {renamingId === list.watchlistId ? (
+                <form className="watchlist-form" onSubmit={e => handleRename(e, list.watchlistId)}>
+                  <input
+                    autoFocus
+                    value={renameValue}
+                    onChange={e => setRenameValue(e.target.value)}
+                    onBlur={() => setRenamingId(null)}
+                    onKeyDown={e => { if (e.key === 'Escape') setRenamingId(null); }}
+                    aria-label="Watchlist name"
+                  />
+                </form>
+              ) : (
+                <div className="watchlist-row">
+                  <button
+                    type="button"
+                    className="watchlist-toggle"
+                    onClick={() => setExpanded(current => ({ ...current, [list.watchlistId]: !isOpen }))}
+                    aria-expanded={isOpen}
+                  >
+                    {isOpen ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+                    <span className="watchlist-name">{list.name}</span>
+                    <span className="watchlist-count">{list.tickers.length}</span>
+                  </button>
+                  <button
+                    type="button"
+                    className="watchlist-action"
+                    title="Rename"
+                    onClick={() => { setRenamingId(list.watchlistId); setRenameValue(list.name); }}
+                  >
+                    <Edit2 size={12} />
+                  </button>
+                  <button type="button" className="watchlist-action" title="Delete" onClick={() => handleDelete(list)}>
+                    <Trash2 size={12} />
+                  </button>
+                </div>
+              )}
+
+              {isOpen && (
+                <ul className="watchlist-tickers">
+                  {list.tickers.length === 0 && <li className="watchlist-empty">Empty list</li>}
+                  {list.tickers.map(ticker => (
+                    <li key={ticker}>
+                      <Link to={`/assets/${ticker}`}>{ticker}</Link>
+                      <button
+                        type="button"
+                        className="watchlist-action"
+                        title={`Remove ${ticker}`}
+                        onClick={() => handleRemoveTicker(list.watchlistId, ticker)}
+                      >
+                        <X size={12} />
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+
+      <form className="watchlist-form" onSubmit={handleCreate}>
+        <input
+          value={newName}
+          onChange={e => setNewName(e.target.value)}
+          placeholder="New watchlist"
+          aria-label="New watchlist name"
+        />
+        <button type="submit" className="watchlist-action" title="Create watchlist" disabled={!newName.trim()}>
+          <Plus size={14} />
+        </button>
+      </form>
+    </section>
+  );
+}
@@ -0,0 +1,216 @@
+import React, { useEffect, useState } from 'react';
+import { Trash2 } from 'react-feather';
+import { useAuth } from '../../context/AuthContext';
+import { getAlertRules, createAlertRule, setAlertRuleEnabled, deleteAlertRule } from '../../services/alerts';
+import { describeCondition } from '../../lib/alerts';
+import { AlertCondition, AlertRule } from '../../types/alert';
+import { PROPHET_KEYS, ProphetKey } from '../../types/price';
+
+interface AlertRulesPanelProps {
+  ticker: string;
+  lastClose?: number;
+}
+
+type ConditionKind = AlertCondition['kind'];
+
+const KIND_LABELS: Record<ConditionKind, string> = {
+  priceCross: 'Price crosses level',
+  percentMove: 'Percent move',
+  rsiCross: 'RSI crosses threshold',
+  forecastDivergence: 'Forecast diverges'
+};
+
+const selectStyle: React.CSSProperties = {
+  padding: '6px 8px',
+  borderRadius: '6px',
+  border: '1px solid rgba(0,0,0,0.2)',
+  background: 'white',
+  cursor: 'pointer',
+  fontSize: '12px'
+};
+
+const inputStyle: React.CSSProperties = { ...selectStyle, width: 72, cursor: 'text' };
+
+const labelStyle: React.CSSProperties = { fontSize: '12px', fontWeight: '600', color: 'var(--text-secondary)' };
+
+export default function AlertRulesPanel({ ticker, lastClose }: AlertRulesPanelProps) {
+  const { user } = useAuth();
+  const [rules, setRules] = useState<AlertRule[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [kind, setKind] = useState<ConditionKind>('priceCross');
+  const [direction, setDirection] = useState<'above' | 'below'>('above');
+  const [moveDirection, setMoveDirection] = useState<'up' | 'down' | 'either'>('either');
+  const [level, setLevel] = useState<number>(lastClose ? Math.round(lastClose) : 100);
+  const [percent, setPercent] = useState<number>(5);
+  const [days, setDays] = useState<number>(5);
+  const [period, setPeriod] = useState<number>(14);
+  const [threshold, setThreshold] = useState<number>(70);
+  const [prophet, setProphet] = useState<ProphetKey>('timeSage');
+  const [horizon, setHorizon] = useState<number>(5);
+
+  const userId = user?.username;
+
+  async function refresh() {
+    if (!userId) return;
+    try {
+      setRules(await getAlertRules(userId, ticker));
+      setError(null);
+    } catch (err) {
+      console.error('Failed to load alert rules', err);
+      setError('Could not load alert rules');
+    }
+  }
+
+  useEffect(() => {
+    refresh();
+  }, [userId, ticker]);
+
+  useEffect(() => {
+    if (lastClose) setLevel(Math.round(lastClose));
+  }, [lastClose]);
+
+  function buildCondition(): AlertCondition {
+    switch (kind) {
+      case 'priceCross':
+        return { kind, level, direction };
+      case 'percentMove':
+        return { kind, percent, days, direction: moveDirection };
+      case 'rsiCross':
+        return { kind, period, threshold, direction };
+      case 'forecastDivergence':
+        return { kind, prophet, percent, horizon };
+    }
+  }
+
+  async function run(action: () => Promise<unknown>, failure: string) {
+    if (!userId) return;
+    try {
+      await action();
+      await refresh();
+    } catch (err) {
+      console.error(failure, err);
+      setError(failure);
+    }
+  }
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!userId) return;
+    run(() => createAlertRule(userId, ticker, buildCondition()), 'Could not create alert rule');
+  };
+
+  if (!userId) {
+    return <div style={{ fontSize: '12px', color: 'var(--text-secondary)' }}>Sign in to manage alerts.</div>;
+  }
+
+  const numberInput = (value: number, onChange: (v: number) => void, step = 1) => (
+    <input
+      type="number"
+      step={step}
+      value={value}
+      onChange={(e) => onChange(Number(e.target.value) || 0)}
+      style={inputStyle}
+    />
+  );
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: '12px' }}>
+      <form onSubmit={handleCreate} style={{ display: 'flex', gap: '8px', alignItems: 'center', flexWrap: 'wrap' }}>
+        <select value={kind} onChange={(e) => setKind(e.target.value as ConditionKind)} style={selectStyle}>
+          {(Object.keys(KIND_LABELS) as ConditionKind[]).map(key => (
+            <option key={key} value={key}>{KIND_LABELS[key]}</option>
+          ))}
+        </select>
+
+        {(kind === 'priceCross' || kind === 'rsiCross') && (
+          <select value={direction} onChange={(e) => setDirection(e.target.value as 'above' | 'below')} style={selectStyle}>
+            <option value="above">above</option>
+            <option value="below">below</option>
+          </select>
+        )}
+        {kind === 'priceCross' && numberInput(level, setLevel, 0.01)}
+
+        {kind === 'percentMove' && (
+          <>
+            <select value={moveDirection} onChange={(e) => setMoveDirection(e.target.value as 'up' | 'down' | 'either')} style={selectStyle}>
+              <option value="either">either way</option>
+              <option value="up">up</option>
+              <option value="down">down</option>
+            </select>
+            {numberInput(percent, setPercent, 0.1)}
+            <label style={labelStyle}>% over</label>
+            {numberInput(days, v => setDays(Math.max(1, Math.round(v))))}
+            <label style={labelStyle}>days</label>
+          </>
+        )}
+
+        {kind === 'rsiCross' && (
+          <>
+            {numberInput(threshold, setThreshold)}
+            <label style={labelStyle}>period</label>
+            {numberInput(period, v => setPeriod(Math.max(2, Math.round(v))))}
+          </>
+        )}
+
+        {kind === 'forecastDivergence' && (
+          <>
+            <select value={prophet} onChange={(e) => setProphet(e.target.value as ProphetKey)} style={selectStyle}>
+              {PROPHET_KEYS.map(key => <option key={key} value={key}>{key}</option>)}
+            </select>
+            <label style={labelStyle}>by</label>
+            {numberInput(percent, setPercent, 0.1)}
+            <label style={labelStyle}>% at</label>
+            <select value={horizon} onChange={(e) => setHorizon(Number(e.target.value))} style={selectStyle}>
+              <option value={1}>1 day</option>
+              <option value={5}>5 days</option>
+            </select>
+          </>
+        )}
+
+        <button type="submit" style={{ ...selectStyle, fontWeight: 600 }}>Add alert</button>
+      </form>
+
+      {error && <div style={{ fontSize: '12px', color: '#ef4444' }}>{error}</div>}
+
+      {rules.length === 0 ? (
+        <div style={{ fontSize: '12px', color: 'var(--text-secondary)' }}>No alerts for {ticker} yet.</div>
+      ) : (
+        <table style={{ width: '100%', fontSize: '12px', borderCollapse: 'collapse' }}>
+          <thead>
+            <tr style={{ textAlign: 'left', color: 'var(--text-secondary)' }}>
+              <th>Condition</th>
+              <th>Last fired</th>
+              <th>On</th>
+              <th></th>
+            </tr>
+          </thead>
+          <tbody>
+            {rules.map(rule => (
+              <tr key={rule.ruleId} style={{ borderTop: '1px solid rgba(15,23,42,0.08)' }}>
+                <td>{describeCondition(rule.condition)}</td>
+                <td>{rule.lastTriggeredDate ? rule.lastTriggeredDate.slice(0, 10) : '--'}</td>
+                <td>
+                  <input
+                    type="checkbox"
+                    checked={rule.enabled}
+                    onChange={() => run(() => setAlertRuleEnabled(userId, rule.ruleId, !rule.enabled), 'Could not update alert rule')}
+                  />
+                </td>
+                <td>
+                  <button
+                    type="button"
+                    title="Delete alert"
+                    onClick={() => run(() => deleteAlertRule(userId, rule.ruleId), 'Could not delete alert rule')}
+                    style={{ background: 'none', border: 'none', cursor: 'pointer', color: 'var(--text-secondary)' }}
+                  >
+                    <Trash2 size={12} />
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
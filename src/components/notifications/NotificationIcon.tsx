@@ -0,0 +1,18 @@
+import React from 'react';
+import { AlertTriangle, BarChart2, Info } from 'react-feather';
+import { NotificationCategory } from '../../services/notifications';
+
+const ICONS: Record<NotificationCategory, React.ComponentType<{ size?: number }>> = {
+  alert: AlertTriangle,
+  system: Info,
+  analysis: BarChart2
+};
+
+export default function NotificationIcon({ category, size = 16 }: { category: NotificationCategory; size?: number }) {
+  const Icon = ICONS[category];
+  return (
+    <span className={`notif-icon notif-icon-${category}`} aria-label={category}>
+      <Icon size={size} />
+    </span>
+  );
+}
@@ -1,6 +1,14 @@
 import React, { useEffect, useRef, useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
 import { useAuth } from '../../context/AuthContext';
-import { getUnreadNotificationsForUser, markNotificationChecked, Notification } from '../../services/notifications';
+import {
+  getUnreadNotificationsForUser,
+  markNotificationChecked,
+  notificationCategory,
+  notificationLink,
+  Notification
+} from '../../services/notifications';
+import NotificationIcon from './NotificationIcon';
 import './NotificationPopup.css';
 
 interface Props {
@@ -14,6 +22,7 @@ export default function NotificationPopup({ onClose, onChange }: Props) {
   const [loading, setLoading] = useState(false);
   const [markingAll, setMarkingAll] = useState(false);
   const popupRef = useRef<HTMLDivElement | null>(null);
+  const navigate = useNavigate();
 
   // adjust horizontal offset so the popup doesn't overflow the viewport
   function adjustPopupPosition() {
@@ -82,6 +91,15 @@ export default function NotificationPopup({ onClose, onChange }: Props) {
     }
   }
 
+  // Follow a notification's deep link, marking it read on the way.
+  async function handleOpen(n: Notification) {
+    const link = notificationLink(n);
+    if (!link) return;
+    await handleMarkAsRead(n);
+    if (typeof onClose === 'function') onClose();
+    navigate(link);
+  }
+
   async function handleMarkAllRead() {
     if (!notifications.length) return;
     setMarkingAll(true);
@@ -123,7 +141,13 @@ export default function NotificationPopup({ onClose, onChange }: Props) {
         <ul className="notif-list">
           {notifications.map(n => (
             <li key={n.notificationId} className="notif-item">
-              <div className="notif-message">{n.message}</div>
+              <NotificationIcon category={notificationCategory(n)} size={14} />
+              <div
+                className={`notif-message ${notificationLink(n) ? 'has-link' : ''}`}
+                onClick={() => handleOpen(n)}
+              >
+                {n.message}
+              </div>
               <div className="notif-actions">
                 <button className="mark-read" onClick={() => handleMarkAsRead(n)}>Mark read</button>
               </div>
@@ -131,6 +155,7 @@ export default function NotificationPopup({ onClose, onChange }: Props) {
           ))}
         </ul>
       </div>
+      <Link to="/notifications" className="see-all" onClick={onClose}>See all</Link>
     </div>
   );
 }
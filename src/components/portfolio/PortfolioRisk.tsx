@@ -0,0 +1,257 @@
+import React, { useEffect, useMemo, useState } from "react";
+import type { Data, Layout } from "plotly.js";
+import PlotlyChart from "../charts/PlotlyChart";
+import { getAllAssets } from "../../services/assets";
+import { getPortfolioPrices, portfolioRisk } from "../../services/portfolio";
+import { monthsBefore } from "../../lib/comparison";
+import type { RiskFrequency } from "../../lib/portfolioRisk";
+import type { AssetMeta } from "../../types/assets";
+import type { PriceData } from "../../types/price";
+
+interface PortfolioRiskProps {
+  holdings: Record<string, number>;
+  histories: Record<string, PriceData[]>;
+  marketValue: number;
+}
+
+type Lookback = "1Y" | "3Y" | "All";
+
+const LOOKBACKS: Array<{ id: Lookback; months: number | undefined }> = [
+  { id: "1Y", months: 12 },
+  { id: "3Y", months: 36 },
+  { id: "All", months: undefined }
+];
+
+const CONFIDENCES = [0.95, 0.99];
+
+// Tried in order when the user hasn't picked a benchmark yet.
+const DEFAULT_BENCHMARKS = ["SPX", "SPY", "DJIA"];
+
+const EPISODE_COLORS = ["rgba(239, 68, 68, 0.14)", "rgba(249, 115, 22, 0.12)", "rgba(234, 179, 8, 0.12)"];
+
+const DRAWDOWN_LAYOUT: Partial<Layout> = {
+  showlegend: false,
+  yaxis: { title: { text: "Drawdown %" }, ticksuffix: "%" }
+};
+
+function pct(value: number | null, digits = 2) {
+  return value === null || !Number.isFinite(value) ? "--" : `${value.toFixed(digits)}%`;
+}
+
+function money(value: number) {
+  return Number.isFinite(value) ? value.toLocaleString(undefined, { maximumFractionDigits: 0 }) : "--";
+}
+
+// Risk of the current holdings: tail risk, beta, per-position contribution to volatility and
+// the deepest drawdowns with what drove them (src/lib/portfolioRisk.ts).
+export default function PortfolioRisk({ holdings, histories, marketValue }: PortfolioRiskProps) {
+  const [assets, setAssets] = useState<AssetMeta[]>([]);
+  const [benchmark, setBenchmark] = useState("");
+  const [benchmarkHistory, setBenchmarkHistory] = useState<Record<string, PriceData[]>>({});
+  const [frequency, setFrequency] = useState<RiskFrequency>("daily");
+  const [confidence, setConfidence] = useState(0.95);
+  const [lookback, setLookback] = useState<Lookback>("1Y");
+
+  useEffect(() => {
+    getAllAssets()
+      .then(list => {
+        const sorted = list.sort((a, b) => a.ticker.localeCompare(b.ticker));
+        setAssets(sorted);
+        setBenchmark(current => current || DEFAULT_BENCHMARKS.find(t => sorted.some(a => a.ticker === t)) || "");
+      })
+      .catch(err => console.error("Failed to load assets", err));
+  }, []);
+
+  useEffect(() => {
+    if (!benchmark || histories[benchmark] || benchmarkHistory[benchmark]) return;
+    getPortfolioPrices([benchmark])
+      .then(loaded => setBenchmarkHistory(current => ({ ...current, ...loaded })))
+      .catch(err => console.error("Failed to load benchmark prices", err));
+  }, [benchmark, histories, benchmarkHistory]);
+
+  const report = useMemo(() => {
+    const all = { ...benchmarkHistory, ...histories };
+    const lastDate = Object.keys(holdings)
+      .map(ticker => all[ticker]?.[all[ticker].length - 1]?.date || "")
+      .reduce((max, date) => (date > max ? date : max), "");
+    const startDate = monthsBefore(lastDate || undefined, LOOKBACKS.find(l => l.id === lookback)?.months);
+    return portfolioRisk(holdings, all, { benchmark: benchmark || undefined, startDate, frequency, confidence });
+  }, [holdings, histories, benchmarkHistory, benchmark, frequency, confidence, lookback]);
+
+  const drawdownData = useMemo<Data[]>(() => (report ? [{
+    x: report.dates,
+    y: report.drawdown,
+    type: "scatter",
+    mode: "lines",
+    fill: "tozeroy",
+    name: "Drawdown",
+    line: { color: "#ef4444", width: 1.5 },
+    fillcolor: "rgba(239, 68, 68, 0.18)"
+  }] : []), [report]);
+
+  // Worst episodes shaded from peak to trough
+  const drawdownLayout = useMemo<Partial<Layout>>(() => ({
+    ...DRAWDOWN_LAYOUT,
+    shapes: (report?.worstDrawdowns || []).map((episode, i) => ({
+      type: "rect",
+      xref: "x",
+      yref: "paper",
+      x0: episode.peakDate,
+      x1: episode.troughDate,
+      y0: 0,
+      y1: 1,
+      fillcolor: EPISODE_COLORS[i % EPISODE_COLORS.length],
+      line: { width: 0 }
+    }))
+  }), [report]);
+
+  const period = frequency === "daily" ? "1-day" : "1-week";
+  const level = `${Math.round(confidence * 100)}%`;
+
+  return (
+    <div className="portfolio-risk">
+      <div className="portfolio-risk-controls">
+        <label className="portfolio-field">
+          Benchmark
+          <select className="portfolio-select" value={benchmark} onChange={event => setBenchmark(event.target.value)}>
+            <option value="">None</option>
+            {assets.map(asset => (
+              <option key={asset.ticker} value={asset.ticker}>{asset.ticker}</option>
+            ))}
+          </select>
+        </label>
+        <div className="pill-group" role="group" aria-label="Return frequency">
+          {(["daily", "weekly"] as RiskFrequency[]).map(option => (
+            <button
+              key={option}
+              type="button"
+              className={`pill ${option === frequency ? "active" : ""}`}
+              onClick={() => setFrequency(option)}
+            >
+              {option === "daily" ? "Daily" : "Weekly"}
+            </button>
+          ))}
+        </div>
+        <div className="pill-group" role="group" aria-label="Confidence">
+          {CONFIDENCES.map(option => (
+            <button
+              key={option}
+              type="button"
+              className={`pill ${option === confidence ? "active" : ""}`}
+              onClick={() => setConfidence(option)}
+            >
+              {Math.round(option * 100)}%
+            </button>
+          ))}
+        </div>
+        <div className="pill-group" role="group" aria-label="Lookback">
+          {LOOKBACKS.map(option => (
+            <button
+              key={option.id}
+              type="button"
+              className={`pill ${option.id === lookback ? "active" : ""}`}
+              onClick={() => setLookback(option.id)}
+            >
+              {option.id}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {!report && <div className="empty-state">Not enough overlapping price history for the current holdings.</div>}
+
+      {report && (
+        <>
+          <div className="portfolio-stats">
+            <div className="portfolio-stat">
+              <span>Volatility (ann.)</span>
+              <strong>{pct(report.volatility)}</strong>
+            </div>
+            <div className="portfolio-stat">
+              <span>Beta{benchmark ? ` vs ${benchmark}` : ""}</span>
+              <strong>{report.beta === null ? "--" : report.beta.toFixed(2)}</strong>
+            </div>
+            <div className="portfolio-stat">
+              <span>Historical VaR</span>
+              <strong>{pct(report.historical.var)}</strong>
+              <small>{money((report.historical.var / 100) * marketValue)}</small>
+            </div>
+            <div className="portfolio-stat">
+              <span>Historical CVaR</span>
+              <strong>{pct(report.historical.cvar)}</strong>
+              <small>{money((report.historical.cvar / 100) * marketValue)}</small>
+            </div>
+            <div className="portfolio-stat">
+              <span>Parametric VaR</span>
+              <strong>{pct(report.parametric.var)}</strong>
+              <small>{money((report.parametric.var / 100) * marketValue)}</small>
+            </div>
+            <div className="portfolio-stat">
+              <span>Parametric CVaR</span>
+              <strong>{pct(report.parametric.cvar)}</strong>
+              <small>{money((report.parametric.cvar / 100) * marketValue)}</small>
+            </div>
+          </div>
+          <p className="portfolio-hint">
+            {period} losses at {level} confidence from {report.dates.length.toLocaleString()} {frequency} closes
+            ({report.dates[0]} → {report.dates[report.dates.length - 1]}), using today's weights.
+            {report.excluded.length > 0 && ` Left out for lack of prices: ${report.excluded.join(", ")}.`}
+          </p>
+
+          <table className="score-table portfolio-table">
+            <thead>
+              <tr>
+                <th>Ticker</th>
+                <th>Weight</th>
+                <th>Volatility</th>
+                <th>Risk Contribution</th>
+                <th>Share of Risk</th>
+              </tr>
+            </thead>
+            <tbody>
+              {report.contributions.map(row => (
+                <tr key={row.ticker}>
+                  <td>{row.ticker}</td>
+                  <td>{pct(row.weight * 100, 1)}</td>
+                  <td>{pct(row.volatility)}</td>
+                  <td>{pct(row.contribution)}</td>
+                  <td>{pct(row.share * 100, 1)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <div className="portfolio-chart">
+            <h3>Drawdown</h3>
+            <PlotlyChart data={drawdownData} layout={drawdownLayout} height={280} />
+          </div>
+
+          {report.worstDrawdowns.length > 0 && (
+            <table className="score-table portfolio-table">
+              <thead>
+                <tr>
+                  <th>Depth</th>
+                  <th>Peak → Trough</th>
+                  <th>Recovered</th>
+                  <th>Attribution (share of the loss)</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.worstDrawdowns.map(episode => (
+                  <tr key={episode.peakDate}>
+                    <td className="negative">{pct(episode.depth, 1)}</td>
+                    <td>{episode.peakDate} → {episode.troughDate}</td>
+                    <td>{episode.recoveryDate ?? "Not yet"}</td>
+                    <td className="portfolio-attribution">
+                      {episode.attribution.map(item => `${item.ticker} ${(item.share * 100).toFixed(0)}%`).join(" · ")}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,110 @@
+import React, { useState } from "react";
+import { Plus } from "react-feather";
+import { validateTransaction } from "../../lib/portfolio";
+import { TRANSACTION_TYPES, TransactionInput, TransactionType } from "../../types/portfolio";
+
+interface TransactionFormProps {
+  onAdd: (input: TransactionInput) => Promise<void>;
+}
+
+const TYPE_LABELS: Record<TransactionType, string> = {
+  buy: "Buy",
+  sell: "Sell",
+  dividend: "Dividend",
+  split: "Split"
+};
+
+const EMPTY = { ticker: "", date: "", quantity: "", price: "", amount: "", ratio: "", fees: "", note: "" };
+
+// Single-entry form; amounts shown depend on the type. Validation is the same code the API runs.
+export default function TransactionForm({ onAdd }: TransactionFormProps) {
+  const [type, setType] = useState<TransactionType>("buy");
+  const [form, setForm] = useState({ ...EMPTY, date: new Date().toISOString().slice(0, 10) });
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const update = (field: keyof typeof EMPTY) => (event: React.ChangeEvent<HTMLInputElement>) =>
+    setForm({ ...form, [field]: event.target.value });
+
+  const handleSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setError(null);
+    const input = validateTransaction({ ...form, type });
+    if (typeof input === "string") {
+      setError(input);
+      return;
+    }
+    setBusy(true);
+    try {
+      await onAdd(input);
+      setForm(current => ({ ...EMPTY, date: current.date }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to add the transaction.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const trade = type === "buy" || type === "sell";
+
+  return (
+    <form className="portfolio-form" onSubmit={handleSubmit}>
+      <label className="form-field" htmlFor="tx-type">
+        Type
+        <select id="tx-type" value={type} onChange={event => setType(event.target.value as TransactionType)}>
+          {TRANSACTION_TYPES.map(option => (
+            <option key={option} value={option}>{TYPE_LABELS[option]}</option>
+          ))}
+        </select>
+      </label>
+      <label className="form-field" htmlFor="tx-ticker">
+        Ticker
+        <input id="tx-ticker" type="text" required placeholder="e.g. SPY" value={form.ticker} onChange={update("ticker")} />
+      </label>
+      <label className="form-field" htmlFor="tx-date">
+        Date
+        <input id="tx-date" type="date" required value={form.date} onChange={update("date")} />
+      </label>
+      {trade && (
+        <>
+          <label className="form-field" htmlFor="tx-quantity">
+            Shares
+            <input id="tx-quantity" type="number" required min="0" step="any" value={form.quantity} onChange={update("quantity")} />
+          </label>
+          <label className="form-field" htmlFor="tx-price">
+            Price per Share
+            <input id="tx-price" type="number" required min="0" step="any" value={form.price} onChange={update("price")} />
+          </label>
+        </>
+      )}
+      {type === "dividend" && (
+        <label className="form-field" htmlFor="tx-amount">
+          Amount Received
+          <input id="tx-amount" type="number" required min="0" step="any" value={form.amount} onChange={update("amount")} />
+        </label>
+      )}
+      {type === "split" && (
+        <label className="form-field" htmlFor="tx-ratio">
+          Ratio (new per old, e.g. 2:1 or 1:10)
+          <input id="tx-ratio" type="text" required placeholder="2:1" value={form.ratio} onChange={update("ratio")} />
+        </label>
+      )}
+      {type !== "split" && (
+        <label className="form-field" htmlFor="tx-fees">
+          {type === "dividend" ? "Tax Withheld" : "Fees"}
+          <input id="tx-fees" type="number" min="0" step="any" value={form.fees} onChange={update("fees")} />
+        </label>
+      )}
+      <label className="form-field portfolio-note-field" htmlFor="tx-note">
+        Note
+        <input id="tx-note" type="text" maxLength={200} value={form.note} onChange={update("note")} />
+      </label>
+      <div className="form-actions">
+        {error && <p className="form-message error" role="alert">{error}</p>}
+        <button className="primary-button" type="submit" disabled={busy}>
+          <Plus size={14} /> {busy ? "Saving…" : `Add ${TYPE_LABELS[type]}`}
+        </button>
+      </div>
+    </form>
+  );
+}
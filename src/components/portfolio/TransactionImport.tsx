@@ -0,0 +1,78 @@
+import React, { useState } from "react";
+import { Upload } from "react-feather";
+import { parseTransactionCsv, ParsedTransactionFile } from "../../services/portfolio";
+import { TransactionInput } from "../../types/portfolio";
+
+interface TransactionImportProps {
+  onImport: (inputs: TransactionInput[]) => Promise<number>;
+}
+
+const MAX_ISSUES_SHOWN = 20;
+
+// CSV import: parse and validate in the browser, show what was rejected, then add the valid
+// rows in one batch (the whole batch is refused if it would oversell a position).
+export default function TransactionImport({ onImport }: TransactionImportProps) {
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [parsed, setParsed] = useState<ParsedTransactionFile | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const chosen = event.target.files?.[0];
+    setError(null);
+    setMessage(null);
+    setFileName(chosen?.name ?? null);
+    setParsed(chosen ? parseTransactionCsv(await chosen.text()) : null);
+  };
+
+  const handleImport = async () => {
+    if (!parsed?.transactions.length) return;
+    setBusy(true);
+    setError(null);
+    try {
+      const written = await onImport(parsed.transactions);
+      setMessage(`Imported ${written.toLocaleString()} transaction${written === 1 ? "" : "s"} from ${fileName}.`);
+      setParsed(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Import failed.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const count = parsed?.transactions.length ?? 0;
+  const rowIssues = parsed?.errors.filter(issue => issue.line > 0) ?? [];
+
+  return (
+    <div className="portfolio-import">
+      <p className="portfolio-hint">
+        Columns are matched by name: Date, Type (buy, sell, dividend, split), Ticker or Symbol, plus Quantity and
+        Price for trades, Amount for dividends, Ratio for splits, and optional Fees and Note.
+      </p>
+      <div className="portfolio-import-row">
+        <input type="file" accept=".csv,.txt,text/csv" aria-label="Transactions CSV" onChange={handleFile} />
+        <button className="primary-button" type="button" onClick={handleImport} disabled={busy || !count}>
+          <Upload size={14} /> {busy ? "Importing…" : `Import ${count.toLocaleString()} transaction${count === 1 ? "" : "s"}`}
+        </button>
+      </div>
+
+      {error && <p className="form-message error" role="alert">{error}</p>}
+      {message && <p className="form-message success">{message}</p>}
+      {parsed?.errors.filter(issue => issue.line === 0).map(issue => (
+        <p key={issue.message} className="form-message error">{issue.message}</p>
+      ))}
+      {rowIssues.length > 0 && (
+        <ul className="portfolio-issues">
+          {rowIssues.slice(0, MAX_ISSUES_SHOWN).map(issue => (
+            <li key={issue.line}>Line {issue.line}: {issue.message}</li>
+          ))}
+          {rowIssues.length > MAX_ISSUES_SHOWN && <li>…and {rowIssues.length - MAX_ISSUES_SHOWN} more rows skipped</li>}
+        </ul>
+      )}
+      {parsed && parsed.ignoredColumns.length > 0 && (
+        <p className="portfolio-hint">Ignored columns: {parsed.ignoredColumns.join(", ")}</p>
+      )}
+    </div>
+  );
+}
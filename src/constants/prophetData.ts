@@ -1,3 +1,5 @@
+import type { ProphetKey as PriceProphetKey } from '../types/price';
+
 export interface ProphetInfo {
   name: string;
   description: string;
@@ -98,4 +100,32 @@ export const SCALE_TYPES: ScaleType[] = [
   { label: 'Auto', type: 'linear' },
   { label: 'Fixed', type: 'linear' },
   { label: 'Log', type: 'log' }
-];
\ No newline at end of file
+];
+
+// Display metadata for the prophets carried on PriceData (Dashboard console, leaderboard)
+export const PROPHECY_LIBRARY: Record<PriceProphetKey, { title: string; blurb: string; color: string; emphasis: string }> = {
+  timeSage: {
+    title: "TimeSage AI",
+    blurb: "Temporal neural sentinel tuned for intraday drift and liquidity cues.",
+    color: "#3fe3ce",
+    emphasis: "Leads 8 mins"
+  },
+  trendOracle: {
+    title: "TrendOracle",
+    blurb: "Macro factor ensemble that stabilises medium range conviction.",
+    color: "#3ea8ff",
+    emphasis: "Confidence 82%"
+  },
+  marketMind: {
+    title: "MarketMind",
+    blurb: "Pattern-aware transformer merging news velocity with order flow.",
+    color: "#f973ff",
+    emphasis: "News bias neutral"
+  },
+  quantumPredictor: {
+    title: "QuantumPredictor",
+    blurb: "Quantum-inspired engine scanning volatility clustering regimes.",
+    color: "#ff8a65",
+    emphasis: "Vol floor 14%"
+  }
+};
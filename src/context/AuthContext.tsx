@@ -1,31 +1,50 @@
-import React, { createContext, useContext, useState, useEffect } from 'react';
+import React, { createContext, useCallback, useContext, useState, useEffect, useRef } from 'react';
 import * as AmazonCognitoIdentity from 'amazon-cognito-identity-js';
+import { authFlows, refreshSession, userPool } from '../services/cognito';
+import { SignInStep } from '../services/authFlows';
+import { getSessionPolicy } from '../services/appSettings';
+import { hasPermission, Permission, Role, roleFromGroups } from '../lib/permissions';
+import { DEFAULT_SESSION_POLICY, SessionPolicy } from '../types/appSettings';
+import { useIdleTimeout } from '../hooks/useIdleTimeout';
 
 interface User {
   username: string;
-  role: 'user' | 'admin';
+  role: Role;
+  groups: string[];
   email: string;
 }
 
 interface AuthContextType {
   isAuthenticated: boolean;
   user: User | null;
-  signIn: (username: string, password: string, newPassword?: string) => Promise<void>;
+  can: (permission: Permission) => boolean;
+  signIn: (username: string, password: string, newPassword?: string) => Promise<SignInStep>;
+  confirmMfa: (code: string) => Promise<SignInStep>;
   signOut: () => void;
+  // Re-reads attributes and groups from Cognito, e.g. after the email changes in Settings
+  refreshUser: () => Promise<void>;
+  sessionPolicy: SessionPolicy;
+  refreshSessionPolicy: () => Promise<void>;
+  // Seconds until the idle sign-out while the expiry warning is showing, otherwise null
+  sessionWarningSeconds: number | null;
+  extendSession: () => Promise<void>;
+  // Why the last session ended without the user signing out (shown on the login page)
+  sessionNotice: string | null;
 }
 
-export const AuthContext = createContext<AuthContextType | null>(null);
-
-const poolData = {
-  UserPoolId: import.meta.env.VITE_COGNITO_USER_POOL_ID || '',
-  ClientId: import.meta.env.VITE_COGNITO_CLIENT_ID || ''
-};
+// Renew tokens this long before the access token expires (Cognito issues 60-minute tokens).
+const REFRESH_LEAD_MS = 5 * 60 * 1000;
+const EXPIRED_NOTICE = 'Your session has expired. Please sign in again.';
 
-const userPool = new AmazonCognitoIdentity.CognitoUserPool(poolData);
+export const AuthContext = createContext<AuthContextType | null>(null);
 
 export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [isAuthenticated, setIsAuthenticated] = useState(false);
   const [user, setUser] = useState<User | null>(null);
+  const [tokenExpiresAt, setTokenExpiresAt] = useState<number | null>(null);
+  const [sessionPolicy, setSessionPolicy] = useState<SessionPolicy>(DEFAULT_SESSION_POLICY);
+  const [sessionNotice, setSessionNotice] = useState<string | null>(null);
+  const wasAuthenticated = useRef(false);
 
   useEffect(() => {
     checkAuth();
@@ -87,79 +106,133 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         email = '';
       }
 
-      const role = email === 'admin@chasingprophets.local' ? 'admin' : 'user';
+      // Group membership is managed in Cognito and travels in the ID token
+      const groups: string[] = session.getIdToken().payload['cognito:groups'] || [];
 
       setUser({
         username: typeof cognitoUser.getUsername === 'function' ? cognitoUser.getUsername() : '',
         email,
-        role
+        role: roleFromGroups(groups),
+        groups
       });
+      setTokenExpiresAt(session.getAccessToken().getExpiration() * 1000);
       setIsAuthenticated(true);
+      wasAuthenticated.current = true;
     } catch (error) {
       console.error('Auth check failed:', error);
-      setIsAuthenticated(false);
-      setUser(null);
+      if (wasAuthenticated.current) {
+        endSession(EXPIRED_NOTICE);
+      } else {
+        setIsAuthenticated(false);
+        setUser(null);
+      }
     }
   }
 
-  const signIn = async (username: string, password: string, newPassword?: string) => {
-    const authDetails = new AmazonCognitoIdentity.AuthenticationDetails({
-      Username: username,
-      Password: password,
-      ValidationData: {
-        EMAIL: username
-      }
-    });
-
-    const cognitoUser = new AmazonCognitoIdentity.CognitoUser({
-      Username: username,
-      Pool: userPool
-    });
+  // Ends the session without an explicit sign-out; the login page shows `notice` and, because the
+  // router redirects from the current route, returns the user there after signing back in.
+  function endSession(notice: string) {
+    userPool.getCurrentUser()?.signOut();
+    wasAuthenticated.current = false;
+    setTokenExpiresAt(null);
+    setIsAuthenticated(false);
+    setUser(null);
+    setSessionNotice(notice);
+  }
 
+  const renewTokens = async () => {
     try {
-      await new Promise((resolve, reject) => {
-        cognitoUser.authenticateUser(authDetails, {
-          onSuccess: (session) => {
-            console.log('Authentication successful:', session);
-            resolve(session);
-          },
-          onFailure: (err) => {
-            console.error('Authentication failed:', err);
-            reject(err);
-          },
-          newPasswordRequired: (userAttributes, _requiredAttributes) => {
-            if (newPassword) {
-              delete userAttributes.email_verified;
-              delete userAttributes.email;
-              cognitoUser.completeNewPasswordChallenge(newPassword, userAttributes, {
-                onSuccess: resolve,
-                onFailure: reject
-              });
-            } else {
-              reject({ code: 'NewPasswordRequired', message: 'You need to change your password' });
-            }
-          }
-        });
-      });
+      const session = await refreshSession();
+      setTokenExpiresAt(session.getAccessToken().getExpiration() * 1000);
+    } catch (error) {
+      console.error('Token refresh failed:', error);
+      endSession(EXPIRED_NOTICE);
+    }
+  };
 
-      await checkAuth();
+  // Proactive renewal, so long chart sessions never hit an expired token mid-request.
+  useEffect(() => {
+    if (!tokenExpiresAt) return;
+    const timer = window.setTimeout(renewTokens, Math.max(0, tokenExpiresAt - REFRESH_LEAD_MS - Date.now()));
+    return () => window.clearTimeout(timer);
+  }, [tokenExpiresAt]);
+
+  const refreshSessionPolicy = useCallback(async () => {
+    setSessionPolicy(await getSessionPolicy());
+  }, []);
+
+  useEffect(() => {
+    if (isAuthenticated) refreshSessionPolicy();
+  }, [isAuthenticated, refreshSessionPolicy]);
+
+  const handleIdleTimeout = useCallback(() => {
+    endSession(`You were signed out after ${sessionPolicy.idleTimeoutMinutes} minutes of inactivity.`);
+  }, [sessionPolicy.idleTimeoutMinutes]);
+
+  const idle = useIdleTimeout({
+    enabled: isAuthenticated && sessionPolicy.idleTimeoutMinutes > 0,
+    timeoutMs: sessionPolicy.idleTimeoutMinutes * 60 * 1000,
+    warningMs: sessionPolicy.warningSeconds * 1000,
+    onTimeout: handleIdleTimeout
+  });
+
+  const extendSession = async () => {
+    idle.reset();
+    await renewTokens();
+  };
+
+  // Resolves with the next step for the login form; the session only exists once a step is 'done'.
+  const signIn = async (username: string, password: string, newPassword?: string): Promise<SignInStep> => {
+    try {
+      const result = await authFlows.signIn(username, password, newPassword);
+      if (result.step === 'done') {
+        setSessionNotice(null);
+        await checkAuth();
+      }
+      return result;
     } catch (error) {
       console.error('Login failed:', error);
       throw error;
     }
   };
 
+  const confirmMfa = async (code: string): Promise<SignInStep> => {
+    const result = await authFlows.confirmMfa(code);
+    if (result.step === 'done') {
+      setSessionNotice(null);
+      await checkAuth();
+    }
+    return result;
+  };
+
   const signOut = () => {
     const cognitoUser = userPool.getCurrentUser();
     if (cognitoUser) {
       cognitoUser.signOut();
+      wasAuthenticated.current = false;
+      setTokenExpiresAt(null);
       setIsAuthenticated(false);
       setUser(null);
     }
   };
 
+  const can = (permission: Permission) => hasPermission(user?.role, permission);
+
   return (
-    <AuthContext.Provider value={{ isAuthenticated, user, signIn, signOut }}>
+    <AuthContext.Provider value={{
+      isAuthenticated,
+      user,
+      can,
+      signIn,
+      confirmMfa,
+      signOut,
+      refreshUser: checkAuth,
+      sessionPolicy,
+      refreshSessionPolicy,
+      sessionWarningSeconds: idle.secondsLeft,
+      extendSession,
+      sessionNotice
+    }}>
       {children}
     </AuthContext.Provider>
   );
@@ -0,0 +1,86 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+const ACTIVITY_EVENTS = ['mousemove', 'mousedown', 'keydown', 'scroll', 'touchstart', 'wheel'] as const;
+
+// Signing out clears the Cognito tokens for every tab, so activity is shared through
+// localStorage: a user busy in one tab is never timed out by an idle sibling.
+const LAST_ACTIVITY_KEY = 'chasingprophets.lastActivity';
+const SHARE_INTERVAL_MS = 5000;
+
+interface IdleTimeoutOptions {
+  enabled: boolean;
+  timeoutMs: number;
+  warningMs: number;
+  onTimeout: () => void;
+}
+
+function sharedLastActivity(): number {
+  return Number(localStorage.getItem(LAST_ACTIVITY_KEY)) || 0;
+}
+
+// Counts down from the last user input. `secondsLeft` is non-null only inside the warning
+// window, during which input no longer counts: the user has to call `reset` (e.g. "Stay signed in").
+export function useIdleTimeout({ enabled, timeoutMs, warningMs, onTimeout }: IdleTimeoutOptions) {
+  const [secondsLeft, setSecondsLeft] = useState<number | null>(null);
+  const lastActivity = useRef(Date.now());
+  const lastShared = useRef(0);
+  const warning = useRef(false);
+  const onTimeoutRef = useRef(onTimeout);
+
+  useEffect(() => {
+    onTimeoutRef.current = onTimeout;
+  }, [onTimeout]);
+
+  const markActive = useCallback((now = Date.now()) => {
+    lastActivity.current = now;
+    if (now - lastShared.current >= SHARE_INTERVAL_MS) {
+      lastShared.current = now;
+      localStorage.setItem(LAST_ACTIVITY_KEY, String(now));
+    }
+  }, []);
+
+  const reset = useCallback(() => {
+    warning.current = false;
+    lastShared.current = 0;
+    markActive();
+    setSecondsLeft(null);
+  }, [markActive]);
+
+  useEffect(() => {
+    if (!enabled) {
+      setSecondsLeft(null);
+      return;
+    }
+    reset();
+
+    const onActivity = () => {
+      if (!warning.current) markActive();
+    };
+    ACTIVITY_EVENTS.forEach(name => window.addEventListener(name, onActivity, { passive: true }));
+
+    // Timestamps rather than counters, so throttled background-tab timers stay accurate.
+    const tick = window.setInterval(() => {
+      const last = Math.max(lastActivity.current, sharedLastActivity());
+      const remaining = last + timeoutMs - Date.now();
+      if (remaining <= 0) {
+        warning.current = false;
+        setSecondsLeft(null);
+        onTimeoutRef.current();
+      } else if (remaining <= warningMs) {
+        warning.current = true;
+        setSecondsLeft(Math.ceil(remaining / 1000));
+      } else if (warning.current) {
+        // another tab extended the session
+        warning.current = false;
+        setSecondsLeft(null);
+      }
+    }, 1000);
+
+    return () => {
+      ACTIVITY_EVENTS.forEach(name => window.removeEventListener(name, onActivity));
+      window.clearInterval(tick);
+    };
+  }, [enabled, timeoutMs, warningMs, reset, markActive]);
+
+  return { secondsLeft, reset };
+}
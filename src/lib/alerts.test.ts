@@ -0,0 +1,159 @@
+import { describe, expect, it } from 'vitest';
+import { buildAlertRule, evaluateAlert, validateAlertCondition } from './alerts';
+import { AlertCondition, AlertRule } from '../types/alert';
+import { Forecast } from '../types/forecast';
+import { PriceData } from '../types/price';
+
+// Daily closes from 2025-01-01 on, one calendar day apart.
+function bars(closes: number[]): PriceData[] {
+  return closes.map((close, i) => ({
+    ticker: 'ACME',
+    date: `2025-01-${String(i + 1).padStart(2, '0')}`,
+    open: close,
+    high: close,
+    low: close,
+    close,
+    volume: 1000
+  }));
+}
+
+function rule(condition: AlertCondition, overrides: Partial<AlertRule> = {}): AlertRule {
+  return { ...buildAlertRule('ann', 'acme', condition), ...overrides };
+}
+
+function forecast(value: number, issueDate: string, overrides: Partial<Forecast> = {}): Forecast {
+  return { prophet: 'timeSage', ticker: 'ACME', issueDate, targetDate: '2025-01-10', horizon: 5, value, ...overrides };
+}
+
+describe('evaluateAlert', () => {
+  describe('priceCross', () => {
+    const above: AlertCondition = { kind: 'priceCross', level: 100, direction: 'above' };
+    const below: AlertCondition = { kind: 'priceCross', level: 100, direction: 'below' };
+
+    it('fires on the bar that crosses the level', () => {
+      expect(evaluateAlert(rule(above), bars([99, 101]))).toEqual({
+        date: '2025-01-02',
+        message: 'ACME closed above 100.00 at 101.00 on 2025-01-02.'
+      });
+      expect(evaluateAlert(rule(above), bars([99, 100]))?.date).toBe('2025-01-02');
+      expect(evaluateAlert(rule(below), bars([101, 99]))?.date).toBe('2025-01-02');
+    });
+
+    it('stays quiet while the close merely sits beyond the level', () => {
+      expect(evaluateAlert(rule(above), bars([101, 102]))).toBeNull();
+      expect(evaluateAlert(rule(below), bars([98, 97]))).toBeNull();
+      expect(evaluateAlert(rule(above), bars([101, 99]))).toBeNull();
+    });
+
+    it('needs a previous close', () => {
+      expect(evaluateAlert(rule(above), bars([101]))).toBeNull();
+    });
+  });
+
+  describe('percentMove', () => {
+    const move = (direction: 'up' | 'down' | 'either'): AlertCondition => ({ kind: 'percentMove', percent: 5, days: 2, direction });
+
+    it('compares the close with the one `days` sessions earlier', () => {
+      expect(evaluateAlert(rule(move('up')), bars([100, 90, 106]))?.message)
+        .toBe('ACME moved +6.00% over 2 days to 106.00 on 2025-01-03.');
+      expect(evaluateAlert(rule(move('up')), bars([100, 110, 104]))).toBeNull();
+    });
+
+    it('honours the direction', () => {
+      expect(evaluateAlert(rule(move('down')), bars([100, 103, 106]))).toBeNull();
+      expect(evaluateAlert(rule(move('down')), bars([100, 97, 94]))?.date).toBe('2025-01-03');
+      expect(evaluateAlert(rule(move('either')), bars([100, 97, 94]))?.date).toBe('2025-01-03');
+      expect(evaluateAlert(rule(move('either')), bars([100, 103, 106]))?.date).toBe('2025-01-03');
+      expect(evaluateAlert(rule(move('either')), bars([100, 103, 104]))).toBeNull();
+    });
+
+    it('needs `days` + 1 bars', () => {
+      expect(evaluateAlert(rule(move('up')), bars([100, 120]))).toBeNull();
+    });
+  });
+
+  describe('rsiCross', () => {
+    // RSI(3) is 0 through four straight losses; the +3 bounce lifts it to 60.
+    const closes = [10, 9, 8, 7, 6, 9];
+
+    it('fires when RSI crosses the threshold on the last bar', () => {
+      const condition: AlertCondition = { kind: 'rsiCross', period: 3, threshold: 50, direction: 'above' };
+      expect(evaluateAlert(rule(condition), bars(closes))?.message)
+        .toBe('ACME RSI(3) crossed above 50 (60.0) on 2025-01-06.');
+    });
+
+    it('stays quiet when RSI falls short of the threshold or was already beyond it', () => {
+      expect(evaluateAlert(rule({ kind: 'rsiCross', period: 3, threshold: 70, direction: 'above' }), bars(closes))).toBeNull();
+      expect(evaluateAlert(rule({ kind: 'rsiCross', period: 3, threshold: 50, direction: 'above' }), bars([1, 2, 3, 4, 5]))).toBeNull();
+    });
+
+    it('needs two RSI values', () => {
+      expect(evaluateAlert(rule({ kind: 'rsiCross', period: 3, threshold: 50, direction: 'below' }), bars([4, 3, 2, 1]))).toBeNull();
+    });
+  });
+
+  describe('forecastDivergence', () => {
+    const condition: AlertCondition = { kind: 'forecastDivergence', prophet: 'timeSage', percent: 5, horizon: 5 };
+    const prices = bars([98, 100]);
+
+    it('fires when the latest matching forecast is far enough from the close', () => {
+      expect(evaluateAlert(rule(condition), prices, [forecast(110, '2025-01-02')])?.message)
+        .toBe('timeSage sees ACME at 110.00 by 2025-01-10, +10.00% from the 100.00 close.');
+      expect(evaluateAlert(rule(condition), prices, [forecast(94, '2025-01-01')])?.date).toBe('2025-01-02');
+    });
+
+    it('uses the most recent issue on or before the last bar', () => {
+      expect(evaluateAlert(rule(condition), prices, [forecast(110, '2025-01-01'), forecast(101, '2025-01-02')])).toBeNull();
+      expect(evaluateAlert(rule(condition), prices, [forecast(101, '2025-01-01'), forecast(110, '2025-01-03')])).toBeNull();
+    });
+
+    it('ignores other prophets, horizons and tickers', () => {
+      expect(evaluateAlert(rule(condition), prices, [
+        forecast(110, '2025-01-02', { prophet: 'marketMind' }),
+        forecast(110, '2025-01-02', { horizon: 1 }),
+        forecast(110, '2025-01-02', { ticker: 'OTHER' })
+      ])).toBeNull();
+    });
+  });
+
+  describe('lastTriggeredDate', () => {
+    const condition: AlertCondition = { kind: 'priceCross', level: 100, direction: 'above' };
+
+    it('does not fire twice for the same bar', () => {
+      const prices = bars([99, 101]);
+      const trigger = evaluateAlert(rule(condition), prices);
+      expect(trigger).not.toBeNull();
+      expect(evaluateAlert(rule(condition, { lastTriggeredDate: trigger!.date }), prices)).toBeNull();
+    });
+
+    it('fires again on a later bar', () => {
+      expect(evaluateAlert(rule(condition, { lastTriggeredDate: '2025-01-01' }), bars([99, 101]))?.date).toBe('2025-01-02');
+    });
+  });
+
+  it('skips disabled rules and empty history', () => {
+    const condition: AlertCondition = { kind: 'priceCross', level: 100, direction: 'above' };
+    expect(evaluateAlert(rule(condition, { enabled: false }), bars([99, 101]))).toBeNull();
+    expect(evaluateAlert(rule(condition), [])).toBeNull();
+  });
+
+  it('evaluates the latest bar whatever order prices arrive in', () => {
+    const condition: AlertCondition = { kind: 'priceCross', level: 100, direction: 'above' };
+    expect(evaluateAlert(rule(condition), bars([99, 101]).reverse())?.date).toBe('2025-01-02');
+  });
+});
+
+describe('validateAlertCondition', () => {
+  it('keeps only the fields of the condition kind', () => {
+    expect(validateAlertCondition({ kind: 'priceCross', level: 100, direction: 'below', extra: true }))
+      .toEqual({ kind: 'priceCross', level: 100, direction: 'below' });
+  });
+
+  it('rejects unknown kinds and out-of-range values', () => {
+    expect(validateAlertCondition({ kind: 'moonPhase' })).toBe('Unknown condition kind "moonPhase"');
+    expect(validateAlertCondition({ kind: 'percentMove', percent: 5, days: 1.5, direction: 'up' })).toBe('days must be a positive integer');
+    expect(validateAlertCondition({ kind: 'rsiCross', period: 14, threshold: 120, direction: 'above' })).toBe('threshold must be between 0 and 100');
+    expect(validateAlertCondition({ kind: 'forecastDivergence', prophet: 'nobody', percent: 5, horizon: 5 }))
+      .toBe('prophet must be one of timeSage, trendOracle, marketMind, quantumPredictor');
+  });
+});
@@ -0,0 +1,177 @@
+import { AlertCondition, AlertRule, CrossDirection } from '../types/alert';
+import { Forecast } from '../types/forecast';
+import { PriceData, PROPHET_KEYS, ProphetKey } from '../types/price';
+import { rsiSeries } from './indicators';
+import { normalizeTicker } from './watchlists';
+
+// Pure alert construction and evaluation shared by the UI (rule descriptions), the API server
+// and scripts/evaluate-alerts.ts.
+
+export type AlertTrigger = {
+  date: string;     // price date of the bar that fired
+  message: string;
+};
+
+export function buildAlertRule(userId: string, ticker: string, condition: AlertCondition): AlertRule {
+  return {
+    userId,
+    ruleId: `rule-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    ticker: normalizeTicker(ticker),
+    condition,
+    enabled: true,
+    createdAt: new Date().toISOString()
+  };
+}
+
+const CROSS_DIRECTIONS: CrossDirection[] = ['above', 'below'];
+const MOVE_DIRECTIONS = ['up', 'down', 'either'] as const;
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+function isPositiveInteger(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) > 0;
+}
+
+// Checks a condition received from outside (the API body); returns it rebuilt from its known
+// fields, or a message saying what is wrong.
+export function validateAlertCondition(raw: Record<string, unknown>): AlertCondition | string {
+  switch (raw.kind) {
+    case 'priceCross': {
+      const direction = raw.direction as CrossDirection;
+      if (!isFiniteNumber(raw.level) || raw.level <= 0) return 'level must be a positive number';
+      if (!CROSS_DIRECTIONS.includes(direction)) return `direction must be one of ${CROSS_DIRECTIONS.join(', ')}`;
+      return { kind: 'priceCross', level: raw.level, direction };
+    }
+    case 'percentMove': {
+      const direction = raw.direction as typeof MOVE_DIRECTIONS[number];
+      if (!isFiniteNumber(raw.percent) || raw.percent <= 0) return 'percent must be a positive number';
+      if (!isPositiveInteger(raw.days)) return 'days must be a positive integer';
+      if (!MOVE_DIRECTIONS.includes(direction)) return `direction must be one of ${MOVE_DIRECTIONS.join(', ')}`;
+      return { kind: 'percentMove', percent: raw.percent, days: raw.days, direction };
+    }
+    case 'rsiCross': {
+      const direction = raw.direction as CrossDirection;
+      if (!isPositiveInteger(raw.period) || raw.period < 2) return 'period must be an integer of at least 2';
+      if (!isFiniteNumber(raw.threshold) || raw.threshold <= 0 || raw.threshold >= 100) return 'threshold must be between 0 and 100';
+      if (!CROSS_DIRECTIONS.includes(direction)) return `direction must be one of ${CROSS_DIRECTIONS.join(', ')}`;
+      return { kind: 'rsiCross', period: raw.period, threshold: raw.threshold, direction };
+    }
+    case 'forecastDivergence': {
+      const prophet = raw.prophet as ProphetKey;
+      if (!PROPHET_KEYS.includes(prophet)) return `prophet must be one of ${PROPHET_KEYS.join(', ')}`;
+      if (!isFiniteNumber(raw.percent) || raw.percent <= 0) return 'percent must be a positive number';
+      if (!isPositiveInteger(raw.horizon)) return 'horizon must be a positive integer';
+      return { kind: 'forecastDivergence', prophet, percent: raw.percent, horizon: raw.horizon };
+    }
+    default:
+      return `Unknown condition kind "${raw.kind ?? ''}"`;
+  }
+}
+
+function fmt(value: number, digits = 2) {
+  return value.toFixed(digits);
+}
+
+export function describeCondition(condition: AlertCondition): string {
+  switch (condition.kind) {
+    case 'priceCross':
+      return `Close crosses ${condition.direction} ${fmt(condition.level)}`;
+    case 'percentMove': {
+      const dir = condition.direction === 'either' ? 'moves' : condition.direction === 'up' ? 'rises' : 'falls';
+      return `Price ${dir} ${fmt(condition.percent, 1)}% over ${condition.days} day${condition.days === 1 ? '' : 's'}`;
+    }
+    case 'rsiCross':
+      return `RSI(${condition.period}) crosses ${condition.direction} ${fmt(condition.threshold, 0)}`;
+    case 'forecastDivergence':
+      return `${condition.prophet} ${condition.horizon}-day forecast diverges ${fmt(condition.percent, 1)}% from close`;
+  }
+}
+
+// Bars needed before a condition can be evaluated; the evaluator fetches at least this many.
+export function requiredHistory(condition: AlertCondition): number {
+  switch (condition.kind) {
+    case 'priceCross':
+      return 2;
+    case 'percentMove':
+      return condition.days + 1;
+    case 'rsiCross':
+      // Wilder smoothing needs a generous warm-up before values settle
+      return condition.period * 10 + 2;
+    case 'forecastDivergence':
+      return 1;
+  }
+}
+
+function crossed(prev: number, last: number, level: number, direction: 'above' | 'below') {
+  return direction === 'above' ? prev < level && last >= level : prev > level && last <= level;
+}
+
+// Evaluate a rule on the latest bar of `prices`. Returns null when the rule does not fire,
+// or when that bar already fired (rule.lastTriggeredDate).
+export function evaluateAlert(rule: AlertRule, prices: PriceData[], forecasts: Forecast[] = []): AlertTrigger | null {
+  if (!rule.enabled || !prices.length) return null;
+  const sorted = [...prices].sort((a, b) => a.date.localeCompare(b.date));
+  const last = sorted[sorted.length - 1];
+  if (rule.lastTriggeredDate && rule.lastTriggeredDate >= last.date) return null;
+
+  const condition = rule.condition;
+  const day = last.date.slice(0, 10);
+
+  switch (condition.kind) {
+    case 'priceCross': {
+      if (sorted.length < 2) return null;
+      const prev = sorted[sorted.length - 2].close;
+      if (!crossed(prev, last.close, condition.level, condition.direction)) return null;
+      return {
+        date: last.date,
+        message: `${rule.ticker} closed ${condition.direction} ${fmt(condition.level)} at ${fmt(last.close)} on ${day}.`
+      };
+    }
+    case 'percentMove': {
+      if (sorted.length <= condition.days) return null;
+      const base = sorted[sorted.length - 1 - condition.days].close;
+      if (!base) return null;
+      const change = ((last.close - base) / base) * 100;
+      const hit = condition.direction === 'up'
+        ? change >= condition.percent
+        : condition.direction === 'down'
+          ? change <= -condition.percent
+          : Math.abs(change) >= condition.percent;
+      if (!hit) return null;
+      return {
+        date: last.date,
+        message: `${rule.ticker} moved ${change >= 0 ? '+' : ''}${fmt(change)}% over ${condition.days} day${condition.days === 1 ? '' : 's'} to ${fmt(last.close)} on ${day}.`
+      };
+    }
+    case 'rsiCross': {
+      const rsi = rsiSeries(sorted.map(p => p.close), condition.period);
+      const lastRsi = rsi[rsi.length - 1];
+      const prevRsi = rsi[rsi.length - 2];
+      if (lastRsi === null || prevRsi === null || prevRsi === undefined) return null;
+      if (!crossed(prevRsi, lastRsi, condition.threshold, condition.direction)) return null;
+      return {
+        date: last.date,
+        message: `${rule.ticker} RSI(${condition.period}) crossed ${condition.direction} ${fmt(condition.threshold, 0)} (${fmt(lastRsi, 1)}) on ${day}.`
+      };
+    }
+    case 'forecastDivergence': {
+      // Latest forecast of this prophet and horizon issued on or before the last bar
+      const candidates = forecasts.filter(f =>
+        f.ticker === rule.ticker
+        && f.prophet === condition.prophet
+        && f.horizon === condition.horizon
+        && f.issueDate.slice(0, 10) <= day
+      );
+      if (!candidates.length || !last.close) return null;
+      const latest = candidates.reduce((a, b) => (b.issueDate > a.issueDate ? b : a));
+      const gap = ((latest.value - last.close) / last.close) * 100;
+      if (Math.abs(gap) < condition.percent) return null;
+      return {
+        date: last.date,
+        message: `${condition.prophet} sees ${rule.ticker} at ${fmt(latest.value)} by ${latest.targetDate.slice(0, 10)}, ${gap >= 0 ? '+' : ''}${fmt(gap)}% from the ${fmt(last.close)} close.`
+      };
+    }
+  }
+}
@@ -0,0 +1,28 @@
+import { AssetMeta, AssetSearchResult } from '../types/assets';
+
+// Pure asset ranking shared by the browser repositories and the API server's /api/search.
+
+// Only show exact matches or prefix matches for ticker/name. Returns up to `limit` results.
+export function rankAssets(assets: AssetMeta[], query: string, limit = 10): AssetSearchResult[] {
+  const q = (query || '').trim().toLowerCase();
+  if (!q) return [];
+
+  const scored = assets.map((a: AssetMeta) => {
+    const ticker = (a.ticker || '').toLowerCase();
+    const name = (a.name || '').toLowerCase();
+    let score = 0;
+    if (ticker === q) score = 100;  // Exact ticker match
+    else if (ticker.startsWith(q)) score = 90;  // Ticker prefix match
+    else if (name.startsWith(q)) score = 80;  // Name prefix match
+    return { asset: a, score };
+  }).filter(x => x.score > 0);
+
+  scored.sort((a, b) => b.score - a.score);
+  return scored.slice(0, limit).map(s => ({
+    ticker: s.asset.ticker,
+    name: s.asset.name,
+    market: s.asset.market,
+    lastPrice: s.asset.lastPrice === null ? undefined : s.asset.lastPrice,
+    type: 'Asset' as const
+  }));
+}
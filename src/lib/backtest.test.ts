@@ -0,0 +1,134 @@
+import { describe, expect, it } from 'vitest';
+import { BacktestConfig, DEFAULT_BACKTEST_CONFIG, runBacktest, StrategyDefinition } from './backtest';
+import { PriceData } from '../types/price';
+
+const strategy: StrategyDefinition = { kind: 'smaCross', fast: 2, slow: 3 };
+
+const prices: PriceData[] = [10, 11, 9, 8, 12, 13, 14, 12].map((close, i) => ({
+  ticker: 'ACME',
+  date: `2025-01-${String(i + 1).padStart(2, '0')}`,
+  open: close,
+  high: close,
+  low: close,
+  close,
+  volume: 100
+}));
+
+describe('runBacktest', () => {
+  it('starts the equity curve at the first bar on or after startDate', () => {
+    const { equity } = runBacktest(prices, strategy, { ...DEFAULT_BACKTEST_CONFIG, startDate: '2025-01-04' });
+    expect(equity.map(point => point.date)).toEqual(['2025-01-04', '2025-01-05', '2025-01-06', '2025-01-07', '2025-01-08']);
+  });
+
+  it('returns an empty result when startDate is after the last bar', () => {
+    const result = runBacktest(prices, strategy, { ...DEFAULT_BACKTEST_CONFIG, startDate: '2025-02-01' });
+    expect(result.trades).toEqual([]);
+    expect(result.equity).toEqual([]);
+    expect(result.stats).toMatchObject({ totalReturn: 0, tradeCount: 0 });
+  });
+});
+
+// Daily bars from [open, close] pairs, one calendar day apart from 2025-01-01.
+function bars(rows: [number, number][]): PriceData[] {
+  return rows.map(([open, close], i) => ({
+    ticker: 'ACME',
+    date: `2025-01-${String(i + 1).padStart(2, '0')}`,
+    open,
+    high: Math.max(open, close),
+    low: Math.min(open, close),
+    close,
+    volume: 100
+  }));
+}
+
+const frictionless: BacktestConfig = { initialCapital: 1000, commissionPerTrade: 0, commissionBps: 0, slippageBps: 0 };
+
+describe('runBacktest fills', () => {
+  // SMA(1) is the close. It crosses above SMA(2) on the third bar (12 vs 10.5) and back below
+  // on the fifth (8 vs 10.5).
+  const crossing = bars([[10, 10], [10, 9], [9, 12], [12.5, 13], [12, 8], [7.5, 7]]);
+  const sma: StrategyDefinition = { kind: 'smaCross', fast: 1, slow: 2 };
+
+  it("fills each signal at the next bar's open", () => {
+    const { trades, equity } = runBacktest(crossing, sma, frictionless);
+    expect(trades).toEqual([{
+      entryDate: '2025-01-04',
+      entryPrice: 12.5,
+      exitDate: '2025-01-06',
+      exitPrice: 7.5,
+      shares: 80,
+      pnl: -400,
+      returnPct: -40
+    }]);
+    expect(equity.map(point => point.equity)).toEqual([1000, 1000, 1000, 1040, 640, 600]);
+  });
+
+  it('charges slippage on the fill price and both commissions on each fill', () => {
+    const config: BacktestConfig = { initialCapital: 1000, commissionPerTrade: 1, commissionBps: 10, slippageBps: 100 };
+    const [trade] = runBacktest(crossing, sma, config).trades;
+
+    // Bought at 12.5 + 1%, spending all 1000 on shares, the 0.1% fee and the flat 1.
+    const entryPrice = 12.625;
+    const shares = 999 / (entryPrice * 1.001);
+    // Sold at 7.5 - 1%, less the same two fees.
+    const exitPrice = 7.425;
+    const proceeds = shares * exitPrice * 0.999 - 1;
+
+    expect(trade.entryPrice).toBeCloseTo(entryPrice, 10);
+    expect(trade.shares).toBeCloseTo(shares, 10);
+    expect(trade.exitPrice).toBeCloseTo(exitPrice, 10);
+    expect(trade.pnl).toBeCloseTo(proceeds - 1000, 10);
+    expect(trade.returnPct).toBeCloseTo((proceeds / 1000 - 1) * 100, 10);
+  });
+
+  it('marks a position still open at the end to the last close', () => {
+    const { trades, equity, stats } = runBacktest(crossing.slice(0, 4), sma, frictionless);
+    expect(trades).toEqual([{
+      entryDate: '2025-01-04',
+      entryPrice: 12.5,
+      exitDate: null,
+      exitPrice: null,
+      shares: 80,
+      pnl: 40,
+      returnPct: expect.closeTo(4, 10)
+    }]);
+    expect(equity[equity.length - 1].equity).toBe(1040);
+    // An open trade counts as a trade but not towards the win rate.
+    expect(stats).toMatchObject({ totalReturn: expect.closeTo(4, 10), maxDrawdown: 0, winRate: 0, tradeCount: 1 });
+  });
+});
+
+describe('runBacktest stats', () => {
+  it('smaCross: a losing round trip', () => {
+    const prices = bars([[10, 10], [10, 9], [9, 12], [12.5, 13], [12, 8], [7.5, 7]]);
+    const { stats } = runBacktest(prices, { kind: 'smaCross', fast: 1, slow: 2 }, frictionless);
+    // Equity 1000, 1000, 1000, 1040, 640, 600: the trough is 600 against the 1040 peak.
+    expect(stats.totalReturn).toBeCloseTo(-40, 10);
+    expect(stats.maxDrawdown).toBeCloseTo((600 / 1040 - 1) * 100, 10);
+    expect(stats).toMatchObject({ winRate: 0, tradeCount: 1 });
+  });
+
+  it('rsiThreshold: buys the dip below 30 and sells above 70', () => {
+    // RSI(2) runs 50, 25, 62.5, 81.25 from the third bar: a buy on the fourth bar, filled at
+    // the fifth bar's open (10), and a sell on the sixth, filled at the seventh's (12).
+    const prices = bars([[10, 10], [11, 11], [10, 10], [9, 9], [10, 10], [11, 11], [12, 12]]);
+    const { trades, stats } = runBacktest(prices, { kind: 'rsiThreshold', period: 2, buyBelow: 30, sellAbove: 70 }, frictionless);
+    expect(trades.map(({ entryDate, exitDate, pnl }) => ({ entryDate, exitDate, pnl })))
+      .toEqual([{ entryDate: '2025-01-05', exitDate: '2025-01-07', pnl: 200 }]);
+    expect(stats.totalReturn).toBeCloseTo(20, 10);
+    expect(stats).toMatchObject({ maxDrawdown: 0, winRate: 100, tradeCount: 1 });
+  });
+
+  it('macdFlip: trades the histogram crossing zero', () => {
+    // MACD(1, 2, 2): the histogram turns positive on the fifth bar (+0.02) and negative on the
+    // seventh (-0.85), so 100 shares are bought at 15 and sold at 12.
+    const prices = bars([[10, 10], [10, 10], [10, 13], [13, 10], [10, 10], [15, 16], [16, 10], [12, 9]]);
+    const { trades, equity, stats } = runBacktest(prices, { kind: 'macdFlip', fast: 1, slow: 2, signal: 2 }, { ...frictionless, initialCapital: 1500 });
+    expect(trades.map(({ entryDate, entryPrice, exitDate, exitPrice }) => ({ entryDate, entryPrice, exitDate, exitPrice })))
+      .toEqual([{ entryDate: '2025-01-06', entryPrice: 15, exitDate: '2025-01-08', exitPrice: 12 }]);
+    expect(equity.map(point => point.equity)).toEqual([1500, 1500, 1500, 1500, 1500, 1600, 1000, 1200]);
+    expect(stats.totalReturn).toBeCloseTo(-20, 10);
+    expect(stats.maxDrawdown).toBeCloseTo(-37.5, 10);
+    expect(stats).toMatchObject({ winRate: 0, tradeCount: 1 });
+  });
+});
@@ -0,0 +1,220 @@
+import { PriceData } from '../types/price';
+import { smaSeries, rsiSeries, macdSeries, IndicatorSeries } from './indicators';
+
+// Long-only, single-position backtester for the indicator rules shown on AssetPage.
+// Signals are evaluated on a bar's close and filled at the next bar's open so a rule
+// never trades on information it could not have had.
+
+export type StrategyDefinition =
+  | { kind: 'smaCross'; fast: number; slow: number }
+  | { kind: 'rsiThreshold'; period: number; buyBelow: number; sellAbove: number }
+  | { kind: 'macdFlip'; fast: number; slow: number; signal: number };
+
+export type BacktestConfig = {
+  initialCapital: number;
+  commissionPerTrade: number; // flat fee per fill, in currency
+  commissionBps: number;      // proportional fee per fill, in basis points of notional
+  slippageBps: number;        // adverse price move applied to each fill, in basis points
+  startDate?: string;         // earlier bars only warm up indicators
+};
+
+export type BacktestTrade = {
+  entryDate: string;
+  entryPrice: number;
+  exitDate: string | null;    // null while the position is still open
+  exitPrice: number | null;
+  shares: number;
+  pnl: number;                // net of commissions; marked to last close when open
+  returnPct: number;
+};
+
+export type EquityPoint = {
+  date: string;
+  equity: number;
+  drawdown: number;           // percent below the running peak (<= 0)
+};
+
+export type BacktestStats = {
+  totalReturn: number;        // percent
+  cagr: number;               // percent
+  sharpe: number;             // annualised, zero risk-free rate
+  maxDrawdown: number;        // percent (<= 0)
+  winRate: number;            // percent of closed trades with positive pnl
+  tradeCount: number;
+};
+
+export type BacktestResult = {
+  trades: BacktestTrade[];
+  equity: EquityPoint[];
+  stats: BacktestStats;
+};
+
+export const DEFAULT_BACKTEST_CONFIG: BacktestConfig = {
+  initialCapital: 10000,
+  commissionPerTrade: 1,
+  commissionBps: 0,
+  slippageBps: 5
+};
+
+const TRADING_DAYS_PER_YEAR = 252;
+
+type Signal = 'buy' | 'sell' | null;
+
+function crossed(prevA: number | null, prevB: number | null, a: number | null, b: number | null): -1 | 0 | 1 {
+  if (prevA === null || prevB === null || a === null || b === null) return 0;
+  if (prevA <= prevB && a > b) return 1;
+  if (prevA >= prevB && a < b) return -1;
+  return 0;
+}
+
+function crossesLevel(prev: number | null, curr: number | null, level: number): -1 | 0 | 1 {
+  if (prev === null || curr === null) return 0;
+  if (prev >= level && curr < level) return -1;
+  if (prev <= level && curr > level) return 1;
+  return 0;
+}
+
+// Translate a strategy definition into a per-bar buy/sell signal aligned with `prices`.
+export function buildSignals(prices: PriceData[], strategy: StrategyDefinition): Signal[] {
+  const closes = prices.map(p => p.close);
+  const signals: Signal[] = new Array(prices.length).fill(null);
+
+  switch (strategy.kind) {
+    case 'smaCross': {
+      const fast = smaSeries(closes, strategy.fast);
+      const slow = smaSeries(closes, strategy.slow);
+      for (let i = 1; i < prices.length; i++) {
+        const dir = crossed(fast[i - 1], slow[i - 1], fast[i], slow[i]);
+        if (dir === 1) signals[i] = 'buy';
+        else if (dir === -1) signals[i] = 'sell';
+      }
+      break;
+    }
+    case 'rsiThreshold': {
+      const rsi = rsiSeries(closes, strategy.period);
+      for (let i = 1; i < prices.length; i++) {
+        if (crossesLevel(rsi[i - 1], rsi[i], strategy.buyBelow) === -1) signals[i] = 'buy';
+        else if (crossesLevel(rsi[i - 1], rsi[i], strategy.sellAbove) === 1) signals[i] = 'sell';
+      }
+      break;
+    }
+    case 'macdFlip': {
+      const hist: IndicatorSeries = macdSeries(closes, strategy.fast, strategy.slow, strategy.signal).histogram;
+      for (let i = 1; i < prices.length; i++) {
+        const dir = crossesLevel(hist[i - 1], hist[i], 0);
+        if (dir === 1) signals[i] = 'buy';
+        else if (dir === -1) signals[i] = 'sell';
+      }
+      break;
+    }
+  }
+
+  return signals;
+}
+
+function computeStats(equity: EquityPoint[], trades: BacktestTrade[], initialCapital: number): BacktestStats {
+  const empty: BacktestStats = { totalReturn: 0, cagr: 0, sharpe: 0, maxDrawdown: 0, winRate: 0, tradeCount: trades.length };
+  if (equity.length < 2) return empty;
+
+  const finalEquity = equity[equity.length - 1].equity;
+  const totalReturn = (finalEquity / initialCapital - 1) * 100;
+
+  const years = (new Date(equity[equity.length - 1].date).getTime() - new Date(equity[0].date).getTime())
+    / (365.25 * 24 * 60 * 60 * 1000);
+  const cagr = years > 0 && finalEquity > 0 ? (Math.pow(finalEquity / initialCapital, 1 / years) - 1) * 100 : 0;
+
+  const returns: number[] = [];
+  for (let i = 1; i < equity.length; i++) {
+    const prev = equity[i - 1].equity;
+    if (prev > 0) returns.push(equity[i].equity / prev - 1);
+  }
+  const mean = returns.reduce((s, v) => s + v, 0) / (returns.length || 1);
+  const variance = returns.reduce((s, v) => s + (v - mean) ** 2, 0) / (returns.length || 1);
+  const sd = Math.sqrt(variance);
+  const sharpe = sd === 0 ? 0 : (mean / sd) * Math.sqrt(TRADING_DAYS_PER_YEAR);
+
+  const maxDrawdown = equity.reduce((m, p) => Math.min(m, p.drawdown), 0);
+
+  const closed = trades.filter(t => t.exitDate !== null);
+  const winRate = closed.length ? (closed.filter(t => t.pnl > 0).length / closed.length) * 100 : 0;
+
+  return { totalReturn, cagr, sharpe, maxDrawdown, winRate, tradeCount: trades.length };
+}
+
+export function runBacktest(
+  prices: PriceData[],
+  strategy: StrategyDefinition,
+  config: BacktestConfig = DEFAULT_BACKTEST_CONFIG
+): BacktestResult {
+  const sorted = [...prices].sort((a, b) => a.date.localeCompare(b.date));
+  const signals = buildSignals(sorted, strategy);
+  // No bar on or after startDate leaves nothing to trade: the result is empty, not the full history.
+  const firstInRange = config.startDate ? sorted.findIndex(p => p.date >= config.startDate!) : 0;
+  const startIndex = firstInRange === -1 ? sorted.length : firstInRange;
+
+  const slip = config.slippageBps / 10000;
+  const feeRate = config.commissionBps / 10000;
+  const fee = (notional: number) => config.commissionPerTrade + notional * feeRate;
+
+  let cash = config.initialCapital;
+  let shares = 0;
+  let openTrade: (BacktestTrade & { cost: number }) | null = null;
+  let pending: Signal = null;
+  let peak = config.initialCapital;
+
+  const trades: BacktestTrade[] = [];
+  const equity: EquityPoint[] = [];
+
+  for (let i = startIndex; i < sorted.length; i++) {
+    const bar = sorted[i];
+
+    // fill yesterday's signal at today's open
+    if (pending === 'buy' && shares === 0) {
+      const price = bar.open * (1 + slip);
+      const qty = (cash - config.commissionPerTrade) / (price * (1 + feeRate));
+      if (qty > 0) {
+        const commission = fee(qty * price);
+        cash -= qty * price + commission;
+        shares = qty;
+        openTrade = {
+          entryDate: bar.date,
+          entryPrice: price,
+          exitDate: null,
+          exitPrice: null,
+          shares: qty,
+          pnl: 0,
+          returnPct: 0,
+          cost: qty * price + commission
+        };
+      }
+    } else if (pending === 'sell' && shares > 0 && openTrade) {
+      const price = bar.open * (1 - slip);
+      const proceeds = shares * price - fee(shares * price);
+      cash += proceeds;
+      const { cost, ...trade } = openTrade;
+      trades.push({
+        ...trade,
+        exitDate: bar.date,
+        exitPrice: price,
+        pnl: proceeds - cost,
+        returnPct: (proceeds / cost - 1) * 100
+      });
+      shares = 0;
+      openTrade = null;
+    }
+    pending = signals[i];
+
+    const value = cash + shares * bar.close;
+    peak = Math.max(peak, value);
+    equity.push({ date: bar.date, equity: value, drawdown: peak > 0 ? (value / peak - 1) * 100 : 0 });
+  }
+
+  if (openTrade && sorted.length) {
+    const last = sorted[sorted.length - 1];
+    const { cost, ...trade } = openTrade;
+    const marked = shares * last.close;
+    trades.push({ ...trade, pnl: marked - cost, returnPct: (marked / cost - 1) * 100 });
+  }
+
+  return { trades, equity, stats: computeStats(equity, trades, config.initialCapital) };
+}
@@ -0,0 +1,34 @@
+// BatchWriteItem in chunks of 25 (the DynamoDB limit), re-sending UnprocessedItems with
+// exponential backoff. The caller supplies `write`, so the same loop serves the low-level
+// client (marshalled items, scripts/setup-dynamodb.ts) and the document client (repositories).
+
+const BATCH_SIZE = 25;
+const MAX_ATTEMPTS = 8;
+
+export type BatchWriter<T> = (requestItems: Record<string, T[]>) => Promise<Record<string, T[]> | undefined>;
+
+// Resolves to the number of requests still unprocessed after the retries ran out.
+export async function batchWriteItems<T>(write: BatchWriter<T>, tableName: string, requests: T[]): Promise<number> {
+  let unprocessed = 0;
+  for (let i = 0; i < requests.length; i += BATCH_SIZE) {
+    const batch = requests.slice(i, i + BATCH_SIZE);
+    let requestItems: Record<string, T[]> = { [tableName]: batch };
+    let attempts = 0;
+    while (Object.keys(requestItems).length > 0 && attempts < MAX_ATTEMPTS) {
+      const remaining = await write(requestItems);
+      if (remaining && Object.keys(remaining).length) {
+        requestItems = remaining;
+        attempts++;
+        const backoff = Math.min(500 * 2 ** attempts, 10000);
+        await new Promise(r => setTimeout(r, backoff));
+      } else {
+        requestItems = {};
+      }
+    }
+    if (Object.keys(requestItems).length) {
+      console.warn(`Unprocessed items remained for table ${tableName} after retries`);
+      unprocessed += requestItems[tableName]?.length ?? 0;
+    }
+  }
+  return unprocessed;
+}
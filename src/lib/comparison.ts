@@ -0,0 +1,125 @@
+import { PriceData } from '../types/price';
+import { IndicatorSeries } from './indicators';
+
+// Cross-asset statistics for the Compare page: everything works on close series that have
+// already been aligned to the same dates, so index i means the same session for every ticker.
+
+export type AlignedCloses = {
+  dates: string[];
+  closes: Record<string, number[]>;
+};
+
+export type PerformanceStats = {
+  ticker: string;
+  totalReturn: number;        // percent over the whole range
+  annualizedReturn: number;   // percent, compounded
+  volatility: number;         // annualised standard deviation of daily returns, percent
+  maxDrawdown: number;        // percent below the running peak (<= 0)
+  beta: number | null;        // against the benchmark; null without enough overlap
+  correlation: number | null;
+};
+
+export const TRADING_DAYS_PER_YEAR = 252;
+
+// Keeps only the dates, on or after `startDate`, on which every ticker has a close.
+export function alignCloses(histories: Record<string, PriceData[]>, tickers: string[], startDate?: string): AlignedCloses {
+  const byTicker = tickers.map(ticker => new Map((histories[ticker] || []).map(p => [p.date, p.close])));
+  const first = byTicker[0];
+  if (!first) return { dates: [], closes: {} };
+
+  const dates = Array.from(first.keys())
+    .filter(date => (!startDate || date >= startDate) && byTicker.every(map => map.has(date)))
+    .sort();
+  const closes: Record<string, number[]> = {};
+  tickers.forEach((ticker, i) => {
+    closes[ticker] = dates.map(date => byTicker[i].get(date) as number);
+  });
+  return { dates, closes };
+}
+
+// Start of a trailing window of `months` ending on `date`; undefined means "all history".
+export function monthsBefore(date: string | undefined, months: number | undefined): string | undefined {
+  if (!date || !months) return undefined;
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCMonth(d.getUTCMonth() - months);
+  return d.toISOString().slice(0, 10);
+}
+
+// Scales a series so its first value is `base` (100 = "growth of 100").
+export function rebase(values: number[], base = 100): number[] {
+  const start = values[0];
+  return start ? values.map(v => (v / start) * base) : values.map(() => base);
+}
+
+// Price ratio of an asset to its benchmark, rebased to 100: rising means outperforming.
+export function relativeStrength(values: number[], benchmark: number[]): number[] {
+  return rebase(values.map((v, i) => v / benchmark[i]));
+}
+
+// Simple returns between consecutive closes; one shorter than the input.
+export function simpleReturns(values: number[]): number[] {
+  return values.slice(1).map((v, i) => v / values[i] - 1);
+}
+
+function mean(values: number[]) {
+  return values.reduce((s, v) => s + v, 0) / values.length;
+}
+
+// Sample covariance (n - 1), or null with fewer than two points.
+export function covariance(a: number[], b: number[]): number | null {
+  const n = Math.min(a.length, b.length);
+  if (n < 2) return null;
+  const ma = mean(a.slice(0, n));
+  const mb = mean(b.slice(0, n));
+  let sum = 0;
+  for (let i = 0; i < n; i++) sum += (a[i] - ma) * (b[i] - mb);
+  return sum / (n - 1);
+}
+
+export function correlation(a: number[], b: number[]): number | null {
+  const cov = covariance(a, b);
+  const va = covariance(a, a);
+  const vb = covariance(b, b);
+  if (cov === null || !va || !vb) return null;
+  return cov / Math.sqrt(va * vb);
+}
+
+// Slope of `returns` regressed on `benchmarkReturns`.
+export function beta(returns: number[], benchmarkReturns: number[]): number | null {
+  const cov = covariance(returns, benchmarkReturns);
+  const variance = covariance(benchmarkReturns, benchmarkReturns);
+  if (cov === null || !variance) return null;
+  return cov / variance;
+}
+
+// Correlation of two return series over a trailing window; null until the window fills.
+export function rollingCorrelation(a: number[], b: number[], window: number): IndicatorSeries {
+  return a.map((_, i) => (i + 1 < window ? null : correlation(a.slice(i + 1 - window, i + 1), b.slice(i + 1 - window, i + 1))));
+}
+
+// Deepest peak-to-trough fall, in percent (<= 0).
+export function maxDrawdown(values: number[]): number {
+  let peak = -Infinity;
+  let worst = 0;
+  for (const v of values) {
+    peak = Math.max(peak, v);
+    if (peak > 0) worst = Math.min(worst, (v / peak - 1) * 100);
+  }
+  return worst;
+}
+
+export function performanceStats(ticker: string, values: number[], benchmark: number[]): PerformanceStats {
+  const returns = simpleReturns(values);
+  const benchmarkReturns = simpleReturns(benchmark);
+  const growth = values.length ? values[values.length - 1] / values[0] : 1;
+  const sd = Math.sqrt(covariance(returns, returns) ?? 0);
+  return {
+    ticker,
+    totalReturn: (growth - 1) * 100,
+    annualizedReturn: returns.length ? (Math.pow(growth, TRADING_DAYS_PER_YEAR / returns.length) - 1) * 100 : 0,
+    volatility: sd * Math.sqrt(TRADING_DAYS_PER_YEAR) * 100,
+    maxDrawdown: maxDrawdown(values),
+    beta: beta(returns, benchmarkReturns),
+    correlation: correlation(returns, benchmarkReturns)
+  };
+}
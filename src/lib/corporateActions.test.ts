@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import { adjustmentFactors, adjustPrices, parseCorporateActionCsv, totalReturnCloses } from './corporateActions';
+import { CorporateAction } from '../types/corporateAction';
+import { PriceData } from '../types/price';
+
+// Flat daily bars from 2025-01-02, 1000 shares traded each day.
+function bars(closes: number[]): PriceData[] {
+  return closes.map((close, i) => ({
+    ticker: 'ACME',
+    date: `2025-01-${String(i + 2).padStart(2, '0')}`,
+    open: close,
+    high: close,
+    low: close,
+    close,
+    volume: 1000
+  }));
+}
+
+function expectClose(actual: number[], expected: number[]) {
+  expect(actual).toHaveLength(expected.length);
+  actual.forEach((value, i) => expect(value).toBeCloseTo(expected[i], 10));
+}
+
+// A 2-for-1 split going ex on the fourth bar and a 2.04 dividend going ex on the third,
+// when the previous close was 102: every bar before the dividend keeps 1 - 2.04 / 102 = 0.98.
+const prices = bars([100, 102, 104, 52, 50]);
+const split: CorporateAction = { ticker: 'ACME', date: '2025-01-05', type: 'split', ratio: 2 };
+const dividend: CorporateAction = { ticker: 'ACME', date: '2025-01-04', type: 'dividend', amount: 2.04 };
+
+describe('adjustmentFactors', () => {
+  it('halves prices before a 2-for-1 split and doubles volume', () => {
+    const { price, split: volume } = adjustmentFactors(prices, [split], 'split');
+    expectClose(price, [0.5, 0.5, 0.5, 1, 1]);
+    expectClose(volume, [0.5, 0.5, 0.5, 1, 1]);
+  });
+
+  it('scales bars before a dividend by 1 - amount / previous close in total mode only', () => {
+    expectClose(adjustmentFactors(prices, [split, dividend], 'split').price, [0.5, 0.5, 0.5, 1, 1]);
+    const { price, split: volume } = adjustmentFactors(prices, [split, dividend], 'total');
+    expectClose(price, [0.49, 0.49, 0.5, 1, 1]);
+    expectClose(volume, [0.5, 0.5, 0.5, 1, 1]);
+  });
+
+  it('skips a dividend with no bar before its ex-date', () => {
+    const early: CorporateAction = { ticker: 'ACME', date: '2025-01-02', type: 'dividend', amount: 1 };
+    const older: CorporateAction = { ticker: 'ACME', date: '2024-12-01', type: 'dividend', amount: 1 };
+    expectClose(adjustmentFactors(prices, [early, older], 'total').price, [1, 1, 1, 1, 1]);
+  });
+
+  it('leaves raw histories alone', () => {
+    expect(adjustmentFactors(prices, [split, dividend], 'raw')).toEqual({ price: [1, 1, 1, 1, 1], split: [1, 1, 1, 1, 1] });
+  });
+});
+
+describe('adjustPrices', () => {
+  it('restates OHLC, volume and predictions before the split', () => {
+    const adjusted = adjustPrices([{ ...prices[0], timeSage: 110 }, ...prices.slice(1)], [split], 'split');
+    expect(adjusted[0]).toEqual({ ...prices[0], open: 50, high: 50, low: 50, close: 50, volume: 2000, timeSage: 55 });
+    expect(adjusted[3]).toBe(prices[3]);
+  });
+
+  it('returns the history as is in raw mode or without actions', () => {
+    expect(adjustPrices(prices, [split], 'raw')).toBe(prices);
+    expect(adjustPrices(prices, [], 'total')).toBe(prices);
+  });
+});
+
+describe('totalReturnCloses', () => {
+  it('folds splits and dividends into the closes', () => {
+    expectClose(totalReturnCloses(prices, [split, dividend]), [49, 49.98, 52, 52, 50]);
+  });
+});
+
+describe('parseCorporateActionCsv', () => {
+  it('reads vendor-style splits and dividends and reports bad rows by line', () => {
+    const csv = [
+      'Symbol,Ex-Date,Event,Split Ratio,Dividend,Notes',
+      'acme,2024-06-10,Stock Split,2-for-1,,',
+      'ACME,5/15/2024,Cash Dividend,,$0.24,Q2',
+      'ACME,2023-01-03,Reverse Split,1/10,,',
+      'ACME,2024-06-10,split,3:1,,',
+      'ACME,2024-07-01,spinoff,,,',
+      'ACME,2024-08-01,dividend,,,'
+    ].join('\n');
+
+    expect(parseCorporateActionCsv(csv, { today: '2025-06-30' })).toEqual({
+      actions: [
+        { ticker: 'ACME', date: '2024-06-10', type: 'split', ratio: 2 },
+        { ticker: 'ACME', date: '2024-05-15', type: 'dividend', amount: 0.24, note: 'Q2' },
+        { ticker: 'ACME', date: '2023-01-03', type: 'split', ratio: 0.1 }
+      ],
+      errors: [
+        { line: 5, message: 'Duplicate of line 2 (ACME split 2024-06-10)' },
+        { line: 6, message: 'Unknown type "spinoff" (use split, dividend)' },
+        { line: 7, message: 'Missing amount' }
+      ],
+      ignoredColumns: []
+    });
+  });
+
+  it('needs a date and type column and a ticker', () => {
+    expect(parseCorporateActionCsv('Date,Amount\n2024-05-15,0.24').errors).toEqual([
+      { line: 0, message: 'Missing column: type' },
+      { line: 0, message: 'No ticker or symbol column; choose the ticker this file belongs to' }
+    ]);
+  });
+});
@@ -0,0 +1,231 @@
+import Papa from 'papaparse';
+import { PriceData, PROPHET_KEYS } from '../types/price';
+import { CorporateAction, CorporateActionType, CORPORATE_ACTION_TYPES, PriceAdjustment } from '../types/corporateAction';
+import { ImportIssue, parseImportDate, parseImportNumber } from './priceImport';
+import { parseSplitRatio } from './portfolio';
+import { normalizeTicker } from './watchlists';
+
+// Splits and cash dividends per ticker, and the back-adjustment that restates a raw price
+// history around them. Factors follow the usual vendor convention: every bar before an
+// ex-date is multiplied by 1/ratio for a split and by (1 - dividend / previous close) for a
+// dividend, so the newest bars keep their traded prices. Shared by the browser, the API
+// (validation) and scripts/import-corporate-actions.ts.
+
+export type ParsedCorporateActionFile = {
+  actions: CorporateAction[];
+  errors: ImportIssue[];
+  ignoredColumns: string[];
+};
+
+const MAX_NOTE_LENGTH = 200;
+
+type Column = 'ticker' | 'date' | 'type' | 'ratio' | 'amount' | 'note';
+
+// Header names are compared lower-case with everything but letters stripped, as in priceImport.
+const COLUMN_ALIASES: Record<string, Column> = {
+  ticker: 'ticker',
+  symbol: 'ticker',
+  date: 'date',
+  exdate: 'date',
+  exdividenddate: 'date',
+  effectivedate: 'date',
+  type: 'type',
+  action: 'type',
+  event: 'type',
+  ratio: 'ratio',
+  splitratio: 'ratio',
+  amount: 'amount',
+  dividend: 'amount',
+  dividends: 'amount',
+  cashamount: 'amount',
+  note: 'note',
+  notes: 'note'
+};
+
+const REQUIRED_COLUMNS: Column[] = ['date', 'type'];
+
+const TYPE_ALIASES: Record<string, CorporateActionType> = {
+  split: 'split',
+  splits: 'split',
+  stocksplit: 'split',
+  reversesplit: 'split',
+  dividend: 'dividend',
+  dividends: 'dividend',
+  div: 'dividend',
+  cashdividend: 'dividend'
+};
+
+export function actionKey(action: Pick<CorporateAction, 'date' | 'type'>): string {
+  return `${action.date}#${action.type}`;
+}
+
+function isBlank(value: unknown) {
+  return value === undefined || value === null || String(value).trim() === '';
+}
+
+// Validates one action with canonical keys. Returns the action holding only the field its
+// type uses, or a message describing the first problem found.
+export function validateCorporateAction(
+  raw: Record<string, unknown>,
+  today = new Date().toISOString().slice(0, 10)
+): CorporateAction | string {
+  const ticker = typeof raw.ticker === 'string' ? normalizeTicker(raw.ticker) : '';
+  if (!ticker) return 'Missing ticker';
+  const type = TYPE_ALIASES[String(raw.type ?? '').toLowerCase().replace(/[^a-z]/g, '')];
+  if (!type) return `Unknown type "${raw.type ?? ''}" (use ${CORPORATE_ACTION_TYPES.join(', ')})`;
+  const date = parseImportDate(raw.date);
+  if (!date) return `Unrecognised date "${raw.date ?? ''}" (use YYYY-MM-DD or M/D/YYYY)`;
+  if (date > today) return `Date ${date} is in the future`;
+
+  const field = type === 'split' ? 'ratio' : 'amount';
+  const value = type === 'split' ? parseSplitRatio(raw.ratio) : parseImportNumber(raw.amount);
+  if (value === null) return isBlank(raw[field]) ? `Missing ${field}` : `${field} "${raw[field]}" is not a number`;
+  if (value <= 0) return `${field} must be positive`;
+  if (type === 'split' && value === 1) return 'ratio of 1 is not a split';
+
+  const action: CorporateAction = { ticker, date, type, [field]: value };
+  if (typeof raw.note === 'string' && raw.note.trim()) action.note = raw.note.trim().slice(0, MAX_NOTE_LENGTH);
+  return action;
+}
+
+// `defaultTicker` applies to files without a ticker column. A ticker/date/type repeated
+// within the file is an error on every occurrence after the first.
+export function parseCorporateActionCsv(
+  text: string,
+  options: { defaultTicker?: string; today?: string } = {}
+): ParsedCorporateActionFile {
+  const errors: ImportIssue[] = [];
+  const ignoredColumns: string[] = [];
+  const columnFor: Record<string, Column> = {};
+
+  const result = Papa.parse<Record<string, string>>(text.replace(/^\uFEFF/, ''), {
+    header: true,
+    transformHeader: header => header.trim()
+  });
+
+  for (const field of result.meta.fields || []) {
+    const column = COLUMN_ALIASES[field.toLowerCase().replace(/[^a-z]/g, '')];
+    if (column && !Object.values(columnFor).includes(column)) {
+      columnFor[field] = column;
+    } else if (field) {
+      ignoredColumns.push(field);
+    }
+  }
+
+  const present = new Set(Object.values(columnFor));
+  const missing = REQUIRED_COLUMNS.filter(column => !present.has(column));
+  if (missing.length) {
+    errors.push({ line: 0, message: `Missing column${missing.length > 1 ? 's' : ''}: ${missing.join(', ')}` });
+  }
+  const defaultTicker = options.defaultTicker ? normalizeTicker(options.defaultTicker) : '';
+  if (!present.has('ticker') && !defaultTicker) {
+    errors.push({ line: 0, message: 'No ticker or symbol column; choose the ticker this file belongs to' });
+  }
+  if (errors.length) return { actions: [], errors, ignoredColumns };
+
+  const parseErrors = new Map<number, string>();
+  result.errors.forEach(error => {
+    if (error.row !== undefined && !parseErrors.has(error.row)) parseErrors.set(error.row, error.message);
+  });
+
+  const actions: CorporateAction[] = [];
+  const firstLine = new Map<string, number>();
+  result.data.forEach((record, index) => {
+    if (Object.values(record).every(value => !String(value ?? '').trim())) return;
+    const line = index + 2;
+    const parseError = parseErrors.get(index);
+    if (parseError) {
+      errors.push({ line, message: parseError });
+      return;
+    }
+    const raw: Record<string, unknown> = { ticker: defaultTicker };
+    Object.entries(record).forEach(([field, value]) => {
+      const column = columnFor[field];
+      if (column && !(column === 'ticker' && !String(value ?? '').trim())) raw[column] = value;
+    });
+
+    const action = validateCorporateAction(raw, options.today);
+    if (typeof action === 'string') {
+      errors.push({ line, message: action });
+      return;
+    }
+    const key = `${action.ticker}|${actionKey(action)}`;
+    const seen = firstLine.get(key);
+    if (seen !== undefined) {
+      errors.push({ line, message: `Duplicate of line ${seen} (${action.ticker} ${action.type} ${action.date})` });
+      return;
+    }
+    firstLine.set(key, line);
+    actions.push(action);
+  });
+
+  return { actions, errors, ignoredColumns };
+}
+
+// Multiplier for each bar's prices (volume is divided by the split part only). Bars must be
+// sorted oldest first. A dividend whose ex-date has no earlier bar can't be priced and is
+// skipped, as is one that would take the price to zero or below.
+export function adjustmentFactors(
+  bars: PriceData[],
+  actions: CorporateAction[],
+  adjustment: PriceAdjustment
+): { price: number[]; split: number[] } {
+  const price = bars.map(() => 1);
+  const split = bars.map(() => 1);
+  if (adjustment === 'raw' || !bars.length) return { price, split };
+
+  const relevant = actions
+    .filter(action => action.type === 'split' || adjustment === 'total')
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  // Walk newest to oldest, accumulating the factors of every ex-date after the bar
+  let priceFactor = 1;
+  let splitFactor = 1;
+  let next = relevant.length - 1;
+  for (let i = bars.length - 1; i >= 0; i--) {
+    while (next >= 0 && relevant[next].date > bars[i].date) {
+      const action = relevant[next];
+      if (action.type === 'split' && action.ratio) {
+        priceFactor /= action.ratio;
+        splitFactor /= action.ratio;
+      } else if (action.type === 'dividend' && action.amount) {
+        // bars[i] is the last session before the ex-date
+        const ratio = 1 - action.amount / bars[i].close;
+        if (ratio > 0) priceFactor *= ratio;
+      }
+      next--;
+    }
+    price[i] = priceFactor;
+    split[i] = splitFactor;
+  }
+  return { price, split };
+}
+
+// Restated copy of a history; prophet predictions on a bar are scaled with its prices.
+export function adjustPrices(bars: PriceData[], actions: CorporateAction[], adjustment: PriceAdjustment): PriceData[] {
+  if (adjustment === 'raw' || !actions.length) return bars;
+  const { price, split } = adjustmentFactors(bars, actions, adjustment);
+  return bars.map((bar, i) => {
+    if (price[i] === 1 && split[i] === 1) return bar;
+    const adjusted: PriceData = {
+      ...bar,
+      open: bar.open * price[i],
+      high: bar.high * price[i],
+      low: bar.low * price[i],
+      close: bar.close * price[i],
+      volume: bar.volume / split[i]
+    };
+    PROPHET_KEYS.forEach(key => {
+      const value = bar[key];
+      if (typeof value === 'number') adjusted[key] = value * price[i];
+    });
+    return adjusted;
+  });
+}
+
+// Closes with splits and dividends reinvested: close-to-close changes of this series are
+// total returns. Same length and order as `bars`.
+export function totalReturnCloses(bars: PriceData[], actions: CorporateAction[]): number[] {
+  const { price } = adjustmentFactors(bars, actions, 'total');
+  return bars.map((bar, i) => bar.close * price[i]);
+}
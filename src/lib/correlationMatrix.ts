@@ -0,0 +1,78 @@
+import { PriceData } from '../types/price';
+import { alignCloses, correlation, simpleReturns } from './comparison';
+
+// Universe-wide return correlations for the Correlations page.
+//
+// Assets don't share a trading calendar (listings start at different dates, exchanges close
+// on different holidays, feeds have gaps), so every pair is aligned on its own: returns run
+// between consecutive sessions on which *both* assets closed. A day one asset skipped folds
+// into a two-day return on both sides rather than pairing unrelated days.
+
+export type CorrelationMatrix = {
+  tickers: string[];
+  values: Array<Array<number | null>>;   // null where a pair has too little overlap
+  observations: number[][];             // paired returns behind each value
+};
+
+export const MIN_OBSERVATIONS = 20;
+
+export function correlationMatrix(
+  histories: Record<string, PriceData[]>,
+  tickers: string[],
+  options: { startDate?: string; minObservations?: number } = {}
+): CorrelationMatrix {
+  const minObservations = options.minObservations ?? MIN_OBSERVATIONS;
+  const values = tickers.map(() => tickers.map((): number | null => null));
+  const observations = tickers.map(() => tickers.map(() => 0));
+
+  tickers.forEach((a, i) => {
+    const own = alignCloses(histories, [a], options.startDate).closes[a] || [];
+    observations[i][i] = Math.max(0, own.length - 1);
+    values[i][i] = observations[i][i] >= minObservations ? 1 : null;
+
+    for (let j = i + 1; j < tickers.length; j++) {
+      const b = tickers[j];
+      const { closes } = alignCloses(histories, [a, b], options.startDate);
+      const ra = simpleReturns(closes[a] || []);
+      const rb = simpleReturns(closes[b] || []);
+      const value = ra.length >= minObservations ? correlation(ra, rb) : null;
+      observations[i][j] = observations[j][i] = ra.length;
+      values[i][j] = values[j][i] = value;
+    }
+  });
+  return { tickers, values, observations };
+}
+
+// Agglomerative clustering (average linkage) on 1 - correlation, returning the leaf order:
+// indexes arranged so assets that move together sit next to each other. Pairs without a
+// correlation count as unrelated (distance 1). Ties merge the earliest pair, so the order
+// is deterministic.
+export function clusterOrder(values: Array<Array<number | null>>): number[] {
+  const distance = (i: number, j: number) => 1 - (values[i][j] ?? 0);
+  let clusters = values.map((_, i) => [i]);
+
+  while (clusters.length > 1) {
+    let best = { a: 0, b: 1, d: Infinity };
+    for (let a = 0; a < clusters.length; a++) {
+      for (let b = a + 1; b < clusters.length; b++) {
+        let sum = 0;
+        clusters[a].forEach(i => clusters[b].forEach(j => (sum += distance(i, j))));
+        const d = sum / (clusters[a].length * clusters[b].length);
+        if (d < best.d) best = { a, b, d };
+      }
+    }
+    const merged = [...clusters[best.a], ...clusters[best.b]];
+    clusters = [...clusters.filter((_, k) => k !== best.a && k !== best.b), merged];
+  }
+  return clusters[0] || [];
+}
+
+// Reorders rows and columns of a matrix together.
+export function reorderMatrix<T extends CorrelationMatrix>(matrix: T, order: number[]): T {
+  return {
+    ...matrix,
+    tickers: order.map(i => matrix.tickers[i]),
+    values: order.map(i => order.map(j => matrix.values[i][j])),
+    observations: order.map(i => order.map(j => matrix.observations[i][j]))
+  };
+}
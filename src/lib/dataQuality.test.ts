@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { countIssues, dataQualityReport } from './dataQuality';
+import { PriceData } from '../types/price';
+
+function bar(date: string, close = 10, overrides: Partial<PriceData> = {}): PriceData {
+  return { ticker: 'ACME', date, open: close, high: close, low: close, close, volume: 100, ...overrides };
+}
+
+describe('dataQualityReport', () => {
+  it('finds a missing session and a repeated date', () => {
+    // Good Friday (2024-03-29) and the weekend are closed, so only the 27th is missing.
+    const report = dataQualityReport('ACME', [
+      bar('2024-04-02'),
+      bar('2024-03-26'),
+      bar('2024-03-25'),
+      bar('2024-03-26T20:00:00.000Z'),
+      bar('2024-03-28'),
+      bar('2024-04-01')
+    ]);
+    expect(report).toEqual({
+      ticker: 'ACME',
+      calendar: 'NYSE',
+      firstDate: '2024-03-25',
+      lastDate: '2024-04-02',
+      bars: 6,
+      expectedSessions: 6,
+      missingSessions: ['2024-03-27'],
+      gaps: ['2024-03-27'],
+      issues: [{ date: '2024-03-26', kind: 'duplicate', message: 'more than one bar for this date' }]
+    });
+  });
+
+  it('collapses consecutive missing sessions into one gap across a holiday', () => {
+    const report = dataQualityReport('ACME', [bar('2024-03-26'), bar('2024-04-02')]);
+    expect(report.missingSessions).toEqual(['2024-03-27', '2024-03-28', '2024-04-01']);
+    expect(report.gaps).toEqual(['2024-03-27 → 2024-04-01 (3 sessions)']);
+  });
+
+  it('flags bars on closed days, bad ranges and unexplained jumps', () => {
+    const report = dataQualityReport('ACME', [
+      bar('2024-03-28', 100),
+      bar('2024-03-29', 100),
+      bar('2024-04-01', 50, { open: 52, high: 51 }),
+      bar('2024-04-02', 50, { volume: 0 })
+    ]);
+    expect(report.issues).toEqual([
+      { date: '2024-03-29', kind: 'closed-day', message: 'NYSE was closed (Good Friday)' },
+      { date: '2024-04-01', kind: 'invalid-range', message: 'open or close outside the high-low range' },
+      { date: '2024-04-01', kind: 'jump', message: 'close -50.0% from 2024-03-29 (looks like an unadjusted 2-for-1 split)' },
+      { date: '2024-04-02', kind: 'zero-volume', message: 'no volume' }
+    ]);
+    expect(report.expectedSessions).toBe(3);
+    expect(countIssues(report)).toEqual({ 'closed-day': 1, 'invalid-range': 1, jump: 1, 'zero-volume': 1 });
+  });
+
+  it("doesn't report a jump on a split's ex-date", () => {
+    const report = dataQualityReport('ACME', [bar('2024-03-28', 100), bar('2024-04-01', 50)], {
+      actions: [{ ticker: 'ACME', date: '2024-04-01', type: 'split', ratio: 2 }]
+    });
+    expect(report.issues).toEqual([]);
+  });
+});
@@ -0,0 +1,127 @@
+import { PriceData } from '../types/price';
+import { CorporateAction } from '../types/corporateAction';
+import { describeGaps, holidayName, isTradingDay, missingSessions, NYSE, TradingCalendar } from './tradingCalendar';
+
+// Checks a stored daily history against an exchange calendar: sessions without a bar, bars
+// on days the exchange was closed, repeated dates and bars that look wrong on their own or
+// next to the previous close. Used by the admin Data Import page and scripts/check-prices.ts.
+
+export type QualityIssueKind = 'duplicate' | 'closed-day' | 'invalid-range' | 'non-positive' | 'zero-volume' | 'jump';
+
+export type QualityIssue = {
+  date: string;
+  kind: QualityIssueKind;
+  message: string;
+};
+
+export type DataQualityReport = {
+  ticker: string;
+  calendar: string;
+  firstDate: string | null;
+  lastDate: string | null;
+  bars: number;
+  expectedSessions: number;     // sessions from the first to the last bar
+  missingSessions: string[];
+  gaps: string[];               // missingSessions collapsed into runs
+  issues: QualityIssue[];       // oldest first
+};
+
+export type DataQualityOptions = {
+  calendar?: TradingCalendar;
+  // Close-to-close move (as a fraction) that counts as an outsized jump.
+  jumpThreshold?: number;
+  // Splits on their ex-date explain a jump and aren't reported.
+  actions?: CorporateAction[];
+};
+
+export const DEFAULT_JUMP_THRESHOLD = 0.25;
+
+// Whole-number split ratios an unadjusted split would show as (2-for-1 ... 1-for-10).
+const SPLIT_RATIOS = [2, 3, 4, 5, 10, 1 / 2, 1 / 3, 1 / 4, 1 / 5, 1 / 10];
+const SPLIT_TOLERANCE = 0.04;
+
+function splitHint(ratio: number): string {
+  const match = SPLIT_RATIOS.find(candidate => Math.abs(ratio * candidate - 1) < SPLIT_TOLERANCE);
+  if (!match) return '';
+  return match > 1 ? ` (looks like an unadjusted ${match}-for-1 split)` : ` (looks like an unadjusted 1-for-${Math.round(1 / match)} reverse split)`;
+}
+
+function barIssues(bar: PriceData, date: string): QualityIssue[] {
+  const issues: QualityIssue[] = [];
+  const prices = [bar.open, bar.high, bar.low, bar.close];
+  if (prices.some(value => !(value > 0))) {
+    issues.push({ date, kind: 'non-positive', message: 'open, high, low or close is zero, negative or missing' });
+    return issues;
+  }
+  if (bar.high < bar.low) {
+    issues.push({ date, kind: 'invalid-range', message: `high ${bar.high} is below low ${bar.low}` });
+  } else if (Math.max(bar.open, bar.close) > bar.high || Math.min(bar.open, bar.close) < bar.low) {
+    issues.push({ date, kind: 'invalid-range', message: 'open or close outside the high-low range' });
+  }
+  if (!bar.volume) issues.push({ date, kind: 'zero-volume', message: 'no volume' });
+  return issues;
+}
+
+// `bars` may arrive in any order and carry time-of-day suffixes on their dates.
+export function dataQualityReport(ticker: string, bars: PriceData[], options: DataQualityOptions = {}): DataQualityReport {
+  const calendar = options.calendar ?? NYSE;
+  const threshold = options.jumpThreshold ?? DEFAULT_JUMP_THRESHOLD;
+  const splitDates = new Set((options.actions || []).filter(a => a.type === 'split').map(a => a.date));
+  const sorted = [...bars].sort((a, b) => a.date.localeCompare(b.date));
+
+  const issues: QualityIssue[] = [];
+  const seen = new Set<string>();
+  let previous: PriceData | null = null;
+  sorted.forEach(bar => {
+    const date = bar.date.slice(0, 10);
+    if (seen.has(date)) {
+      issues.push({ date, kind: 'duplicate', message: 'more than one bar for this date' });
+      return;
+    }
+    seen.add(date);
+
+    if (!isTradingDay(date, calendar)) {
+      const holiday = holidayName(date, calendar);
+      issues.push({ date, kind: 'closed-day', message: `${calendar.name} was closed${holiday ? ` (${holiday})` : ' (weekend)'}` });
+    }
+    const own = barIssues(bar, date);
+    issues.push(...own);
+
+    if (previous && previous.close > 0 && bar.close > 0 && !splitDates.has(date)) {
+      const ratio = bar.close / previous.close;
+      if (Math.abs(ratio - 1) > threshold) {
+        const change = (ratio - 1) * 100;
+        issues.push({
+          date,
+          kind: 'jump',
+          message: `close ${change > 0 ? '+' : ''}${change.toFixed(1)}% from ${previous.date.slice(0, 10)}${splitHint(ratio)}`
+        });
+      }
+    }
+    if (!own.some(issue => issue.kind === 'non-positive')) previous = bar;
+  });
+
+  const firstDate = sorted.length ? sorted[0].date.slice(0, 10) : null;
+  const lastDate = sorted.length ? sorted[sorted.length - 1].date.slice(0, 10) : null;
+  const missing = firstDate && lastDate ? missingSessions(seen, firstDate, lastDate, calendar) : [];
+  return {
+    ticker,
+    calendar: calendar.name,
+    firstDate,
+    lastDate,
+    bars: sorted.length,
+    expectedSessions: seen.size - issues.filter(issue => issue.kind === 'closed-day').length + missing.length,
+    missingSessions: missing,
+    gaps: describeGaps(missing, calendar),
+    issues
+  };
+}
+
+// Issue counts by kind, for one-line summaries.
+export function countIssues(report: DataQualityReport): Partial<Record<QualityIssueKind, number>> {
+  const counts: Partial<Record<QualityIssueKind, number>> = {};
+  report.issues.forEach(issue => {
+    counts[issue.kind] = (counts[issue.kind] ?? 0) + 1;
+  });
+  return counts;
+}
@@ -0,0 +1,117 @@
+import { PriceData } from '../types/price';
+import { IndicatorSeries, macdSeries, rocSeries, rsiSeries, smaSeries } from './indicators';
+
+// Tables behind the AssetPage cards, shaped for CSV/JSON download. Builders are pure so the
+// numbers exported are exactly the ones the cards plot.
+
+export type ExportValue = string | number | null;
+
+export type ExportTable = {
+  columns: string[];
+  rows: ExportValue[][];
+};
+
+export type IndicatorSet = {
+  sma20: IndicatorSeries;
+  sma50: IndicatorSeries;
+  sma200: IndicatorSeries;
+  rsi14: IndicatorSeries;
+  macd: IndicatorSeries;
+  macdSignal: IndicatorSeries;
+  macdHist: IndicatorSeries;
+};
+
+const INDICATOR_COLUMNS: Array<keyof IndicatorSet> = ['sma20', 'sma50', 'sma200', 'rsi14', 'macd', 'macdSignal', 'macdHist'];
+const RETURN_FIELDS = ['open', 'high', 'low', 'close'] as const;
+
+// Indicators over a whole history (daily or resampled), so the first bars of a range are already warmed up.
+export function computeIndicatorSet(history: PriceData[]): IndicatorSet {
+  const closes = history.map(p => p.close);
+  const macd = macdSeries(closes);
+  return {
+    sma20: smaSeries(closes, 20),
+    sma50: smaSeries(closes, 50),
+    sma200: smaSeries(closes, 200),
+    rsi14: rsiSeries(closes, 14),
+    macd: macd.macd,
+    macdSignal: macd.signal,
+    macdHist: macd.histogram
+  };
+}
+
+// For each bar, the index of the history bar with the same date, or null. Both inputs are
+// sorted and at the same interval.
+function matchingIndexes(history: PriceData[], bars: PriceData[]): Array<number | null> {
+  let cursor = -1;
+  return bars.map(bar => {
+    while (cursor + 1 < history.length && history[cursor + 1].date <= bar.date) cursor++;
+    return cursor >= 0 && history[cursor].date === bar.date ? cursor : null;
+  });
+}
+
+// Price History card: the plotted candles plus every indicator. `history` is the full series at
+// the candle interval (daily bars, or resampled weekly/monthly/... candles) the indicators were
+// computed on, so weekly candles carry 20-week SMAs and so on.
+export function priceHistoryTable(history: PriceData[], indicators: IndicatorSet, bars: PriceData[]): ExportTable {
+  const indexes = matchingIndexes(history, bars);
+  return {
+    columns: ['date', 'open', 'high', 'low', 'close', 'volume', ...INDICATOR_COLUMNS],
+    rows: bars.map((bar, i) => {
+      const idx = indexes[i];
+      return [
+        bar.date, bar.open, bar.high, bar.low, bar.close, bar.volume,
+        ...INDICATOR_COLUMNS.map(key => (idx === null ? null : indicators[key][idx]))
+      ];
+    })
+  };
+}
+
+// Price History card at an intraday interval: the plotted bars alone, as the indicators are
+// daily. Dates are the UTC timestamps the bars open at.
+export function intradayTable(bars: PriceData[]): ExportTable {
+  return {
+    columns: ['date', 'open', 'high', 'low', 'close', 'volume'],
+    rows: bars.map(bar => [bar.date, bar.open, bar.high, bar.low, bar.close, bar.volume])
+  };
+}
+
+// Technical Analysis card: closes and indicators for each daily bar in range.
+export function technicalTable(history: PriceData[], indicators: IndicatorSet, prices: PriceData[]): ExportTable {
+  const indexes = matchingIndexes(history, prices);
+  return {
+    columns: ['date', 'close', ...INDICATOR_COLUMNS],
+    rows: prices.map((bar, i) => {
+      const idx = indexes[i];
+      return [bar.date, bar.close, ...INDICATOR_COLUMNS.map(key => (idx === null ? null : indicators[key][idx]))];
+    })
+  };
+}
+
+// Returns card: percent change of each field over every window (e.g. `closeReturn5D`), computed
+// within the range exactly as plotted, so the first `period` rows of each window are empty.
+export function returnsTable(prices: PriceData[], windows: Record<string, number>): ExportTable {
+  const series = Object.entries(windows).flatMap(([label, period]) =>
+    RETURN_FIELDS.map(field => ({
+      column: `${field}Return${label}`,
+      values: rocSeries(prices.map(p => p[field]), period)
+    }))
+  );
+  return {
+    columns: ['date', ...RETURN_FIELDS, ...series.map(s => s.column)],
+    rows: prices.map((bar, i) => [bar.date, ...RETURN_FIELDS.map(field => bar[field]), ...series.map(s => s.values[i])])
+  };
+}
+
+function csvCell(value: ExportValue) {
+  if (value === null || (typeof value === 'number' && !Number.isFinite(value))) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(table: ExportTable): string {
+  return [table.columns, ...table.rows].map(row => row.map(csvCell).join(',')).join('\r\n') + '\r\n';
+}
+
+export function toRecords(table: ExportTable): Array<Record<string, ExportValue>> {
+  return table.rows.map(row => Object.fromEntries(table.columns.map((column, i) => [column, row[i] ?? null])));
+}
@@ -0,0 +1,155 @@
+import { describe, expect, it } from 'vitest';
+import {
+  atrSeries,
+  bollingerSeries,
+  emaSeries,
+  macdSeries,
+  rocSeries,
+  rsiSeries,
+  smaSeries,
+  stochasticSeries
+} from './indicators';
+
+// Reference series: the 10-day SMA/EMA worksheet and Wilder's 14-day RSI worksheet published
+// by StockCharts (ChartSchool). Their outputs are quoted to two decimals and the SMA/EMA sheet
+// rounds as it goes, so those are compared to within a cent.
+const EMA_CLOSES = [
+  22.27, 22.19, 22.08, 22.17, 22.18, 22.13, 22.23, 22.43, 22.24, 22.29,
+  22.15, 22.39, 22.38, 22.61, 23.36, 24.05, 23.75, 23.83, 23.95, 23.63,
+  23.82, 23.87, 23.65, 23.19, 23.10, 23.33, 22.68, 23.10, 22.40, 22.17
+];
+const SMA_10 = [
+  22.22, 22.21, 22.23, 22.26, 22.31, 22.42, 22.61, 22.77, 22.91, 23.08,
+  23.21, 23.38, 23.53, 23.65, 23.71, 23.69, 23.61, 23.51, 23.43, 23.28, 23.13
+];
+const EMA_10 = [
+  22.22, 22.21, 22.24, 22.27, 22.33, 22.52, 22.80, 22.97, 23.13, 23.28,
+  23.34, 23.43, 23.51, 23.54, 23.47, 23.40, 23.39, 23.26, 23.23, 23.08, 22.92
+];
+
+const RSI_CLOSES = [
+  44.3389, 44.0902, 44.1497, 43.6124, 44.3278, 44.8264, 45.0955, 45.4245, 45.8433, 46.0826,
+  45.8931, 46.0328, 45.6140, 46.2820, 46.2820, 46.0028, 46.0328, 46.4116, 46.2222, 45.6439,
+  46.2122, 46.2521, 45.7137, 46.4515, 45.7835, 45.3548, 44.0288, 44.1783, 44.2181, 44.5672,
+  43.4205, 42.6628, 43.1314
+];
+const RSI_14 = [
+  70.53, 66.32, 66.55, 69.41, 66.36, 57.97, 62.93, 63.26, 56.06, 62.38,
+  54.71, 50.42, 39.99, 41.46, 41.87, 45.46, 37.30, 33.08, 37.77
+];
+
+// Same length, nulls in the same places, every value within `tolerance` of the reference.
+function expectSeries(actual: (number | null)[], expected: (number | null)[], tolerance: number) {
+  expect(actual.map(value => value === null)).toEqual(expected.map(value => value === null));
+  actual.forEach((value, i) => {
+    if (value !== null) expect(Math.abs(value - (expected[i] as number))).toBeLessThanOrEqual(tolerance);
+  });
+}
+
+function warmUp(count: number): null[] {
+  return Array<null>(count).fill(null);
+}
+
+describe('smaSeries', () => {
+  it('matches the published 10-day SMA, null until a full window', () => {
+    expectSeries(smaSeries(EMA_CLOSES, 10), [...warmUp(9), ...SMA_10], 0.01);
+  });
+
+  it('restarts the window after a gap', () => {
+    expect(smaSeries([1, 2, null, 3, 4, 5], 2)).toEqual([null, 1.5, null, null, 3.5, 4.5]);
+  });
+});
+
+describe('emaSeries', () => {
+  it('matches the published 10-day EMA seeded with the SMA', () => {
+    expectSeries(emaSeries(EMA_CLOSES, 10), [...warmUp(9), ...EMA_10], 0.01);
+  });
+
+  it('skips leading nulls before seeding', () => {
+    expect(emaSeries([null, null, 2, 4, 6], 2)).toEqual([null, null, null, 3, 5]);
+  });
+});
+
+describe('rsiSeries', () => {
+  it("matches Wilder's 14-day RSI worksheet", () => {
+    expectSeries(rsiSeries(RSI_CLOSES, 14), [...warmUp(14), ...RSI_14], 0.005);
+  });
+
+  it('reads 100 with no losses and 50 on a flat series', () => {
+    expect(rsiSeries([1, 2, 3, 4], 3)[3]).toBe(100);
+    expect(rsiSeries([5, 5, 5, 5], 3)[3]).toBe(50);
+  });
+});
+
+describe('macdSeries', () => {
+  // An EMA of a straight line trails it by (period - 1) / 2 once seeded, so on closes 0, 1, 2, ...
+  // MACD(12, 26) is the constant 12.5 - 5.5 = 7 and the signal line settles on it.
+  const closes = Array.from({ length: 60 }, (_, i) => i);
+  const { macd, signal, histogram } = macdSeries(closes, 12, 26, 9);
+
+  it('starts the MACD line once the slow EMA is seeded', () => {
+    expectSeries(macd, [...warmUp(25), ...Array<number>(35).fill(7)], 1e-9);
+  });
+
+  it('starts the signal and histogram a signal period later', () => {
+    expectSeries(signal, [...warmUp(33), ...Array<number>(27).fill(7)], 1e-9);
+    expectSeries(histogram, [...warmUp(33), ...Array<number>(27).fill(0)], 1e-9);
+  });
+});
+
+describe('atrSeries', () => {
+  const highs = [10, 12, 13, 12, 15];
+  const lows = [8, 9, 11, 10, 12];
+  const closes = [9, 11, 12, 11, 14];
+
+  it('seeds with the mean true range and then applies Wilder smoothing', () => {
+    // True ranges: 2 (first bar's high - low), 3, 2, 2 (high - low) and 4 (high - previous close).
+    const atr = atrSeries(highs, lows, closes, 3);
+    expect(atr.slice(0, 2)).toEqual([null, null]);
+    expect(atr[2]).toBeCloseTo(7 / 3, 10);
+    expect(atr[3]).toBeCloseTo((7 / 3 * 2 + 2) / 3, 10);
+    expect(atr[4]).toBeCloseTo(((7 / 3 * 2 + 2) / 3 * 2 + 4) / 3, 10);
+  });
+});
+
+describe('stochasticSeries', () => {
+  it('places the close within the lookback range and smooths %D', () => {
+    const highs = [10, 11, 12, 13, 14];
+    const lows = [5, 6, 7, 8, 9];
+    const closes = [7, 8, 9, 12, 10];
+    const { k, d } = stochasticSeries(highs, lows, closes, 3, 2);
+    // Windows: [5, 12] -> 9, [6, 13] -> 12, [7, 14] -> 10.
+    expect(k.slice(0, 2)).toEqual([null, null]);
+    expect(k[2]).toBeCloseTo(4 / 7 * 100, 10);
+    expect(k[3]).toBeCloseTo(6 / 7 * 100, 10);
+    expect(k[4]).toBeCloseTo(3 / 7 * 100, 10);
+    expect(d.slice(0, 3)).toEqual([null, null, null]);
+    expect(d[3]).toBeCloseTo(5 / 7 * 100, 10);
+    expect(d[4]).toBeCloseTo(4.5 / 7 * 100, 10);
+  });
+
+  it('reads 50 when the range is flat', () => {
+    expect(stochasticSeries([4, 4], [4, 4], [4, 4], 2, 1).k).toEqual([null, 50]);
+  });
+});
+
+describe('bollingerSeries', () => {
+  it('uses the population standard deviation around the SMA', () => {
+    // The textbook set 2, 4, 4, 4, 5, 5, 7, 9 has mean 5 and population standard deviation 2.
+    const { upper, middle, lower } = bollingerSeries([2, 4, 4, 4, 5, 5, 7, 9], 8, 2);
+    expect(middle).toEqual([...warmUp(7), 5]);
+    expect(upper).toEqual([...warmUp(7), 9]);
+    expect(lower).toEqual([...warmUp(7), 1]);
+  });
+});
+
+describe('rocSeries', () => {
+  it('reports the percent change over the period', () => {
+    expectSeries(rocSeries([100, 110, 121, 99], 1), [null, 10, 10, -200 / 11], 1e-9);
+    expectSeries(rocSeries([100, 50, 200, 75], 2), [null, null, 100, 50], 1e-9);
+  });
+
+  it('is null when the base close is zero', () => {
+    expect(rocSeries([0, 5], 1)).toEqual([null, null]);
+  });
+});
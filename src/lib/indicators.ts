@@ -0,0 +1,227 @@
+// Technical-analysis indicators shared by AssetPage, the mini charts and any other screen
+// that needs them. Every function is pure and returns arrays aligned index-for-index with
+// its input; positions without enough history are null.
+
+export type IndicatorSeries = Array<number | null>;
+
+export type MacdResult = {
+  macd: IndicatorSeries;
+  signal: IndicatorSeries;
+  histogram: IndicatorSeries;
+};
+
+export type StochasticResult = {
+  k: IndicatorSeries;
+  d: IndicatorSeries;
+};
+
+export type BollingerResult = {
+  middle: IndicatorSeries;
+  upper: IndicatorSeries;
+  lower: IndicatorSeries;
+};
+
+function isNumber(value: number | null | undefined): value is number {
+  return value !== null && value !== undefined && !Number.isNaN(value);
+}
+
+// Simple moving average over a trailing window of `period` values.
+export function smaSeries(values: IndicatorSeries, period: number): IndicatorSeries {
+  const out: IndicatorSeries = new Array(values.length).fill(null);
+  if (period <= 0) return out;
+  let sum = 0;
+  let count = 0;
+  for (let i = 0; i < values.length; i++) {
+    const v = values[i];
+    if (!isNumber(v)) {
+      // a gap resets the window so averages never straddle missing data
+      sum = 0;
+      count = 0;
+      continue;
+    }
+    sum += v;
+    count++;
+    if (count > period) {
+      sum -= values[i - period] as number;
+      count = period;
+    }
+    if (count === period) out[i] = sum / period;
+  }
+  return out;
+}
+
+// Exponential moving average seeded with the SMA of the first `period` valid values.
+// Leading nulls (e.g. the warm-up of another indicator) are skipped before seeding.
+export function emaSeries(values: IndicatorSeries, period: number): IndicatorSeries {
+  const out: IndicatorSeries = new Array(values.length).fill(null);
+  if (period <= 0) return out;
+  const k = 2 / (period + 1);
+  let prev: number | null = null;
+  let seedSum = 0;
+  let seedCount = 0;
+  for (let i = 0; i < values.length; i++) {
+    const v = values[i];
+    if (!isNumber(v)) continue;
+    if (prev === null) {
+      seedSum += v;
+      seedCount++;
+      if (seedCount === period) {
+        prev = seedSum / period;
+        out[i] = prev;
+      }
+      continue;
+    }
+    prev = v * k + prev * (1 - k);
+    out[i] = prev;
+  }
+  return out;
+}
+
+// Wilder's RSI: the first average gain/loss is a plain mean over `period` changes, after
+// which each average is smoothed as (prev * (period - 1) + current) / period.
+export function rsiSeries(closes: number[], period = 14): IndicatorSeries {
+  const out: IndicatorSeries = new Array(closes.length).fill(null);
+  if (period <= 0 || closes.length <= period) return out;
+
+  const toRsi = (avgGain: number, avgLoss: number) => {
+    if (avgLoss === 0) return avgGain === 0 ? 50 : 100;
+    return 100 - 100 / (1 + avgGain / avgLoss);
+  };
+
+  let avgGain = 0;
+  let avgLoss = 0;
+  for (let i = 1; i <= period; i++) {
+    const change = closes[i] - closes[i - 1];
+    avgGain += Math.max(0, change);
+    avgLoss += Math.max(0, -change);
+  }
+  avgGain /= period;
+  avgLoss /= period;
+  out[period] = toRsi(avgGain, avgLoss);
+
+  for (let i = period + 1; i < closes.length; i++) {
+    const change = closes[i] - closes[i - 1];
+    avgGain = (avgGain * (period - 1) + Math.max(0, change)) / period;
+    avgLoss = (avgLoss * (period - 1) + Math.max(0, -change)) / period;
+    out[i] = toRsi(avgGain, avgLoss);
+  }
+  return out;
+}
+
+// MACD line (fast EMA - slow EMA), its signal EMA and the histogram (macd - signal).
+// The signal line only starts once the MACD line itself has `signal` valid values.
+export function macdSeries(closes: number[], fast = 12, slow = 26, signal = 9): MacdResult {
+  const emaFast = emaSeries(closes, fast);
+  const emaSlow = emaSeries(closes, slow);
+  const macd: IndicatorSeries = closes.map((_, i) => {
+    const f = emaFast[i];
+    const s = emaSlow[i];
+    return isNumber(f) && isNumber(s) ? f - s : null;
+  });
+  const signalLine = emaSeries(macd, signal);
+  const histogram: IndicatorSeries = macd.map((v, i) => {
+    const s = signalLine[i];
+    return isNumber(v) && isNumber(s) ? v - s : null;
+  });
+  return { macd, signal: signalLine, histogram };
+}
+
+// On-balance volume, starting at zero on the first bar.
+export function obvSeries(closes: number[], volumes: number[]): IndicatorSeries {
+  const out: IndicatorSeries = [];
+  let obv = 0;
+  for (let i = 0; i < closes.length; i++) {
+    if (i === 0) { out.push(0); continue; }
+    if (closes[i] > closes[i - 1]) obv += volumes[i] || 0;
+    else if (closes[i] < closes[i - 1]) obv -= volumes[i] || 0;
+    out.push(obv);
+  }
+  return out;
+}
+
+// Average true range using Wilder smoothing, seeded with the mean of the first `period` TRs.
+export function atrSeries(highs: number[], lows: number[], closes: number[], period = 14): IndicatorSeries {
+  const out: IndicatorSeries = new Array(closes.length).fill(null);
+  if (period <= 0 || closes.length < period) return out;
+  const trs = highs.map((high, i) => {
+    if (i === 0) return high - lows[i];
+    return Math.max(high - lows[i], Math.abs(high - closes[i - 1]), Math.abs(lows[i] - closes[i - 1]));
+  });
+  let atr = trs.slice(0, period).reduce((s, v) => s + v, 0) / period;
+  out[period - 1] = atr;
+  for (let i = period; i < trs.length; i++) {
+    atr = (atr * (period - 1) + trs[i]) / period;
+    out[i] = atr;
+  }
+  return out;
+}
+
+// Fast stochastic oscillator: %K over `kPeriod` bars and %D as the SMA of %K.
+export function stochasticSeries(
+  highs: number[],
+  lows: number[],
+  closes: number[],
+  kPeriod = 14,
+  dPeriod = 3
+): StochasticResult {
+  const k: IndicatorSeries = closes.map((close, i) => {
+    if (i + 1 < kPeriod) return null;
+    const hh = Math.max(...highs.slice(i + 1 - kPeriod, i + 1));
+    const ll = Math.min(...lows.slice(i + 1 - kPeriod, i + 1));
+    return hh === ll ? 50 : ((close - ll) / (hh - ll)) * 100;
+  });
+  return { k, d: smaSeries(k, dPeriod) };
+}
+
+// Bollinger bands: SMA middle band +/- `mult` population standard deviations.
+export function bollingerSeries(closes: number[], period = 20, mult = 2): BollingerResult {
+  const middle = smaSeries(closes, period);
+  const upper: IndicatorSeries = new Array(closes.length).fill(null);
+  const lower: IndicatorSeries = new Array(closes.length).fill(null);
+  for (let i = period - 1; i < closes.length; i++) {
+    const mean = middle[i];
+    if (!isNumber(mean)) continue;
+    const slice = closes.slice(i + 1 - period, i + 1);
+    const variance = slice.reduce((s, v) => s + (v - mean) ** 2, 0) / period;
+    const sd = Math.sqrt(variance);
+    upper[i] = mean + mult * sd;
+    lower[i] = mean - mult * sd;
+  }
+  return { middle, upper, lower };
+}
+
+// Rate of change in percent versus the value `period` bars earlier.
+export function rocSeries(closes: number[], period = 12): IndicatorSeries {
+  return closes.map((close, i) => {
+    if (i < period) return null;
+    const base = closes[i - period];
+    return base === 0 ? null : (close / base - 1) * 100;
+  });
+}
+
+// Annualised volatility (in percent) of log returns over the trailing `lookback` bars.
+export function volatilitySeries(closes: number[], lookback = 30, periodsPerYear = 252): IndicatorSeries {
+  const returns: IndicatorSeries = closes.map((close, i) => {
+    if (i === 0) return null;
+    const prev = closes[i - 1];
+    return prev > 0 && close > 0 ? Math.log(close / prev) : null;
+  });
+  return returns.map((_, i) => {
+    if (i < lookback) return null;
+    const window = returns.slice(i + 1 - lookback, i + 1);
+    if (!window.every(isNumber)) return null;
+    const values = window as number[];
+    const mean = values.reduce((s, v) => s + v, 0) / values.length;
+    const variance = values.reduce((s, v) => s + (v - mean) ** 2, 0) / values.length;
+    return Math.sqrt(variance) * Math.sqrt(periodsPerYear) * 100;
+  });
+}
+
+// Most recent non-null value of a series, or null if none.
+export function lastValue(series: IndicatorSeries): number | null {
+  for (let i = series.length - 1; i >= 0; i--) {
+    const v = series[i];
+    if (isNumber(v)) return v;
+  }
+  return null;
+}
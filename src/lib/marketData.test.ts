@@ -0,0 +1,46 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createProvider, ProviderError } from './marketData';
+
+// Out of order, with a repeated date, another ticker's row and bars on both sides of the window.
+const FIXTURE = [
+  'Symbol,Date,Open,High,Low,Close,Volume',
+  'ACME,2025-01-06,12,13,11,12.5,300',
+  'ACME,2025-01-02,10,11,9,10.5,100',
+  'ACME,2025-01-03,10.5,12,10,11.5,200',
+  'ACME,2025-01-03,99,99,99,99,999',
+  'OTHER,2025-01-03,50,51,49,50,10',
+  'ACME,2025-01-07,12.5,13,12,12.8,400',
+  'ACME,2024-12-31,9,10,8,9.5,50'
+].join('\n');
+
+describe('local provider', () => {
+  const provider = createProvider('local', {
+    readTickerFile: async ticker => (ticker === 'ACME' ? FIXTURE : null),
+    today: '2025-06-30'
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("returns the ticker's bars inside the window once each, oldest first", async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const bars = await provider.fetchDaily('ACME', '2025-01-02', '2025-01-06');
+    expect(bars.map(({ date, close }) => [date, close])).toEqual([
+      ['2025-01-02', 10.5],
+      ['2025-01-03', 11.5],
+      ['2025-01-06', 12.5]
+    ]);
+    expect(bars.every(bar => bar.ticker === 'ACME')).toBe(true);
+    expect(warn).toHaveBeenCalledWith('local: ACME line 5: Duplicate of line 4 (ACME 2025-01-03)');
+  });
+
+  it('treats a ticker without a file as having no bars', async () => {
+    await expect(provider.fetchDaily('NONE', '2025-01-01', '2025-01-31')).resolves.toEqual([]);
+  });
+
+  it('fails on a file it cannot read as prices', async () => {
+    const broken = createProvider('local', { readTickerFile: async () => 'Date,Close\n2025-01-02,10' });
+    await expect(broken.fetchDaily('ACME', '2025-01-01', '2025-01-31')).rejects.toBeInstanceOf(ProviderError);
+  });
+});
@@ -0,0 +1,136 @@
+import { PriceData } from '../types/price';
+import { parsePriceCsv, validatePriceRow } from './priceImport';
+import { addCalendarDays } from './tradingCalendar';
+
+// End-of-day OHLCV sources for scripts/sync-prices.ts. A provider returns daily bars for
+// one ticker between two inclusive ISO dates; everything it returns goes through the same
+// validation as a CSV import before it is stored. Vendors are looked up by name so a new
+// one only needs an entry in createProvider().
+
+export interface MarketDataProvider {
+  name: string;
+  fetchDaily(ticker: string, startDate: string, endDate: string): Promise<PriceData[]>;
+}
+
+export type ProviderOptions = {
+  // Reads the CSV for one ticker, or null when there is none (local/fixture provider).
+  readTickerFile?: (ticker: string) => Promise<string | null>;
+  apiKey?: string;
+  // Appended to the lower-cased ticker for Stooq, e.g. ".us" for US listings.
+  stooqSuffix?: string;
+  today?: string;
+};
+
+export const PROVIDER_NAMES = ['local', 'stooq', 'alphavantage'] as const;
+export type ProviderName = typeof PROVIDER_NAMES[number];
+
+export class ProviderError extends Error {
+  constructor(public provider: string, message: string) {
+    super(`${provider}: ${message}`);
+    this.name = 'ProviderError';
+  }
+}
+
+// Validated, de-duplicated bars inside the requested window, oldest first. Providers may
+// return more than was asked for (full history endpoints), so the window is enforced here.
+function keepWindow(rows: PriceData[], startDate: string, endDate: string): PriceData[] {
+  const byDate = new Map<string, PriceData>();
+  rows.forEach(row => {
+    if (row.date >= startDate && row.date <= endDate && !byDate.has(row.date)) byDate.set(row.date, row);
+  });
+  return Array.from(byDate.values()).sort((a, b) => a.date.localeCompare(b.date));
+}
+
+function csvBars(provider: string, text: string, ticker: string, today?: string): PriceData[] {
+  const parsed = parsePriceCsv(text, { defaultTicker: ticker, today });
+  const fileIssue = parsed.errors.find(issue => issue.line === 0);
+  if (fileIssue) throw new ProviderError(provider, `${ticker}: ${fileIssue.message}`);
+  parsed.errors.forEach(issue => console.warn(`${provider}: ${ticker} line ${issue.line}: ${issue.message}`));
+  return parsed.rows.filter(row => row.ticker === ticker);
+}
+
+// One CSV per ticker (<dir>/<TICKER>.csv in the sync script), in any layout the importer
+// accepts. Used offline and for fixtures.
+function localProvider({ readTickerFile, today }: ProviderOptions): MarketDataProvider {
+  if (!readTickerFile) throw new ProviderError('local', 'no directory configured');
+  return {
+    name: 'local',
+    async fetchDaily(ticker, startDate, endDate) {
+      const text = await readTickerFile(ticker);
+      return text === null ? [] : keepWindow(csvBars('local', text, ticker, today), startDate, endDate);
+    }
+  };
+}
+
+// Stooq's free daily CSV download; no key, but symbols carry a market suffix.
+function stooqProvider({ stooqSuffix = '.us', today }: ProviderOptions): MarketDataProvider {
+  return {
+    name: 'stooq',
+    async fetchDaily(ticker, startDate, endDate) {
+      const symbol = `${ticker.toLowerCase()}${stooqSuffix}`;
+      const url = `https://stooq.com/q/d/l/?s=${encodeURIComponent(symbol)}&i=d` +
+        `&d1=${startDate.replace(/-/g, '')}&d2=${endDate.replace(/-/g, '')}`;
+      const response = await fetch(url);
+      if (!response.ok) throw new ProviderError('stooq', `${ticker}: HTTP ${response.status}`);
+      const text = await response.text();
+      // Unknown symbols and empty windows come back as a bare "No data" body
+      if (/^\s*no data/i.test(text)) return [];
+      return keepWindow(csvBars('stooq', text, ticker, today), startDate, endDate);
+    }
+  };
+}
+
+type AlphaVantageDaily = {
+  'Time Series (Daily)'?: Record<string, Record<string, string>>;
+  'Error Message'?: string;
+  Note?: string;
+  Information?: string;
+};
+
+// Alpha Vantage TIME_SERIES_DAILY. The compact response covers about 100 sessions, which
+// is enough for a daily sync; older windows need the full history.
+function alphaVantageProvider({ apiKey, today }: ProviderOptions): MarketDataProvider {
+  if (!apiKey) throw new ProviderError('alphavantage', 'ALPHAVANTAGE_API_KEY is not set');
+  return {
+    name: 'alphavantage',
+    async fetchDaily(ticker, startDate, endDate) {
+      const outputSize = startDate < addCalendarDays(endDate, -140) ? 'full' : 'compact';
+      const url = `https://www.alphavantage.co/query?function=TIME_SERIES_DAILY&symbol=${encodeURIComponent(ticker)}` +
+        `&outputsize=${outputSize}&apikey=${encodeURIComponent(apiKey)}`;
+      const response = await fetch(url);
+      if (!response.ok) throw new ProviderError('alphavantage', `${ticker}: HTTP ${response.status}`);
+      const body = (await response.json()) as AlphaVantageDaily;
+      const series = body['Time Series (Daily)'];
+      if (!series) throw new ProviderError('alphavantage', `${ticker}: ${body['Error Message'] || body.Note || body.Information || 'no time series in response'}`);
+
+      const rows: PriceData[] = [];
+      Object.entries(series).forEach(([date, bar]) => {
+        const row = validatePriceRow({
+          ticker,
+          date,
+          open: bar['1. open'],
+          high: bar['2. high'],
+          low: bar['3. low'],
+          close: bar['4. close'],
+          volume: bar['5. volume']
+        }, today);
+        if (typeof row === 'string') console.warn(`alphavantage: ${ticker} ${date}: ${row}`);
+        else rows.push(row);
+      });
+      return keepWindow(rows, startDate, endDate);
+    }
+  };
+}
+
+export function createProvider(name: string, options: ProviderOptions = {}): MarketDataProvider {
+  switch (name) {
+    case 'local':
+      return localProvider(options);
+    case 'stooq':
+      return stooqProvider(options);
+    case 'alphavantage':
+      return alphaVantageProvider(options);
+    default:
+      throw new ProviderError(name, `unknown provider (expected one of ${PROVIDER_NAMES.join(', ')})`);
+  }
+}
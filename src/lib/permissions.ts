@@ -0,0 +1,37 @@
+// Role-based access shared by the UI and the API server. Roles come from the Cognito groups
+// in the ID token (`cognito:groups`); permissions are only ever checked through this map.
+
+export type Role = 'admin' | 'analyst' | 'viewer';
+
+export type Permission =
+  | 'assets:view'
+  | 'watchlists:manage'
+  | 'portfolio:manage'
+  | 'alerts:manage'
+  | 'prices:update'
+  | 'data:import'
+  | 'users:manage'
+  | 'settings:manage';
+
+// Most privileged first; a user in several groups gets the first match.
+export const ROLES: Role[] = ['admin', 'analyst', 'viewer'];
+
+const VIEWER: Permission[] = ['assets:view', 'watchlists:manage', 'portfolio:manage'];
+const ANALYST: Permission[] = [...VIEWER, 'alerts:manage'];
+const ADMIN: Permission[] = [...ANALYST, 'prices:update', 'data:import', 'users:manage', 'settings:manage'];
+
+export const ROLE_PERMISSIONS: Record<Role, readonly Permission[]> = {
+  admin: ADMIN,
+  analyst: ANALYST,
+  viewer: VIEWER
+};
+
+// Signed-in users outside every known group are treated as viewers.
+export function roleFromGroups(groups: readonly string[] | undefined): Role {
+  const normalized = (groups || []).map(g => g.toLowerCase());
+  return ROLES.find(role => normalized.includes(role)) || 'viewer';
+}
+
+export function hasPermission(role: Role | undefined, permission: Permission): boolean {
+  return !!role && ROLE_PERMISSIONS[role].includes(permission);
+}
@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest';
+import { equityCurve, parseSplitRatio, parseTransactionCsv, replayLedger, sortLedger } from './portfolio';
+import { TransactionInput } from '../types/portfolio';
+import { PriceData } from '../types/price';
+
+describe('parseSplitRatio', () => {
+  it('reads new shares per old share in the usual notations', () => {
+    expect(parseSplitRatio(2)).toBe(2);
+    expect(parseSplitRatio('2')).toBe(2);
+    expect(parseSplitRatio('2:1')).toBe(2);
+    expect(parseSplitRatio('2-for-1')).toBe(2);
+    expect(parseSplitRatio('3 for 2')).toBe(1.5);
+    expect(parseSplitRatio('1/10')).toBe(0.1);
+  });
+
+  it('is null for a zero denominator or text that is not a ratio', () => {
+    expect(parseSplitRatio('2:0')).toBeNull();
+    expect(parseSplitRatio('two')).toBeNull();
+    expect(parseSplitRatio('')).toBeNull();
+  });
+});
+
+function tx(type: TransactionInput['type'], date: string, fields: Partial<TransactionInput> = {}): TransactionInput {
+  return { ticker: 'ACME', type, date, ...fields };
+}
+
+describe('replayLedger', () => {
+  it('realizes sells against the average cost, carried through a split', () => {
+    const { holdings, issues } = replayLedger([
+      tx('sell', '2025-03-03', { quantity: 120, price: 8 }),
+      tx('buy', '2025-01-02', { quantity: 100, price: 10, fees: 5 }),
+      tx('sell', '2025-01-15', { quantity: 40, price: 15, fees: 5 }),
+      tx('split', '2025-02-03', { ratio: 2 }),
+      tx('dividend', '2025-02-14', { amount: 12 })
+    ]);
+    // Cost 1005; the first sell takes 40% of it (402) for 600 - 5; the split leaves the
+    // remaining 603 on 120 shares, all sold for 960.
+    expect(issues).toEqual([]);
+    expect(holdings).toHaveLength(1);
+    expect(holdings[0]).toMatchObject({ ticker: 'ACME', shares: 0, costBasis: 0, dividends: 12 });
+    expect(holdings[0].realizedPnl).toBeCloseTo(193 + 357, 10);
+  });
+
+  it('keeps a partial position at its remaining cost', () => {
+    const { holdings } = replayLedger([
+      tx('buy', '2025-01-02', { quantity: 100, price: 10, fees: 5 }),
+      tx('sell', '2025-01-15', { quantity: 40, price: 15, fees: 5 })
+    ]);
+    expect(holdings[0].shares).toBe(60);
+    expect(holdings[0].costBasis).toBeCloseTo(603, 10);
+    expect(holdings[0].realizedPnl).toBeCloseTo(193, 10);
+  });
+
+  it('rejects a sell of more than is held and leaves the holding as it was', () => {
+    const { holdings, issues } = replayLedger([
+      tx('buy', '2025-01-02', { quantity: 10, price: 10 }),
+      tx('sell', '2025-01-03', { quantity: 11, price: 12 })
+    ]);
+    expect(issues).toEqual(['Sell of 11 ACME on 2025-01-03 exceeds the 10 held']);
+    expect(holdings[0]).toMatchObject({ shares: 10, costBasis: 100, realizedPnl: 0 });
+  });
+});
+
+describe('sortLedger', () => {
+  it('orders same-day entries by when they were recorded, then buys before sells', () => {
+    const sell = tx('sell', '2025-01-02', { quantity: 5, price: 11 });
+    const buy = tx('buy', '2025-01-02', { quantity: 5, price: 10 });
+    const split = tx('split', '2025-01-02', { ratio: 2 });
+    const earlier = tx('dividend', '2025-01-01', { amount: 1 });
+    expect(sortLedger([sell, split, buy, earlier])).toEqual([earlier, buy, split, sell]);
+
+    const recordedSell = { ...sell, createdAt: '2025-01-02T10:00:00.000Z' };
+    const recordedBuy = { ...buy, createdAt: '2025-01-02T11:00:00.000Z' };
+    expect(sortLedger([recordedBuy, recordedSell])).toEqual([recordedSell, recordedBuy]);
+  });
+});
+
+describe('equityCurve', () => {
+  it('values holdings at each close and follows a split in the unadjusted prices', () => {
+    const pairs: [string, number][] = [['2024-12-31', 9], ['2025-01-02', 11], ['2025-01-03', 6], ['2025-01-06', 7]];
+    const history: PriceData[] = pairs.map(([date, close]) => ({ ticker: 'ACME', date, open: close, high: close, low: close, close, volume: 100 }));
+    const curve = equityCurve([
+      tx('buy', '2025-01-02', { quantity: 10, price: 10 }),
+      tx('split', '2025-01-03', { ratio: 2 })
+    ], { ACME: history });
+    expect(curve).toEqual({
+      dates: ['2025-01-02', '2025-01-03', '2025-01-06'],
+      marketValue: [110, 120, 140],
+      costBasis: [100, 100, 100]
+    });
+  });
+});
+
+describe('parseTransactionCsv', () => {
+  it('drops the signs brokers put on quantities and amounts', () => {
+    const csv = [
+      'Symbol,Action,Trade Date,Quantity,Price,Amount,Commission',
+      'ACME,Bought,2025-01-02,100,,-1000.00,5',
+      'ACME,Sold,1/15/2025,-40,15,600,5',
+      'ACME,Dividend,2025-02-14,,,(12.00),',
+      'ACME,Dividend,2025-03-14,,,"($1,234.50)",',
+      'ACME,Transfer,2025-03-20,10,,,'
+    ].join('\n');
+    expect(parseTransactionCsv(csv, { today: '2025-06-30' })).toEqual({
+      transactions: [
+        { ticker: 'ACME', type: 'buy', date: '2025-01-02', quantity: 100, price: 10, fees: 5 },
+        { ticker: 'ACME', type: 'sell', date: '2025-01-15', quantity: 40, price: 15, fees: 5 },
+        { ticker: 'ACME', type: 'dividend', date: '2025-02-14', amount: 12 },
+        { ticker: 'ACME', type: 'dividend', date: '2025-03-14', amount: 1234.5 }
+      ],
+      errors: [{ line: 6, message: 'Unknown type "Transfer" (use buy, sell, dividend, split)' }],
+      ignoredColumns: []
+    });
+  });
+});
@@ -0,0 +1,333 @@
+import Papa from 'papaparse';
+import { PriceData } from '../types/price';
+import {
+  EquityCurve,
+  PortfolioTransaction,
+  Position,
+  TransactionInput,
+  TransactionType,
+  TRANSACTION_TYPES
+} from '../types/portfolio';
+import { ImportIssue, parseImportDate, parseImportNumber } from './priceImport';
+import { normalizeTicker } from './watchlists';
+
+// Portfolio ledger shared by the browser service and the API server: validation, CSV
+// import and the replay that turns transactions into positions. Cost basis uses the
+// average-cost method, so a sell realizes against the mean price of the shares held.
+
+export type LedgerHolding = Pick<Position, 'ticker' | 'shares' | 'costBasis' | 'realizedPnl' | 'dividends'>;
+
+export type ParsedTransactionFile = {
+  transactions: TransactionInput[];
+  errors: ImportIssue[];
+  ignoredColumns: string[];
+};
+
+// Fractional shares are allowed; anything smaller than this is float noise.
+const SHARE_EPSILON = 1e-9;
+const MAX_NOTE_LENGTH = 200;
+
+type Column = 'ticker' | 'type' | 'date' | 'quantity' | 'price' | 'amount' | 'ratio' | 'fees' | 'note';
+
+// Header names are compared lower-case with everything but letters stripped, as in priceImport.
+const COLUMN_ALIASES: Record<string, Column> = {
+  ticker: 'ticker',
+  symbol: 'ticker',
+  type: 'type',
+  action: 'type',
+  side: 'type',
+  transaction: 'type',
+  transactiontype: 'type',
+  date: 'date',
+  tradedate: 'date',
+  quantity: 'quantity',
+  qty: 'quantity',
+  shares: 'quantity',
+  units: 'quantity',
+  price: 'price',
+  shareprice: 'price',
+  unitprice: 'price',
+  amount: 'amount',
+  total: 'amount',
+  ratio: 'ratio',
+  splitratio: 'ratio',
+  fees: 'fees',
+  fee: 'fees',
+  commission: 'fees',
+  commissions: 'fees',
+  note: 'note',
+  notes: 'note',
+  memo: 'note',
+  description: 'note'
+};
+
+const REQUIRED_COLUMNS: Column[] = ['ticker', 'type', 'date'];
+
+const TYPE_ALIASES: Record<string, TransactionType> = {
+  buy: 'buy',
+  bought: 'buy',
+  purchase: 'buy',
+  sell: 'sell',
+  sold: 'sell',
+  sale: 'sell',
+  dividend: 'dividend',
+  dividends: 'dividend',
+  div: 'dividend',
+  split: 'split',
+  stocksplit: 'split'
+};
+
+export function newTransactionId() {
+  return `tx-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export function buildTransaction(userId: string, input: TransactionInput): PortfolioTransaction {
+  return { ...input, userId, transactionId: newTransactionId(), createdAt: new Date().toISOString() };
+}
+
+// Accepts 2, "2", "2:1", "2-for-1" or "1/10" (new shares per old share).
+export function parseSplitRatio(value: unknown): number | null {
+  const match = String(value ?? '').trim().match(/^(\d+(?:\.\d+)?)\s*(?::|\/|-?for-?|\s)\s*(\d+(?:\.\d+)?)$/i);
+  if (match) return Number(match[2]) ? Number(match[1]) / Number(match[2]) : null;
+  return parseImportNumber(value);
+}
+
+function isBlank(value: unknown) {
+  return value === undefined || value === null || String(value).trim() === '';
+}
+
+// Validates one transaction with canonical keys. Returns the input holding only the amounts
+// its type uses, or a message describing the first problem found.
+export function validateTransaction(
+  raw: Record<string, unknown>,
+  today = new Date().toISOString().slice(0, 10)
+): TransactionInput | string {
+  const ticker = typeof raw.ticker === 'string' ? normalizeTicker(raw.ticker) : '';
+  if (!ticker) return 'Missing ticker';
+  const type = TYPE_ALIASES[String(raw.type ?? '').toLowerCase().replace(/[^a-z]/g, '')];
+  if (!type) return `Unknown type "${raw.type ?? ''}" (use ${TRANSACTION_TYPES.join(', ')})`;
+  const date = parseImportDate(raw.date);
+  if (!date) return `Unrecognised date "${raw.date ?? ''}" (use YYYY-MM-DD or M/D/YYYY)`;
+  if (date > today) return `Date ${date} is in the future`;
+
+  const positive = (field: 'quantity' | 'price' | 'amount' | 'ratio'): number | string => {
+    const value = field === 'ratio' ? parseSplitRatio(raw[field]) : parseImportNumber(raw[field]);
+    if (value === null) return isBlank(raw[field]) ? `Missing ${field}` : `${field} "${raw[field]}" is not a number`;
+    return value > 0 ? value : `${field} must be positive`;
+  };
+
+  const input: TransactionInput = { ticker, type, date };
+  if (!isBlank(raw.fees)) {
+    const fees = parseImportNumber(raw.fees);
+    if (fees === null || fees < 0) return `fees "${raw.fees}" must be zero or more`;
+    if (fees > 0) input.fees = fees;
+  }
+  if (typeof raw.note === 'string' && raw.note.trim()) input.note = raw.note.trim().slice(0, MAX_NOTE_LENGTH);
+
+  if (type === 'buy' || type === 'sell') {
+    const quantity = positive('quantity');
+    if (typeof quantity === 'string') return quantity;
+    // Broker exports often carry the total instead of a per-share price
+    const amount = parseImportNumber(raw.amount);
+    const price = isBlank(raw.price) && amount && amount > 0 ? amount / quantity : positive('price');
+    if (typeof price === 'string') return price;
+    return { ...input, quantity, price };
+  }
+  if (type === 'dividend') {
+    const amount = positive('amount');
+    return typeof amount === 'string' ? amount : { ...input, amount };
+  }
+  const ratio = positive('ratio');
+  if (typeof ratio === 'string') return ratio;
+  if (input.fees) return 'A split cannot carry fees';
+  return { ...input, ratio };
+}
+
+// Same-day entries recorded together (an import shares one createdAt) can't be ordered by
+// time, so buys go first: a same-day sell then never looks short.
+const SAME_DAY_ORDER: Record<TransactionType, number> = { buy: 0, split: 1, dividend: 2, sell: 3 };
+
+// Trade date first, then the order entries were recorded in.
+export function sortLedger<T extends TransactionInput & { createdAt?: string }>(transactions: T[]): T[] {
+  return [...transactions].sort((a, b) =>
+    a.date.localeCompare(b.date)
+    || (a.createdAt || '').localeCompare(b.createdAt || '')
+    || SAME_DAY_ORDER[a.type] - SAME_DAY_ORDER[b.type]
+  );
+}
+
+function emptyHolding(ticker: string): LedgerHolding {
+  return { ticker, shares: 0, costBasis: 0, realizedPnl: 0, dividends: 0 };
+}
+
+// Applies one transaction in place. Returns a problem instead when it can't be applied
+// (selling more than is held), leaving the holding untouched.
+function applyTransaction(holding: LedgerHolding, tx: TransactionInput): string | null {
+  const fees = tx.fees || 0;
+  switch (tx.type) {
+    case 'buy':
+      holding.shares += tx.quantity || 0;
+      holding.costBasis += (tx.quantity || 0) * (tx.price || 0) + fees;
+      return null;
+    case 'sell': {
+      const quantity = tx.quantity || 0;
+      if (quantity > holding.shares + SHARE_EPSILON) {
+        return `Sell of ${quantity} ${tx.ticker} on ${tx.date} exceeds the ${+holding.shares.toFixed(6)} held`;
+      }
+      const cost = holding.shares > 0 ? (holding.costBasis * quantity) / holding.shares : 0;
+      holding.realizedPnl += quantity * (tx.price || 0) - fees - cost;
+      holding.shares -= quantity;
+      holding.costBasis -= cost;
+      if (holding.shares < SHARE_EPSILON) {
+        holding.shares = 0;
+        holding.costBasis = 0;
+      }
+      return null;
+    }
+    case 'dividend':
+      holding.dividends += (tx.amount || 0) - fees;
+      return null;
+    case 'split':
+      holding.shares *= tx.ratio || 1;
+      return null;
+  }
+}
+
+// Replays a ledger in date order. Transactions that can't apply are reported and skipped.
+export function replayLedger(transactions: TransactionInput[]): { holdings: LedgerHolding[]; issues: string[] } {
+  const byTicker = new Map<string, LedgerHolding>();
+  const issues: string[] = [];
+  sortLedger(transactions).forEach(tx => {
+    const holding = byTicker.get(tx.ticker) || emptyHolding(tx.ticker);
+    byTicker.set(tx.ticker, holding);
+    const issue = applyTransaction(holding, tx);
+    if (issue) issues.push(issue);
+  });
+  return { holdings: Array.from(byTicker.values()).sort((a, b) => a.ticker.localeCompare(b.ticker)), issues };
+}
+
+// First problem the ledger would have, or null; used before saving additions and removals.
+export function ledgerIssue(transactions: TransactionInput[]): string | null {
+  return replayLedger(transactions).issues[0] ?? null;
+}
+
+// Values holdings at the latest close in each history. Closed-out tickers are kept for their
+// realized P&L and dividends.
+export function valuePositions(holdings: LedgerHolding[], histories: Record<string, PriceData[]>): Position[] {
+  return holdings.map(holding => {
+    const history = histories[holding.ticker] || [];
+    const last = history[history.length - 1];
+    const marketValue = last ? holding.shares * last.close : null;
+    return {
+      ...holding,
+      lastClose: last?.close ?? null,
+      lastDate: last?.date ?? null,
+      marketValue,
+      unrealizedPnl: marketValue === null ? null : marketValue - holding.costBasis
+    };
+  });
+}
+
+// Daily market value and cost basis from the first transaction to the latest close. Each
+// holding is valued at its most recent close on or before the day, or at its last trade
+// price until the first close is known. Histories should be unadjusted so recorded splits
+// line up with the price series.
+export function equityCurve(transactions: TransactionInput[], histories: Record<string, PriceData[]>): EquityCurve {
+  const ledger = sortLedger(transactions);
+  const curve: EquityCurve = { dates: [], marketValue: [], costBasis: [] };
+  if (!ledger.length) return curve;
+
+  const tickers = Array.from(new Set(ledger.map(tx => tx.ticker)));
+  const start = ledger[0].date;
+  const closes = new Map(tickers.map(ticker => [ticker, new Map((histories[ticker] || []).map(p => [p.date, p.close]))]));
+  const dates = Array.from(new Set(tickers.flatMap(ticker => (histories[ticker] || []).map(p => p.date))))
+    .filter(date => date >= start)
+    .sort();
+
+  const holdings = new Map(tickers.map(ticker => [ticker, emptyHolding(ticker)]));
+  const lastPrice = new Map<string, number>();
+  let next = 0;
+  dates.forEach(date => {
+    for (; next < ledger.length && ledger[next].date <= date; next++) {
+      const tx = ledger[next];
+      applyTransaction(holdings.get(tx.ticker) as LedgerHolding, tx);
+      if (tx.price && !lastPrice.has(tx.ticker)) lastPrice.set(tx.ticker, tx.price);
+      if (tx.type === 'split' && lastPrice.has(tx.ticker)) {
+        lastPrice.set(tx.ticker, (lastPrice.get(tx.ticker) as number) / (tx.ratio || 1));
+      }
+    }
+    let value = 0;
+    let cost = 0;
+    holdings.forEach((holding, ticker) => {
+      const close = closes.get(ticker)?.get(date);
+      if (close !== undefined) lastPrice.set(ticker, close);
+      value += holding.shares * (lastPrice.get(ticker) ?? 0);
+      cost += holding.costBasis;
+    });
+    curve.dates.push(date);
+    curve.marketValue.push(value);
+    curve.costBasis.push(cost);
+  });
+  return curve;
+}
+
+// Brokers sign quantities and cash by direction (a buy's amount is negative); the type
+// column already says which way money moved, so signs are dropped before validation.
+function unsigned(value: unknown) {
+  return typeof value === 'string' ? value.trim().replace(/^-/, '').replace(/^\((.*)\)$/, '$1') : value;
+}
+
+// Reads a transaction CSV (ticker, type, date plus whichever amount columns the types need).
+// Rows that fail validation are reported and left out.
+export function parseTransactionCsv(text: string, options: { today?: string } = {}): ParsedTransactionFile {
+  const errors: ImportIssue[] = [];
+  const ignoredColumns: string[] = [];
+  const columnFor: Record<string, Column> = {};
+
+  const result = Papa.parse<Record<string, string>>(text.replace(/^\uFEFF/, ''), {
+    header: true,
+    transformHeader: header => header.trim()
+  });
+
+  for (const field of result.meta.fields || []) {
+    const column = COLUMN_ALIASES[field.toLowerCase().replace(/[^a-z]/g, '')];
+    if (column && !Object.values(columnFor).includes(column)) {
+      columnFor[field] = column;
+    } else if (field) {
+      ignoredColumns.push(field);
+    }
+  }
+
+  const present = new Set(Object.values(columnFor));
+  const missing = REQUIRED_COLUMNS.filter(column => !present.has(column));
+  if (missing.length) {
+    errors.push({ line: 0, message: `Missing column${missing.length > 1 ? 's' : ''}: ${missing.join(', ')}` });
+    return { transactions: [], errors, ignoredColumns };
+  }
+
+  const parseErrors = new Map<number, string>();
+  result.errors.forEach(error => {
+    if (error.row !== undefined && !parseErrors.has(error.row)) parseErrors.set(error.row, error.message);
+  });
+
+  const transactions: TransactionInput[] = [];
+  result.data.forEach((record, index) => {
+    if (Object.values(record).every(value => !String(value ?? '').trim())) return;
+    const line = index + 2;
+    const parseError = parseErrors.get(index);
+    if (parseError) {
+      errors.push({ line, message: parseError });
+      return;
+    }
+    const raw: Record<string, unknown> = {};
+    Object.entries(record).forEach(([field, value]) => {
+      const column = columnFor[field];
+      if (column) raw[column] = column === 'quantity' || column === 'amount' ? unsigned(value) : value;
+    });
+    const tx = validateTransaction(raw, options.today);
+    if (typeof tx === 'string') errors.push({ line, message: tx });
+    else transactions.push(tx);
+  });
+
+  return { transactions, errors, ignoredColumns };
+}
@@ -0,0 +1,225 @@
+import { PriceData } from '../types/price';
+import { AlignedCloses, alignCloses, beta, covariance, simpleReturns } from './comparison';
+import { weekStart } from './resample';
+
+// Risk of the portfolio as currently held, so past deposits and withdrawals don't show up as
+// gains or losses. VaR, volatility and beta use today's weights applied to each period's
+// asset returns; drawdowns replay today's share counts over the price history. Works on
+// daily closes or on weekly samples (the last session of each Monday-keyed week, as the
+// weekly candles use).
+
+export type RiskFrequency = 'daily' | 'weekly';
+
+export const PERIODS_PER_YEAR: Record<RiskFrequency, number> = { daily: 252, weekly: 52 };
+
+export type TailRisk = {
+  var: number;    // loss over one period not exceeded with the given confidence, percent (>= 0)
+  cvar: number;   // mean loss beyond the VaR, percent (>= 0)
+};
+
+export type RiskContribution = {
+  ticker: string;
+  weight: number;          // share of current market value
+  volatility: number;      // annualised, percent
+  contribution: number;    // annualised percent of portfolio volatility; sums to the portfolio's
+  share: number;           // contribution / portfolio volatility
+};
+
+export type DrawdownEpisode = {
+  peakDate: string;
+  troughDate: string;
+  recoveryDate: string | null;   // null while still under water
+  depth: number;                 // percent below the peak (<= 0)
+  attribution: Array<{ ticker: string; change: number; share: number }>;
+};
+
+export type PortfolioRiskReport = {
+  frequency: RiskFrequency;
+  confidence: number;
+  dates: string[];
+  values: number[];
+  drawdown: number[];
+  volatility: number;
+  beta: number | null;
+  historical: TailRisk;
+  parametric: TailRisk;
+  contributions: RiskContribution[];
+  worstDrawdowns: DrawdownEpisode[];
+  excluded: string[];             // held tickers without usable price history
+};
+
+// Keeps the last session of each week.
+export function sampleWeekly(aligned: AlignedCloses): AlignedCloses {
+  const keep = aligned.dates
+    .map((_date, i) => i)
+    .filter(i => i === aligned.dates.length - 1 || weekStart(aligned.dates[i]) !== weekStart(aligned.dates[i + 1]));
+  const closes: Record<string, number[]> = {};
+  Object.entries(aligned.closes).forEach(([ticker, values]) => {
+    closes[ticker] = keep.map(i => values[i]);
+  });
+  return { dates: keep.map(i => aligned.dates[i]), closes };
+}
+
+function mean(values: number[]) {
+  return values.length ? values.reduce((s, v) => s + v, 0) / values.length : 0;
+}
+
+// Empirical: the worst (1 - confidence) share of periods, at least one.
+export function historicalTailRisk(returns: number[], confidence: number): TailRisk {
+  if (!returns.length) return { var: 0, cvar: 0 };
+  const sorted = [...returns].sort((a, b) => a - b);
+  const tail = sorted.slice(0, Math.max(1, Math.floor(sorted.length * (1 - confidence))));
+  return { var: Math.max(0, -tail[tail.length - 1] * 100), cvar: Math.max(0, -mean(tail) * 100) };
+}
+
+// Standard normal quantile (Acklam's rational approximation, |error| < 1.2e-9).
+export function normalQuantile(p: number): number {
+  const a = [-39.69683028665376, 220.9460984245205, -275.9285104469687, 138.357751867269, -30.66479806614716, 2.506628277459239];
+  const b = [-54.47609879822406, 161.5858368580409, -155.6989798598866, 66.80131188771972, -13.28068155288572];
+  const c = [-0.007784894002430293, -0.3223964580411365, -2.400758277161838, -2.549732539343734, 4.374664141464968, 2.938163982698783];
+  const d = [0.007784695709041462, 0.3224671290700398, 2.445134137142996, 3.754408661907416];
+  const low = 0.02425;
+  if (p < low) {
+    const q = Math.sqrt(-2 * Math.log(p));
+    return (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) / ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+  }
+  if (p > 1 - low) return -normalQuantile(1 - p);
+  const q = p - 0.5;
+  const r = q * q;
+  return (((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q
+    / (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1);
+}
+
+// Variance-covariance: returns assumed normal with the sample mean and deviation.
+export function parametricTailRisk(returns: number[], confidence: number): TailRisk {
+  if (returns.length < 2) return { var: 0, cvar: 0 };
+  const mu = mean(returns);
+  const sigma = Math.sqrt(covariance(returns, returns) ?? 0);
+  const z = normalQuantile(confidence);
+  const density = Math.exp(-z * z / 2) / Math.sqrt(2 * Math.PI);
+  return {
+    var: Math.max(0, (z * sigma - mu) * 100),
+    cvar: Math.max(0, ((sigma * density) / (1 - confidence) - mu) * 100)
+  };
+}
+
+// Euler allocation: each position's weight times its covariance with the portfolio, over the
+// portfolio's volatility. Contributions add up to the portfolio volatility.
+export function riskContributions(
+  returns: Record<string, number[]>,
+  weights: Record<string, number>,
+  periodsPerYear: number
+): { returns: number[]; volatility: number; contributions: RiskContribution[] } {
+  const tickers = Object.keys(weights);
+  const portfolio = (returns[tickers[0]] || []).map((_, t) => tickers.reduce((sum, ticker) => sum + weights[ticker] * returns[ticker][t], 0));
+  const variance = covariance(portfolio, portfolio) ?? 0;
+  const sd = Math.sqrt(variance);
+  const annualise = Math.sqrt(periodsPerYear) * 100;
+
+  const contributions = tickers.map(ticker => {
+    const marginal = sd ? (covariance(returns[ticker], portfolio) ?? 0) / sd : 0;
+    const contribution = weights[ticker] * marginal * annualise;
+    return {
+      ticker,
+      weight: weights[ticker],
+      volatility: Math.sqrt(covariance(returns[ticker], returns[ticker]) ?? 0) * annualise,
+      contribution,
+      share: sd ? contribution / (sd * annualise) : 0
+    };
+  });
+  return { returns: portfolio, volatility: sd * annualise, contributions: contributions.sort((a, b) => b.contribution - a.contribution) };
+}
+
+// Percent below the running peak at each point (<= 0).
+export function drawdownSeries(values: number[]): number[] {
+  let peak = -Infinity;
+  return values.map(v => {
+    peak = Math.max(peak, v);
+    return peak > 0 ? (v / peak - 1) * 100 : 0;
+  });
+}
+
+// The `count` deepest non-overlapping peak-to-trough episodes, each attributed to positions
+// by the change in their value (shares x close) between the peak and the trough.
+export function worstDrawdowns(
+  aligned: AlignedCloses,
+  shares: Record<string, number>,
+  values: number[],
+  count: number
+): DrawdownEpisode[] {
+  const episodes: Array<{ peak: number; trough: number; recovery: number | null }> = [];
+  let peak = 0;
+  let trough = 0;
+  for (let i = 1; i <= values.length; i++) {
+    const ended = i === values.length || values[i] >= values[peak];
+    if (ended) {
+      if (trough > peak) episodes.push({ peak, trough, recovery: i < values.length ? i : null });
+      peak = i;
+      trough = i;
+    } else if (values[i] < values[trough]) {
+      trough = i;
+    }
+  }
+
+  return episodes
+    .map(e => ({ ...e, depth: (values[e.trough] / values[e.peak] - 1) * 100 }))
+    .sort((a, b) => a.depth - b.depth)
+    .slice(0, count)
+    .map(e => {
+      const loss = values[e.trough] - values[e.peak];
+      const attribution = Object.keys(shares)
+        .map(ticker => {
+          const change = shares[ticker] * (aligned.closes[ticker][e.trough] - aligned.closes[ticker][e.peak]);
+          return { ticker, change, share: loss ? change / loss : 0 };
+        })
+        .sort((a, b) => a.change - b.change);
+      return {
+        peakDate: aligned.dates[e.peak],
+        troughDate: aligned.dates[e.trough],
+        recoveryDate: e.recovery === null ? null : aligned.dates[e.recovery],
+        depth: e.depth,
+        attribution
+      };
+    });
+}
+
+// Full report for current holdings (ticker -> shares) over histories on or after `startDate`.
+// Returns null when fewer than three aligned periods are available.
+export function portfolioRisk(
+  holdings: Record<string, number>,
+  histories: Record<string, PriceData[]>,
+  options: { benchmark?: string; startDate?: string; frequency?: RiskFrequency; confidence?: number; episodes?: number } = {}
+): PortfolioRiskReport | null {
+  const frequency = options.frequency ?? 'daily';
+  const confidence = options.confidence ?? 0.95;
+  const held = Object.keys(holdings).filter(ticker => holdings[ticker] > 0);
+  const priced = held.filter(ticker => (histories[ticker] || []).length > 1);
+  if (!priced.length) return null;
+
+  const benchmark = options.benchmark && (histories[options.benchmark] || []).length > 1 ? options.benchmark : undefined;
+  const daily = alignCloses(histories, benchmark && !priced.includes(benchmark) ? [...priced, benchmark] : priced, options.startDate);
+  const aligned = frequency === 'weekly' ? sampleWeekly(daily) : daily;
+  if (aligned.dates.length < 3) return null;
+
+  const shares = Object.fromEntries(priced.map(ticker => [ticker, holdings[ticker]]));
+  const values = aligned.dates.map((_, t) => priced.reduce((sum, ticker) => sum + shares[ticker] * aligned.closes[ticker][t], 0));
+  const last = aligned.dates.length - 1;
+  const weights = Object.fromEntries(priced.map(ticker => [ticker, (shares[ticker] * aligned.closes[ticker][last]) / values[last]]));
+  const returns = Object.fromEntries(priced.map(ticker => [ticker, simpleReturns(aligned.closes[ticker])]));
+  const { returns: portfolioReturns, volatility, contributions } = riskContributions(returns, weights, PERIODS_PER_YEAR[frequency]);
+
+  return {
+    frequency,
+    confidence,
+    dates: aligned.dates,
+    values,
+    drawdown: drawdownSeries(values),
+    volatility,
+    beta: benchmark ? beta(portfolioReturns, simpleReturns(aligned.closes[benchmark])) : null,
+    historical: historicalTailRisk(portfolioReturns, confidence),
+    parametric: parametricTailRisk(portfolioReturns, confidence),
+    contributions,
+    worstDrawdowns: worstDrawdowns(aligned, shares, values, options.episodes ?? 3),
+    excluded: held.filter(ticker => !priced.includes(ticker))
+  };
+}
@@ -0,0 +1,193 @@
+import { describe, expect, it } from 'vitest';
+import { buildImportPreview, parseImportDate, parseImportNumber, parsePriceCsv, validatePriceRow } from './priceImport';
+import { PriceData, PriceInterval } from '../types/price';
+
+function bar(date: string, close: number, interval?: PriceInterval): PriceData {
+  return { ticker: 'ACME', date, ...(interval && { interval }), open: close, high: close, low: close, close, volume: 100 };
+}
+
+describe('parseImportDate', () => {
+  it('reads ISO, month-first slashed and Excel serial dates', () => {
+    expect(parseImportDate('2025-03-07')).toBe('2025-03-07');
+    expect(parseImportDate('2025/3/7')).toBe('2025-03-07');
+    expect(parseImportDate('3/7/2025')).toBe('2025-03-07');
+    expect(parseImportDate(' 12/31/2024 ')).toBe('2024-12-31');
+    expect(parseImportDate(45723)).toBe('2025-03-07');
+    expect(parseImportDate('45723')).toBe('2025-03-07');
+  });
+
+  it('rejects dates that are not on the calendar or not dates at all', () => {
+    expect(parseImportDate('2/30/2025')).toBeNull();
+    expect(parseImportDate('2025-02-29')).toBeNull();
+    expect(parseImportDate('2024-02-29')).toBe('2024-02-29');
+    expect(parseImportDate('13/1/2025')).toBeNull();
+    expect(parseImportDate('07.03.2025')).toBeNull();
+    expect(parseImportDate(45723.5)).toBeNull();
+    expect(parseImportDate('')).toBeNull();
+    expect(parseImportDate(undefined)).toBeNull();
+  });
+});
+
+describe('parseImportNumber', () => {
+  it('drops currency signs, thousands separators and padding', () => {
+    expect(parseImportNumber('$1,234.50')).toBe(1234.5);
+    expect(parseImportNumber(' 12 345 ')).toBe(12345);
+    expect(parseImportNumber(7.25)).toBe(7.25);
+  });
+
+  it('is null for blanks and non-numbers', () => {
+    expect(parseImportNumber('')).toBeNull();
+    expect(parseImportNumber('n/a')).toBeNull();
+    expect(parseImportNumber(Number.NaN)).toBeNull();
+  });
+});
+
+describe('validatePriceRow', () => {
+  const today = '2025-06-30';
+  const row = (overrides: Record<string, unknown> = {}) =>
+    validatePriceRow({ ticker: ' acme ', date: '2025-01-02', open: '10', high: '11', low: '9', close: '10.5', volume: '', ...overrides }, today);
+
+  it('normalises the ticker and defaults a blank volume to zero', () => {
+    expect(row()).toEqual({ ticker: 'ACME', date: '2025-01-02', open: 10, high: 11, low: 9, close: 10.5, volume: 0 });
+  });
+
+  it('checks that high and low bound the bar', () => {
+    expect(row({ high: '10.2' })).toBe('high is below open, close or low');
+    expect(row({ high: '8', low: '9' })).toBe('high is below open, close or low');
+    expect(row({ low: '10.2' })).toBe('low is above open or close');
+    expect(row({ open: '9', low: '9', close: '11', high: '11' })).toMatchObject({ low: 9, high: 11 });
+  });
+
+  it('rejects missing, non-numeric and non-positive prices', () => {
+    expect(row({ close: '' })).toBe('Missing close');
+    expect(row({ open: 'abc' })).toBe('open "abc" is not a number');
+    expect(row({ low: '0' })).toBe('low must be positive');
+    expect(row({ volume: '-5' })).toBe('volume must be zero or more');
+  });
+
+  it('rejects future dates and rows without a ticker', () => {
+    expect(row({ date: '2025-07-01' })).toBe('Date 2025-07-01 is in the future');
+    expect(row({ ticker: '  ' })).toBe('Missing ticker');
+  });
+});
+
+describe('parsePriceCsv', () => {
+  const today = '2025-06-30';
+
+  it('reports missing columns and a missing ticker for the whole file', () => {
+    expect(parsePriceCsv('Date,Open,Close\n2025-01-02,10,10.5', { today })).toEqual({
+      rows: [],
+      errors: [
+        { line: 0, message: 'Missing columns: high, low' },
+        { line: 0, message: 'No ticker or symbol column; choose the ticker this file belongs to' }
+      ],
+      ignoredColumns: []
+    });
+    expect(parsePriceCsv('Date,Open,High,Low,Close\n2025-01-02,10,11,9,10.5', { defaultTicker: 'acme', today }).rows)
+      .toEqual([{ ticker: 'ACME', date: '2025-01-02', open: 10, high: 11, low: 9, close: 10.5, volume: 0 }]);
+  });
+
+  it('matches loose headers and lists the columns it ignores', () => {
+    const csv = '\uFEFFTrade Date;Open;High;Low;Last;Vol.;Adj. Close\n1/2/2025;$10;11;9;10.5;"1,200";10.4';
+    expect(parsePriceCsv(csv, { defaultTicker: 'ACME', today })).toEqual({
+      rows: [{ ticker: 'ACME', date: '2025-01-02', open: 10, high: 11, low: 9, close: 10.5, volume: 1200 }],
+      errors: [],
+      ignoredColumns: ['Adj. Close']
+    });
+  });
+
+  it('reports each bad row by line and flags repeats of a ticker and date', () => {
+    const csv = [
+      'ticker,date,open,high,low,close',
+      'ACME,2025-01-02,10,11,9,10.5',
+      '',
+      'ACME,2/30/2025,10,11,9,10.5',
+      'ACME,1/2/2025,10,11,9,10.6',
+      'BETA,2025-01-02,10,11,9,10.5',
+      'ACME,2025-01-03,10,11'
+    ].join('\n');
+    const { rows, errors } = parsePriceCsv(csv, { today });
+    expect(rows.map(({ ticker, date }) => `${ticker} ${date}`)).toEqual(['ACME 2025-01-02', 'BETA 2025-01-02']);
+    expect(errors).toEqual([
+      { line: 4, message: 'Unrecognised date "2/30/2025" (use YYYY-MM-DD or M/D/YYYY)' },
+      { line: 5, message: 'Duplicate of line 2 (ACME 2025-01-02)' },
+      { line: 7, message: 'Too few fields: expected 6 fields but parsed 4' }
+    ]);
+  });
+
+  it('reads intraday bars from an interval column', () => {
+    const csv = [
+      'Symbol,Timeframe,Timestamp,Open,High,Low,Close,Volume',
+      'ACME,5m,2025-01-02T14:30:00Z,10,10.5,9.9,10.2,1200',
+      'ACME,5m,2025-01-02T09:35:00-05:00,10.2,10.4,10.1,10.3,800'
+    ].join('\n');
+
+    expect(parsePriceCsv(csv, { today })).toEqual({
+      rows: [
+        { ticker: 'ACME', date: '2025-01-02T14:30:00.000Z', interval: '5m', open: 10, high: 10.5, low: 9.9, close: 10.2, volume: 1200 },
+        { ticker: 'ACME', date: '2025-01-02T14:35:00.000Z', interval: '5m', open: 10.2, high: 10.4, low: 10.1, close: 10.3, volume: 800 }
+      ],
+      errors: [],
+      ignoredColumns: []
+    });
+  });
+
+  it('keeps daily and intraday bars of the same day apart', () => {
+    const csv = [
+      'ticker,interval,date,open,high,low,close',
+      'ACME,,2025-01-02,10,11,9,10.5',
+      'ACME,1h,2025-01-02T14:30:00Z,10,10.4,9.8,10.1',
+      'ACME,1d,2025-01-02,10,11,9,10.5',
+      'ACME,1h,2025-01-02T14:30:00Z,10,10.4,9.8,10.1',
+      'ACME,,2025-01-02 15:30,10,10.4,9.8,10.1',
+      'ACME,,1/3/2025 0:00,10.5,11,10,10.8'
+    ].join('\n');
+
+    const { rows, errors } = parsePriceCsv(csv, { today });
+    expect(rows.map(({ date, interval }) => [date, interval ?? '1d'])).toEqual([
+      ['2025-01-02', '1d'],
+      ['2025-01-02T14:30:00.000Z', '1h'],
+      ['2025-01-03', '1d']
+    ]);
+    expect(errors).toEqual([
+      { line: 4, message: 'Duplicate of line 2 (ACME 2025-01-02)' },
+      { line: 5, message: 'Duplicate of line 3 (ACME 2025-01-02T14:30:00.000Z)' },
+      { line: 6, message: 'Daily date "2025-01-02 15:30" has a time of day; set the interval for intraday bars' }
+    ]);
+  });
+});
+
+describe('buildImportPreview', () => {
+  it('diffs each interval against the stored bars of that interval', async () => {
+    const stored: Record<PriceInterval, PriceData[]> = {
+      '1m': [],
+      '5m': [],
+      '15m': [],
+      '1h': [bar('2025-01-02T14:30:00.000Z', 10, '1h')],
+      '1d': [bar('2025-01-02', 11)]
+    };
+    const requested: PriceInterval[] = [];
+    const repository = {
+      assets: { getAsset: async () => null },
+      prices: {
+        getPrices: async (_ticker: string, _start?: string, _end?: string, interval: PriceInterval = '1d') => {
+          requested.push(interval);
+          return stored[interval];
+        }
+      }
+    };
+
+    const previews = await buildImportPreview([
+      bar('2025-01-02T15:30:00.000Z', 10.5, '1h'),
+      bar('2025-01-02', 11),
+      bar('2025-01-02T14:30:00.000Z', 10, '1h')
+    ], repository);
+
+    expect(requested.sort()).toEqual(['1d', '1h']);
+    expect(previews.map(({ interval, firstDate, lastDate, added, unchanged }) => ({ interval, firstDate, lastDate, added: added.length, unchanged })))
+      .toEqual([
+        { interval: '1d', firstDate: '2025-01-02', lastDate: '2025-01-02', added: 0, unchanged: 1 },
+        { interval: '1h', firstDate: '2025-01-02T14:30:00.000Z', lastDate: '2025-01-02T15:30:00.000Z', added: 1, unchanged: 1 }
+      ]);
+  });
+});
@@ -0,0 +1,282 @@
+import Papa from 'papaparse';
+import { PriceData, PriceInterval, PRICE_INTERVALS } from '../types/price';
+import { AssetRepository, PriceRepository } from '../services/repository/types';
+import { normalizeTicker } from './watchlists';
+import { INTERVAL_MINUTES, intervalOf, isIntraday } from './resample';
+import { exchangeTime, sessionHours } from './tradingCalendar';
+
+// OHLCV import shared by the admin Data Import page, scripts/import-prices.ts and the API's
+// POST /api/prices/import. Accepts CSV as exported by spreadsheets and most data vendors:
+// any delimiter, optional BOM, loose header names, ISO, M/D/YYYY or Excel serial dates.
+
+export type ImportIssue = {
+  line: number;     // 1-based line in the file (the header is line 1); 0 for file-level problems
+  message: string;
+};
+
+export type ParsedPriceFile = {
+  rows: PriceData[];
+  errors: ImportIssue[];
+  ignoredColumns: string[];
+};
+
+export type PriceChange = {
+  row: PriceData;
+  previous: PriceData;
+};
+
+export type TickerImportPreview = {
+  ticker: string;
+  interval: PriceInterval;
+  knownAsset: boolean;
+  firstDate: string;
+  lastDate: string;
+  added: PriceData[];
+  changed: PriceChange[];
+  unchanged: number;
+};
+
+type Column = 'ticker' | 'interval' | 'date' | 'open' | 'high' | 'low' | 'close' | 'volume';
+
+const REQUIRED_COLUMNS: Column[] = ['date', 'open', 'high', 'low', 'close'];
+
+// Header names are compared lower-case with everything but letters stripped ("Adj. Close" -> "adjclose").
+const COLUMN_ALIASES: Record<string, Column> = {
+  ticker: 'ticker',
+  symbol: 'ticker',
+  interval: 'interval',
+  timeframe: 'interval',
+  resolution: 'interval',
+  date: 'date',
+  day: 'date',
+  time: 'date',
+  timestamp: 'date',
+  tradedate: 'date',
+  open: 'open',
+  high: 'high',
+  low: 'low',
+  close: 'close',
+  last: 'close',
+  price: 'close',
+  volume: 'volume',
+  vol: 'volume'
+};
+
+const PRICE_FIELDS = ['open', 'high', 'low', 'close', 'volume'] as const;
+
+// Excel stores dates as days since 1899-12-30 (the 1900 leap-year bug is baked into the epoch).
+const EXCEL_EPOCH_MS = Date.UTC(1899, 11, 30);
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function isoDate(year: number, month: number, day: number): string | null {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+  return date.toISOString().slice(0, 10);
+}
+
+// Returns YYYY-MM-DD, or null when the value isn't a real calendar date in a supported format.
+// Slashed dates are read month-first (M/D/YYYY), as US-locale Excel writes them.
+export function parseImportDate(value: unknown): string | null {
+  if (typeof value === 'number') {
+    return Number.isInteger(value) && value > 0 ? new Date(EXCEL_EPOCH_MS + value * DAY_MS).toISOString().slice(0, 10) : null;
+  }
+  const text = String(value ?? '').trim();
+  let match = text.match(/^(\d{4})[-/](\d{1,2})[-/](\d{1,2})(?:[T ].*)?$/);
+  if (match) return isoDate(Number(match[1]), Number(match[2]), Number(match[3]));
+  match = text.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})(?: .*)?$/);
+  if (match) return isoDate(Number(match[3]), Number(match[1]), Number(match[2]));
+  if (/^\d{5}$/.test(text)) return parseImportDate(Number(text));
+  return null;
+}
+
+// Spreadsheets write midnight onto plain dates ("1/2/2025 0:00"); any other time of day means
+// the row is an intraday bar.
+function hasTimeOfDay(value: unknown): boolean {
+  const match = String(value ?? '').trim().match(/[T ](\d{1,2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?/);
+  return !!match && match.slice(1).some(part => Number(part ?? 0) !== 0);
+}
+
+// Intraday bars need an ISO timestamp with a zone (Z or ±HH:MM); returns it in UTC.
+function parseBarTimestamp(value: unknown): string | null {
+  const text = String(value ?? '').trim();
+  if (!/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})$/.test(text)) return null;
+  const ms = Date.parse(text);
+  return Number.isNaN(ms) ? null : new Date(ms).toISOString();
+}
+
+// Spreadsheet exports often keep display formatting: "$1,234.50" or " 12 345 ".
+export function parseImportNumber(value: unknown): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  const text = String(value ?? '').replace(/[$,\s]/g, '');
+  if (!text) return null;
+  const number = Number(text);
+  return Number.isFinite(number) ? number : null;
+}
+
+// Validates one row with canonical keys (ticker, date, open, high, low, close, volume and, for
+// intraday bars, interval). Returns the row or a message describing the first problem found.
+export function validatePriceRow(raw: Record<string, unknown>, today = new Date().toISOString().slice(0, 10)): PriceData | string {
+  const ticker = typeof raw.ticker === 'string' ? normalizeTicker(raw.ticker) : '';
+  if (!ticker) return 'Missing ticker';
+  const interval = (raw.interval ?? '1d') as PriceInterval;
+  if (!PRICE_INTERVALS.includes(interval)) return `Unknown interval "${raw.interval}" (use ${PRICE_INTERVALS.join(', ')})`;
+  const intraday = isIntraday(interval);
+  if (!intraday && hasTimeOfDay(raw.date)) return `Daily date "${raw.date}" has a time of day; set the interval for intraday bars`;
+  const date = intraday ? parseBarTimestamp(raw.date) : parseImportDate(raw.date);
+  if (!date) {
+    return intraday
+      ? `Unrecognised timestamp "${raw.date ?? ''}" (use ISO 8601 with Z or an offset)`
+      : `Unrecognised date "${raw.date ?? ''}" (use YYYY-MM-DD or M/D/YYYY)`;
+  }
+  if (date.slice(0, 10) > today) return `Date ${date.slice(0, 10)} is in the future`;
+  // Intraday bars are counted from the NYSE open, as src/lib/resample.ts buckets them
+  const sessionOpen = intraday ? Date.parse(sessionHours(exchangeTime(date).slice(0, 10)).open) : 0;
+  if (intraday && (Date.parse(date) - sessionOpen) % (INTERVAL_MINUTES[interval] * 60000)) return `${date} is not the start of a ${interval} bar`;
+
+  const values: Partial<Record<typeof PRICE_FIELDS[number], number>> = {};
+  for (const field of PRICE_FIELDS) {
+    const blank = raw[field] === undefined || raw[field] === null || String(raw[field]).trim() === '';
+    if (field === 'volume' && blank) {
+      values.volume = 0;
+      continue;
+    }
+    const value = parseImportNumber(raw[field]);
+    if (value === null) return blank ? `Missing ${field}` : `${field} "${raw[field]}" is not a number`;
+    if (field === 'volume' ? value < 0 : value <= 0) return `${field} must be ${field === 'volume' ? 'zero or more' : 'positive'}`;
+    values[field] = value;
+  }
+
+  const { open, high, low, close, volume } = values as Record<typeof PRICE_FIELDS[number], number>;
+  if (high < Math.max(open, close, low)) return 'high is below open, close or low';
+  if (low > Math.min(open, close)) return 'low is above open or close';
+  return { ticker, date, ...(intraday && { interval }), open, high, low, close, volume };
+}
+
+// `defaultTicker` applies to files without a ticker column (one file per ticker, as most
+// vendors export), and rows without an interval are daily bars. Rows that fail validation are
+// reported and left out; a ticker/interval/date repeated within the file is an error on every
+// occurrence after the first.
+export function parsePriceCsv(text: string, options: { defaultTicker?: string; today?: string } = {}): ParsedPriceFile {
+  const errors: ImportIssue[] = [];
+  const ignoredColumns: string[] = [];
+  const columnFor: Record<string, Column> = {};
+
+  const result = Papa.parse<Record<string, string>>(text.replace(/^\uFEFF/, ''), {
+    header: true,
+    transformHeader: header => header.trim()
+  });
+
+  for (const field of result.meta.fields || []) {
+    const column = COLUMN_ALIASES[field.toLowerCase().replace(/[^a-z]/g, '')];
+    if (column && !Object.values(columnFor).includes(column)) {
+      columnFor[field] = column;
+    } else if (field) {
+      ignoredColumns.push(field);
+    }
+  }
+
+  const present = new Set(Object.values(columnFor));
+  const missing = REQUIRED_COLUMNS.filter(column => !present.has(column));
+  if (missing.length) {
+    errors.push({ line: 0, message: `Missing column${missing.length > 1 ? 's' : ''}: ${missing.join(', ')}` });
+  }
+  const defaultTicker = options.defaultTicker ? normalizeTicker(options.defaultTicker) : '';
+  if (!present.has('ticker') && !defaultTicker) {
+    errors.push({ line: 0, message: 'No ticker or symbol column; choose the ticker this file belongs to' });
+  }
+  if (errors.length) return { rows: [], errors, ignoredColumns };
+
+  // Papa reports field-count mismatches per data row; the header is line 1.
+  const parseErrors = new Map<number, string>();
+  result.errors.forEach(error => {
+    if (error.row !== undefined && !parseErrors.has(error.row)) parseErrors.set(error.row, error.message);
+  });
+
+  const rows: PriceData[] = [];
+  const firstLine = new Map<string, number>();
+  result.data.forEach((record, index) => {
+    // Blank lines are kept by the parser (so line numbers stay true) and skipped here.
+    if (Object.values(record).every(value => !String(value ?? '').trim())) return;
+    const line = index + 2;
+    const parseError = parseErrors.get(index);
+    if (parseError) {
+      errors.push({ line, message: parseError });
+      return;
+    }
+    const raw: Record<string, unknown> = { ticker: defaultTicker };
+    Object.entries(record).forEach(([field, value]) => {
+      const column = columnFor[field];
+      const text = String(value ?? '').trim();
+      if (!column || (!text && (column === 'ticker' || column === 'interval'))) return;
+      raw[column] = column === 'interval' ? text : value;
+    });
+
+    const row = validatePriceRow(raw, options.today);
+    if (typeof row === 'string') {
+      errors.push({ line, message: row });
+      return;
+    }
+    const key = `${row.ticker}|${intervalOf(row)}|${row.date}`;
+    const seen = firstLine.get(key);
+    if (seen !== undefined) {
+      errors.push({ line, message: `Duplicate of line ${seen} (${row.ticker} ${row.date})` });
+      return;
+    }
+    firstLine.set(key, line);
+    rows.push(row);
+  });
+
+  return { rows, errors, ignoredColumns };
+}
+
+// Prices are compared to a millionth so float noise from spreadsheets doesn't count as a change.
+function sameBar(a: PriceData, b: PriceData) {
+  return PRICE_FIELDS.every(field => Math.abs(a[field] - b[field]) <= 1e-6 * Math.max(1, Math.abs(b[field])));
+}
+
+// Compares each ticker's incoming rows with the stored bars of the same interval over the
+// same date span; a ticker with daily and intraday rows gets one preview per interval.
+export async function buildImportPreview(
+  rows: PriceData[],
+  repository: { assets: Pick<AssetRepository, 'getAsset'>; prices: Pick<PriceRepository, 'getPrices'> }
+): Promise<TickerImportPreview[]> {
+  const bySeries = new Map<string, PriceData[]>();
+  rows.forEach(row => {
+    const series = `${row.ticker}#${intervalOf(row)}`;
+    bySeries.set(series, [...(bySeries.get(series) || []), row]);
+  });
+
+  const previews: TickerImportPreview[] = [];
+  for (const incoming of bySeries.values()) {
+    incoming.sort((a, b) => a.date.localeCompare(b.date));
+    const { ticker } = incoming[0];
+    const interval = intervalOf(incoming[0]);
+    const firstDate = incoming[0].date;
+    const lastDate = incoming[incoming.length - 1].date;
+    const [asset, existing] = await Promise.all([
+      repository.assets.getAsset(ticker),
+      repository.prices.getPrices(ticker, firstDate, lastDate, interval)
+    ]);
+    const stored = new Map(existing.map(bar => [bar.date, bar]));
+
+    const preview: TickerImportPreview = { ticker, interval, knownAsset: !!asset, firstDate, lastDate, added: [], changed: [], unchanged: 0 };
+    incoming.forEach(row => {
+      const previous = stored.get(row.date);
+      if (!previous) preview.added.push(row);
+      else if (!sameBar(row, previous)) preview.changed.push({ row, previous });
+      else preview.unchanged++;
+    });
+    previews.push(preview);
+  }
+  return previews.sort((a, b) =>
+    a.ticker.localeCompare(b.ticker) || INTERVAL_MINUTES[b.interval] - INTERVAL_MINUTES[a.interval]);
+}
+
+// Rows to write for a preview. Overwrites keep the stored item's other attributes (prophet
+// predictions ride on the same AssetPrices item) and replace only the OHLCV values.
+export function rowsToWrite(previews: TickerImportPreview[], overwriteChanged: boolean): PriceData[] {
+  return previews.flatMap(preview => [
+    ...preview.added,
+    ...(overwriteChanged ? preview.changed.map(({ row, previous }) => ({ ...previous, ...row })) : [])
+  ]);
+}
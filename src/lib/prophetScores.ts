@@ -0,0 +1,143 @@
+import { PriceData, ProphetKey, PROPHET_KEYS } from '../types/price';
+
+// Forecast accuracy metrics for the prophet predictions that ride along on PriceData.
+// A prophet value on a bar is treated as that prophet's forecast of the bar's close.
+
+export type ForecastSample = {
+  date: string;
+  actual: number;
+  forecast: number;
+  prevActual: number | null;  // previous close, used for directional hit rate
+};
+
+export type ForecastScore = {
+  samples: number;
+  mae: number;
+  rmse: number;
+  mape: number;     // percent
+  hitRate: number;  // percent of samples where forecast and actual moved the same way
+  bias: number;     // mean(forecast - actual); positive means the prophet runs high
+};
+
+export type ProphetScore = ForecastScore & {
+  prophet: ProphetKey;
+  ticker: string;
+};
+
+export type LeaderboardEntry = ForecastScore & {
+  prophet: ProphetKey;
+  tickers: number;
+};
+
+export type ScoreMetric = 'mae' | 'rmse' | 'mape' | 'hitRate' | 'bias';
+
+// Lower is better for every metric except hit rate; bias ranks by distance from zero.
+export const SCORE_METRICS: Record<ScoreMetric, { label: string; higherIsBetter: boolean }> = {
+  mape: { label: 'MAPE', higherIsBetter: false },
+  mae: { label: 'MAE', higherIsBetter: false },
+  rmse: { label: 'RMSE', higherIsBetter: false },
+  hitRate: { label: 'Hit Rate', higherIsBetter: true },
+  bias: { label: 'Bias', higherIsBetter: false }
+};
+
+export function scoreForecasts(samples: ForecastSample[]): ForecastScore | null {
+  if (!samples.length) return null;
+  let absSum = 0;
+  let sqSum = 0;
+  let pctSum = 0;
+  let pctCount = 0;
+  let biasSum = 0;
+  let hits = 0;
+  let directional = 0;
+
+  for (const s of samples) {
+    const err = s.forecast - s.actual;
+    absSum += Math.abs(err);
+    sqSum += err * err;
+    biasSum += err;
+    if (s.actual !== 0) {
+      pctSum += Math.abs(err / s.actual);
+      pctCount++;
+    }
+    if (s.prevActual !== null) {
+      const predicted = Math.sign(s.forecast - s.prevActual);
+      const realised = Math.sign(s.actual - s.prevActual);
+      directional++;
+      if (predicted === realised) hits++;
+    }
+  }
+
+  const n = samples.length;
+  return {
+    samples: n,
+    mae: absSum / n,
+    rmse: Math.sqrt(sqSum / n),
+    mape: pctCount ? (pctSum / pctCount) * 100 : 0,
+    hitRate: directional ? (hits / directional) * 100 : 0,
+    bias: biasSum / n
+  };
+}
+
+// Collect forecast/actual pairs for one prophet from the trailing `window` bars (all if omitted).
+export function collectSamples(prices: PriceData[], prophet: ProphetKey, window?: number): ForecastSample[] {
+  const sorted = [...prices].sort((a, b) => a.date.localeCompare(b.date));
+  const start = window ? Math.max(0, sorted.length - window) : 0;
+  const samples: ForecastSample[] = [];
+  for (let i = start; i < sorted.length; i++) {
+    const forecast = sorted[i][prophet];
+    if (forecast === undefined || forecast === null || Number.isNaN(forecast)) continue;
+    samples.push({
+      date: sorted[i].date,
+      actual: sorted[i].close,
+      forecast,
+      prevActual: i > 0 ? sorted[i - 1].close : null
+    });
+  }
+  return samples;
+}
+
+export function scoreProphets(ticker: string, prices: PriceData[], window?: number): ProphetScore[] {
+  const scores: ProphetScore[] = [];
+  for (const prophet of PROPHET_KEYS) {
+    const score = scoreForecasts(collectSamples(prices, prophet, window));
+    if (score) scores.push({ ...score, prophet, ticker });
+  }
+  return scores;
+}
+
+// Pool per-ticker scores into one row per prophet, weighting each ticker by its sample count.
+// RMSE is recombined from mean squared error so the pooled value stays a true RMSE.
+export function buildLeaderboard(scores: ProphetScore[], metric: ScoreMetric = 'mape'): LeaderboardEntry[] {
+  const byProphet = new Map<ProphetKey, ProphetScore[]>();
+  for (const s of scores) {
+    const list = byProphet.get(s.prophet);
+    if (list) list.push(s);
+    else byProphet.set(s.prophet, [s]);
+  }
+
+  const entries: LeaderboardEntry[] = [];
+  byProphet.forEach((list, prophet) => {
+    const samples = list.reduce((sum, s) => sum + s.samples, 0);
+    if (!samples) return;
+    const weighted = (pick: (s: ProphetScore) => number) =>
+      list.reduce((sum, s) => sum + pick(s) * s.samples, 0) / samples;
+    entries.push({
+      prophet,
+      tickers: list.length,
+      samples,
+      mae: weighted(s => s.mae),
+      rmse: Math.sqrt(weighted(s => s.rmse * s.rmse)),
+      mape: weighted(s => s.mape),
+      hitRate: weighted(s => s.hitRate),
+      bias: weighted(s => s.bias)
+    });
+  });
+
+  return sortScores(entries, metric);
+}
+
+export function sortScores<T extends ForecastScore>(scores: T[], metric: ScoreMetric): T[] {
+  const { higherIsBetter } = SCORE_METRICS[metric];
+  const value = (s: T) => (metric === 'bias' ? Math.abs(s.bias) : s[metric]);
+  return [...scores].sort((a, b) => (higherIsBetter ? value(b) - value(a) : value(a) - value(b)));
+}
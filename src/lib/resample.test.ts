@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import { periodStart, resampleBars, resampleDaily, weekStart } from './resample';
+import { PriceData, PriceInterval } from '../types/price';
+
+function bar(date: string, open: number, high: number, low: number, close: number, interval?: PriceInterval): PriceData {
+  return { ticker: 'ACME', date, ...(interval && { interval }), open, high, low, close, volume: 100 };
+}
+
+describe('weekStart', () => {
+  it('goes back to the Monday, across month and year ends', () => {
+    expect(weekStart('2025-05-12')).toBe('2025-05-12');
+    expect(weekStart('2025-05-18')).toBe('2025-05-12');
+    expect(weekStart('2025-01-01')).toBe('2024-12-30');
+    expect(weekStart('2025-03-02T20:00:00.000Z')).toBe('2025-02-24');
+  });
+});
+
+describe('periodStart', () => {
+  it('aligns quarters and years to their first calendar day', () => {
+    expect(periodStart('2025-03-31', 'quarterly')).toBe('2025-01-01');
+    expect(periodStart('2025-04-01', 'quarterly')).toBe('2025-04-01');
+    expect(periodStart('2025-08-15', 'quarterly')).toBe('2025-07-01');
+    expect(periodStart('2025-12-31', 'quarterly')).toBe('2025-10-01');
+    expect(periodStart('2025-12-31', 'yearly')).toBe('2025-01-01');
+    expect(periodStart('2025-02-28', 'monthly')).toBe('2025-02-01');
+    expect(periodStart('2025-02-28T15:00:00.000Z', 'daily')).toBe('2025-02-28');
+  });
+});
+
+describe('resampleDaily', () => {
+  it('merges sessions into quarters, keeping partial first and last quarters', () => {
+    const candles = resampleDaily([
+      bar('2025-02-27', 10, 12, 9, 11),
+      bar('2025-02-28', 11, 15, 10, 14),
+      bar('2025-03-31', 14, 14, 8, 9),
+      bar('2025-04-01', 9, 10, 7, 8),
+      bar('2025-04-02', 8, 13, 8, 12)
+    ], 'quarterly');
+    expect(candles).toEqual([
+      { ticker: 'ACME', date: '2025-01-01', open: 10, high: 15, low: 8, close: 9, volume: 300 },
+      { ticker: 'ACME', date: '2025-04-01', open: 9, high: 13, low: 7, close: 12, volume: 200 }
+    ]);
+  });
+
+  it('starts a new yearly candle on the first session of the year', () => {
+    const candles = resampleDaily([
+      bar('2024-12-30', 10, 11, 9, 10),
+      bar('2024-12-31', 10, 12, 10, 11),
+      bar('2025-01-02', 11, 11, 10, 10.5)
+    ], 'yearly');
+    expect(candles.map(({ date, open, close, volume }) => ({ date, open, close, volume }))).toEqual([
+      { date: '2024-01-01', open: 10, close: 11, volume: 200 },
+      { date: '2025-01-01', open: 11, close: 10.5, volume: 100 }
+    ]);
+  });
+
+  it('returns daily bars untouched', () => {
+    const bars = [bar('2025-01-02', 10, 11, 9, 10)];
+    expect(resampleDaily(bars, 'daily')).toBe(bars);
+  });
+});
+
+describe('resampleBars', () => {
+  it('anchors hourly buckets at the 09:30 open in winter and summer', () => {
+    // 09:30 New York is 14:30 UTC in January and 13:30 UTC in July.
+    const hourly = resampleBars([
+      bar('2025-01-02T14:30:00.000Z', 10, 11, 10, 11, '15m'),
+      bar('2025-01-02T14:45:00.000Z', 11, 12, 10, 12, '15m'),
+      bar('2025-01-02T15:15:00.000Z', 12, 12, 9, 9, '15m'),
+      bar('2025-01-02T15:30:00.000Z', 9, 10, 9, 10, '15m'),
+      bar('2025-01-02T20:45:00.000Z', 10, 10, 9, 9.5, '15m'),
+      bar('2025-07-01T13:30:00.000Z', 20, 21, 20, 21, '15m'),
+      bar('2025-07-01T14:15:00.000Z', 21, 22, 21, 22, '15m')
+    ], '1h');
+    expect(hourly).toEqual([
+      { ticker: 'ACME', date: '2025-01-02T14:30:00.000Z', interval: '1h', open: 10, high: 12, low: 9, close: 9, volume: 300 },
+      { ticker: 'ACME', date: '2025-01-02T15:30:00.000Z', interval: '1h', open: 9, high: 10, low: 9, close: 10, volume: 100 },
+      { ticker: 'ACME', date: '2025-01-02T20:30:00.000Z', interval: '1h', open: 10, high: 10, low: 9, close: 9.5, volume: 100 },
+      { ticker: 'ACME', date: '2025-07-01T13:30:00.000Z', interval: '1h', open: 20, high: 22, low: 20, close: 22, volume: 200 }
+    ]);
+  });
+
+  it('merges intraday bars into daily bars keyed by session date', () => {
+    const daily = resampleBars([
+      bar('2025-01-02T14:30:00.000Z', 10, 11, 10, 11, '1h'),
+      bar('2025-01-02T20:30:00.000Z', 11, 12, 10, 12, '1h'),
+      bar('2025-01-03T14:30:00.000Z', 12, 13, 12, 13, '1h')
+    ], '1d');
+    expect(daily).toEqual([
+      { ticker: 'ACME', date: '2025-01-02', open: 10, high: 12, low: 10, close: 12, volume: 200 },
+      { ticker: 'ACME', date: '2025-01-03', open: 12, high: 13, low: 12, close: 13, volume: 100 }
+    ]);
+  });
+
+  it('refuses to split longer bars', () => {
+    expect(() => resampleBars([bar('2025-01-02', 10, 11, 9, 10)], '1h')).toThrow('Cannot resample 1d bars into 1h bars');
+  });
+});
@@ -0,0 +1,127 @@
+import { PriceData, PriceInterval, PRICE_INTERVALS } from '../types/price';
+import { addCalendarDays, exchangeTime, NYSE, sessionHours, TradingCalendar } from './tradingCalendar';
+
+// Builds longer OHLCV bars from shorter ones: intraday bars into longer intraday bars or into
+// sessions, daily bars into weeks, months, quarters or years. A merged bar opens at its first
+// bar's open, closes at its last bar's close and spans their highest high, lowest low and
+// total volume. Prophet predictions don't carry over.
+
+export const INTERVAL_MINUTES: Record<PriceInterval, number> = {
+  '1m': 1,
+  '5m': 5,
+  '15m': 15,
+  '1h': 60,
+  '1d': 24 * 60
+};
+
+// Calendar periods daily bars can be merged into for candles.
+export const CANDLE_PERIODS = ['daily', 'weekly', 'monthly', 'quarterly', 'yearly'] as const;
+export type CandlePeriod = typeof CANDLE_PERIODS[number];
+
+export function intervalOf(bar: PriceData): PriceInterval {
+  return bar.interval ?? '1d';
+}
+
+export function isIntraday(interval: PriceInterval): boolean {
+  return interval !== '1d';
+}
+
+// Intervals whose bars can be merged into `interval`, starting with `interval` itself and
+// then finer ones, longest first: where to look when `interval` isn't stored.
+export function sourceIntervals(interval: PriceInterval): PriceInterval[] {
+  return PRICE_INTERVALS
+    .filter(source => isIntraday(source) && INTERVAL_MINUTES[interval] % INTERVAL_MINUTES[source] === 0)
+    .sort((a, b) => INTERVAL_MINUTES[b] - INTERVAL_MINUTES[a]);
+}
+
+// Merges runs of consecutive bars that share a key; each merged bar is dated by its key.
+// `bars` must be sorted oldest first.
+export function aggregateBars(bars: PriceData[], keyOf: (bar: PriceData) => string, interval?: PriceInterval): PriceData[] {
+  const merged: PriceData[] = [];
+  let currentKey: string | null = null;
+  bars.forEach(bar => {
+    const key = keyOf(bar);
+    const last = merged[merged.length - 1];
+    if (last && key === currentKey) {
+      last.high = Math.max(last.high, bar.high);
+      last.low = Math.min(last.low, bar.low);
+      last.close = bar.close;
+      last.volume += bar.volume || 0;
+      return;
+    }
+    currentKey = key;
+    merged.push({
+      ticker: bar.ticker,
+      date: key,
+      ...(interval && isIntraday(interval) && { interval }),
+      open: bar.open,
+      high: bar.high,
+      low: bar.low,
+      close: bar.close,
+      volume: bar.volume || 0
+    });
+  });
+  return merged;
+}
+
+// Monday of the week `date` falls in, YYYY-MM-DD.
+export function weekStart(date: string): string {
+  return addCalendarDays(date, -((new Date(`${date.slice(0, 10)}T00:00:00Z`).getUTCDay() + 6) % 7));
+}
+
+// First calendar day of the period `date` falls in (Monday for weeks), YYYY-MM-DD. Candles are
+// keyed by it even when the exchange was closed that day.
+export function periodStart(date: string, period: CandlePeriod): string {
+  const day = date.slice(0, 10);
+  switch (period) {
+    case 'weekly':
+      return weekStart(day);
+    case 'monthly':
+      return `${day.slice(0, 7)}-01`;
+    case 'quarterly': {
+      const month = Math.floor((Number(day.slice(5, 7)) - 1) / 3) * 3 + 1;
+      return `${day.slice(0, 4)}-${String(month).padStart(2, '0')}-01`;
+    }
+    case 'yearly':
+      return `${day.slice(0, 4)}-01-01`;
+    default:
+      return day;
+  }
+}
+
+// Daily bars (sorted oldest first) into candles of `period`, dated by periodStart. A candle
+// covers the sessions present, so the first and last may be partial periods.
+export function resampleDaily(bars: PriceData[], period: CandlePeriod): PriceData[] {
+  if (period === 'daily') return bars;
+  return aggregateBars(bars, bar => periodStart(bar.date, period));
+}
+
+// Intraday bars into `interval` bars. Intraday buckets are counted from the session's regular
+// open, so NYSE hourly bars run 9:30-10:30 ... 15:30-16:00; daily bars are keyed by session
+// date. Bars longer than `interval` can't be split and are rejected.
+export function resampleBars(bars: PriceData[], interval: PriceInterval, calendar: TradingCalendar = NYSE): PriceData[] {
+  const longer = bars.find(bar => INTERVAL_MINUTES[intervalOf(bar)] > INTERVAL_MINUTES[interval]);
+  if (longer) throw new Error(`Cannot resample ${intervalOf(longer)} bars into ${interval} bars`);
+  if (!isIntraday(interval)) {
+    return aggregateBars(bars, bar => (isIntraday(intervalOf(bar)) ? exchangeTime(bar.date, calendar).slice(0, 10) : bar.date));
+  }
+  const bucket = INTERVAL_MINUTES[interval] * 60000;
+  const opens = new Map<string, number>();
+  return aggregateBars(bars, bar => {
+    const session = exchangeTime(bar.date, calendar).slice(0, 10);
+    let open = opens.get(session);
+    if (open === undefined) {
+      open = Date.parse(sessionHours(session, calendar).open);
+      opens.set(session, open);
+    }
+    const time = Date.parse(bar.date);
+    return new Date(open + Math.floor((time - open) / bucket) * bucket).toISOString();
+  }, interval);
+}
+
+// Intraday bars of the last `sessions` sessions present in `bars` (sorted oldest first).
+export function lastSessions(bars: PriceData[], sessions: number, calendar: TradingCalendar = NYSE): PriceData[] {
+  const dates = bars.map(bar => exchangeTime(bar.date, calendar).slice(0, 10));
+  const kept = new Set(Array.from(new Set(dates)).slice(-sessions));
+  return bars.filter((_, i) => kept.has(dates[i]));
+}
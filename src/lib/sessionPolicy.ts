@@ -0,0 +1,21 @@
+import { SESSION_POLICY_LIMITS, SessionPolicy } from '../types/appSettings';
+
+// Validation shared by the Settings form and the API's PUT /api/settings/session.
+
+function wholeNumberIn(value: unknown, name: string, { min, max }: { min: number; max: number }): number {
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < min || value > max) {
+    throw new Error(`${name} must be a whole number between ${min} and ${max}`);
+  }
+  return value;
+}
+
+// Returns only the editable fields; the caller stamps updatedAt/updatedBy.
+export function parseSessionPolicy(input: unknown): Pick<SessionPolicy, 'idleTimeoutMinutes' | 'warningSeconds'> {
+  const raw = (input && typeof input === 'object' ? input : {}) as Record<string, unknown>;
+  const idleTimeoutMinutes = wholeNumberIn(raw.idleTimeoutMinutes, 'Idle timeout', SESSION_POLICY_LIMITS.idleTimeoutMinutes);
+  const warningSeconds = wholeNumberIn(raw.warningSeconds, 'Warning time', SESSION_POLICY_LIMITS.warningSeconds);
+  if (idleTimeoutMinutes > 0 && warningSeconds >= idleTimeoutMinutes * 60) {
+    throw new Error('Warning time must be shorter than the idle timeout');
+  }
+  return { idleTimeoutMinutes, warningSeconds };
+}
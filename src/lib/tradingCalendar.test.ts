@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { addTradingDays, holidayName, isTradingDay, NYSE, sessionOnOrAfter, sessionOnOrBefore, tradingDays } from './tradingCalendar';
+
+describe('NYSE holidays', () => {
+  it('closes on Good Friday, two days before Easter', () => {
+    expect(holidayName('2024-03-29')).toBe('Good Friday');
+    expect(holidayName('2025-04-18')).toBe('Good Friday');
+    expect(isTradingDay('2025-04-17')).toBe(true);
+  });
+
+  it('observes Juneteenth from 2022 on', () => {
+    expect(holidayName('2023-06-19')).toBe('Juneteenth');
+    // June 19 2022 was a Sunday
+    expect(holidayName('2022-06-20')).toBe('Juneteenth');
+    // June 19 2021 was a Saturday, before the rule
+    expect(isTradingDay('2021-06-18')).toBe(true);
+  });
+
+  it('moves a Saturday holiday to Friday and a Sunday one to Monday', () => {
+    expect(holidayName('2026-07-03')).toBe('Independence Day');
+    expect(holidayName('2022-12-26')).toBe('Christmas Day');
+    expect(isTradingDay('2022-12-23')).toBe(true);
+  });
+
+  it("doesn't close the Friday before a Saturday New Year's Day", () => {
+    expect(isTradingDay('2021-12-31')).toBe(true);
+    expect(Array.from(NYSE.holidays(2022).values())).not.toContain("New Year's Day");
+    expect(holidayName('2023-01-02')).toBe("New Year's Day");
+  });
+
+  it('includes unscheduled closures', () => {
+    expect(holidayName('2025-01-09')).toBe('Carter funeral');
+  });
+
+  it('ignores a time of day on the date', () => {
+    expect(isTradingDay('2024-03-29T14:30:00.000Z')).toBe(false);
+  });
+});
+
+describe('session arithmetic', () => {
+  it('steps over weekends and holidays', () => {
+    expect(addTradingDays('2024-03-28', 1)).toBe('2024-04-01');
+    expect(addTradingDays('2024-04-01', -1)).toBe('2024-03-28');
+    expect(addTradingDays('2024-03-30', 1)).toBe('2024-04-01');
+    expect(addTradingDays('2024-03-25', 5)).toBe('2024-04-02');
+    expect(addTradingDays('2024-03-28', 0)).toBe('2024-03-28');
+  });
+
+  it('finds the nearest session on either side', () => {
+    expect(sessionOnOrAfter('2024-03-29')).toBe('2024-04-01');
+    expect(sessionOnOrAfter('2024-04-01')).toBe('2024-04-01');
+    expect(sessionOnOrBefore('2024-03-31')).toBe('2024-03-28');
+  });
+
+  it('lists the sessions in a range', () => {
+    expect(tradingDays('2024-03-27', '2024-04-02')).toEqual(['2024-03-27', '2024-03-28', '2024-04-01', '2024-04-02']);
+  });
+});
+
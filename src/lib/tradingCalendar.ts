@@ -0,0 +1,240 @@
+// Exchange session calendars. Dates are ISO strings; anything after the first ten characters
+// (a time of day, as the seed data carries) is ignored. Only full-day closures count: early
+// closes are still sessions, and are given regular hours.
+
+export type TradingCalendar = {
+  name: string;
+  // IANA zone the session hours are in.
+  timeZone: string;
+  // Regular session, local "HH:MM".
+  open: string;
+  close: string;
+  // Closures in one calendar year that don't fall on a weekend, by date.
+  holidays(year: number): Map<string, string>;
+};
+
+function iso(year: number, month: number, day: number) {
+  return new Date(Date.UTC(year, month - 1, day)).toISOString().slice(0, 10);
+}
+
+function weekday(date: string) {
+  return new Date(`${date.slice(0, 10)}T00:00:00Z`).getUTCDay();
+}
+
+export function addCalendarDays(date: string, days: number): string {
+  const d = new Date(`${date.slice(0, 10)}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+// nth (1-based) given weekday of a month; n = -1 is the last one.
+function nthWeekday(year: number, month: number, day: number, n: number) {
+  if (n < 0) {
+    const last = new Date(Date.UTC(year, month, 0));
+    return iso(year, month, last.getUTCDate() - ((last.getUTCDay() - day + 7) % 7));
+  }
+  const first = new Date(Date.UTC(year, month - 1, 1)).getUTCDay();
+  return iso(year, month, 1 + ((day - first + 7) % 7) + (n - 1) * 7);
+}
+
+// Gregorian Easter Sunday (anonymous algorithm).
+function easter(year: number) {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return iso(year, month, day);
+}
+
+// NYSE Rule 7.2: a holiday on Sunday is observed on Monday and one on Saturday on the Friday
+// before, except New Year's Day, which then isn't observed (Dec 31 closes a year).
+function observed(date: string, allowFriday = true): string | null {
+  const day = weekday(date);
+  if (day === 0) return addCalendarDays(date, 1);
+  if (day === 6) return allowFriday ? addCalendarDays(date, -1) : null;
+  return date;
+}
+
+// Unscheduled full-day closures since 1990.
+const NYSE_SPECIAL_CLOSURES: Record<string, string> = {
+  '1994-04-27': 'Nixon funeral',
+  '2001-09-11': 'September 11',
+  '2001-09-12': 'September 11',
+  '2001-09-13': 'September 11',
+  '2001-09-14': 'September 11',
+  '2004-06-11': 'Reagan funeral',
+  '2007-01-02': 'Ford funeral',
+  '2012-10-29': 'Hurricane Sandy',
+  '2012-10-30': 'Hurricane Sandy',
+  '2018-12-05': 'G. H. W. Bush funeral',
+  '2025-01-09': 'Carter funeral'
+};
+
+function nyseHolidays(year: number): Map<string, string> {
+  const days: Array<[string | null, string]> = [
+    [observed(iso(year, 1, 1), false), "New Year's Day"],
+    [year >= 1998 ? nthWeekday(year, 1, 1, 3) : null, 'Martin Luther King Jr. Day'],
+    [nthWeekday(year, 2, 1, 3), "Washington's Birthday"],
+    [addCalendarDays(easter(year), -2), 'Good Friday'],
+    [nthWeekday(year, 5, 1, -1), 'Memorial Day'],
+    [year >= 2022 ? observed(iso(year, 6, 19)) : null, 'Juneteenth'],
+    [observed(iso(year, 7, 4)), 'Independence Day'],
+    [nthWeekday(year, 9, 1, 1), 'Labor Day'],
+    [nthWeekday(year, 11, 4, 4), 'Thanksgiving Day'],
+    [observed(iso(year, 12, 25)), 'Christmas Day']
+  ];
+  const holidays = new Map<string, string>();
+  days.forEach(([date, name]) => {
+    if (date) holidays.set(date, name);
+  });
+  Object.entries(NYSE_SPECIAL_CLOSURES).forEach(([date, name]) => {
+    if (date.startsWith(`${year}-`)) holidays.set(date, name);
+  });
+  return holidays;
+}
+
+function cached(
+  hours: Omit<TradingCalendar, 'holidays'>,
+  build: (year: number) => Map<string, string>
+): TradingCalendar {
+  const years = new Map<number, Map<string, string>>();
+  return {
+    ...hours,
+    holidays(year) {
+      let holidays = years.get(year);
+      if (!holidays) {
+        holidays = build(year);
+        years.set(year, holidays);
+      }
+      return holidays;
+    }
+  };
+}
+
+export const NYSE: TradingCalendar = cached({ name: 'NYSE', timeZone: 'America/New_York', open: '09:30', close: '16:00' }, nyseHolidays);
+
+// Name of the closure on `date`, or null on a session or an ordinary weekend.
+export function holidayName(date: string, calendar: TradingCalendar = NYSE): string | null {
+  return calendar.holidays(Number(date.slice(0, 4))).get(date.slice(0, 10)) ?? null;
+}
+
+export function isTradingDay(date: string, calendar: TradingCalendar = NYSE): boolean {
+  const day = weekday(date);
+  return day !== 0 && day !== 6 && !holidayName(date, calendar);
+}
+
+// The session on `date` if there is one, else the next one.
+export function sessionOnOrAfter(date: string, calendar: TradingCalendar = NYSE): string {
+  let current = date.slice(0, 10);
+  while (!isTradingDay(current, calendar)) current = addCalendarDays(current, 1);
+  return current;
+}
+
+// The session on `date` if there is one, else the previous one.
+export function sessionOnOrBefore(date: string, calendar: TradingCalendar = NYSE): string {
+  let current = date.slice(0, 10);
+  while (!isTradingDay(current, calendar)) current = addCalendarDays(current, -1);
+  return current;
+}
+
+// Moves `sessions` sessions from `date` (negative goes back); `date` itself needn't be one.
+export function addTradingDays(date: string, sessions: number, calendar: TradingCalendar = NYSE): string {
+  const step = sessions < 0 ? -1 : 1;
+  let current = date.slice(0, 10);
+  for (let remaining = Math.abs(sessions); remaining > 0;) {
+    current = addCalendarDays(current, step);
+    if (isTradingDay(current, calendar)) remaining--;
+  }
+  return current;
+}
+
+// Every session in [startDate, endDate], oldest first.
+export function tradingDays(startDate: string, endDate: string, calendar: TradingCalendar = NYSE): string[] {
+  const sessions: string[] = [];
+  const end = endDate.slice(0, 10);
+  for (let date = startDate.slice(0, 10); date <= end; date = addCalendarDays(date, 1)) {
+    if (isTradingDay(date, calendar)) sessions.push(date);
+  }
+  return sessions;
+}
+
+// Sessions in [startDate, endDate] with no bar among `dates`.
+export function missingSessions(
+  dates: Iterable<string>,
+  startDate: string,
+  endDate: string,
+  calendar: TradingCalendar = NYSE
+): string[] {
+  const have = new Set(Array.from(dates, date => date.slice(0, 10)));
+  return tradingDays(startDate, endDate, calendar).filter(date => !have.has(date));
+}
+
+// Collapses sorted sessions into runs of consecutive sessions for display:
+// "2024-03-04 → 2024-03-08 (5 sessions)".
+export function describeGaps(sessions: string[], calendar: TradingCalendar = NYSE): string[] {
+  const runs: string[][] = [];
+  sessions.forEach(date => {
+    const run = runs[runs.length - 1];
+    if (run && addTradingDays(run[run.length - 1], 1, calendar) === date) run.push(date);
+    else runs.push([date]);
+  });
+  return runs.map(run => (run.length === 1 ? run[0] : `${run[0]} → ${run[run.length - 1]} (${run.length} sessions)`));
+}
+
+const zoneFormats = new Map<string, Intl.DateTimeFormat>();
+
+// Minutes `timeZone` is ahead of UTC at the instant `ms` (negative west of Greenwich).
+function zoneOffsetMinutes(timeZone: string, ms: number): number {
+  let format = zoneFormats.get(timeZone);
+  if (!format) {
+    format = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric'
+    });
+    zoneFormats.set(timeZone, format);
+  }
+  const parts: Record<string, number> = {};
+  format.formatToParts(new Date(ms)).forEach(part => {
+    if (part.type !== 'literal') parts[part.type] = Number(part.value);
+  });
+  const local = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute);
+  return Math.round((local - Math.floor(ms / 60000) * 60000) / 60000);
+}
+
+// UTC timestamp of a local "HH:MM" on `date` in the calendar's zone.
+function exchangeInstant(date: string, time: string, calendar: TradingCalendar): string {
+  const [hour, minute] = time.split(':').map(Number);
+  const [year, month, day] = date.slice(0, 10).split('-').map(Number);
+  const wall = Date.UTC(year, month - 1, day, hour, minute);
+  let ms = wall - zoneOffsetMinutes(calendar.timeZone, wall) * 60000;
+  // Once more in case the first guess landed on the other side of a DST change
+  ms = wall - zoneOffsetMinutes(calendar.timeZone, ms) * 60000;
+  return new Date(ms).toISOString();
+}
+
+// Regular open and close of the session on `date` as UTC timestamps.
+export function sessionHours(date: string, calendar: TradingCalendar = NYSE): { open: string; close: string } {
+  return { open: exchangeInstant(date, calendar.open, calendar), close: exchangeInstant(date, calendar.close, calendar) };
+}
+
+// A UTC timestamp as exchange wall-clock time, "YYYY-MM-DD HH:MM". Its first ten characters
+// are the session date of an intraday bar.
+export function exchangeTime(timestamp: string, calendar: TradingCalendar = NYSE): string {
+  const ms = Date.parse(timestamp);
+  return new Date(ms + zoneOffsetMinutes(calendar.timeZone, ms) * 60000).toISOString().slice(0, 16).replace('T', ' ');
+}
@@ -0,0 +1,24 @@
+import { Watchlist } from '../types/watchlist';
+
+// Watchlist construction shared by the browser service and the API server, so ids and
+// ticker normalization don't depend on which side created the list.
+
+export function normalizeTicker(ticker: string) {
+  return ticker.trim().toUpperCase();
+}
+
+function newWatchlistId() {
+  return `wl-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export function buildWatchlist(userId: string, name: string, tickers: string[] = []): Watchlist {
+  const now = new Date().toISOString();
+  return {
+    userId,
+    watchlistId: newWatchlistId(),
+    name: name.trim() || 'Untitled',
+    tickers: Array.from(new Set(tickers.map(normalizeTicker).filter(Boolean))).sort(),
+    createdAt: now,
+    updatedAt: now
+  };
+}
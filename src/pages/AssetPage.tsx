@@ -3,12 +3,23 @@ import { useParams } from 'react-router-dom';
 // @ts-ignore
 import Plotly from 'plotly.js-dist-min';
 import { ErrorBoundary } from '../components/ErrorBoundary';
-import { getAsset, getAssetPrices } from '../services/assets';
-import { PriceData } from '../types/price';
+import { getAsset, getAssetPrices, getCorporateActions } from '../services/assets';
+import { PriceData, PriceInterval } from '../types/price';
+import { CorporateAction, PriceAdjustment } from '../types/corporateAction';
 import MiniIndicator from '../components/mini/MiniIndicator';
 import SMACombined from '../components/mini/SMACombined';
 import PriceVolumeExplorer from '../components/charts/PriceVolumeExplorer';
 import TimeExplorer from '../components/charts/TimeExplorer';
+import BacktestPanel from '../components/charts/BacktestPanel';
+import AddToWatchlist from '../components/controls/AddToWatchlist';
+import AlertRulesPanel from '../components/notifications/AlertRulesPanel';
+import ExportMenu from '../components/controls/ExportMenu';
+import { useAuth } from '../context/AuthContext';
+import { smaSeries, rsiSeries, macdSeries, rocSeries, lastValue } from '../lib/indicators';
+import { computeIndicatorSet, intradayTable, priceHistoryTable, returnsTable, technicalTable } from '../lib/exportData';
+import { adjustPrices, totalReturnCloses } from '../lib/corporateActions';
+import { addCalendarDays, addTradingDays, exchangeTime, holidayName, sessionOnOrAfter, sessionOnOrBefore } from '../lib/tradingCalendar';
+import { CandlePeriod, CANDLE_PERIODS, lastSessions, periodStart, resampleDaily } from '../lib/resample';
 
 // Minimal asset metadata used on the page (separate from per-price Asset points)
 interface AssetMeta {
@@ -19,246 +30,73 @@ interface AssetMeta {
   priceChange?: number | null;
 }
 
+// Look-back in trading days for each Daily Returns window (DoD, WoW, MoM, QoQ, HyoHy, YoY)
+const RETURN_WINDOW_DAYS: Record<string, number> = {
+  '1D': 1,
+  '5D': 5,
+  '20D': 20,
+  '60D': 60,
+  '120D': 120,
+  '240D': 240
+};
+
+const RANGES = ['1D', '5D', '30D', '1M', '3M', '6M', '1Y', 'YTD', '5Y', '10Y'];
+
+// Ranges whose candles are intraday bars: sessions shown and bar interval
+const INTRADAY_RANGES: Record<string, { sessions: number; interval: PriceInterval }> = {
+  '1D': { sessions: 1, interval: '5m' },
+  '5D': { sessions: 5, interval: '15m' }
+};
+
+const CANDLE_LABELS: Record<CandlePeriod, string> = {
+  daily: 'D',
+  weekly: 'W',
+  monthly: 'M',
+  quarterly: 'Q',
+  yearly: 'Y'
+};
+
+const ADJUSTMENT_LABELS: Record<PriceAdjustment, string> = {
+  raw: 'Raw',
+  split: 'Split-adj.',
+  total: 'Split + Div.'
+};
+
 export default function AssetPage() {
   const { ticker } = useParams<{ ticker: string }>();
+  const { can } = useAuth();
   const [asset, setAsset] = useState<AssetMeta | null>(null);
   const [prices, setPrices] = useState<PriceData[]>([]);
-  const [fullPrices, setFullPrices] = useState<PriceData[]>([]);
+  const [rawPrices, setRawPrices] = useState<PriceData[]>([]);
+  const [corporateActions, setCorporateActions] = useState<CorporateAction[]>([]);
+  const [adjustment, setAdjustment] = useState<PriceAdjustment>('split');
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [selectedRange, setSelectedRange] = useState<string>('1Y');
+  const [candlePeriod, setCandlePeriod] = useState<CandlePeriod>('daily');
+  const [intradayPrices, setIntradayPrices] = useState<PriceData[]>([]);
+  const [intradayLoading, setIntradayLoading] = useState(false);
   const [expandedCard, setExpandedCard] = useState<string | null>(null);
 
-  // Downsample daily prices into weekly OHLCV (week start = Monday)
-  function downsampleToWeekly(prices: PriceData[]): PriceData[] {
-    if (!prices || !prices.length) return [];
-    const groups: Record<string, PriceData[]> = {};
-    for (const p of prices) {
-      const d = new Date(p.date);
-      // compute Monday as week start
-      const diff = (d.getDay() + 6) % 7; // 0 for Monday
-      const monday = new Date(d);
-      monday.setDate(d.getDate() - diff);
-      const key = monday.toISOString().slice(0, 10);
-      if (!groups[key]) groups[key] = [];
-      groups[key].push(p);
-    }
-    const result: PriceData[] = Object.keys(groups).sort().map(k => {
-      const arr = groups[k];
-      const open = arr[0].open;
-      const close = arr[arr.length - 1].close;
-      const high = arr.reduce((s, r) => Math.max(s, r.high), -Infinity);
-      const low = arr.reduce((s, r) => Math.min(s, r.low), Infinity);
-      const volume = arr.reduce((s, r) => s + (r.volume || 0), 0);
-      return { date: k, open, high, low, close, volume, ticker: arr[0].ticker } as PriceData;
-    });
-    return result;
-  }
-
-  function simpleSMA(values: number[], period: number): number | null {
-    if (!values || values.length < period) return null;
-    const slice = values.slice(values.length - period);
-    const sum = slice.reduce((s, v) => s + v, 0);
-    return sum / period;
-  }
-
-  // Expose series-producing indicator functions (return same-length array aligned with prices)
-  function smaSeries(closes: number[], period: number) {
-    const out: Array<number | null> = [];
-    for (let i = 0; i < closes.length; i++) {
-      if (i + 1 < period) out.push(null);
-      else {
-        const slice = closes.slice(i + 1 - period, i + 1);
-        out.push(slice.reduce((s, v) => s + v, 0) / period);
-      }
-    }
-    return out;
-  }
-
-  function emaSeries(closes: number[], period: number) {
-    const out: Array<number | null> = [];
-    const k = 2 / (period + 1);
-    let prev: number | null = null;
-    for (let i = 0; i < closes.length; i++) {
-      const price = closes[i];
-      if (prev === null) {
-        // seed with SMA of first period
-        if (i + 1 >= period) {
-          const seed = closes.slice(i + 1 - period, i + 1).reduce((s, v) => s + v, 0) / period;
-          prev = seed;
-          out.push(prev);
-        } else out.push(null);
-      } else {
-        prev = price * k + prev * (1 - k);
-        out.push(prev);
-      }
-    }
-    return out;
-  }
-
-  function rsiSeries(closes: number[], period = 14) {
-    const out: Array<number | null> = [];
-    let gains = 0;
-    let losses = 0;
-    for (let i = 0; i < closes.length; i++) {
-      if (i === 0) {
-        out.push(null);
-        continue;
-      }
-      const change = closes[i] - closes[i - 1];
-      const gain = Math.max(0, change);
-      const loss = Math.max(0, -change);
-      if (i <= period) {
-        gains += gain;
-        losses += loss;
-        out.push(null);
-        if (i === period) {
-          const avgGain = gains / period;
-          const avgLoss = losses / period;
-          const rs = avgLoss === 0 ? 100 : avgGain / avgLoss;
-          out[i] = 100 - 100 / (1 + rs);
-        }
-        continue;
-      }
-      // Wilder smoothing
-      // previous avgGain/avgLoss are at index i-1
-      const prevIndex = i - 1;
-      const prevRSI = out[prevIndex];
-      // We need running averages. Simpler approach: compute avg gain/loss rolling
-      // Recompute over window for simplicity (not optimal, but acceptable)
-      const slice = closes.slice(Math.max(0, i + 1 - period), i + 1);
-      let g = 0,
-        l = 0;
-      for (let j = 1; j < slice.length; j++) {
-        const ch = slice[j] - slice[j - 1];
-        if (ch > 0) g += ch; else l += -ch;
-      }
-      const avgGain = g / period;
-      const avgLoss = l / period;
-      const rs = avgLoss === 0 ? 100 : avgGain / avgLoss;
-      out[i] = 100 - 100 / (1 + rs);
-    }
-    return out;
-  }
-
-  function macdSeries(closes: number[], fast = 12, slow = 26, signal = 9) {
-    const emaFast = emaSeries(closes, fast).map(v => v ?? NaN);
-    const emaSlow = emaSeries(closes, slow).map(v => v ?? NaN);
-    const macd: number[] = closes.map((_, i) => {
-      const f = emaFast[i];
-      const s = emaSlow[i];
-      if (isNaN(f) || isNaN(s)) return NaN;
-      return f - s;
-    });
-    // signal line
-    const signalLine = (() => {
-      // simple EMA on macd (ignoring NaNs)
-      const clean: number[] = macd.map(v => isNaN(v) ? 0 : v);
-      const s = emaSeries(clean as number[], signal).map(v => v ?? NaN);
-      return s;
-    })();
-    // histogram
-    return macd.map((v, i) => (isNaN(v) || isNaN(signalLine[i]) ? null : v - (signalLine[i] as number)));
-  }
-
-  function obvSeries(closes: number[], volumes: number[]) {
-    const out: Array<number | null> = [];
-    let obv = 0;
-    for (let i = 0; i < closes.length; i++) {
-      if (i === 0) { out.push(0); continue; }
-      if (closes[i] > closes[i - 1]) obv += volumes[i] || 0;
-      else if (closes[i] < closes[i - 1]) obv -= volumes[i] || 0;
-      out.push(obv);
-    }
-    return out;
-  }
-
-  function atrSeries(highs: number[], lows: number[], closes: number[], period = 14) {
-    const trs: number[] = [];
-    for (let i = 0; i < highs.length; i++) {
-      if (i === 0) { trs.push(highs[i] - lows[i]); continue; }
-      const tr = Math.max(highs[i] - lows[i], Math.abs(highs[i] - closes[i - 1]), Math.abs(lows[i] - closes[i - 1]));
-      trs.push(tr);
-    }
-    // SMA of TR for each point
-    const out: Array<number | null> = [];
-    for (let i = 0; i < trs.length; i++) {
-      if (i + 1 < period) out.push(null);
-      else {
-        const slice = trs.slice(i + 1 - period, i + 1);
-        out.push(slice.reduce((s, v) => s + v, 0) / period);
-      }
-    }
-    return out;
-  }
-
-  function stochasticSeries(highs: number[], lows: number[], closes: number[], kPeriod = 14, dPeriod = 3) {
-    const kArr: Array<number | null> = [];
-    for (let i = 0; i < closes.length; i++) {
-      if (i + 1 < kPeriod) kArr.push(null);
-      else {
-        const sliceH = highs.slice(i + 1 - kPeriod, i + 1);
-        const sliceL = lows.slice(i + 1 - kPeriod, i + 1);
-        const hh = Math.max(...sliceH);
-        const ll = Math.min(...sliceL);
-        const val = hh === ll ? 0 : ((closes[i] - ll) / (hh - ll)) * 100;
-        kArr.push(val);
-      }
-    }
-    // %D is SMA of %K
-    const dArr: Array<number | null> = [];
-    for (let i = 0; i < kArr.length; i++) {
-      if (i + 1 < kPeriod + dPeriod - 1) dArr.push(null);
-      else {
-        const slice = kArr.slice(i + 1 - dPeriod, i + 1).map(v => v ?? 0);
-        dArr.push(slice.reduce((s, v) => s + v, 0) / dPeriod);
-      }
-    }
-    return { k: kArr, d: dArr };
-  }
-
-  function bollingerSeries(closes: number[], period = 20, mult = 2) {
-    const middle = smaSeries(closes, period);
-    const upper: Array<number | null> = [];
-    const lower: Array<number | null> = [];
-    for (let i = 0; i < closes.length; i++) {
-      if (i + 1 < period) { upper.push(null); lower.push(null); }
-      else {
-        const slice = closes.slice(i + 1 - period, i + 1);
-        const mean = slice.reduce((s, v) => s + v, 0) / period;
-        const variance = slice.reduce((s, v) => s + Math.pow(v - mean, 2), 0) / period;
-        const sd = Math.sqrt(variance);
-        upper.push(mean + mult * sd);
-        lower.push(mean - mult * sd);
-      }
-    }
-    return { middle, upper, lower };
-  }
-
-  function rocSeries(closes: number[], period = 12) {
-    const out: Array<number | null> = [];
-    for (let i = 0; i < closes.length; i++) {
-      if (i < period) out.push(null);
-      else out.push(((closes[i] / closes[i - period]) - 1) * 100);
-    }
-    return out;
-  }
-
-  function computeRangeStart(range: string, reference: Date): string | null {
+  // First NYSE session of the range ending at `reference` (the latest bar): 1D, 5D and 30D count
+  // sessions back, the others step back by calendar and snap forward to the next session.
+  function computeRangeStart(range: string, reference: string): string | null {
     if (!range) return null;
-    const d = new Date(reference);
+    const d = new Date(`${reference.slice(0, 10)}T00:00:00Z`);
     switch (range) {
-      case '30D': d.setDate(d.getDate() - 30); break;
-      case '1M': d.setMonth(d.getMonth() - 1); break;
-      case '3M': d.setMonth(d.getMonth() - 3); break;
-      case '6M': d.setMonth(d.getMonth() - 6); break;
-      case '1Y': d.setFullYear(d.getFullYear() - 1); break;
-      case 'YTD': d.setMonth(0, 1); break;
-      case '5Y': d.setFullYear(d.getFullYear() - 5); break;
-      case '10Y': d.setFullYear(d.getFullYear() - 10); break;
+      case '1D': return sessionOnOrBefore(reference);
+      case '5D': return addTradingDays(sessionOnOrBefore(reference), -4);
+      case '30D': return addTradingDays(sessionOnOrBefore(reference), -29);
+      case '1M': d.setUTCMonth(d.getUTCMonth() - 1); break;
+      case '3M': d.setUTCMonth(d.getUTCMonth() - 3); break;
+      case '6M': d.setUTCMonth(d.getUTCMonth() - 6); break;
+      case '1Y': d.setUTCFullYear(d.getUTCFullYear() - 1); break;
+      case 'YTD': d.setUTCMonth(0, 1); break;
+      case '5Y': d.setUTCFullYear(d.getUTCFullYear() - 5); break;
+      case '10Y': d.setUTCFullYear(d.getUTCFullYear() - 10); break;
       default: return null;
     }
-    return d.toISOString().slice(0, 10);
+    return sessionOnOrAfter(d.toISOString().slice(0, 10));
   }
 
   useEffect(() => {
@@ -269,7 +107,7 @@ export default function AssetPage() {
     setError(null);
     setAsset(null);
     setPrices([]);
-    setFullPrices([]);
+    setRawPrices([]);
 
     (async () => {
       try {
@@ -297,7 +135,7 @@ export default function AssetPage() {
           .filter(price => new Date(price.date) <= today)
           .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
 
-        setFullPrices(sanitized);
+        setRawPrices(sanitized);
         setLoading(false);
       } catch (err: any) {
         if (!isMounted) return;
@@ -312,14 +150,70 @@ export default function AssetPage() {
     };
   }, [ticker]);
 
+  // Loaded apart from the prices so a missing actions table only costs the adjustment
+  useEffect(() => {
+    if (!ticker) return;
+    let isMounted = true;
+    setCorporateActions([]);
+    getCorporateActions(ticker)
+      .then(actions => {
+        if (isMounted) setCorporateActions(actions);
+      })
+      .catch(err => console.error('Failed to load corporate actions', err));
+    return () => {
+      isMounted = false;
+    };
+  }, [ticker]);
+
+  const intradayRange = INTRADAY_RANGES[selectedRange];
+  const lastDailyDate = rawPrices.length ? rawPrices[rawPrices.length - 1].date : null;
+
+  // Intraday candles for 1D/5D, counted back from the latest daily bar; a newer session (today's,
+  // before its daily bar is stored) is picked up as well.
+  useEffect(() => {
+    if (!ticker || !intradayRange || !lastDailyDate) {
+      setIntradayPrices([]);
+      return;
+    }
+    let isMounted = true;
+    setIntradayLoading(true);
+    const start = addTradingDays(sessionOnOrBefore(lastDailyDate), -(intradayRange.sessions - 1));
+    getAssetPrices(ticker, start, undefined, intradayRange.interval)
+      .then(bars => {
+        if (isMounted) setIntradayPrices(lastSessions(bars, intradayRange.sessions));
+      })
+      .catch(err => {
+        console.error('Failed to load intraday prices', err);
+        if (isMounted) setIntradayPrices([]);
+      })
+      .finally(() => {
+        if (isMounted) setIntradayLoading(false);
+      });
+    return () => {
+      isMounted = false;
+    };
+  }, [ticker, intradayRange, lastDailyDate]);
+
+  // Everything below (candles, indicators, returns, backtest, exports) sees the adjusted history
+  const fullPrices = useMemo(
+    () => adjustPrices(rawPrices, corporateActions, adjustment),
+    [rawPrices, corporateActions, adjustment]
+  );
+
+  // Close-to-close with dividends reinvested, by date; null when there are no dividends to add
+  const totalReturnByDate = useMemo(() => {
+    if (!corporateActions.some(action => action.type === 'dividend')) return null;
+    const closes = totalReturnCloses(rawPrices, corporateActions);
+    return new Map(rawPrices.map((price, i) => [price.date, closes[i]]));
+  }, [rawPrices, corporateActions]);
+
   useEffect(() => {
     if (!fullPrices.length) {
       setPrices([]);
       return;
     }
 
-    const reference = new Date(fullPrices[fullPrices.length - 1].date);
-    const start = computeRangeStart(selectedRange, reference);
+    const start = computeRangeStart(selectedRange, fullPrices[fullPrices.length - 1].date);
     if (!start) {
       setPrices([...fullPrices]);
       return;
@@ -331,14 +225,7 @@ export default function AssetPage() {
 
   const indicatorSeries = useMemo(() => {
     if (!fullPrices.length) return null;
-    const closes = fullPrices.map(p => p.close);
-    return {
-      sma20: smaSeries(closes, 20),
-      sma50: smaSeries(closes, 50),
-      sma200: smaSeries(closes, 200),
-      rsi14: rsiSeries(closes, 14),
-      macdHist: macdSeries(closes)
-    };
+    return computeIndicatorSet(fullPrices);
   }, [fullPrices]);
 
   const priceIndexByDate = useMemo(() => {
@@ -368,19 +255,45 @@ export default function AssetPage() {
     };
   }, [indicatorSeries, prices, priceIndexByDate]);
 
+  // Candles over the whole history at the chosen period, with indicators computed on them so a
+  // weekly SMA20 spans 20 weeks; the range only decides which candles are shown.
+  const candleHistory = useMemo(() => resampleDaily(fullPrices, candlePeriod), [fullPrices, candlePeriod]);
+
+  const candleIndicators = useMemo(() => {
+    if (candlePeriod === 'daily') return indicatorSeries;
+    return candleHistory.length ? computeIndicatorSet(candleHistory) : null;
+  }, [candlePeriod, candleHistory, indicatorSeries]);
+
   const candlestickSource = useMemo(() => {
+    if (intradayRange) return adjustPrices(intradayPrices, corporateActions, adjustment);
     if (!prices.length) return [] as PriceData[];
-    if (selectedRange === '5Y' || selectedRange === '10Y') {
-      return downsampleToWeekly(prices);
+    if (candlePeriod === 'daily') return prices;
+    // The first candle is the whole period the range starts in
+    const first = periodStart(prices[0].date, candlePeriod);
+    return candleHistory.filter(candle => candle.date >= first);
+  }, [prices, candlePeriod, candleHistory, intradayRange, intradayPrices, corporateActions, adjustment]);
+
+  // Intraday candles are plotted in exchange time, skipping nights, weekends and holidays
+  const intradayBreaks = useMemo(() => {
+    if (!intradayRange || !candlestickSource.length) return undefined;
+    const first = exchangeTime(candlestickSource[0].date).slice(0, 10);
+    const last = exchangeTime(candlestickSource[candlestickSource.length - 1].date).slice(0, 10);
+    const holidays: string[] = [];
+    for (let date = first; date <= last; date = addCalendarDays(date, 1)) {
+      if (holidayName(date)) holidays.push(date);
     }
-    return prices;
-  }, [prices, selectedRange]);
+    return [
+      { bounds: ['sat', 'mon'] },
+      { bounds: [16, 9.5], pattern: 'hour' as const },
+      ...(holidays.length ? [{ values: holidays }] : [])
+    ];
+  }, [intradayRange, candlestickSource]);
 
   const candlestickData = useMemo(() => {
     if (!candlestickSource.length) return null;
 
     return [{
-      x: candlestickSource.map(p => p.date),
+      x: candlestickSource.map(p => (intradayRange ? exchangeTime(p.date) : p.date)),
       open: candlestickSource.map(p => p.open),
       high: candlestickSource.map(p => p.high),
       low: candlestickSource.map(p => p.low),
@@ -388,17 +301,11 @@ export default function AssetPage() {
       type: 'candlestick' as const,
       name: ticker
     }];
-  }, [candlestickSource, ticker]);
+  }, [candlestickSource, ticker, intradayRange]);
 
-  // Calculate returns for multiple time windows
+  // Percent change of one price field over `period` bars, for the returns windows
   function calculateReturnsSeries(priceData: PriceData[], period: number, priceField: 'open' | 'close' | 'high' | 'low') {
-    return priceData.map((price, i) => {
-      if (i < period) return null;
-      const prev = priceData[i - period];
-      const currentPrice = price[priceField];
-      const prevPrice = prev[priceField];
-      return ((currentPrice - prevPrice) / prevPrice) * 100;
-    });
+    return rocSeries(priceData.map(price => price[priceField]), period);
   }
 
   const [returnsWindow, setReturnsWindow] = useState<string>('1D');
@@ -406,17 +313,18 @@ export default function AssetPage() {
   const returnData = useMemo(() => {
     if (prices.length < 2) return null;
 
-    // Determine period based on window selection
-    const periodMap: Record<string, number> = {
-      '1D': 1,   // DoD
-      '5D': 5,   // WoW
-      '20D': 20, // MoM
-      '60D': 60, // QoQ
-      '120D': 120, // HyoHy
-      '240D': 240  // YoY
-    };
-
-    const period = periodMap[returnsWindow] || 1;
+    const period = RETURN_WINDOW_DAYS[returnsWindow] || 1;
+    // Already what Close-to-Close shows once dividends are adjusted for
+    const totalReturn = totalReturnByDate && adjustment !== 'total'
+      ? [{
+        x: prices.map(p => p.date),
+        y: rocSeries(prices.map(p => totalReturnByDate.get(p.date) ?? p.close), period),
+        type: 'scatter' as const,
+        mode: 'lines' as const,
+        name: 'Total Return',
+        line: { dash: 'dot' as const }
+      }]
+      : [];
 
     return [
       {
@@ -446,9 +354,10 @@ export default function AssetPage() {
         type: 'scatter' as const,
         mode: 'lines' as const,
         name: 'Low-to-Low'
-      }
+      },
+      ...totalReturn
     ];
-  }, [prices, returnsWindow]);
+  }, [prices, returnsWindow, totalReturnByDate, adjustment]);
 
   const candlestickChartRef = useRef<HTMLDivElement>(null);
   const returnsChartRef = useRef<HTMLDivElement>(null);
@@ -468,7 +377,8 @@ export default function AssetPage() {
       plot_bgcolor: 'rgba(0,0,0,0)',
       xaxis: {
         gridcolor: 'rgba(0,0,0,0.1)',
-        zerolinecolor: 'rgba(0,0,0,0.2)'
+        zerolinecolor: 'rgba(0,0,0,0.2)',
+        ...(intradayBreaks && { rangebreaks: intradayBreaks })
       },
       yaxis: {
         title: { text: 'Price' },
@@ -484,7 +394,7 @@ export default function AssetPage() {
         Plotly.purge(candlestickChartRef.current);
       }
     };
-  }, [candlestickData, ticker, expandedCard]);
+  }, [candlestickData, intradayBreaks, ticker, expandedCard]);
 
   useEffect(() => {
     if (!returnData) return;
@@ -569,16 +479,47 @@ export default function AssetPage() {
     return () => clearTimeout(timer);
   }, [expandedCard]);
 
+  // Exports cover the visible range at the interval plotted (intraday for 1D/5D, else the candle period)
+  const candleInterval = intradayRange ? intradayRange.interval : candlePeriod;
+  const exportMeta = { ticker: ticker || '', range: selectedRange, interval: candleInterval, adjustment };
+  const exportName = (card: string) =>
+    `${ticker}-${card}-${selectedRange}${candleInterval !== 'daily' && card === 'price-history' ? `-${candleInterval}` : ''}`;
+  const priceHistoryExport = () => {
+    if (intradayRange) return intradayTable(candlestickSource);
+    return candleIndicators ? priceHistoryTable(candleHistory, candleIndicators, candlestickSource) : null;
+  };
+  const returnsExport = () => returnsTable(prices, RETURN_WINDOW_DAYS);
+  const technicalExport = () => (indicatorSeries ? technicalTable(fullPrices, indicatorSeries, prices) : null);
+
   if (error) {
     return <div className="error-message">{error}</div>;
   }
 
   const explorerPrices = fullPrices.length ? fullPrices : prices;
+  // trade only over the selected range; earlier history just warms up the indicators
+  const backtestStart = prices.length ? prices[0].date : undefined;
 
   if (loading) {
     return <div>Loading...</div>;
   }
 
+  // Intraday ranges plot their own bar interval
+  const candlePeriodSelector = !intradayRange && (
+    <div className="range-selector" role="group" aria-label="Candle interval">
+      {CANDLE_PERIODS.map(period => (
+        <button
+          key={period}
+          className={`range-btn ${candlePeriod === period ? 'active' : ''}`}
+          onClick={() => setCandlePeriod(period)}
+          aria-pressed={candlePeriod === period}
+          title={`${period.charAt(0).toUpperCase()}${period.slice(1)} candles`}
+        >
+          {CANDLE_LABELS[period]}
+        </button>
+      ))}
+    </div>
+  );
+
   return (
     <div className="asset-page">
       <header className="page-header">
@@ -588,10 +529,26 @@ export default function AssetPage() {
             <div className="subtitle">{asset?.name}</div>
           ) : null}
         </div>
-        <div className="controls">
+        <div className="controls" style={{ display: 'flex', alignItems: 'center', gap: '12px', flexWrap: 'wrap' }}>
+          {asset?.ticker && can('watchlists:manage') && <AddToWatchlist ticker={asset.ticker} />}
+          {corporateActions.length > 0 && (
+            <div className="range-selector" role="group" aria-label="Price adjustment">
+              {(Object.keys(ADJUSTMENT_LABELS) as PriceAdjustment[]).map(option => (
+                <button
+                  key={option}
+                  className={`range-btn ${adjustment === option ? 'active' : ''}`}
+                  onClick={() => setAdjustment(option)}
+                  aria-pressed={adjustment === option}
+                  title={option === 'raw' ? 'Prices as traded' : option === 'split' ? 'Earlier prices restated for splits' : 'Earlier prices restated for splits and dividends'}
+                >
+                  {ADJUSTMENT_LABELS[option]}
+                </button>
+              ))}
+            </div>
+          )}
           {/* Time range selector */}
           <div className="range-selector" role="tablist" aria-label="Time range">
-            {['30D','1M','3M','6M','1Y','YTD','5Y','10Y'].map(r => (
+            {RANGES.map(r => (
               <button
                 key={r}
                 className={`range-btn ${selectedRange === r ? 'active' : ''}`}
@@ -610,9 +567,18 @@ export default function AssetPage() {
           <div className="chart-card">
             <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
               <h3 className="card-label">Price History</h3>
-              <button onClick={() => setExpandedCard('price')} style={{ background: 'none', border: 'none', cursor: 'pointer', fontSize: '18px', padding: '4px 8px' }}>⛶</button>
+              <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+                {candlePeriodSelector}
+                <ExportMenu filename={exportName('price-history')} getTable={priceHistoryExport} meta={exportMeta} chartRef={candlestickChartRef} />
+                <button onClick={() => setExpandedCard('price')} style={{ background: 'none', border: 'none', cursor: 'pointer', fontSize: '18px', padding: '4px 8px' }}>⛶</button>
+              </div>
             </div>
             <div ref={candlestickChartRef} className="chart-area"></div>
+            {intradayRange && !candlestickSource.length && (
+              <div className={intradayLoading ? 'loading-state' : 'empty-state'}>
+                {intradayLoading ? 'Loading intraday bars…' : `No ${intradayRange.interval} bars stored for ${ticker}.`}
+              </div>
+            )}
           </div>
         </ErrorBoundary>
 
@@ -630,7 +596,10 @@ export default function AssetPage() {
           <div className="chart-card">
             <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '12px' }}>
               <h3 className="card-label">Daily Returns</h3>
-              <button onClick={() => setExpandedCard('returns')} style={{ background: 'none', border: 'none', cursor: 'pointer', fontSize: '18px', padding: '4px 8px' }}>⛶</button>
+              <div style={{ display: 'flex', alignItems: 'center' }}>
+                <ExportMenu filename={exportName('returns')} getTable={returnsExport} meta={{ ...exportMeta, interval: 'daily' }} chartRef={returnsChartRef} />
+                <button onClick={() => setExpandedCard('returns')} style={{ background: 'none', border: 'none', cursor: 'pointer', fontSize: '18px', padding: '4px 8px' }}>⛶</button>
+              </div>
             </div>
             <div style={{ display: 'flex', gap: '6px', marginBottom: '12px', flexWrap: 'wrap' }}>
               {['1D', '5D', '20D', '60D', '120D', '240D'].map(window => (
@@ -657,6 +626,29 @@ export default function AssetPage() {
           </div>
         </ErrorBoundary>
 
+        <ErrorBoundary>
+          <div className="chart-card">
+            <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+              <h3 className="card-label">Backtest</h3>
+              <button onClick={() => setExpandedCard('backtest')} style={{ background: 'none', border: 'none', cursor: 'pointer', fontSize: '18px', padding: '4px 8px' }}>⛶</button>
+            </div>
+            <div className="chart-area" style={{ minHeight: 360 }}>
+              <BacktestPanel history={explorerPrices} startDate={backtestStart} height={360} />
+            </div>
+          </div>
+        </ErrorBoundary>
+
+        {asset?.ticker && can('alerts:manage') && (
+          <ErrorBoundary>
+            <div className="chart-card">
+              <h3 className="card-label">Price Alerts</h3>
+              <div className="chart-area">
+                <AlertRulesPanel ticker={asset.ticker} lastClose={explorerPrices[explorerPrices.length - 1]?.close} />
+              </div>
+            </div>
+          </ErrorBoundary>
+        )}
+
         <ErrorBoundary>
           <div className="chart-card">
             <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
@@ -672,22 +664,15 @@ export default function AssetPage() {
         <div className="chart-card placeholder-card">
           <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
             <h3 className="card-label">Technical Analysis</h3>
-            <button onClick={() => setExpandedCard('technical')} style={{ background: 'none', border: 'none', cursor: 'pointer', fontSize: '18px', padding: '4px 8px' }}>⛶</button>
+            <div style={{ display: 'flex', alignItems: 'center' }}>
+              <ExportMenu filename={exportName('technical')} getTable={technicalExport} meta={{ ...exportMeta, interval: 'daily' }} />
+              <button onClick={() => setExpandedCard('technical')} style={{ background: 'none', border: 'none', cursor: 'pointer', fontSize: '18px', padding: '4px 8px' }}>⛶</button>
+            </div>
           </div>
           <div className="placeholder-content">
             {prices && prices.length && rangeIndicators ? (
               <div className="mini-indicators">
                 {(() => {
-                  const getLastValue = (series: Array<number | null>) => {
-                    for (let i = series.length - 1; i >= 0; i--) {
-                      const val = series[i];
-                      if (val !== null && val !== undefined && !Number.isNaN(val as number)) {
-                        return val as number;
-                      }
-                    }
-                    return null;
-                  };
-
                   const sma20Series = rangeIndicators.sma20 || [];
                   const sma50Series = rangeIndicators.sma50 || [];
                   const sma200Series = rangeIndicators.sma200 || [];
@@ -712,7 +697,7 @@ export default function AssetPage() {
                       <div style={{ marginBottom: 12 }}>
                         <MiniIndicator
                           name="RSI(14)"
-                          value={getLastValue(rsiSeriesData)}
+                          value={lastValue(rsiSeriesData)}
                           series={rsiSeriesData}
                           thresholds={{ low: 30, high: 70 }}
                           yDomain={{ min: 0, max: 100 }}
@@ -721,7 +706,7 @@ export default function AssetPage() {
                       <div style={{ marginBottom: 12 }}>
                         <MiniIndicator
                           name="MACD(hist)"
-                          value={getLastValue(macdHistSeries)}
+                          value={lastValue(macdHistSeries)}
                           series={macdHistSeries}
                           histogram
                           yDomain={macdDomain}
@@ -743,7 +728,11 @@ export default function AssetPage() {
         <div style={{ position: 'absolute', top: 0, left: 0, right: 0, bottom: 0, background: 'white', zIndex: 1000, display: 'flex', flexDirection: 'column', padding: '20px', borderRadius: '12px', boxShadow: '0 20px 25px -5px rgba(0,0,0,0.1)', animation: 'fadeIn 0.15s ease-out' }}>
           <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '20px' }}>
             <h2>Price History</h2>
-            <button onClick={() => setExpandedCard(null)} style={{ background: 'none', border: 'none', cursor: 'pointer', fontSize: '24px' }}>✕</button>
+            <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+              {candlePeriodSelector}
+              <ExportMenu filename={exportName('price-history')} getTable={priceHistoryExport} meta={exportMeta} chartRef={candlestickChartRef} />
+              <button onClick={() => setExpandedCard(null)} style={{ background: 'none', border: 'none', cursor: 'pointer', fontSize: '24px' }}>✕</button>
+            </div>
           </div>
           <div ref={candlestickChartRef} style={{ flex: 1, minHeight: 0, overflow: 'auto' }}></div>
         </div>
@@ -765,7 +754,10 @@ export default function AssetPage() {
         <div style={{ position: 'absolute', top: 0, left: 0, right: 0, bottom: 0, background: 'white', zIndex: 1000, display: 'flex', flexDirection: 'column', padding: '20px', borderRadius: '12px', boxShadow: '0 20px 25px -5px rgba(0,0,0,0.1)', animation: 'fadeIn 0.15s ease-out' }}>
           <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '20px' }}>
             <h2>Daily Returns</h2>
-            <button onClick={() => setExpandedCard(null)} style={{ background: 'none', border: 'none', cursor: 'pointer', fontSize: '24px' }}>✕</button>
+            <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+              <ExportMenu filename={exportName('returns')} getTable={returnsExport} meta={{ ...exportMeta, interval: 'daily' }} chartRef={returnsChartRef} />
+              <button onClick={() => setExpandedCard(null)} style={{ background: 'none', border: 'none', cursor: 'pointer', fontSize: '24px' }}>✕</button>
+            </div>
           </div>
           <div style={{ display: 'flex', gap: '6px', marginBottom: '20px', flexWrap: 'wrap' }}>
             {['1D', '5D', '20D', '60D', '120D', '240D'].map(window => (
@@ -792,6 +784,18 @@ export default function AssetPage() {
         </div>
       )}
 
+      {expandedCard === 'backtest' && (
+        <div style={{ position: 'absolute', top: 0, left: 0, right: 0, bottom: 0, background: 'white', zIndex: 1000, display: 'flex', flexDirection: 'column', padding: '20px', borderRadius: '12px', boxShadow: '0 20px 25px -5px rgba(0,0,0,0.1)', animation: 'fadeIn 0.15s ease-out' }}>
+          <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '20px' }}>
+            <h2>Backtest</h2>
+            <button onClick={() => setExpandedCard(null)} style={{ background: 'none', border: 'none', cursor: 'pointer', fontSize: '24px' }}>✕</button>
+          </div>
+          <div style={{ flex: 1, minHeight: 0, overflow: 'auto' }}>
+            <BacktestPanel history={explorerPrices} startDate={backtestStart} height={window.innerHeight - 280} />
+          </div>
+        </div>
+      )}
+
       {expandedCard === 'timeexplorer' && (
         <div style={{ position: 'absolute', top: 0, left: 0, right: 0, bottom: 0, background: 'white', zIndex: 1000, display: 'flex', flexDirection: 'column', padding: '20px', borderRadius: '12px', boxShadow: '0 20px 25px -5px rgba(0,0,0,0.1)', animation: 'fadeIn 0.15s ease-out' }}>
           <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '20px' }}>
@@ -808,7 +812,10 @@ export default function AssetPage() {
         <div style={{ position: 'absolute', top: 0, left: 0, right: 0, bottom: 0, background: 'white', zIndex: 1000, display: 'flex', flexDirection: 'column', padding: '20px', overflowY: 'auto', borderRadius: '12px', boxShadow: '0 20px 25px -5px rgba(0,0,0,0.1)', animation: 'fadeIn 0.15s ease-out' }}>
           <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '20px' }}>
             <h2>Technical Analysis</h2>
-            <button onClick={() => setExpandedCard(null)} style={{ background: 'none', border: 'none', cursor: 'pointer', fontSize: '24px' }}>✕</button>
+            <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+              <ExportMenu filename={exportName('technical')} getTable={technicalExport} meta={{ ...exportMeta, interval: 'daily' }} />
+              <button onClick={() => setExpandedCard(null)} style={{ background: 'none', border: 'none', cursor: 'pointer', fontSize: '24px' }}>✕</button>
+            </div>
           </div>
           <div className="mini-indicators">
             {prices && prices.length > 0 ? (
@@ -817,17 +824,19 @@ export default function AssetPage() {
                 const sma20Series = smaSeries(closes, 20);
                 const sma50Series = smaSeries(closes, 50);
                 const sma200Series = smaSeries(closes, 200);
-                
+                const rsi14 = rsiSeries(closes, 14);
+                const macdHist = macdSeries(closes).histogram;
+
                 return (
                   <>
                     <div style={{ marginBottom: 12 }}>
                       <SMACombined sma20={sma20Series || []} sma50={sma50Series || []} sma200={sma200Series || []} currentValue={closes[closes.length - 1]} />
                     </div>
                     <div style={{ marginBottom: 12 }}>
-                      <MiniIndicator name="RSI(14)" value={(rsiSeries(closes, 14).slice().reverse().find((v: any) => v !== null && v !== undefined) as number | null) ?? null} series={rsiSeries(closes, 14)} thresholds={{ low: 30, high: 70 }} />
+                      <MiniIndicator name="RSI(14)" value={lastValue(rsi14)} series={rsi14} thresholds={{ low: 30, high: 70 }} />
                     </div>
                     <div style={{ marginBottom: 12 }}>
-                      <MiniIndicator name="MACD(hist)" value={(macdSeries(closes).slice().reverse().find((v: any) => v !== null && v !== undefined) as number | null) ?? null} series={macdSeries(closes)} histogram={true} />
+                      <MiniIndicator name="MACD(hist)" value={lastValue(macdHist)} series={macdHist} histogram={true} />
                     </div>
                   </>
                 );
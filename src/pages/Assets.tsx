@@ -24,8 +24,8 @@ const OPTION_CARDS = [
   {
     key: "prophets" as const,
     title: "By Top Prophets",
-    description: "Coming soon — discover the analysts driving the strongest signals.",
-    enabled: false
+    description: "See which prophets call prices best, then drill into the tickers they cover.",
+    enabled: true
   },
   {
     key: "forecasts" as const,
@@ -137,6 +137,10 @@ export default function Assets() {
   };
 
   const handleOptionSelect = (key: typeof OPTION_CARDS[number]["key"]) => {
+    if (key === "prophets") {
+      navigate("/prophets");
+      return;
+    }
     if (key !== "ticker") return;
     setView("letter");
     setSelectedLetter(null);
@@ -209,7 +213,7 @@ export default function Assets() {
               </h2>
               <p>
                 {view === "root"
-                  ? "Choose how you want to browse the inventory. Alphabetical navigator is currently live."
+                  ? "Choose how you want to browse the inventory. Alphabetical and prophet navigators are live."
                   : view === "letter"
                   ? "Pick the first character of the ticker to focus the explorer."
                   : `Showing ${filteredAssets.length} ${filteredAssets.length === 1 ? "asset" : "assets"}. Click a card to open detailed telemetry.`}
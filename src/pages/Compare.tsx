@@ -0,0 +1,341 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import { RefreshCw, X } from "react-feather";
+import type { Data, Layout } from "plotly.js";
+import PlotlyChart from "../components/charts/PlotlyChart";
+import { getAllAssets, getAssetPrices } from "../services/assets";
+import { normalizeTicker } from "../lib/watchlists";
+import {
+  alignCloses,
+  monthsBefore,
+  performanceStats,
+  rebase,
+  relativeStrength,
+  rollingCorrelation,
+  simpleReturns
+} from "../lib/comparison";
+import type { AssetMeta } from "../types/assets";
+import type { PriceData } from "../types/price";
+import "./Compare.css";
+
+export const MAX_COMPARE_TICKERS = 6;
+
+type RangeKey = "3M" | "6M" | "1Y" | "3Y" | "5Y" | "All";
+
+const RANGES: Array<{ id: RangeKey; months: number | undefined }> = [
+  { id: "3M", months: 3 },
+  { id: "6M", months: 6 },
+  { id: "1Y", months: 12 },
+  { id: "3Y", months: 36 },
+  { id: "5Y", months: 60 },
+  { id: "All", months: undefined }
+];
+
+const CORRELATION_WINDOWS = [20, 60, 120];
+
+// Module-level so PlotlyChart only redraws when the traces change.
+const PERFORMANCE_LAYOUT: Partial<Layout> = { showlegend: true, legend: { orientation: "h", y: -0.15 }, yaxis: { title: { text: "Index" } } };
+const STRENGTH_LAYOUT: Partial<Layout> = { showlegend: true, legend: { orientation: "h", y: -0.2 }, yaxis: { title: { text: "Ratio (start = 100)" } } };
+const CORRELATION_LAYOUT: Partial<Layout> = {
+  showlegend: true,
+  legend: { orientation: "h", y: -0.2 },
+  yaxis: { range: [-1, 1], title: { text: "Correlation" } }
+};
+
+const COLORS = ["#3ea8ff", "#f97316", "#22c55e", "#a855f7", "#ef4444", "#14b8a6", "#64748b"];
+
+function formatPct(value: number | null, signed = true) {
+  if (value === null || !Number.isFinite(value)) return "--";
+  return `${signed && value >= 0 ? "+" : ""}${value.toFixed(2)}%`;
+}
+
+function formatRatio(value: number | null) {
+  return value === null || !Number.isFinite(value) ? "--" : value.toFixed(2);
+}
+
+// Selection lives in the URL (?tickers=SPY,DIA&benchmark=SPY&range=1Y&window=60) so a
+// comparison can be bookmarked or linked to from other screens.
+export default function Compare() {
+  const [params, setParams] = useSearchParams();
+  const [assets, setAssets] = useState<AssetMeta[]>([]);
+  const [histories, setHistories] = useState<Record<string, PriceData[]>>({});
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const tickers = useMemo(
+    () => Array.from(new Set((params.get("tickers") || "").split(",").map(normalizeTicker).filter(Boolean))).slice(0, MAX_COMPARE_TICKERS),
+    [params]
+  );
+  const benchmark = normalizeTicker(params.get("benchmark") || "") || tickers[0] || "";
+  const rangeKey = (RANGES.find(r => r.id === params.get("range"))?.id || "1Y") as RangeKey;
+  const corrWindow = CORRELATION_WINDOWS.includes(Number(params.get("window"))) ? Number(params.get("window")) : 60;
+
+  const update = (changes: Record<string, string | null>) => {
+    const next = new URLSearchParams(params);
+    Object.entries(changes).forEach(([key, value]) => (value ? next.set(key, value) : next.delete(key)));
+    setParams(next, { replace: true });
+  };
+
+  const setTickers = (next: string[]) => {
+    update({ tickers: next.join(",") || null, benchmark: next.includes(benchmark) || !next.length ? benchmark || null : next[0] });
+  };
+
+  useEffect(() => {
+    getAllAssets()
+      .then(list => setAssets(list.sort((a, b) => a.ticker.localeCompare(b.ticker))))
+      .catch(err => console.error("Failed to load assets", err));
+  }, []);
+
+  // Fetch full histories for any ticker not loaded yet; the range is applied client-side.
+  const wanted = useMemo(() => Array.from(new Set([...tickers, benchmark].filter(Boolean))), [tickers, benchmark]);
+  useEffect(() => {
+    const missing = wanted.filter(ticker => !histories[ticker]);
+    if (!missing.length) return;
+    let isMounted = true;
+    setLoading(true);
+    setError(null);
+    Promise.all(missing.map(async ticker => [ticker, await getAssetPrices(ticker)] as const))
+      .then(entries => {
+        if (!isMounted) return;
+        const today = new Date().toISOString().slice(0, 10);
+        setHistories(current => ({
+          ...current,
+          ...Object.fromEntries(entries.map(([ticker, prices]) => [ticker, prices.filter(p => p.date <= today)]))
+        }));
+        setError(null);
+      })
+      .catch(err => {
+        if (!isMounted) return;
+        console.error("Failed to load comparison prices", err);
+        setError(err?.message || "Failed to load prices");
+      })
+      .finally(() => isMounted && setLoading(false));
+    return () => {
+      isMounted = false;
+    };
+  }, [wanted, histories]);
+
+  const aligned = useMemo(() => {
+    if (!wanted.length || wanted.some(ticker => !histories[ticker])) return null;
+    const all = alignCloses(histories, wanted);
+    // Counted back from the latest common date, so stale data still fills the window
+    const start = monthsBefore(all.dates[all.dates.length - 1], RANGES.find(r => r.id === rangeKey)?.months);
+    return start ? alignCloses(histories, wanted, start) : all;
+  }, [histories, wanted, rangeKey]);
+
+  const colorOf = (ticker: string) => COLORS[Math.max(0, tickers.indexOf(ticker)) % COLORS.length];
+  const benchmarkOnly = benchmark && !tickers.includes(benchmark);
+  const others = tickers.filter(ticker => ticker !== benchmark);
+  const ready = !!aligned && aligned.dates.length > 1;
+
+  const performanceData = useMemo<Data[]>(() => {
+    if (!aligned) return [];
+    const traces: Data[] = tickers.map(ticker => ({
+      x: aligned.dates,
+      y: rebase(aligned.closes[ticker]),
+      type: "scatter",
+      mode: "lines",
+      name: ticker,
+      line: { color: colorOf(ticker), width: 2 }
+    }));
+    if (benchmarkOnly) {
+      traces.push({
+        x: aligned.dates,
+        y: rebase(aligned.closes[benchmark]),
+        type: "scatter",
+        mode: "lines",
+        name: `${benchmark} (benchmark)`,
+        line: { color: COLORS[COLORS.length - 1], width: 2, dash: "dash" }
+      });
+    }
+    return traces;
+  }, [aligned, tickers, benchmark]);
+
+  const strengthData = useMemo<Data[]>(() => {
+    if (!aligned) return [];
+    return others.map(ticker => ({
+      x: aligned.dates,
+      y: relativeStrength(aligned.closes[ticker], aligned.closes[benchmark]),
+      type: "scatter",
+      mode: "lines",
+      name: `${ticker} / ${benchmark}`,
+      line: { color: colorOf(ticker), width: 2 }
+    }));
+  }, [aligned, tickers, benchmark]);
+
+  const correlationData = useMemo<Data[]>(() => {
+    if (!aligned) return [];
+    const benchmarkReturns = simpleReturns(aligned.closes[benchmark]);
+    return others.map(ticker => ({
+      x: aligned.dates.slice(1),
+      y: rollingCorrelation(simpleReturns(aligned.closes[ticker]), benchmarkReturns, corrWindow),
+      type: "scatter",
+      mode: "lines",
+      name: ticker,
+      line: { color: colorOf(ticker), width: 2 }
+    }));
+  }, [aligned, tickers, benchmark, corrWindow]);
+
+  const stats = useMemo(() => {
+    if (!aligned) return [];
+    const rows = benchmarkOnly ? [...tickers, benchmark] : tickers;
+    return rows.map(ticker => performanceStats(ticker, aligned.closes[ticker], aligned.closes[benchmark]));
+  }, [aligned, tickers, benchmark]);
+
+  const available = assets.filter(asset => !tickers.includes(asset.ticker));
+
+  return (
+    <div className="compare-screen">
+      <section className="compare-panel glass-surface">
+        <header className="panel-header">
+          <div>
+            <h2>Compare Assets</h2>
+            <p>
+              Up to {MAX_COMPARE_TICKERS} tickers on the dates they all traded, rebased to 100 at the start of the range.
+            </p>
+          </div>
+          <div className="pill-group" role="group" aria-label="Range">
+            {RANGES.map(option => (
+              <button
+                key={option.id}
+                type="button"
+                className={`pill ${option.id === rangeKey ? "active" : ""}`}
+                onClick={() => update({ range: option.id })}
+              >
+                {option.id}
+              </button>
+            ))}
+          </div>
+        </header>
+
+        <div className="compare-controls">
+          <div className="compare-chips">
+            {tickers.map(ticker => (
+              <span key={ticker} className="compare-chip" style={{ borderColor: colorOf(ticker) }}>
+                <span className="compare-swatch" style={{ background: colorOf(ticker) }} />
+                {ticker}
+                <button type="button" aria-label={`Remove ${ticker}`} onClick={() => setTickers(tickers.filter(t => t !== ticker))}>
+                  <X size={12} />
+                </button>
+              </span>
+            ))}
+            <select
+              className="compare-select"
+              value=""
+              disabled={tickers.length >= MAX_COMPARE_TICKERS}
+              onChange={event => event.target.value && setTickers([...tickers, event.target.value])}
+            >
+              <option value="">{tickers.length >= MAX_COMPARE_TICKERS ? `Limit of ${MAX_COMPARE_TICKERS} reached` : "Add ticker…"}</option>
+              {available.map(asset => (
+                <option key={asset.ticker} value={asset.ticker}>{asset.ticker} · {asset.name}</option>
+              ))}
+            </select>
+          </div>
+          <label className="compare-field">
+            Benchmark
+            <select className="compare-select" value={benchmark} onChange={event => update({ benchmark: event.target.value })}>
+              {!benchmark && <option value="">--</option>}
+              {assets.map(asset => (
+                <option key={asset.ticker} value={asset.ticker}>{asset.ticker}</option>
+              ))}
+            </select>
+          </label>
+        </div>
+
+        {error && <div className="empty-state">{error}</div>}
+        {!error && !tickers.length && <div className="empty-state">Add tickers to start a comparison.</div>}
+        {!error && tickers.length > 0 && loading && (
+          <div className="loading-state">
+            <RefreshCw className="spin" size={18} />
+            <span>Loading prices…</span>
+          </div>
+        )}
+        {!error && !loading && tickers.length > 0 && aligned && !ready && (
+          <div className="empty-state">These tickers have no overlapping sessions in this range.</div>
+        )}
+
+        {ready && (
+          <>
+            <div className="compare-chart">
+              <h3>Performance (rebased to 100)</h3>
+              <PlotlyChart
+                data={performanceData}
+                layout={PERFORMANCE_LAYOUT}
+                height={380}
+              />
+            </div>
+
+            <table className="score-table compare-table">
+              <thead>
+                <tr>
+                  <th>Ticker</th>
+                  <th>Return</th>
+                  <th>Annualised</th>
+                  <th>Volatility</th>
+                  <th>Max Drawdown</th>
+                  <th>Beta vs {benchmark}</th>
+                  <th>Correlation</th>
+                </tr>
+              </thead>
+              <tbody>
+                {stats.map(row => (
+                  <tr key={row.ticker}>
+                    <td>
+                      <Link to={`/assets/${row.ticker}`}>{row.ticker}</Link>
+                      {row.ticker === benchmark && <span className="compare-tag">benchmark</span>}
+                    </td>
+                    <td className={row.totalReturn >= 0 ? "positive" : "negative"}>{formatPct(row.totalReturn)}</td>
+                    <td>{formatPct(row.annualizedReturn)}</td>
+                    <td>{formatPct(row.volatility, false)}</td>
+                    <td>{formatPct(row.maxDrawdown, false)}</td>
+                    <td>{formatRatio(row.beta)}</td>
+                    <td>{formatRatio(row.correlation)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <p className="compare-note">
+              {aligned.dates[0]} → {aligned.dates[aligned.dates.length - 1]}, {aligned.dates.length.toLocaleString()} common sessions.
+              Volatility is annualised from daily returns; beta and correlation use daily returns against {benchmark}.
+            </p>
+
+            {others.length > 0 && (
+              <div className="compare-grid">
+                <div className="compare-chart">
+                  <h3>Relative Strength vs {benchmark}</h3>
+                  <PlotlyChart
+                    data={strengthData}
+                    layout={STRENGTH_LAYOUT}
+                    height={320}
+                  />
+                </div>
+                <div className="compare-chart">
+                  <div className="compare-chart-header">
+                    <h3>Rolling Correlation vs {benchmark}</h3>
+                    <div className="pill-group" role="group" aria-label="Correlation window">
+                      {CORRELATION_WINDOWS.map(window => (
+                        <button
+                          key={window}
+                          type="button"
+                          className={`pill ${window === corrWindow ? "active" : ""}`}
+                          onClick={() => update({ window: String(window) })}
+                        >
+                          {window}D
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                  <PlotlyChart
+                    data={correlationData}
+                    layout={CORRELATION_LAYOUT}
+                    height={320}
+                  />
+                </div>
+              </div>
+            )}
+          </>
+        )}
+      </section>
+    </div>
+  );
+}
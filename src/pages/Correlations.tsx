@@ -0,0 +1,179 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { RefreshCw } from "react-feather";
+import type { Data, Datum, Layout } from "plotly.js";
+import PlotlyChart from "../components/charts/PlotlyChart";
+import { getAllAssets, getAssetPrices } from "../services/assets";
+import { monthsBefore } from "../lib/comparison";
+import { MIN_OBSERVATIONS, clusterOrder, correlationMatrix, reorderMatrix } from "../lib/correlationMatrix";
+import type { PriceData } from "../types/price";
+import "./Compare.css";
+
+type RangeKey = "3M" | "6M" | "1Y" | "3Y" | "All";
+type Ordering = "clustered" | "alphabetical";
+
+const RANGES: Array<{ id: RangeKey; months: number | undefined }> = [
+  { id: "3M", months: 3 },
+  { id: "6M", months: 6 },
+  { id: "1Y", months: 12 },
+  { id: "3Y", months: 36 },
+  { id: "All", months: undefined }
+];
+
+// Diverging scale pinned to [-1, 1] so colours mean the same thing in every window.
+const COLORSCALE: Array<[number, string]> = [
+  [0, "#2166ac"],
+  [0.5, "#f7f7f7"],
+  [1, "#b2182b"]
+];
+
+export default function Correlations() {
+  const navigate = useNavigate();
+  const [histories, setHistories] = useState<Record<string, PriceData[]>>({});
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [rangeKey, setRangeKey] = useState<RangeKey>("1Y");
+  const [ordering, setOrdering] = useState<Ordering>("clustered");
+
+  useEffect(() => {
+    let isMounted = true;
+    async function loadUniverse() {
+      try {
+        const assets = await getAllAssets();
+        const today = new Date().toISOString().slice(0, 10);
+        const entries = await Promise.all(
+          assets.map(async asset => [asset.ticker, (await getAssetPrices(asset.ticker)).filter(p => p.date <= today)] as const)
+        );
+        if (isMounted) setHistories(Object.fromEntries(entries));
+      } catch (err: any) {
+        console.error("Failed to load asset universe", err);
+        if (isMounted) setError(err?.message || "Failed to load prices");
+      } finally {
+        if (isMounted) setLoading(false);
+      }
+    }
+    loadUniverse();
+    return () => {
+      isMounted = false;
+    };
+  }, []);
+
+  const matrix = useMemo(() => {
+    const tickers = Object.keys(histories).filter(ticker => histories[ticker].length > 1).sort();
+    if (tickers.length < 2) return null;
+    // Window ends on the most recent session in the universe, so stale data still fills it
+    const lastDate = tickers.reduce((max, ticker) => {
+      const date = histories[ticker][histories[ticker].length - 1].date;
+      return date > max ? date : max;
+    }, "");
+    const startDate = monthsBefore(lastDate, RANGES.find(r => r.id === rangeKey)?.months);
+    const full = correlationMatrix(histories, tickers, { startDate });
+    return ordering === "clustered" ? reorderMatrix(full, clusterOrder(full.values)) : full;
+  }, [histories, rangeKey, ordering]);
+
+  const heatmap = useMemo<Data[]>(() => {
+    if (!matrix) return [];
+    return [
+      {
+        type: "heatmap",
+        x: matrix.tickers,
+        y: matrix.tickers,
+        z: matrix.values,
+        customdata: matrix.observations satisfies Datum[][],
+        zmin: -1,
+        zmax: 1,
+        colorscale: COLORSCALE,
+        xgap: 1,
+        ygap: 1,
+        texttemplate: matrix.tickers.length <= 20 ? "%{z:.2f}" : "",
+        hovertemplate: "%{y} / %{x}<br>ρ = %{z:.2f}<br>%{customdata} paired returns<extra></extra>",
+        hoverongaps: false
+      } as Data
+    ];
+  }, [matrix]);
+
+  const layout = useMemo<Partial<Layout>>(
+    () => ({
+      margin: { t: 10, r: 10, l: 70, b: 70 },
+      xaxis: { side: "bottom", tickangle: -45, showgrid: false },
+      // Top-left to bottom-right diagonal, like a printed matrix
+      yaxis: { autorange: "reversed", showgrid: false }
+    }),
+    []
+  );
+
+  const sparse = matrix ? matrix.values.some(row => row.some(value => value === null)) : false;
+  const size = matrix ? Math.min(900, Math.max(360, matrix.tickers.length * 32 + 120)) : 360;
+
+  const openPair = ({ x, y }: { x: unknown; y: unknown }) => {
+    if (typeof x === "string" && typeof y === "string" && x !== y) {
+      navigate(`/compare?tickers=${y},${x}&benchmark=${x}`);
+    }
+  };
+
+  return (
+    <div className="compare-screen">
+      <section className="compare-panel glass-surface">
+        <header className="panel-header">
+          <div>
+            <h2>Correlation Matrix</h2>
+            <p>Correlation of daily returns across the asset universe. Click a cell to compare the pair.</p>
+          </div>
+          <div className="compare-controls">
+            <div className="pill-group" role="group" aria-label="Ordering">
+              <button
+                type="button"
+                className={`pill ${ordering === "clustered" ? "active" : ""}`}
+                onClick={() => setOrdering("clustered")}
+              >
+                Clustered
+              </button>
+              <button
+                type="button"
+                className={`pill ${ordering === "alphabetical" ? "active" : ""}`}
+                onClick={() => setOrdering("alphabetical")}
+              >
+                A–Z
+              </button>
+            </div>
+            <div className="pill-group" role="group" aria-label="Window">
+              {RANGES.map(option => (
+                <button
+                  key={option.id}
+                  type="button"
+                  className={`pill ${option.id === rangeKey ? "active" : ""}`}
+                  onClick={() => setRangeKey(option.id)}
+                >
+                  {option.id}
+                </button>
+              ))}
+            </div>
+          </div>
+        </header>
+
+        {loading && (
+          <div className="loading-state">
+            <RefreshCw className="spin" size={18} />
+            <span>Loading prices…</span>
+          </div>
+        )}
+        {!loading && error && <div className="empty-state">{error}</div>}
+        {!loading && !error && !matrix && (
+          <div className="empty-state">At least two assets with price history are needed.</div>
+        )}
+
+        {matrix && (
+          <>
+            <PlotlyChart data={heatmap} layout={layout} height={size} onClick={openPair} />
+            <p className="compare-note">
+              Each pair is aligned on the sessions both assets traded; a missing day becomes a multi-day return
+              on both sides.
+              {ordering === "clustered" && " Rows are ordered by average-linkage clustering on 1 − ρ."}
+              {sparse && ` Blank cells have fewer than ${MIN_OBSERVATIONS} paired returns in this window.`}
+            </p>
+          </>
+        )}
+      </section>
+    </div>
+  );
+}
@@ -1,4 +1,5 @@
-import React, { useMemo, useState } from "react";
+import React, { useEffect, useMemo, useState } from "react";
+import { Link } from "react-router-dom";
 import {
   TrendingUp,
   Activity,
@@ -11,13 +12,15 @@ import {
 } from "react-feather";
 import StockChart from "../components/chart/StockChart";
 import type { Data } from "plotly.js";
-import type { PriceData } from "../types/price";
-import { DJIA_DATA, SPX_DATA } from "../data/testData";
+import type { PriceData, ProphetKey } from "../types/price";
+import type { AssetMeta } from "../types/assets";
+import { PROPHECY_LIBRARY } from "../constants/prophetData";
+import { getAllAssets, getAssetPrices } from "../services/assets";
+import { getForecasts, attachForecasts } from "../services/forecasts";
 import "./Dashboard.css";
 
 type TimeWindowKey = "1W" | "1M" | "3M" | "All";
 type ScaleKey = "linear" | "log";
-type ProphetKey = "timeSage" | "trendOracle" | "marketMind" | "quantumPredictor";
 
 const TIME_WINDOWS: Array<{ id: TimeWindowKey; label: string; days: number | null }> = [
   { id: "1W", label: "1W", days: 7 },
@@ -31,49 +34,22 @@ const SCALE_OPTIONS: Array<{ id: ScaleKey; label: string }> = [
   { id: "log", label: "Log" }
 ];
 
-const PROPHECY_LIBRARY: Record<ProphetKey, { title: string; blurb: string; color: string; emphasis: string }> = {
-  timeSage: {
-    title: "TimeSage AI",
-    blurb: "Temporal neural sentinel tuned for intraday drift and liquidity cues.",
-    color: "#3fe3ce",
-    emphasis: "Leads 8 mins"
-  },
-  trendOracle: {
-    title: "TrendOracle",
-    blurb: "Macro factor ensemble that stabilises medium range conviction.",
-    color: "#3ea8ff",
-    emphasis: "Confidence 82%"
-  },
-  marketMind: {
-    title: "MarketMind",
-    blurb: "Pattern-aware transformer merging news velocity with order flow.",
-    color: "#f973ff",
-    emphasis: "News bias neutral"
-  },
-  quantumPredictor: {
-    title: "QuantumPredictor",
-    blurb: "Quantum-inspired engine scanning volatility clustering regimes.",
-    color: "#ff8a65",
-    emphasis: "Vol floor 14%"
-  }
-};
-
 const MAX_ACTIVE_PROPHETS = 3;
 
-const ASSETS = [
-  {
-    id: "DJIA" as const,
-    name: "Dow Jones Industrial Average",
-    description: "Legacy bellwether for U.S. industrial momentum.",
-    data: DJIA_DATA
-  },
-  {
-    id: "SPX" as const,
-    name: "S&P 500",
-    description: "Wide-market risk proxy with heavy tech skew.",
-    data: SPX_DATA
-  }
-];
+// Prophet overlays use next-session forecasts from the Forecasts table.
+const FORECAST_HORIZON = 1;
+
+// Prices don't depend on forecasts: a failed forecast fetch only drops the prophet overlays.
+async function loadAssetHistory(ticker: string): Promise<PriceData[]> {
+  const pendingForecasts = getForecasts(ticker, undefined, undefined, { horizon: FORECAST_HORIZON })
+    .catch(error => {
+      console.warn(`Forecasts unavailable for ${ticker}:`, error);
+      return [];
+    });
+  const prices = await getAssetPrices(ticker);
+  const forecasts = await pendingForecasts;
+  return forecasts.length ? attachForecasts(prices, forecasts, FORECAST_HORIZON) : prices;
+}
 
 function sliceDataWindow(dataset: PriceData[], window: TimeWindowKey): PriceData[] {
   const config = TIME_WINDOWS.find(entry => entry.id === window);
@@ -150,6 +126,13 @@ function buildTraces(dataset: PriceData[], prophets: ProphetKey[], baselineColor
   return traces;
 }
 
+function describeAsset(asset: AssetMeta | null) {
+  if (!asset) return "";
+  const market = asset.market && asset.market !== "Unknown" ? asset.market : "Tracked asset";
+  const last = typeof asset.lastPrice === "number" ? ` · last ${asset.lastPrice.toFixed(2)}` : "";
+  return `${market} · ${asset.ticker}${last}`;
+}
+
 function formatDelta(value: number, fractionDigits = 2) {
   const formatter = new Intl.NumberFormat("en-US", {
     signDisplay: "exceptZero",
@@ -176,7 +159,10 @@ function formatCompact(value: number) {
 }
 
 export default function Dashboard() {
-  const [activeAssetId, setActiveAssetId] = useState<typeof ASSETS[number]["id"]>("DJIA");
+  const [assets, setAssets] = useState<AssetMeta[]>([]);
+  const [assetsError, setAssetsError] = useState<string | null>(null);
+  const [activeTicker, setActiveTicker] = useState<string | null>(null);
+  const [comparisonTicker, setComparisonTicker] = useState<string | null>(null);
   const [timeWindow, setTimeWindow] = useState<TimeWindowKey>("1M");
   const [scaleType, setScaleType] = useState<ScaleKey>("linear");
   const [selectedProphets, setSelectedProphets] = useState<ProphetKey[]>([
@@ -185,15 +171,62 @@ export default function Dashboard() {
     "marketMind"
   ]);
 
-  const activeAsset = useMemo(() => ASSETS.find(asset => asset.id === activeAssetId) ?? ASSETS[0], [activeAssetId]);
-  const comparisonAsset = useMemo(() => ASSETS.find(asset => asset.id !== activeAssetId) ?? ASSETS[1], [activeAssetId]);
+  useEffect(() => {
+    let isMounted = true;
+    getAllAssets()
+      .then(list => {
+        if (!isMounted) return;
+        const sorted = [...list].sort((a, b) => a.ticker.localeCompare(b.ticker));
+        setAssets(sorted);
+        setActiveTicker(current => current ?? sorted[0]?.ticker ?? null);
+        setComparisonTicker(current => current ?? sorted[1]?.ticker ?? sorted[0]?.ticker ?? null);
+      })
+      .catch(err => {
+        if (!isMounted) return;
+        console.error("Failed to load dashboard assets", err);
+        setAssetsError(err?.message || "Failed to load assets");
+      });
+    return () => {
+      isMounted = false;
+    };
+  }, []);
 
-  const windowedActiveData = useMemo(() => sliceDataWindow(activeAsset.data, timeWindow), [activeAsset.data, timeWindow]);
-  const comparisonData = useMemo(() => sliceDataWindow(comparisonAsset.data, "3M"), [comparisonAsset.data]);
+  const activeAsset = useMemo(() => assets.find(asset => asset.ticker === activeTicker) ?? null, [assets, activeTicker]);
+  const comparisonAsset = useMemo(
+    () => assets.find(asset => asset.ticker === comparisonTicker) ?? null,
+    [assets, comparisonTicker]
+  );
 
-  const sessionChange = useMemo(() => computeSessionChange(activeAsset.data), [activeAsset.data]);
-  const volatility = useMemo(() => computeVolatility(activeAsset.data), [activeAsset.data]);
-  const range = useMemo(() => computeFiftyTwoWeekRange(activeAsset.data), [activeAsset.data]);
+  const [histories, setHistories] = useState<Record<string, PriceData[]>>({});
+
+  useEffect(() => {
+    let isMounted = true;
+    const wanted = [activeTicker, comparisonTicker].filter((ticker): ticker is string => !!ticker);
+    const missing = Array.from(new Set(wanted)).filter(ticker => !histories[ticker]);
+    if (!missing.length) return;
+    Promise.all(missing.map(async ticker => [ticker, await loadAssetHistory(ticker)] as const))
+      .then(entries => {
+        if (!isMounted) return;
+        setHistories(current => ({ ...current, ...Object.fromEntries(entries) }));
+      })
+      .catch(err => console.error("Failed to load dashboard history", err));
+    return () => {
+      isMounted = false;
+    };
+  }, [activeTicker, comparisonTicker, histories]);
+
+  const activeData = useMemo(() => (activeTicker ? histories[activeTicker] ?? [] : []), [histories, activeTicker]);
+  const comparisonHistory = useMemo(
+    () => (comparisonTicker ? histories[comparisonTicker] ?? [] : []),
+    [histories, comparisonTicker]
+  );
+
+  const windowedActiveData = useMemo(() => sliceDataWindow(activeData, timeWindow), [activeData, timeWindow]);
+  const comparisonData = useMemo(() => sliceDataWindow(comparisonHistory, "3M"), [comparisonHistory]);
+
+  const sessionChange = useMemo(() => computeSessionChange(activeData), [activeData]);
+  const volatility = useMemo(() => computeVolatility(activeData), [activeData]);
+  const range = useMemo(() => computeFiftyTwoWeekRange(activeData), [activeData]);
 
   const mainChartData = useMemo(
     () => buildTraces(windowedActiveData, selectedProphets, "#3ea8ff"),
@@ -264,6 +297,12 @@ export default function Dashboard() {
     [sessionChange.pct, selectedProphets.length, volatility]
   );
 
+  // Keep the comparison distinct from the primary asset by swapping the two when they collide.
+  const handleActiveChange = (ticker: string) => {
+    if (ticker === comparisonTicker) setComparisonTicker(activeTicker);
+    setActiveTicker(ticker);
+  };
+
   const handleProphetToggle = (prophet: ProphetKey) => {
     setSelectedProphets(current => {
       if (current.includes(prophet)) {
@@ -282,8 +321,8 @@ export default function Dashboard() {
       <section className="dashboard-hero glass-surface">
         <div className="hero-copy">
           <span className="eyebrow">Night Ops Control</span>
-          <h1>{activeAsset.name}</h1>
-          <p>{activeAsset.description}</p>
+          <h1>{activeAsset?.name ?? (assetsError ? "Assets unavailable" : "Loading assets…")}</h1>
+          <p>{assetsError ?? describeAsset(activeAsset)}</p>
 
           <div className="hero-metrics">
             {heroMetrics.map(metric => (
@@ -300,22 +339,21 @@ export default function Dashboard() {
         </div>
 
         <div className="hero-controls">
-          <div className="pill-group" role="tablist" aria-label="Primary asset">
-            {ASSETS.map(asset => {
-              const active = asset.id === activeAssetId;
-              return (
-                <button
-                  key={asset.id}
-                  type="button"
-                  role="tab"
-                  aria-selected={active}
-                  className={`pill ${active ? "active" : ""}`}
-                  onClick={() => setActiveAssetId(asset.id)}
-                >
-                  <span>{asset.id}</span>
-                </button>
-              );
-            })}
+          <div className="control-group">
+            <span className="control-label">Asset</span>
+            <select
+              className="asset-select"
+              aria-label="Primary asset"
+              value={activeTicker ?? ""}
+              onChange={event => handleActiveChange(event.target.value)}
+              disabled={!assets.length}
+            >
+              {assets.map(asset => (
+                <option key={asset.ticker} value={asset.ticker}>
+                  {asset.ticker} · {asset.name}
+                </option>
+              ))}
+            </select>
           </div>
 
           <div className="control-stack">
@@ -366,7 +404,7 @@ export default function Dashboard() {
             <div className="panel-title">
               <BarChart2 size={18} />
               <div>
-                <h2>{activeAsset.id} Prophecy Blend</h2>
+                <h2>{activeTicker ?? "--"} Prophecy Blend</h2>
                 <span className="panel-subtitle">Close vs active prophets for current window</span>
               </div>
             </div>
@@ -429,12 +467,32 @@ export default function Dashboard() {
       <section className="insights-grid">
         <article className="insight-card glass-surface">
           <header>
-            <h3>{comparisonAsset.id} Pulse</h3>
-            <span>{comparisonAsset.description}</span>
+            <h3>{comparisonTicker ?? "--"} Pulse</h3>
+            <span>{describeAsset(comparisonAsset)}</span>
+            <select
+              className="asset-select compact"
+              aria-label="Comparison asset"
+              value={comparisonTicker ?? ""}
+              onChange={event => setComparisonTicker(event.target.value)}
+              disabled={assets.length < 2}
+            >
+              {assets
+                .filter(asset => asset.ticker !== activeTicker)
+                .map(asset => (
+                  <option key={asset.ticker} value={asset.ticker}>
+                    {asset.ticker} · {asset.name}
+                  </option>
+                ))}
+            </select>
           </header>
           <div className="mini-chart">
             <StockChart data={comparisonChartData} scaleType={scaleType} />
           </div>
+          {activeTicker && comparisonTicker && (
+            <Link className="insight-link" to={`/compare?tickers=${activeTicker},${comparisonTicker}&benchmark=${activeTicker}`}>
+              Compare with {activeTicker} <ArrowUpRight size={14} />
+            </Link>
+          )}
         </article>
 
         <article className="insight-card glass-surface">
@@ -0,0 +1,261 @@
+import React, { useState } from "react";
+import { AlertTriangle, Upload } from "react-feather";
+import {
+  applyPriceImport,
+  importPersists,
+  parsePriceCsv,
+  previewPriceImport,
+  ImportIssue,
+  TickerImportPreview
+} from "../services/priceImport";
+import DataQualityPanel from "../components/admin/DataQualityPanel";
+import "./DataImport.css";
+
+const MAX_ISSUES_SHOWN = 20;
+const MAX_CHANGES_SHOWN = 15;
+
+type LoadedFile = { name: string; text: string };
+
+function formatPrice(value: number) {
+  return value.toLocaleString(undefined, { maximumFractionDigits: 4 });
+}
+
+export default function DataImport() {
+  const [file, setFile] = useState<LoadedFile | null>(null);
+  const [ticker, setTicker] = useState("");
+  const [issues, setIssues] = useState<ImportIssue[]>([]);
+  const [ignoredColumns, setIgnoredColumns] = useState<string[]>([]);
+  const [previews, setPreviews] = useState<TickerImportPreview[] | null>(null);
+  const [overwriteChanged, setOverwriteChanged] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const clearResults = () => {
+    setIssues([]);
+    setIgnoredColumns([]);
+    setPreviews(null);
+    setError(null);
+    setMessage(null);
+  };
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const chosen = event.target.files?.[0];
+    clearResults();
+    setFile(chosen ? { name: chosen.name, text: await chosen.text() } : null);
+  };
+
+  const runPreview = async (source: LoadedFile) => {
+    const parsed = parsePriceCsv(source.text, { defaultTicker: ticker });
+    setIssues(parsed.errors);
+    setIgnoredColumns(parsed.ignoredColumns);
+    setPreviews(parsed.rows.length ? await previewPriceImport(parsed.rows) : []);
+  };
+
+  const handlePreview = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!file) return;
+    clearResults();
+    setBusy(true);
+    try {
+      await runPreview(file);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to compare with stored prices.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!file || !previews) return;
+    setBusy(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const written = await applyPriceImport(previews, overwriteChanged);
+      // Re-diff so the summary reflects what is now stored
+      await runPreview(file);
+      setMessage(`Imported ${written.toLocaleString()} bar${written === 1 ? "" : "s"} from ${file.name}.`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Import failed.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const totals = (previews || []).reduce(
+    (sum, p) => ({ added: sum.added + p.added.length, changed: sum.changed + p.changed.length, unchanged: sum.unchanged + p.unchanged }),
+    { added: 0, changed: 0, unchanged: 0 }
+  );
+  const toWrite = totals.added + (overwriteChanged ? totals.changed : 0);
+  const changes = (previews || []).flatMap(p => p.changed).slice(0, MAX_CHANGES_SHOWN);
+  const fileLevel = issues.filter(issue => issue.line === 0);
+  const rowIssues = issues.filter(issue => issue.line > 0);
+
+  return (
+    <div className="import-screen">
+      <section className="import-panel glass-surface">
+        <header className="panel-header">
+          <div>
+            <h2>Price Import</h2>
+            <p>
+              Load OHLCV bars from a CSV file. Columns are matched by name (Date, Open, High, Low, Close,
+              Volume, an optional Ticker or Symbol and an optional Interval for intraday bars, which need
+              ISO timestamps); Excel sheets can be saved as CSV first.
+            </p>
+          </div>
+        </header>
+
+        {!importPersists && (
+          <p className="import-note">
+            <AlertTriangle size={14} /> No API server is configured: imported bars last until the page reloads.
+          </p>
+        )}
+
+        <form className="import-form" onSubmit={handlePreview}>
+          <label className="form-field" htmlFor="import-file">
+            CSV File
+            <input id="import-file" type="file" accept=".csv,.txt,text/csv" onChange={handleFile} />
+          </label>
+          <label className="form-field" htmlFor="import-ticker">
+            Ticker (for files without a ticker column)
+            <input
+              id="import-ticker"
+              type="text"
+              placeholder="e.g. AAPL"
+              value={ticker}
+              onChange={event => {
+                setTicker(event.target.value);
+                clearResults();
+              }}
+            />
+          </label>
+          <button className="ghost-btn" type="submit" disabled={!file || busy}>
+            {busy && !previews ? "Comparing…" : "Preview"}
+          </button>
+        </form>
+
+        {error && <p className="form-message error" role="alert">{error}</p>}
+        {message && <p className="form-message success">{message}</p>}
+
+        {fileLevel.map(issue => (
+          <p key={issue.message} className="form-message error">{issue.message}</p>
+        ))}
+
+        {rowIssues.length > 0 && (
+          <div className="import-issues">
+            <h3>
+              {rowIssues.length.toLocaleString()} row{rowIssues.length === 1 ? "" : "s"} will be skipped
+            </h3>
+            <ul>
+              {rowIssues.slice(0, MAX_ISSUES_SHOWN).map(issue => (
+                <li key={issue.line}>
+                  <span className="import-line">Line {issue.line}</span> {issue.message}
+                </li>
+              ))}
+            </ul>
+            {rowIssues.length > MAX_ISSUES_SHOWN && (
+              <p className="import-hint">…and {(rowIssues.length - MAX_ISSUES_SHOWN).toLocaleString()} more.</p>
+            )}
+          </div>
+        )}
+
+        {ignoredColumns.length > 0 && (
+          <p className="import-hint">Ignored columns: {ignoredColumns.join(", ")}</p>
+        )}
+
+        {previews && previews.length > 0 && (
+          <>
+            <table className="score-table import-table">
+              <thead>
+                <tr>
+                  <th>Ticker</th>
+                  <th>Dates</th>
+                  <th>New</th>
+                  <th>Changed</th>
+                  <th>Unchanged</th>
+                </tr>
+              </thead>
+              <tbody>
+                {previews.map(preview => (
+                  <tr key={`${preview.ticker}#${preview.interval}`}>
+                    <td>
+                      {preview.ticker}
+                      {preview.interval !== "1d" && ` (${preview.interval})`}
+                      {!preview.knownAsset && <span className="import-badge">Not in asset list</span>}
+                    </td>
+                    <td>{preview.firstDate} → {preview.lastDate}</td>
+                    <td className={preview.added.length ? "active" : ""}>{preview.added.length.toLocaleString()}</td>
+                    <td>{preview.changed.length.toLocaleString()}</td>
+                    <td>{preview.unchanged.toLocaleString()}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            {changes.length > 0 && (
+              <div className="import-changes">
+                <h3>Bars that differ from stored prices</h3>
+                <table className="score-table import-table">
+                  <thead>
+                    <tr>
+                      <th>Ticker</th>
+                      <th>Date</th>
+                      <th>Stored O / H / L / C</th>
+                      <th>File O / H / L / C</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {changes.map(({ row, previous }) => (
+                      <tr key={`${row.ticker}|${row.date}`}>
+                        <td>{row.ticker}</td>
+                        <td>{row.date}</td>
+                        <td>{[previous.open, previous.high, previous.low, previous.close].map(formatPrice).join(" / ")}</td>
+                        <td>{[row.open, row.high, row.low, row.close].map(formatPrice).join(" / ")}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                {totals.changed > changes.length && (
+                  <p className="import-hint">Showing {changes.length} of {totals.changed.toLocaleString()} changed bars.</p>
+                )}
+              </div>
+            )}
+
+            <div className="import-actions">
+              <label className="import-checkbox">
+                <input
+                  type="checkbox"
+                  checked={overwriteChanged}
+                  disabled={!totals.changed}
+                  onChange={event => setOverwriteChanged(event.target.checked)}
+                />
+                Overwrite the {totals.changed.toLocaleString()} changed bar{totals.changed === 1 ? "" : "s"}
+              </label>
+              <button className="primary-button" type="button" onClick={handleImport} disabled={busy || !toWrite}>
+                <Upload size={14} /> {busy ? "Importing…" : `Import ${toWrite.toLocaleString()} bar${toWrite === 1 ? "" : "s"}`}
+              </button>
+            </div>
+          </>
+        )}
+
+        {previews && previews.length === 0 && !fileLevel.length && (
+          <div className="empty-state">No valid rows in {file?.name}.</div>
+        )}
+      </section>
+
+      <section className="import-panel glass-surface">
+        <header className="panel-header">
+          <div>
+            <h2>Data Quality</h2>
+            <p>
+              Check a ticker's stored history against the NYSE calendar: sessions without a bar, bars on closed days,
+              duplicate dates and bars that look wrong (high below low, no volume, outsized jumps).
+            </p>
+          </div>
+        </header>
+        <DataQualityPanel />
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,199 @@
+import React, { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { RefreshCw } from "react-feather";
+import { useAuth } from "../context/AuthContext";
+import NotificationIcon from "../components/notifications/NotificationIcon";
+import {
+  getNotificationsPage,
+  setNotificationChecked,
+  notificationCategory,
+  notificationLink,
+  Notification,
+  NotificationCategory,
+  NotificationCursor,
+  NotificationStatus,
+  NOTIFICATION_CATEGORIES
+} from "../services/notifications";
+import "./Notifications.css";
+
+const PAGE_SIZE = 20;
+
+const STATUS_OPTIONS: Array<{ id: NotificationStatus; label: string }> = [
+  { id: "all", label: "All" },
+  { id: "unread", label: "Unread" },
+  { id: "read", label: "Read" }
+];
+
+const CATEGORY_LABELS: Record<NotificationCategory, string> = {
+  alert: "Alerts",
+  system: "System",
+  analysis: "Analysis"
+};
+
+function formatTimestamp(value?: string) {
+  if (!value) return "";
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) return value;
+  return date.toLocaleString();
+}
+
+export default function Notifications() {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const [status, setStatus] = useState<NotificationStatus>("all");
+  const [category, setCategory] = useState<NotificationCategory | null>(null);
+  const [items, setItems] = useState<Notification[]>([]);
+  const [cursor, setCursor] = useState<NotificationCursor>({});
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const userIds = user ? [user.username, user.email].filter(Boolean) : [];
+  const idsKey = userIds.join("|");
+
+  async function loadPage(reset: boolean) {
+    if (!userIds.length) return;
+    setLoading(true);
+    try {
+      const page = await getNotificationsPage(userIds, {
+        status,
+        category: category ?? undefined,
+        limit: PAGE_SIZE,
+        cursor: reset ? {} : cursor
+      });
+      setItems(current => (reset ? page.items : [...current, ...page.items]));
+      setCursor(page.cursor);
+      setHasMore(page.hasMore);
+      setError(null);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : "Failed to load notifications");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    loadPage(true);
+  }, [idsKey, status, category]);
+
+  async function toggleRead(n: Notification) {
+    const checked = !n.checked;
+    try {
+      await setNotificationChecked(n.userId, n.notificationId, checked);
+      // drop items that no longer match the active status filter
+      setItems(current =>
+        current
+          .map(item => (item.notificationId === n.notificationId && item.userId === n.userId ? { ...item, checked } : item))
+          .filter(item => status === "all" || (status === "read") === !!item.checked)
+      );
+    } catch (err) {
+      console.error("Failed to update notification", err);
+    }
+  }
+
+  async function openLink(n: Notification) {
+    const link = notificationLink(n);
+    if (!link) return;
+    if (!n.checked) {
+      try {
+        await setNotificationChecked(n.userId, n.notificationId, true);
+      } catch (err) {
+        console.error("Failed to mark notification read", err);
+      }
+    }
+    navigate(link);
+  }
+
+  return (
+    <div className="notifications-screen">
+      <section className="notifications-panel glass-surface">
+        <header className="panel-header">
+          <div>
+            <h2>Notifications</h2>
+            <p>Alerts from your rules, analysis drops and platform notices.</p>
+          </div>
+          <div className="notifications-filters">
+            <div className="pill-group" role="group" aria-label="Read status">
+              {STATUS_OPTIONS.map(option => (
+                <button
+                  key={option.id}
+                  type="button"
+                  className={`pill ${option.id === status ? "active" : ""}`}
+                  onClick={() => setStatus(option.id)}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+            <div className="pill-group" role="group" aria-label="Category">
+              <button
+                type="button"
+                className={`pill ${category === null ? "active" : ""}`}
+                onClick={() => setCategory(null)}
+              >
+                Every type
+              </button>
+              {NOTIFICATION_CATEGORIES.map(key => (
+                <button
+                  key={key}
+                  type="button"
+                  className={`pill ${key === category ? "active" : ""}`}
+                  onClick={() => setCategory(key)}
+                >
+                  {CATEGORY_LABELS[key]}
+                </button>
+              ))}
+            </div>
+          </div>
+        </header>
+
+        {error ? (
+          <div className="empty-state">{error}</div>
+        ) : !loading && items.length === 0 ? (
+          <div className="empty-state">No notifications match these filters.</div>
+        ) : (
+          <ul className="notification-center-list">
+            {items.map(n => {
+              const kind = notificationCategory(n);
+              const link = notificationLink(n);
+              return (
+                <li key={`${n.userId}#${n.notificationId}`} className={`notification-row ${n.checked ? "" : "unread"}`}>
+                  <NotificationIcon category={kind} />
+                  <div className="notification-body">
+                    <span className="notification-message">{n.message}</span>
+                    <span className="notification-meta">
+                      {CATEGORY_LABELS[kind]} · {formatTimestamp(n.createdAt)}
+                    </span>
+                  </div>
+                  <div className="notification-actions">
+                    {link && (
+                      <button type="button" className="ghost-btn" onClick={() => openLink(n)}>
+                        {n.ticker ? `Open ${n.ticker}` : "Open"}
+                      </button>
+                    )}
+                    <button type="button" className="link-btn" onClick={() => toggleRead(n)}>
+                      {n.checked ? "Mark unread" : "Mark read"}
+                    </button>
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+
+        {loading && (
+          <div className="loading-state">
+            <RefreshCw className="spin" size={18} />
+            <span>Loading notifications…</span>
+          </div>
+        )}
+
+        {!loading && hasMore && items.length > 0 && (
+          <button type="button" className="ghost-btn load-more" onClick={() => loadPage(false)}>
+            Load more
+          </button>
+        )}
+      </section>
+    </div>
+  );
+}
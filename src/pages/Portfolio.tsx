@@ -0,0 +1,340 @@
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import { Link } from "react-router-dom";
+import { RefreshCw, Trash2 } from "react-feather";
+import type { Data, Layout } from "plotly.js";
+import PlotlyChart from "../components/charts/PlotlyChart";
+import TransactionForm from "../components/portfolio/TransactionForm";
+import TransactionImport from "../components/portfolio/TransactionImport";
+import PortfolioRisk from "../components/portfolio/PortfolioRisk";
+import { useAuth } from "../context/AuthContext";
+import {
+  addTransactions,
+  deleteTransaction,
+  equityCurve,
+  getPortfolioPrices,
+  getTransactions,
+  replayLedger,
+  valuePositions
+} from "../services/portfolio";
+import type { PortfolioTransaction, TransactionInput } from "../types/portfolio";
+import type { PriceData } from "../types/price";
+import "./Portfolio.css";
+
+type EntryMode = "single" | "import";
+
+const PIE_COLORS = ["#3ea8ff", "#f97316", "#22c55e", "#a855f7", "#ef4444", "#14b8a6", "#eab308", "#64748b"];
+
+const CURVE_LAYOUT: Partial<Layout> = {
+  showlegend: true,
+  legend: { orientation: "h", y: -0.15 },
+  yaxis: { title: { text: "Value" } }
+};
+
+const PIE_LAYOUT: Partial<Layout> = {
+  showlegend: true,
+  legend: { orientation: "v" },
+  margin: { t: 10, r: 10, l: 10, b: 10 }
+};
+
+function formatMoney(value: number | null) {
+  if (value === null || !Number.isFinite(value)) return "--";
+  return value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+}
+
+function formatSigned(value: number | null) {
+  if (value === null || !Number.isFinite(value)) return "--";
+  return `${value >= 0 ? "+" : ""}${formatMoney(value)}`;
+}
+
+function signClass(value: number | null) {
+  if (value === null || value === 0) return "";
+  return value > 0 ? "positive" : "negative";
+}
+
+function describeTransaction(tx: PortfolioTransaction) {
+  switch (tx.type) {
+    case "buy":
+    case "sell":
+      return `${tx.quantity?.toLocaleString()} @ ${formatMoney(tx.price ?? null)}`;
+    case "dividend":
+      return formatMoney(tx.amount ?? null);
+    case "split":
+      return tx.ratio && tx.ratio < 1 ? `1-for-${+(1 / tx.ratio).toFixed(4)}` : `${tx.ratio}-for-1`;
+  }
+}
+
+export default function Portfolio() {
+  const { user } = useAuth();
+  const userId = user?.username;
+  const [transactions, setTransactions] = useState<PortfolioTransaction[]>([]);
+  const [histories, setHistories] = useState<Record<string, PriceData[]>>({});
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [entryMode, setEntryMode] = useState<EntryMode>("single");
+
+  const reload = useCallback(async () => {
+    if (!userId) return;
+    setLoading(true);
+    try {
+      const ledger = await getTransactions(userId);
+      const tickers = Array.from(new Set(ledger.map(tx => tx.ticker)));
+      setHistories(await getPortfolioPrices(tickers));
+      setTransactions(ledger);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load the portfolio.");
+    } finally {
+      setLoading(false);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  const positions = useMemo(() => valuePositions(replayLedger(transactions).holdings, histories), [transactions, histories]);
+  const curve = useMemo(() => equityCurve(transactions, histories), [transactions, histories]);
+  const open = useMemo(() => positions.filter(position => position.shares > 0), [positions]);
+  const holdings = useMemo(() => Object.fromEntries(open.map(p => [p.ticker, p.shares])), [open]);
+
+  const totals = useMemo(() => positions.reduce(
+    (sum, p) => ({
+      marketValue: sum.marketValue + (p.marketValue ?? 0),
+      costBasis: sum.costBasis + p.costBasis,
+      unrealized: sum.unrealized + (p.unrealizedPnl ?? 0),
+      realized: sum.realized + p.realizedPnl,
+      dividends: sum.dividends + p.dividends
+    }),
+    { marketValue: 0, costBasis: 0, unrealized: 0, realized: 0, dividends: 0 }
+  ), [positions]);
+
+  const allocation = useMemo<Data[]>(() => [{
+    type: "pie",
+    labels: open.map(p => p.ticker),
+    values: open.map(p => p.marketValue ?? 0),
+    hole: 0.45,
+    sort: false,
+    marker: { colors: open.map((_, i) => PIE_COLORS[i % PIE_COLORS.length]) },
+    textinfo: "label+percent",
+    hovertemplate: "%{label}<br>%{value:,.2f} (%{percent})<extra></extra>"
+  }], [open]);
+
+  const curveData = useMemo<Data[]>(() => [
+    {
+      x: curve.dates,
+      y: curve.marketValue,
+      type: "scatter",
+      mode: "lines",
+      name: "Market value",
+      line: { color: "#3ea8ff", width: 2 }
+    },
+    {
+      x: curve.dates,
+      y: curve.costBasis,
+      type: "scatter",
+      mode: "lines",
+      name: "Cost basis",
+      line: { color: "#94a3b8", width: 1.5, dash: "dot" }
+    }
+  ], [curve]);
+
+  const handleAdd = async (input: TransactionInput) => {
+    if (!userId) return;
+    await addTransactions(userId, [input]);
+    await reload();
+  };
+
+  const handleImport = async (inputs: TransactionInput[]) => {
+    if (!userId) return 0;
+    const written = await addTransactions(userId, inputs);
+    await reload();
+    return written;
+  };
+
+  const handleDelete = async (tx: PortfolioTransaction) => {
+    if (!userId || !window.confirm(`Delete this ${tx.type} of ${tx.ticker} on ${tx.date}?`)) return;
+    try {
+      await deleteTransaction(userId, tx.transactionId);
+      await reload();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to delete the transaction.");
+    }
+  };
+
+  const stats = [
+    { label: "Market Value", value: formatMoney(totals.marketValue), tone: "" },
+    { label: "Cost Basis", value: formatMoney(totals.costBasis), tone: "" },
+    { label: "Unrealized P&L", value: formatSigned(totals.unrealized), tone: signClass(totals.unrealized) },
+    { label: "Realized P&L", value: formatSigned(totals.realized), tone: signClass(totals.realized) },
+    { label: "Dividends", value: formatMoney(totals.dividends), tone: "" }
+  ];
+
+  return (
+    <div className="portfolio-screen">
+      <section className="portfolio-panel glass-surface">
+        <header className="panel-header">
+          <div>
+            <h2>Portfolio</h2>
+            <p>Positions replayed from your transactions and valued at the latest close. Cost basis uses average cost.</p>
+          </div>
+          <button className="ghost-btn" type="button" onClick={reload} disabled={loading}>
+            <RefreshCw size={14} className={loading ? "spin" : ""} /> Refresh
+          </button>
+        </header>
+
+        {error && <p className="form-message error" role="alert">{error}</p>}
+
+        <div className="portfolio-stats">
+          {stats.map(stat => (
+            <div key={stat.label} className="portfolio-stat">
+              <span>{stat.label}</span>
+              <strong className={stat.tone}>{stat.value}</strong>
+            </div>
+          ))}
+        </div>
+
+        {loading && !transactions.length && (
+          <div className="loading-state">
+            <RefreshCw className="spin" size={18} />
+            <span>Loading portfolio…</span>
+          </div>
+        )}
+        {!loading && !transactions.length && (
+          <div className="empty-state">No transactions yet. Add one below or import a CSV from your broker.</div>
+        )}
+
+        {positions.length > 0 && (
+          <table className="score-table portfolio-table">
+            <thead>
+              <tr>
+                <th>Ticker</th>
+                <th>Shares</th>
+                <th>Avg Cost</th>
+                <th>Last Close</th>
+                <th>Market Value</th>
+                <th>Unrealized</th>
+                <th>Realized</th>
+                <th>Dividends</th>
+                <th>Weight</th>
+              </tr>
+            </thead>
+            <tbody>
+              {positions.map(p => (
+                <tr key={p.ticker} className={p.shares > 0 ? "" : "closed"}>
+                  <td><Link to={`/assets/${p.ticker}`}>{p.ticker}</Link></td>
+                  <td>{+p.shares.toFixed(6)}</td>
+                  <td>{p.shares > 0 ? formatMoney(p.costBasis / p.shares) : "--"}</td>
+                  <td title={p.lastDate ?? undefined}>{formatMoney(p.lastClose)}</td>
+                  <td>{formatMoney(p.marketValue)}</td>
+                  <td className={signClass(p.unrealizedPnl)}>
+                    {formatSigned(p.unrealizedPnl)}
+                    {p.unrealizedPnl !== null && p.costBasis > 0 && (
+                      <span className="portfolio-pct"> ({((p.unrealizedPnl / p.costBasis) * 100).toFixed(1)}%)</span>
+                    )}
+                  </td>
+                  <td className={signClass(p.realizedPnl)}>{formatSigned(p.realizedPnl)}</td>
+                  <td>{formatMoney(p.dividends)}</td>
+                  <td>
+                    {totals.marketValue > 0 && p.marketValue ? `${((p.marketValue / totals.marketValue) * 100).toFixed(1)}%` : "--"}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+
+        {curve.dates.length > 1 && (
+          <div className="portfolio-charts">
+            <div className="portfolio-chart">
+              <h3>Equity Curve</h3>
+              <PlotlyChart data={curveData} layout={CURVE_LAYOUT} height={320} />
+            </div>
+            {open.length > 0 && (
+              <div className="portfolio-chart">
+                <h3>Allocation</h3>
+                <PlotlyChart data={allocation} layout={PIE_LAYOUT} height={320} />
+              </div>
+            )}
+          </div>
+        )}
+      </section>
+
+      {open.length > 0 && (
+        <section className="portfolio-panel glass-surface">
+          <header className="panel-header">
+            <div>
+              <h2>Risk</h2>
+              <p>Value-at-Risk, beta, contribution to volatility and the deepest drawdowns of the current holdings.</p>
+            </div>
+          </header>
+          <PortfolioRisk holdings={holdings} histories={histories} marketValue={totals.marketValue} />
+        </section>
+      )}
+
+      <section className="portfolio-panel glass-surface">
+        <header className="panel-header">
+          <div>
+            <h2>Transactions</h2>
+            <p>Buys, sells, dividends and splits. A sell can never exceed the shares held on its date.</p>
+          </div>
+          <div className="pill-group" role="group" aria-label="Entry mode">
+            <button
+              type="button"
+              className={`pill ${entryMode === "single" ? "active" : ""}`}
+              onClick={() => setEntryMode("single")}
+            >
+              Add
+            </button>
+            <button
+              type="button"
+              className={`pill ${entryMode === "import" ? "active" : ""}`}
+              onClick={() => setEntryMode("import")}
+            >
+              Import CSV
+            </button>
+          </div>
+        </header>
+
+        {entryMode === "single" ? <TransactionForm onAdd={handleAdd} /> : <TransactionImport onImport={handleImport} />}
+
+        {transactions.length > 0 && (
+          <table className="score-table portfolio-table">
+            <thead>
+              <tr>
+                <th>Date</th>
+                <th>Type</th>
+                <th>Ticker</th>
+                <th>Details</th>
+                <th>Fees</th>
+                <th>Note</th>
+                <th />
+              </tr>
+            </thead>
+            <tbody>
+              {[...transactions].reverse().map(tx => (
+                <tr key={tx.transactionId}>
+                  <td>{tx.date}</td>
+                  <td><span className={`portfolio-type ${tx.type}`}>{tx.type}</span></td>
+                  <td>{tx.ticker}</td>
+                  <td>{describeTransaction(tx)}</td>
+                  <td>{tx.fees ? formatMoney(tx.fees) : ""}</td>
+                  <td className="portfolio-note">{tx.note}</td>
+                  <td>
+                    <button
+                      className="portfolio-delete"
+                      type="button"
+                      aria-label={`Delete ${tx.type} of ${tx.ticker} on ${tx.date}`}
+                      onClick={() => handleDelete(tx)}
+                    >
+                      <Trash2 size={14} />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </section>
+    </div>
+  );
+}
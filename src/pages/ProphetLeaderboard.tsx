@@ -0,0 +1,269 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Award, Target, Crosshair, RefreshCw } from "react-feather";
+import { getAllAssets, getAssetPrices } from "../services/assets";
+import { getForecasts, attachForecasts } from "../services/forecasts";
+import { PROPHECY_LIBRARY } from "../constants/prophetData";
+import {
+  scoreProphets,
+  buildLeaderboard,
+  sortScores,
+  ProphetScore,
+  ScoreMetric,
+  SCORE_METRICS
+} from "../lib/prophetScores";
+import type { PriceData } from "../types/price";
+import "./ProphetLeaderboard.css";
+
+type WindowKey = "1M" | "3M" | "6M" | "1Y" | "All";
+
+// Windows are counted in trading sessions, matching the bars the prophets forecast.
+const WINDOWS: Array<{ id: WindowKey; bars: number | undefined }> = [
+  { id: "1M", bars: 21 },
+  { id: "3M", bars: 63 },
+  { id: "6M", bars: 126 },
+  { id: "1Y", bars: 252 },
+  { id: "All", bars: undefined }
+];
+
+function formatMetric(metric: ScoreMetric, value: number) {
+  if (metric === "mape" || metric === "hitRate") return `${value.toFixed(2)}%`;
+  if (metric === "bias") return `${value >= 0 ? "+" : ""}${value.toFixed(2)}`;
+  return value.toFixed(2);
+}
+
+export default function ProphetLeaderboard() {
+  const [history, setHistory] = useState<Record<string, PriceData[]>>({});
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [windowKey, setWindowKey] = useState<WindowKey>("3M");
+  const [metric, setMetric] = useState<ScoreMetric>("mape");
+  const [selectedTicker, setSelectedTicker] = useState<string | null>(null);
+  const navigate = useNavigate();
+
+  useEffect(() => {
+    let isMounted = true;
+    async function loadHistory() {
+      try {
+        const assets = await getAllAssets();
+        const entries = await Promise.all(
+          assets.map(async asset => {
+            const [prices, forecasts] = await Promise.all([
+              getAssetPrices(asset.ticker),
+              getForecasts(asset.ticker, undefined, undefined, { horizon: 1 })
+            ]);
+            return [asset.ticker, attachForecasts(prices, forecasts)] as const;
+          })
+        );
+        if (!isMounted) return;
+        setHistory(Object.fromEntries(entries));
+        setLoading(false);
+      } catch (err: any) {
+        if (!isMounted) return;
+        setError(err?.message || "Failed to load forecast history");
+        setLoading(false);
+      }
+    }
+    loadHistory();
+    return () => {
+      isMounted = false;
+    };
+  }, []);
+
+  const bars = WINDOWS.find(w => w.id === windowKey)?.bars;
+
+  const tickerScores = useMemo(() => {
+    const all: ProphetScore[] = [];
+    Object.entries(history).forEach(([ticker, prices]) => {
+      all.push(...scoreProphets(ticker, prices, bars));
+    });
+    return all;
+  }, [history, bars]);
+
+  const leaderboard = useMemo(() => buildLeaderboard(tickerScores, metric), [tickerScores, metric]);
+
+  const scoredTickers = useMemo(
+    () => Array.from(new Set(tickerScores.map(s => s.ticker))).sort(),
+    [tickerScores]
+  );
+
+  const tickerBreakdown = useMemo(() => {
+    if (!selectedTicker) return [];
+    return sortScores(tickerScores.filter(s => s.ticker === selectedTicker), metric);
+  }, [tickerScores, selectedTicker, metric]);
+
+  const leader = leaderboard[0];
+
+  const heroMetrics = [
+    {
+      id: "leader",
+      label: "Current Leader",
+      value: leader ? PROPHECY_LIBRARY[leader.prophet].title : "--",
+      detail: `By ${SCORE_METRICS[metric].label}`,
+      icon: <Award size={16} />
+    },
+    {
+      id: "hit",
+      label: "Best Hit Rate",
+      value: leaderboard.length ? `${Math.max(...leaderboard.map(e => e.hitRate)).toFixed(1)}%` : "--",
+      detail: "Directional",
+      icon: <Target size={16} />
+    },
+    {
+      id: "coverage",
+      label: "Tickers Scored",
+      value: scoredTickers.length,
+      detail: `${windowKey} window`,
+      icon: <Crosshair size={16} />
+    }
+  ];
+
+  return (
+    <div className="leaderboard-screen">
+      <section className="leaderboard-hero glass-surface">
+        <div className="hero-copy">
+          <span className="eyebrow">Prophet Accuracy</span>
+          <h1>Prophet Leaderboard</h1>
+          <p>Every prophet is scored against realised closes: error size, direction calls and systematic bias.</p>
+        </div>
+        <div className="hero-metrics">
+          {heroMetrics.map(item => (
+            <div key={item.id} className="metric-chip positive">
+              <div className="metric-icon">{item.icon}</div>
+              <div className="metric-text">
+                <span className="metric-label">{item.label}</span>
+                <span className="metric-value">{item.value}</span>
+              </div>
+              <span className="metric-delta">{item.detail}</span>
+            </div>
+          ))}
+        </div>
+      </section>
+
+      <section className="leaderboard-panel glass-surface">
+        <header className="panel-header">
+          <div>
+            <h2>Standings</h2>
+            <p>Pooled across all tickers, weighted by the number of scored sessions.</p>
+          </div>
+          <div className="leaderboard-controls">
+            <div className="pill-group" role="group" aria-label="Scoring window">
+              {WINDOWS.map(option => (
+                <button
+                  key={option.id}
+                  type="button"
+                  className={`pill ${option.id === windowKey ? "active" : ""}`}
+                  onClick={() => setWindowKey(option.id)}
+                >
+                  {option.id}
+                </button>
+              ))}
+            </div>
+            <select value={metric} onChange={e => setMetric(e.target.value as ScoreMetric)} className="metric-select">
+              {(Object.keys(SCORE_METRICS) as ScoreMetric[]).map(key => (
+                <option key={key} value={key}>Rank by {SCORE_METRICS[key].label}</option>
+              ))}
+            </select>
+          </div>
+        </header>
+
+        {error ? (
+          <div className="empty-state">{error}</div>
+        ) : loading ? (
+          <div className="loading-state">
+            <RefreshCw className="spin" size={18} />
+            <span>Scoring prophets…</span>
+          </div>
+        ) : leaderboard.length === 0 ? (
+          <div className="empty-state">No prophet forecasts found for the tracked assets in this window.</div>
+        ) : (
+          <table className="score-table">
+            <thead>
+              <tr>
+                <th>#</th>
+                <th>Prophet</th>
+                {(Object.keys(SCORE_METRICS) as ScoreMetric[]).map(key => (
+                  <th key={key} className={key === metric ? "active" : ""}>{SCORE_METRICS[key].label}</th>
+                ))}
+                <th>Sessions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {leaderboard.map((entry, idx) => (
+                <tr key={entry.prophet}>
+                  <td>{idx + 1}</td>
+                  <td>
+                    <span className="prophet-dot" style={{ background: PROPHECY_LIBRARY[entry.prophet].color }} />
+                    {PROPHECY_LIBRARY[entry.prophet].title}
+                  </td>
+                  {(Object.keys(SCORE_METRICS) as ScoreMetric[]).map(key => (
+                    <td key={key} className={key === metric ? "active" : ""}>{formatMetric(key, entry[key])}</td>
+                  ))}
+                  <td>{entry.samples}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </section>
+
+      {scoredTickers.length > 0 && (
+        <section className="leaderboard-panel glass-surface">
+          <header className="panel-header">
+            <div>
+              <h2>By Ticker</h2>
+              <p>Pick a ticker to see how each prophet fared on it alone.</p>
+            </div>
+            <div className="pill-group ticker-pills" role="group" aria-label="Ticker">
+              {scoredTickers.map(ticker => (
+                <button
+                  key={ticker}
+                  type="button"
+                  className={`pill ${ticker === selectedTicker ? "active" : ""}`}
+                  onClick={() => setSelectedTicker(ticker)}
+                >
+                  {ticker}
+                </button>
+              ))}
+            </div>
+          </header>
+
+          {!selectedTicker ? (
+            <div className="empty-state">No ticker selected.</div>
+          ) : (
+            <>
+              <table className="score-table">
+                <thead>
+                  <tr>
+                    <th>Prophet</th>
+                    {(Object.keys(SCORE_METRICS) as ScoreMetric[]).map(key => (
+                      <th key={key} className={key === metric ? "active" : ""}>{SCORE_METRICS[key].label}</th>
+                    ))}
+                    <th>Sessions</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {tickerBreakdown.map(score => (
+                    <tr key={score.prophet}>
+                      <td>
+                        <span className="prophet-dot" style={{ background: PROPHECY_LIBRARY[score.prophet].color }} />
+                        {PROPHECY_LIBRARY[score.prophet].title}
+                      </td>
+                      {(Object.keys(SCORE_METRICS) as ScoreMetric[]).map(key => (
+                        <td key={key} className={key === metric ? "active" : ""}>{formatMetric(key, score[key])}</td>
+                      ))}
+                      <td>{score.samples}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <button className="ghost-btn" type="button" onClick={() => navigate(`/assets/${selectedTicker}`)}>
+                Open {selectedTicker}
+              </button>
+            </>
+          )}
+        </section>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,13 @@
-import React, { useEffect, useMemo, useRef, useState } from "react";
+import React, { useCallback, useEffect, useMemo, useState } from "react";
 import { Moon, Sun } from "react-feather";
 import { useTheme } from "../context/ThemeContext";
+import { useAuth } from "../context/AuthContext";
+import { getAccountStatus } from "../services/account";
+import { cognitoErrorMessage } from "../services/cognito";
+import EmailSettings from "../components/account/EmailSettings";
+import PasswordSettings from "../components/account/PasswordSettings";
+import MfaSettings from "../components/account/MfaSettings";
+import SessionPolicySettings from "../components/account/SessionPolicySettings";
 import "./Settings.css";
 
 type ThemeOption = {
@@ -12,10 +19,9 @@ type ThemeOption = {
 
 export default function Settings() {
   const { theme, setTheme, toggleTheme } = useTheme();
-  const [email, setEmail] = useState<string>("");
-  const [password, setPassword] = useState<string>("");
-  const [status, setStatus] = useState<"idle" | "saved">("idle");
-  const resetTimerRef = useRef<number | null>(null);
+  const { user, refreshUser, can, sessionPolicy } = useAuth();
+  const [account, setAccount] = useState<Awaited<ReturnType<typeof getAccountStatus>> | null>(null);
+  const [accountError, setAccountError] = useState<string | null>(null);
 
   const themeOptions = useMemo<ThemeOption[]>(
     () => [
@@ -37,22 +43,24 @@ export default function Settings() {
     []
   );
 
-  const handleAccountSubmit = (event: React.FormEvent<HTMLFormElement>) => {
-    event.preventDefault();
-    setStatus("saved");
-    if (resetTimerRef.current) {
-      window.clearTimeout(resetTimerRef.current);
+  const loadAccount = useCallback(async () => {
+    try {
+      setAccount(await getAccountStatus());
+      setAccountError(null);
+    } catch (err) {
+      console.error("Failed to load account settings", err);
+      setAccountError(cognitoErrorMessage(err));
     }
-    resetTimerRef.current = window.setTimeout(() => setStatus("idle"), 2200);
-  };
+  }, []);
 
   useEffect(() => {
-    return () => {
-      if (resetTimerRef.current) {
-        window.clearTimeout(resetTimerRef.current);
-      }
-    };
-  }, []);
+    loadAccount();
+  }, [loadAccount]);
+
+  const handleAccountChanged = () => {
+    loadAccount();
+    refreshUser();
+  };
 
   return (
     <div className="settings-page">
@@ -109,47 +117,39 @@ export default function Settings() {
             <p>Update mission-critical contact details and keep your authentication credentials fresh.</p>
           </div>
         </div>
-        <form className="account-form" onSubmit={handleAccountSubmit}>
-          <label className="form-field" htmlFor="settings-email">
-            Email Address
-            <input
-              id="settings-email"
-              type="email"
-              autoComplete="email"
-              placeholder="ops@chasingprophets.ai"
-              value={email}
-              onChange={event => setEmail(event.target.value)}
+        {accountError && <p className="form-message error" role="alert">{accountError}</p>}
+        {!account && !accountError && <p className="account-form-hint">Loading account…</p>}
+        {account && (
+          <div className="account-forms">
+            <EmailSettings
+              key={account.email}
+              currentEmail={account.email}
+              emailVerified={account.emailVerified}
+              onChanged={handleAccountChanged}
             />
-          </label>
-          <label className="form-field" htmlFor="settings-password">
-            New Password
-            <input
-              id="settings-password"
-              type="password"
-              autoComplete="new-password"
-              placeholder="••••••••"
-              value={password}
-              onChange={event => setPassword(event.target.value)}
+            <PasswordSettings />
+            <MfaSettings
+              accountLabel={account.email || user?.username || ""}
+              enabled={account.totpEnabled}
+              onChanged={handleAccountChanged}
             />
-          </label>
-          <div className="form-actions">
-            <button
-              type="button"
-              className="secondary-button"
-              onClick={() => {
-                setEmail("");
-                setPassword("");
-                setStatus("idle");
-              }}
-            >
-              Reset
-            </button>
-            <button className="primary-button" type="submit">
-              {status === "saved" ? "Saved" : "Save Changes"}
-            </button>
           </div>
-        </form>
+        )}
       </section>
+
+      {can("settings:manage") && (
+        <section className="settings-section">
+          <div className="section-heading">
+            <div>
+              <h2>Session Policy</h2>
+              <p>Control how long an idle console stays signed in before operators are logged out.</p>
+            </div>
+          </div>
+          <div className="account-forms">
+            <SessionPolicySettings key={sessionPolicy.updatedAt || "default"} />
+          </div>
+        </section>
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -1,31 +1,135 @@
 import React, { useState } from "react";
-import { useNavigate } from "react-router-dom";
+import { useLocation, useNavigate } from "react-router-dom";
 import { useAuth } from "../../hooks/useAuth";
+import { MfaChallenge } from "../../services/authFlows";
+import { authFlows, cognitoErrorMessage } from "../../services/cognito";
+
+type Mode = "signIn" | "newPassword" | "mfa" | "signUp" | "confirmSignUp" | "forgotPassword" | "resetPassword";
+
+const TITLES: Record<Mode, string> = {
+  signIn: "Sign In",
+  newPassword: "Set a New Password",
+  mfa: "Two-Factor Verification",
+  signUp: "Create an Account",
+  confirmSignUp: "Confirm Your Email",
+  forgotPassword: "Reset Your Password",
+  resetPassword: "Choose a New Password"
+};
+
+const labelStyle: React.CSSProperties = { display: 'block', marginBottom: '5px' };
+const inputStyle: React.CSSProperties = { width: '100%', padding: '8px', borderRadius: '4px', border: '1px solid #ddd' };
+const fieldStyle: React.CSSProperties = { marginBottom: '15px' };
+const linkStyle: React.CSSProperties = {
+  background: 'none',
+  border: 'none',
+  padding: 0,
+  color: '#007bff',
+  cursor: 'pointer',
+  fontSize: '14px'
+};
 
 export default function LoginPage() {
-  const [credentials, setCredentials] = useState({ username: "", password: "", newPassword: "" });
+  const [mode, setMode] = useState<Mode>("signIn");
+  const [form, setForm] = useState({ username: "", email: "", password: "", newPassword: "", code: "" });
+  const [mfaChallenge, setMfaChallenge] = useState<MfaChallenge>("SOFTWARE_TOKEN_MFA");
+  const [destination, setDestination] = useState<string | undefined>();
   const [error, setError] = useState("");
-  const [isNewPasswordRequired, setIsNewPasswordRequired] = useState(false);
+  const [info, setInfo] = useState("");
+  const [busy, setBusy] = useState(false);
   const navigate = useNavigate();
-  const { signIn } = useAuth();
+  const location = useLocation();
+  const { signIn, confirmMfa, sessionNotice } = useAuth();
+  // Set by RedirectToLogin when an expired session or deep link sent us here
+  const from = (location.state as { from?: string } | null)?.from;
+
+  const update = (field: keyof typeof form) => (e: React.ChangeEvent<HTMLInputElement>) =>
+    setForm({ ...form, [field]: e.target.value });
+
+  const switchMode = (next: Mode, message = "") => {
+    setMode(next);
+    setError("");
+    setInfo(message);
+    setForm(current => ({ ...current, code: "", newPassword: next === "newPassword" ? current.newPassword : "" }));
+  };
+
+  // Sign-in can finish, ask for a new password, or ask for an MFA code (possibly after the new password).
+  const afterSignIn = (result: Awaited<ReturnType<typeof signIn>>) => {
+    if (result.step === "done") {
+      navigate(from || "/dashboard", { replace: true });
+    } else if (result.step === "newPasswordRequired") {
+      switchMode("newPassword", "Please set a new password.");
+    } else {
+      setMfaChallenge(result.challenge);
+      setDestination(result.destination);
+      switchMode("mfa");
+    }
+  };
+
+  const handlers: Record<Mode, () => Promise<void>> = {
+    signIn: async () => afterSignIn(await signIn(form.username, form.password)),
+    newPassword: async () => afterSignIn(await signIn(form.username, form.password, form.newPassword)),
+    mfa: async () => afterSignIn(await confirmMfa(form.code)),
+    signUp: async () => {
+      const result = await authFlows.signUp(form.username, form.email, form.password);
+      if (result.confirmed) {
+        switchMode("signIn", "Account created. You can sign in now.");
+      } else {
+        setDestination(result.destination);
+        switchMode("confirmSignUp");
+      }
+    },
+    confirmSignUp: async () => {
+      await authFlows.confirmSignUp(form.username, form.code);
+      switchMode("signIn", "Email confirmed. Sign in with your new account.");
+    },
+    forgotPassword: async () => {
+      const result = await authFlows.forgotPassword(form.username);
+      setDestination(result.destination);
+      switchMode("resetPassword");
+    },
+    resetPassword: async () => {
+      await authFlows.confirmForgotPassword(form.username, form.code, form.newPassword);
+      setForm(current => ({ ...current, password: "" }));
+      switchMode("signIn", "Password reset. Sign in with your new password.");
+    }
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError("");
+    setInfo("");
+    setBusy(true);
     try {
-      await signIn(credentials.username, credentials.password, credentials.newPassword);
-      navigate("/dashboard");
+      await handlers[mode]();
     } catch (err: any) {
-      console.error("Login failed:", err);
-      if (err.code === "NewPasswordRequired") {
-        setIsNewPasswordRequired(true);
-        setError("Please set a new password.");
+      console.error(`${mode} failed:`, err);
+      if (err?.code === "UserNotConfirmedException") {
+        switchMode("confirmSignUp", "Your email isn't confirmed yet. Enter the code we sent you.");
+      } else if (mode === "signIn" || mode === "newPassword") {
+        setError(err?.message || "Invalid credentials. Please try again.");
       } else {
-        setError(err.message || "Invalid credentials. Please try again.");
+        setError(cognitoErrorMessage(err));
       }
+    } finally {
+      setBusy(false);
     }
   };
 
+  const resendSignUpCode = async () => {
+    setError("");
+    try {
+      await authFlows.resendSignUpCode(form.username);
+      setInfo("A new code is on its way.");
+    } catch (err) {
+      setError(cognitoErrorMessage(err));
+    }
+  };
+
+  const notice = info || (mode === "signIn" ? sessionNotice : null);
+  const sentTo = destination ? ` sent to ${destination}` : "";
+  const showUsername = mode === "signIn" || mode === "signUp" || mode === "forgotPassword"
+    || (mode === "confirmSignUp" && !form.username);
+
   return (
     <div style={{
       maxWidth: '400px',
@@ -34,38 +138,79 @@ export default function LoginPage() {
       boxShadow: '0 0 10px rgba(0,0,0,0.1)',
       borderRadius: '8px'
     }}>
-      <h1 style={{textAlign: 'center', marginBottom: '30px'}}>ChasingProphets</h1>
+      <h1 style={{textAlign: 'center', marginBottom: '10px'}}>ChasingProphets</h1>
+      <h2 style={{textAlign: 'center', marginBottom: '25px', fontSize: '18px', fontWeight: 500}}>{TITLES[mode]}</h2>
       <form onSubmit={handleSubmit}>
-        <div style={{marginBottom: '15px'}}>
-          <label style={{display: 'block', marginBottom: '5px'}}>Username</label>
-          <input
-            type="text"
-            value={credentials.username}
-            onChange={(e) => setCredentials({...credentials, username: e.target.value})}
-            style={{width: '100%', padding: '8px', borderRadius: '4px', border: '1px solid #ddd'}}
-          />
-        </div>
-        <div style={{marginBottom: '20px'}}>
-          <label style={{display: 'block', marginBottom: '5px'}}>Password</label>
-          <input
-            type="password"
-            value={credentials.password}
-            onChange={(e) => setCredentials({...credentials, password: e.target.value})}
-            style={{width: '100%', padding: '8px', borderRadius: '4px', border: '1px solid #ddd'}}
-          />
-        </div>
-        {isNewPasswordRequired && (
+        {showUsername && (
+          <div style={fieldStyle}>
+            <label style={labelStyle}>Username</label>
+            <input type="text" autoComplete="username" required value={form.username} onChange={update("username")} style={inputStyle} />
+          </div>
+        )}
+        {mode === "signUp" && (
+          <div style={fieldStyle}>
+            <label style={labelStyle}>Email</label>
+            <input type="email" autoComplete="email" required value={form.email} onChange={update("email")} style={inputStyle} />
+          </div>
+        )}
+        {(mode === "signIn" || mode === "signUp") && (
+          <div style={{marginBottom: '20px'}}>
+            <label style={labelStyle}>Password</label>
+            <input
+              type="password"
+              autoComplete={mode === "signUp" ? "new-password" : "current-password"}
+              required
+              value={form.password}
+              onChange={update("password")}
+              style={inputStyle}
+            />
+          </div>
+        )}
+        {(mode === "mfa" || mode === "confirmSignUp" || mode === "resetPassword") && (
+          <div style={fieldStyle}>
+            <label style={labelStyle}>
+              {mode === "mfa" && mfaChallenge === "SOFTWARE_TOKEN_MFA"
+                ? "Code from your authenticator app"
+                : `Verification code${sentTo}`}
+            </label>
+            <input
+              type="text"
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              autoFocus
+              required
+              value={form.code}
+              onChange={update("code")}
+              style={inputStyle}
+            />
+          </div>
+        )}
+        {(mode === "newPassword" || mode === "resetPassword") && (
           <div style={{marginBottom: '20px'}}>
-            <label style={{display: 'block', marginBottom: '5px'}}>New Password</label>
+            <label style={labelStyle}>New Password</label>
             <input
               type="password"
-              value={credentials.newPassword}
-              onChange={(e) => setCredentials({...credentials, newPassword: e.target.value})}
-              style={{width: '100%', padding: '8px', borderRadius: '4px', border: '1px solid #ddd'}}
+              autoComplete="new-password"
+              required
+              value={form.newPassword}
+              onChange={update("newPassword")}
+              style={inputStyle}
               placeholder="Enter your new password"
             />
           </div>
         )}
+        {notice && !error && (
+          <div style={{
+            color: info ? '#1b5e20' : '#8a5a00',
+            marginBottom: '15px',
+            textAlign: 'center',
+            padding: '8px',
+            backgroundColor: info ? '#e8f5e9' : '#fff8e1',
+            borderRadius: '4px'
+          }}>
+            {notice}
+          </div>
+        )}
         {error && (
           <div style={{
             color: 'red',
@@ -78,8 +223,9 @@ export default function LoginPage() {
             {error}
           </div>
         )}
-        <button 
+        <button
           type="submit"
+          disabled={busy}
           style={{
             width: '100%',
             padding: '10px',
@@ -87,12 +233,33 @@ export default function LoginPage() {
             color: 'white',
             border: 'none',
             borderRadius: '4px',
-            cursor: 'pointer'
+            cursor: busy ? 'wait' : 'pointer',
+            opacity: busy ? 0.7 : 1
           }}
         >
-          Sign In
+          {mode === "signIn" ? "Sign In"
+            : mode === "signUp" ? "Create Account"
+            : mode === "forgotPassword" ? "Send Reset Code"
+            : mode === "newPassword" || mode === "resetPassword" ? "Set Password"
+            : "Verify"}
         </button>
       </form>
+
+      <div style={{display: 'flex', justifyContent: 'space-between', marginTop: '15px', gap: '10px'}}>
+        {mode === "signIn" ? (
+          <>
+            <button type="button" style={linkStyle} onClick={() => switchMode("forgotPassword")}>Forgot password?</button>
+            <button type="button" style={linkStyle} onClick={() => switchMode("signUp")}>Create an account</button>
+          </>
+        ) : (
+          <>
+            <button type="button" style={linkStyle} onClick={() => switchMode("signIn")}>Back to sign in</button>
+            {mode === "confirmSignUp" && (
+              <button type="button" style={linkStyle} onClick={resendSignUpCode}>Resend code</button>
+            )}
+          </>
+        )}
+      </div>
     </div>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,82 @@
+import { getAuthenticatedUser } from './cognito';
+
+// Promise wrappers over the callback-style Cognito account APIs used by Settings. Errors are
+// passed through untouched; format them with cognitoErrorMessage for display.
+
+export const TOTP_ISSUER = 'ChasingProphets';
+
+export async function changePassword(currentPassword: string, newPassword: string): Promise<void> {
+  const cognitoUser = await getAuthenticatedUser();
+  await new Promise<void>((resolve, reject) => {
+    cognitoUser.changePassword(currentPassword, newPassword, err => (err ? reject(err) : resolve()));
+  });
+}
+
+// Cognito marks the new address unverified and emails a code; confirm it with verifyEmail.
+export async function updateEmail(email: string): Promise<void> {
+  const cognitoUser = await getAuthenticatedUser();
+  await new Promise<void>((resolve, reject) => {
+    cognitoUser.updateAttributes([{ Name: 'email', Value: email.trim() }], err => (err ? reject(err) : resolve()));
+  });
+}
+
+export async function verifyEmail(code: string): Promise<void> {
+  const cognitoUser = await getAuthenticatedUser();
+  await new Promise<void>((resolve, reject) => {
+    cognitoUser.verifyAttribute('email', code.trim(), { onSuccess: () => resolve(), onFailure: reject });
+  });
+}
+
+export async function resendEmailCode(): Promise<void> {
+  const cognitoUser = await getAuthenticatedUser();
+  await new Promise<void>((resolve, reject) => {
+    cognitoUser.getAttributeVerificationCode('email', { onSuccess: () => resolve(), onFailure: reject });
+  });
+}
+
+export async function getAccountStatus(): Promise<{ email: string; emailVerified: boolean; totpEnabled: boolean }> {
+  const cognitoUser = await getAuthenticatedUser();
+  return new Promise((resolve, reject) => {
+    // bypassCache so MFA changes made a moment ago are reflected
+    cognitoUser.getUserData((err, data) => {
+      if (err || !data) {
+        reject(err || new Error('No user data returned'));
+        return;
+      }
+      const attr = (name: string) => data.UserAttributes.find(a => a.Name === name)?.Value || '';
+      resolve({
+        email: attr('email'),
+        emailVerified: attr('email_verified') === 'true',
+        totpEnabled: (data.UserMFASettingList || []).includes('SOFTWARE_TOKEN_MFA')
+      });
+    }, { bypassCache: true });
+  });
+}
+
+// Starts TOTP enrolment. Returns the shared secret and an otpauth:// URI for the QR code.
+export async function beginTotpSetup(accountLabel: string): Promise<{ secret: string; uri: string }> {
+  const cognitoUser = await getAuthenticatedUser();
+  const secret = await new Promise<string>((resolve, reject) => {
+    cognitoUser.associateSoftwareToken({ associateSecretCode: resolve, onFailure: reject });
+  });
+  const label = encodeURIComponent(`${TOTP_ISSUER}:${accountLabel}`);
+  return { secret, uri: `otpauth://totp/${label}?secret=${secret}&issuer=${TOTP_ISSUER}` };
+}
+
+// Verifies the first code from the authenticator app, then makes TOTP the preferred MFA.
+export async function confirmTotpSetup(code: string): Promise<void> {
+  const cognitoUser = await getAuthenticatedUser();
+  await new Promise<void>((resolve, reject) => {
+    cognitoUser.verifySoftwareToken(code.trim(), TOTP_ISSUER, { onSuccess: () => resolve(), onFailure: reject });
+  });
+  await new Promise<void>((resolve, reject) => {
+    cognitoUser.setUserMfaPreference(null, { Enabled: true, PreferredMfa: true }, err => (err ? reject(err) : resolve()));
+  });
+}
+
+export async function disableTotp(): Promise<void> {
+  const cognitoUser = await getAuthenticatedUser();
+  await new Promise<void>((resolve, reject) => {
+    cognitoUser.setUserMfaPreference(null, { Enabled: false, PreferredMfa: false }, err => (err ? reject(err) : resolve()));
+  });
+}
@@ -0,0 +1,45 @@
+import { repository } from './repository';
+import { buildAlertRule } from '../lib/alerts';
+import { normalizeTicker } from '../lib/watchlists';
+import { AlertCondition, AlertRule } from '../types/alert';
+
+// Alert rule access for components. Storage is whichever backend ./repository picked; rules
+// are only read here, scripts/evaluate-alerts.ts turns them into notifications.
+
+export async function getAlertRules(userId: string, ticker?: string): Promise<AlertRule[]> {
+  try {
+    const items = await repository.alerts.list(userId);
+    const rules = ticker ? items.filter(rule => rule.ticker === normalizeTicker(ticker)) : items;
+    return rules.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  } catch (error) {
+    console.error('Error fetching alert rules:', error);
+    throw error;
+  }
+}
+
+export async function createAlertRule(userId: string, ticker: string, condition: AlertCondition): Promise<AlertRule> {
+  try {
+    return await repository.alerts.create(buildAlertRule(userId, ticker, condition));
+  } catch (error) {
+    console.error('Error creating alert rule:', error);
+    throw error;
+  }
+}
+
+export async function setAlertRuleEnabled(userId: string, ruleId: string, enabled: boolean): Promise<void> {
+  try {
+    await repository.alerts.setEnabled(userId, ruleId, enabled);
+  } catch (error) {
+    console.error('Error updating alert rule:', error);
+    throw error;
+  }
+}
+
+export async function deleteAlertRule(userId: string, ruleId: string): Promise<void> {
+  try {
+    await repository.alerts.remove(userId, ruleId);
+  } catch (error) {
+    console.error('Error deleting alert rule:', error);
+    throw error;
+  }
+}
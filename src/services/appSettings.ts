@@ -0,0 +1,28 @@
+import { repository } from './repository';
+import { DEFAULT_SESSION_POLICY, SessionPolicy } from '../types/appSettings';
+import { parseSessionPolicy } from '../lib/sessionPolicy';
+
+// Never throws: an unreadable policy must not lock anyone out, so failures fall back to defaults.
+export async function getSessionPolicy(): Promise<SessionPolicy> {
+  try {
+    return { ...DEFAULT_SESSION_POLICY, ...(await repository.settings.getSessionPolicy()) };
+  } catch (error) {
+    console.error('Error fetching session policy:', error);
+    return DEFAULT_SESSION_POLICY;
+  }
+}
+
+export async function saveSessionPolicy(input: Partial<SessionPolicy>, updatedBy: string): Promise<SessionPolicy> {
+  const policy: SessionPolicy = {
+    ...parseSessionPolicy(input),
+    updatedAt: new Date().toISOString(),
+    updatedBy
+  };
+  try {
+    await repository.settings.saveSessionPolicy(policy);
+    return policy;
+  } catch (error) {
+    console.error('Error saving session policy:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,245 @@
+import { describe, expect, it } from 'vitest';
+import { CognitoUserPool, ICognitoStorage } from 'amazon-cognito-identity-js';
+import { createAuthFlows } from './authFlows';
+
+// The pool's low-level client is replaced by a script of expected Cognito operations and
+// their replies, so the real CognitoUser state machine runs without a network.
+
+type Params = Record<string, unknown> & {
+  AuthParameters?: Record<string, string>;
+  ChallengeResponses?: Record<string, string>;
+};
+type Reply = Record<string, unknown> | Error;
+type RequestStub = (operation: string, params: Params, callback: (err: Error | null, data?: unknown) => void) => void;
+
+function memoryStorage(): ICognitoStorage {
+  const items = new Map<string, string>();
+  return {
+    setItem: (key, value) => {
+      items.set(key, value);
+    },
+    getItem: key => items.get(key) ?? null,
+    removeItem: key => {
+      items.delete(key);
+    },
+    clear: () => items.clear()
+  };
+}
+
+function stubPool(script: [operation: string, reply: Reply][]) {
+  const pool = new CognitoUserPool({ UserPoolId: 'us-east-1_TestPool', ClientId: 'test-client', Storage: memoryStorage() });
+  const calls: { operation: string; params: Params }[] = [];
+  const request: RequestStub = (operation, params, callback) => {
+    calls.push({ operation, params });
+    const next = script.shift();
+    if (!next || next[0] !== operation) {
+      callback(new Error(`Unexpected ${operation}, expected ${next?.[0] ?? 'no more requests'}`));
+      return;
+    }
+    const reply = next[1];
+    if (reply instanceof Error) callback(reply);
+    else callback(null, reply);
+  };
+  (pool as unknown as { client: { request: RequestStub } }).client.request = request;
+  return { pool, calls, script };
+}
+
+function jwt(payload: Record<string, unknown>) {
+  const encode = (part: object) => Buffer.from(JSON.stringify(part)).toString('base64url');
+  return `${encode({ alg: 'none' })}.${encode(payload)}.signature`;
+}
+
+const exp = Math.floor(Date.now() / 1000) + 3600;
+
+const TOKENS = {
+  AuthenticationResult: {
+    IdToken: jwt({ 'cognito:username': 'ann', email: 'ann@example.com', exp, iat: exp - 3600 }),
+    AccessToken: jwt({ username: 'ann', exp, iat: exp - 3600 }),
+    RefreshToken: 'refresh-token'
+  }
+};
+
+// SRP first round: the parameters only need to be well-formed for the client-side maths.
+const PASSWORD_VERIFIER = {
+  ChallengeName: 'PASSWORD_VERIFIER',
+  Session: 'srp-session',
+  ChallengeParameters: {
+    USER_ID_FOR_SRP: 'ann',
+    SRP_B: '2',
+    SALT: 'abcdef',
+    SECRET_BLOCK: Buffer.from('secret-block').toString('base64')
+  }
+};
+
+function challenge(name: string, parameters: Record<string, string> = {}) {
+  return { ChallengeName: name, Session: `${name}-session`, ChallengeParameters: parameters };
+}
+
+function cognitoError(code: string, message: string) {
+  return Object.assign(new Error(message), { code, name: code });
+}
+
+describe('createAuthFlows', () => {
+  describe('signIn', () => {
+    it('is done when the password is accepted', async () => {
+      const { pool, calls, script } = stubPool([['InitiateAuth', PASSWORD_VERIFIER], ['RespondToAuthChallenge', TOKENS]]);
+      await expect(createAuthFlows(pool).signIn('  ann ', 'Secret123!')).resolves.toEqual({ step: 'done' });
+      expect(script).toHaveLength(0);
+      expect(calls[0].params.AuthParameters?.USERNAME).toBe('ann');
+      expect(calls[1].params.ChallengeName).toBe('PASSWORD_VERIFIER');
+    });
+
+    it('rejects with the Cognito error', async () => {
+      const { pool } = stubPool([['InitiateAuth', cognitoError('NotAuthorizedException', 'Incorrect username or password.')]]);
+      await expect(createAuthFlows(pool).signIn('ann', 'wrong')).rejects.toThrow('Incorrect username or password.');
+    });
+
+    it('asks for a new password, then completes the challenge with one', async () => {
+      const newPasswordRequired = challenge('NEW_PASSWORD_REQUIRED', {
+        userAttributes: JSON.stringify({ email: 'ann@example.com', email_verified: 'true', name: 'Ann' }),
+        requiredAttributes: '[]'
+      });
+
+      const first = stubPool([['InitiateAuth', PASSWORD_VERIFIER], ['RespondToAuthChallenge', newPasswordRequired]]);
+      await expect(createAuthFlows(first.pool).signIn('ann', 'Temp123!')).resolves.toEqual({ step: 'newPasswordRequired' });
+
+      const second = stubPool([
+        ['InitiateAuth', PASSWORD_VERIFIER],
+        ['RespondToAuthChallenge', newPasswordRequired],
+        ['RespondToAuthChallenge', TOKENS]
+      ]);
+      await expect(createAuthFlows(second.pool).signIn('ann', 'Temp123!', 'Fresh123!')).resolves.toEqual({ step: 'done' });
+      const answer = second.calls[2].params;
+      expect(answer.ChallengeName).toBe('NEW_PASSWORD_REQUIRED');
+      expect(answer.ChallengeResponses).toMatchObject({ NEW_PASSWORD: 'Fresh123!', 'userAttributes.name': 'Ann' });
+      expect(answer.ChallengeResponses).not.toHaveProperty(['userAttributes.email']);
+      expect(answer.ChallengeResponses).not.toHaveProperty(['userAttributes.email_verified']);
+    });
+
+    it('stops at an authenticator-app code and confirms it with confirmMfa', async () => {
+      const { pool, calls } = stubPool([
+        ['InitiateAuth', PASSWORD_VERIFIER],
+        ['RespondToAuthChallenge', challenge('SOFTWARE_TOKEN_MFA')],
+        ['RespondToAuthChallenge', TOKENS]
+      ]);
+      const flows = createAuthFlows(pool);
+      await expect(flows.signIn('ann', 'Secret123!')).resolves.toEqual({
+        step: 'mfa',
+        challenge: 'SOFTWARE_TOKEN_MFA',
+        destination: undefined
+      });
+      await expect(flows.confirmMfa(' 123456 ')).resolves.toEqual({ step: 'done' });
+      expect(calls[2].params).toMatchObject({
+        ChallengeName: 'SOFTWARE_TOKEN_MFA',
+        Session: 'SOFTWARE_TOKEN_MFA-session',
+        ChallengeResponses: { SOFTWARE_TOKEN_MFA_CODE: '123456' }
+      });
+    });
+
+    it('stops at an SMS code with its destination and confirms it with confirmMfa', async () => {
+      const { pool, calls } = stubPool([
+        ['InitiateAuth', PASSWORD_VERIFIER],
+        ['RespondToAuthChallenge', challenge('SMS_MFA', { CODE_DELIVERY_DESTINATION: '+*******1234' })],
+        ['RespondToAuthChallenge', TOKENS]
+      ]);
+      const flows = createAuthFlows(pool);
+      await expect(flows.signIn('ann', 'Secret123!')).resolves.toEqual({
+        step: 'mfa',
+        challenge: 'SMS_MFA',
+        destination: '+*******1234'
+      });
+      await expect(flows.confirmMfa('654321')).resolves.toEqual({ step: 'done' });
+      expect(calls[2].params).toMatchObject({ ChallengeName: 'SMS_MFA', ChallengeResponses: { SMS_MFA_CODE: '654321' } });
+      expect(calls[2].params.ChallengeResponses).not.toHaveProperty('SOFTWARE_TOKEN_MFA_CODE');
+    });
+
+    it('answers a factor choice with the authenticator app', async () => {
+      const { pool, calls } = stubPool([
+        ['InitiateAuth', PASSWORD_VERIFIER],
+        ['RespondToAuthChallenge', challenge('SELECT_MFA_TYPE', { MFAS_CAN_CHOOSE: '["SMS_MFA","SOFTWARE_TOKEN_MFA"]' })],
+        ['RespondToAuthChallenge', challenge('SOFTWARE_TOKEN_MFA')],
+        ['RespondToAuthChallenge', TOKENS]
+      ]);
+      const flows = createAuthFlows(pool);
+      await expect(flows.signIn('ann', 'Secret123!')).resolves.toMatchObject({ step: 'mfa', challenge: 'SOFTWARE_TOKEN_MFA' });
+      expect(calls[2].params).toMatchObject({ ChallengeName: 'SELECT_MFA_TYPE', ChallengeResponses: { ANSWER: 'SOFTWARE_TOKEN_MFA' } });
+      await expect(flows.confirmMfa('123456')).resolves.toEqual({ step: 'done' });
+      expect(calls[3].params.ChallengeName).toBe('SOFTWARE_TOKEN_MFA');
+    });
+
+    it('rejects accounts that still have to set up MFA', async () => {
+      const { pool } = stubPool([['InitiateAuth', PASSWORD_VERIFIER], ['RespondToAuthChallenge', challenge('MFA_SETUP')]]);
+      await expect(createAuthFlows(pool).signIn('ann', 'Secret123!')).rejects.toThrow('must set up MFA');
+    });
+  });
+
+  describe('confirmMfa', () => {
+    it('rejects without a pending challenge', async () => {
+      const { pool, calls } = stubPool([]);
+      await expect(createAuthFlows(pool).confirmMfa('123456')).rejects.toThrow('No sign-in is waiting for a code');
+      expect(calls).toHaveLength(0);
+    });
+
+    it('forgets the challenge once signed in', async () => {
+      const { pool } = stubPool([
+        ['InitiateAuth', PASSWORD_VERIFIER],
+        ['RespondToAuthChallenge', challenge('SOFTWARE_TOKEN_MFA')],
+        ['RespondToAuthChallenge', TOKENS]
+      ]);
+      const flows = createAuthFlows(pool);
+      await flows.signIn('ann', 'Secret123!');
+      await flows.confirmMfa('123456');
+      await expect(flows.confirmMfa('123456')).rejects.toThrow('No sign-in is waiting for a code');
+    });
+  });
+
+  describe('signUp and confirmSignUp', () => {
+    it('registers with a trimmed email and reports where the code went', async () => {
+      const { pool, calls } = stubPool([
+        ['SignUp', { UserConfirmed: false, UserSub: 'sub-1', CodeDeliveryDetails: { Destination: 'a***@e***.com' } }]
+      ]);
+      await expect(createAuthFlows(pool).signUp(' ann ', ' ann@example.com ', 'Secret123!'))
+        .resolves.toEqual({ confirmed: false, destination: 'a***@e***.com' });
+      expect(calls[0].params).toMatchObject({
+        Username: 'ann',
+        Password: 'Secret123!',
+        UserAttributes: [{ Name: 'email', Value: 'ann@example.com' }]
+      });
+    });
+
+    it('rejects when the username is taken', async () => {
+      const { pool } = stubPool([['SignUp', cognitoError('UsernameExistsException', 'User already exists')]]);
+      await expect(createAuthFlows(pool).signUp('ann', 'ann@example.com', 'Secret123!')).rejects.toThrow('User already exists');
+    });
+
+    it('confirms the code', async () => {
+      const { pool, calls } = stubPool([['ConfirmSignUp', {}]]);
+      await expect(createAuthFlows(pool).confirmSignUp('ann', ' 111222 ')).resolves.toBeUndefined();
+      expect(calls[0].params).toMatchObject({ Username: 'ann', ConfirmationCode: '111222', ForceAliasCreation: true });
+    });
+
+    it('rejects a wrong code', async () => {
+      const { pool } = stubPool([['ConfirmSignUp', cognitoError('CodeMismatchException', 'Invalid verification code')]]);
+      await expect(createAuthFlows(pool).confirmSignUp('ann', '000000')).rejects.toThrow('Invalid verification code');
+    });
+  });
+
+  describe('forgotPassword and confirmForgotPassword', () => {
+    it('reports where the reset code went', async () => {
+      const { pool, calls } = stubPool([['ForgotPassword', { CodeDeliveryDetails: { Destination: 'a***@e***.com' } }]]);
+      await expect(createAuthFlows(pool).forgotPassword('ann')).resolves.toEqual({ destination: 'a***@e***.com' });
+      expect(calls[0].params).toMatchObject({ Username: 'ann' });
+    });
+
+    it('sets the new password with the code', async () => {
+      const { pool, calls } = stubPool([['ConfirmForgotPassword', {}]]);
+      await expect(createAuthFlows(pool).confirmForgotPassword('ann', ' 333444 ', 'Fresh123!')).resolves.toBeUndefined();
+      expect(calls[0].params).toMatchObject({ Username: 'ann', ConfirmationCode: '333444', Password: 'Fresh123!' });
+    });
+
+    it('rejects an expired code', async () => {
+      const { pool } = stubPool([['ConfirmForgotPassword', cognitoError('ExpiredCodeException', 'Invalid code provided')]]);
+      await expect(createAuthFlows(pool).confirmForgotPassword('ann', '333444', 'Fresh123!')).rejects.toThrow('Invalid code provided');
+    });
+  });
+});
@@ -0,0 +1,146 @@
+import {
+  AuthenticationDetails,
+  CognitoUser,
+  CognitoUserAttribute,
+  CognitoUserPool,
+  IAuthenticationCallback
+} from 'amazon-cognito-identity-js';
+
+// Sign-in, sign-up and password-reset flows as promises. The pool is injected so the flows run
+// unchanged against a mocked CognitoUserPool (one whose `client.request` is stubbed).
+
+export type MfaChallenge = 'SOFTWARE_TOKEN_MFA' | 'SMS_MFA';
+
+// What the login form should show next after a sign-in attempt.
+export type SignInStep =
+  | { step: 'done' }
+  | { step: 'newPasswordRequired' }
+  | { step: 'mfa'; challenge: MfaChallenge; destination?: string };
+
+export interface AuthFlows {
+  signIn(username: string, password: string, newPassword?: string): Promise<SignInStep>;
+  // Answers the MFA challenge from the most recent signIn
+  confirmMfa(code: string): Promise<SignInStep>;
+  signUp(username: string, email: string, password: string): Promise<{ confirmed: boolean; destination?: string }>;
+  confirmSignUp(username: string, code: string): Promise<void>;
+  resendSignUpCode(username: string): Promise<void>;
+  forgotPassword(username: string): Promise<{ destination?: string }>;
+  confirmForgotPassword(username: string, code: string, newPassword: string): Promise<void>;
+}
+
+export function createAuthFlows(pool: CognitoUserPool): AuthFlows {
+  let pending: { user: CognitoUser; challenge: MfaChallenge } | null = null;
+
+  const userFor = (username: string) => new CognitoUser({ Username: username.trim(), Pool: pool });
+
+  // Shared by authenticateUser, completeNewPasswordChallenge and sendMFACode: any of them can
+  // finish the sign-in or hand back another challenge.
+  function callbacks(
+    user: CognitoUser,
+    resolve: (step: SignInStep) => void,
+    reject: (err: unknown) => void,
+    newPassword?: string
+  ): IAuthenticationCallback {
+    const challenge = (name: MfaChallenge, destination?: string) => {
+      pending = { user, challenge: name };
+      resolve({ step: 'mfa', challenge: name, destination });
+    };
+
+    return {
+      onSuccess: () => {
+        pending = null;
+        resolve({ step: 'done' });
+      },
+      onFailure: reject,
+      newPasswordRequired: (userAttributes) => {
+        if (!newPassword) {
+          resolve({ step: 'newPasswordRequired' });
+          return;
+        }
+        // Cognito rejects attempts to write these back during the challenge
+        delete userAttributes.email_verified;
+        delete userAttributes.email;
+        user.completeNewPasswordChallenge(newPassword, userAttributes, callbacks(user, resolve, reject));
+      },
+      mfaRequired: (_name, params) => challenge('SMS_MFA', params?.CODE_DELIVERY_DESTINATION),
+      totpRequired: () => challenge('SOFTWARE_TOKEN_MFA'),
+      // Both factors enabled: prefer the authenticator app over SMS.
+      selectMFAType: () => {
+        user.sendMFASelectionAnswer('SOFTWARE_TOKEN_MFA', {
+          onSuccess: () => resolve({ step: 'done' }),
+          onFailure: reject,
+          mfaRequired: (_name, params) => challenge('SMS_MFA', params?.CODE_DELIVERY_DESTINATION),
+          totpRequired: () => challenge('SOFTWARE_TOKEN_MFA')
+        });
+      },
+      mfaSetup: () => reject(new Error('This account must set up MFA before signing in. Contact an administrator.'))
+    };
+  }
+
+  return {
+    signIn(username, password, newPassword) {
+      pending = null;
+      const user = userFor(username);
+      const details = new AuthenticationDetails({
+        Username: username.trim(),
+        Password: password,
+        ValidationData: { EMAIL: username.trim() }
+      });
+      return new Promise((resolve, reject) => {
+        user.authenticateUser(details, callbacks(user, resolve, reject, newPassword));
+      });
+    },
+
+    confirmMfa(code) {
+      if (!pending) return Promise.reject(new Error('No sign-in is waiting for a code. Start again.'));
+      const { user, challenge } = pending;
+      return new Promise((resolve, reject) => {
+        user.sendMFACode(code.trim(), callbacks(user, resolve, reject), challenge === 'SOFTWARE_TOKEN_MFA' ? challenge : undefined);
+      });
+    },
+
+    signUp(username, email, password) {
+      const attributes = [new CognitoUserAttribute({ Name: 'email', Value: email.trim() })];
+      return new Promise((resolve, reject) => {
+        pool.signUp(username.trim(), password, attributes, [], (err, result) => {
+          if (err || !result) {
+            reject(err || new Error('Sign-up returned no result'));
+            return;
+          }
+          resolve({
+            confirmed: result.userConfirmed,
+            destination: result.codeDeliveryDetails?.Destination
+          });
+        });
+      });
+    },
+
+    confirmSignUp(username, code) {
+      return new Promise((resolve, reject) => {
+        userFor(username).confirmRegistration(code.trim(), true, err => (err ? reject(err) : resolve()));
+      });
+    },
+
+    resendSignUpCode(username) {
+      return new Promise((resolve, reject) => {
+        userFor(username).resendConfirmationCode(err => (err ? reject(err) : resolve()));
+      });
+    },
+
+    forgotPassword(username) {
+      return new Promise((resolve, reject) => {
+        userFor(username).forgotPassword({
+          onSuccess: () => resolve({}),
+          onFailure: reject,
+          inputVerificationCode: data => resolve({ destination: data?.CodeDeliveryDetails?.Destination })
+        });
+      });
+    },
+
+    confirmForgotPassword(username, code, newPassword) {
+      return new Promise((resolve, reject) => {
+        userFor(username).confirmPassword(code.trim(), newPassword, { onSuccess: () => resolve(), onFailure: reject });
+      });
+    }
+  };
+}
@@ -0,0 +1,78 @@
+import * as AmazonCognitoIdentity from 'amazon-cognito-identity-js';
+import { createAuthFlows } from './authFlows';
+
+// The Cognito user pool shared by AuthContext and anything that needs the signed-in session.
+
+export const userPool = new AmazonCognitoIdentity.CognitoUserPool({
+  UserPoolId: import.meta.env.VITE_COGNITO_USER_POOL_ID || '',
+  ClientId: import.meta.env.VITE_COGNITO_CLIENT_ID || ''
+});
+
+export const authFlows = createAuthFlows(userPool);
+
+// ID token for the current session, or null when signed out. getSession refreshes an
+// expired token from the stored refresh token, so callers always get a usable JWT.
+export async function getIdToken(): Promise<string | null> {
+  const cognitoUser = userPool.getCurrentUser();
+  if (!cognitoUser) return null;
+
+  return new Promise(resolve => {
+    cognitoUser.getSession((err: Error | null, session: AmazonCognitoIdentity.CognitoUserSession | null) => {
+      if (err || !session?.isValid()) {
+        resolve(null);
+        return;
+      }
+      resolve(session.getIdToken().getJwtToken());
+    });
+  });
+}
+
+// The signed-in CognitoUser with its session attached, which account operations
+// (changePassword, updateAttributes, MFA) require.
+export async function getAuthenticatedUser(): Promise<AmazonCognitoIdentity.CognitoUser> {
+  const cognitoUser = userPool.getCurrentUser();
+  if (!cognitoUser) throw new Error('Not signed in');
+
+  return new Promise((resolve, reject) => {
+    cognitoUser.getSession((err: Error | null, session: AmazonCognitoIdentity.CognitoUserSession | null) => {
+      if (err || !session?.isValid()) {
+        reject(err || new Error('Session expired, please sign in again'));
+        return;
+      }
+      resolve(cognitoUser);
+    });
+  });
+}
+
+const FRIENDLY_ERRORS: Record<string, string> = {
+  NotAuthorizedException: 'The password is incorrect.',
+  CodeMismatchException: 'That code is incorrect. Check it and try again.',
+  ExpiredCodeException: 'That code has expired. Request a new one.',
+  EnableSoftwareTokenMFAException: 'That code is incorrect. Check your authenticator app and try again.',
+  LimitExceededException: 'Too many attempts. Wait a few minutes and try again.',
+  TooManyRequestsException: 'Too many attempts. Wait a few minutes and try again.',
+  AliasExistsException: 'Another account already uses that email address.'
+};
+
+// Cognito errors carry the exception type in `code` (older SDK paths) or `name`; the raw
+// messages are often fine (password policy), so only the opaque ones are rewritten.
+export function cognitoErrorMessage(error: unknown): string {
+  const err = error as { code?: string; name?: string; message?: string } | null;
+  const code = err?.code || err?.name || '';
+  return FRIENDLY_ERRORS[code] || err?.message || 'Something went wrong. Please try again.';
+}
+
+// Trades the refresh token for fresh ID/access tokens ahead of expiry. Rejects once the
+// refresh token itself has expired or been revoked, at which point the user must sign in again.
+export async function refreshSession(): Promise<AmazonCognitoIdentity.CognitoUserSession> {
+  const cognitoUser = await getAuthenticatedUser();
+  const current = cognitoUser.getSignInUserSession();
+  if (!current) throw new Error('No session to refresh');
+
+  return new Promise((resolve, reject) => {
+    cognitoUser.refreshSession(current.getRefreshToken(), (err: Error | null, session: AmazonCognitoIdentity.CognitoUserSession) => {
+      if (err) reject(err);
+      else resolve(session);
+    });
+  });
+}
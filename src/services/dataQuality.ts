@@ -0,0 +1,20 @@
+import { repository } from './repository';
+import { dataQualityReport, DataQualityReport } from '../lib/dataQuality';
+
+export type { DataQualityReport, QualityIssue, QualityIssueKind } from '../lib/dataQuality';
+export { countIssues } from '../lib/dataQuality';
+
+// Checks one ticker's stored history against the NYSE calendar (src/lib/dataQuality.ts).
+// Stored splits are read too, so a jump on a split's ex-date isn't reported.
+export async function getDataQualityReport(ticker: string): Promise<DataQualityReport> {
+  try {
+    const [bars, actions] = await Promise.all([
+      repository.prices.getPrices(ticker),
+      repository.corporateActions.getActions(ticker)
+    ]);
+    return dataQualityReport(ticker, bars, { actions });
+  } catch (error) {
+    console.error('Error building data quality report:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,50 @@
+import { repository, ForecastQuery } from './repository';
+import { Forecast } from '../types/forecast';
+import { PriceData, ProphetKey, PROPHET_KEYS } from '../types/price';
+
+// Dates are compared on the calendar day so YYYY-MM-DD bounds match full ISO timestamps.
+function dayOf(date: string) {
+  return date.slice(0, 10);
+}
+
+// Fetch forecasts for a ticker whose target date falls within [startDate, endDate] from
+// whichever backend ./repository picked.
+export async function getForecasts(
+  ticker: string,
+  startDate?: string,
+  endDate?: string,
+  query: ForecastQuery = {}
+): Promise<Forecast[]> {
+  try {
+    return await repository.forecasts.getForecasts(ticker, startDate, endDate, query);
+  } catch (error) {
+    console.error('Error fetching forecasts:', error);
+    throw error;
+  }
+}
+
+// Copy forecasts of the given horizon onto the prophet fields of matching price bars.
+// Existing prophet values are replaced so charts only ever show stored forecasts; when a
+// prophet issued several forecasts for the same target, the most recent issue wins.
+export function attachForecasts(prices: PriceData[], forecasts: Forecast[], horizon = 1): PriceData[] {
+  const byDay = new Map<string, Partial<Record<ProphetKey, { value: number; issueDate: string }>>>();
+  for (const f of forecasts) {
+    if (f.horizon !== horizon) continue;
+    const day = dayOf(f.targetDate);
+    const entry = byDay.get(day) || {};
+    const current = entry[f.prophet];
+    if (!current || f.issueDate > current.issueDate) {
+      entry[f.prophet] = { value: f.value, issueDate: f.issueDate };
+    }
+    byDay.set(day, entry);
+  }
+
+  return prices.map(price => {
+    const entry = byDay.get(dayOf(price.date)) || {};
+    const merged: PriceData = { ...price };
+    for (const key of PROPHET_KEYS) {
+      merged[key] = entry[key]?.value;
+    }
+    return merged;
+  });
+}
@@ -1,54 +1,102 @@
-import { ddbDocClient } from './dynamodb';
-import { QueryCommand, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import { repository } from './repository';
+import {
+  Notification,
+  NotificationCategory,
+  NotificationCursor,
+  NotificationPage,
+  NotificationStatus,
+  NOTIFICATION_CATEGORIES
+} from '../types/notification';
 
-export interface Notification {
-  userId: string;
-  notificationId: string;
-  message: string;
-  checked?: boolean;
-  createdAt?: string;
+export type { Notification, NotificationCategory, NotificationCursor, NotificationPage, NotificationStatus };
+export { NOTIFICATION_CATEGORIES };
+
+export function notificationCategory(n: Notification): NotificationCategory {
+  return n.category && NOTIFICATION_CATEGORIES.includes(n.category) ? n.category : 'system';
 }
 
-const TABLE = 'ChasingProphets-Notifications';
+// Where clicking a notification should take the user, if anywhere.
+export function notificationLink(n: Notification): string | null {
+  if (n.link) return n.link;
+  if (n.ticker) return `/assets/${encodeURIComponent(n.ticker)}`;
+  return null;
+}
 
 export async function getUnreadNotificationsForUser(userId: string): Promise<Notification[]> {
   try {
     console.debug('getUnreadNotificationsForUser: userId=', userId);
-    const command = new QueryCommand({
-      TableName: TABLE,
-      KeyConditionExpression: 'userId = :uid',
-      FilterExpression: 'checked = :false',
-      ExpressionAttributeValues: {
-        ':uid': userId,
-        ':false': false
-      }
-    });
-
-    const resp = await ddbDocClient.send(command);
-    console.debug('getUnreadNotificationsForUser: resp.Items=', resp.Items && resp.Items.length ? resp.Items.length : 0);
-    return (resp.Items || []) as Notification[];
+    const items = await repository.notifications.getUnread(userId);
+    console.debug('getUnreadNotificationsForUser: items=', items.length);
+    return items;
   } catch (err) {
     console.error('Error fetching notifications:', err);
     return [];
   }
 }
 
-export async function markNotificationChecked(userId: string, notificationId: string): Promise<void> {
+// One page of the notification center, merged newest first across every id the user may be
+// keyed under (username and email). Each partition resumes from the last item actually returned,
+// so nothing fetched-but-not-shown is skipped on the next page.
+export async function getNotificationsPage(
+  userIds: string[],
+  options: {
+    status?: NotificationStatus;
+    category?: NotificationCategory;
+    limit?: number;
+    cursor?: NotificationCursor;
+  } = {}
+): Promise<NotificationPage> {
+  const { status = 'all', category, limit = 20, cursor = {} } = options;
+  const ids = Array.from(new Set(userIds.filter(Boolean)));
+
   try {
-    const command = new UpdateCommand({
-      TableName: TABLE,
-      Key: { userId, notificationId },
-      UpdateExpression: 'SET checked = :true',
-      ExpressionAttributeValues: { ':true': true }
-    });
+    const results = await Promise.all(ids.map(async id => {
+      if (cursor[id] === null) return { id, items: [] as Notification[], exhausted: true };
+      const startKey = cursor[id] ?? undefined;
+      return { id, ...(await repository.notifications.query(id, { status, category, limit, startKey })) };
+    }));
+
+    const merged = results
+      .flatMap(r => r.items)
+      .sort((a, b) => (b.createdAt || '').localeCompare(a.createdAt || ''))
+      .slice(0, limit);
+
+    const nextCursor: NotificationCursor = { ...cursor };
+    for (const r of results) {
+      if (cursor[r.id] === null) continue;
+      const consumed = r.items.filter(item => merged.includes(item));
+      if (consumed.length === r.items.length && r.exhausted) {
+        nextCursor[r.id] = null;
+      } else if (consumed.length) {
+        const last = consumed[consumed.length - 1];
+        nextCursor[r.id] = { userId: last.userId, notificationId: last.notificationId, createdAt: last.createdAt };
+      }
+    }
 
-    await ddbDocClient.send(command);
+    return {
+      items: merged,
+      cursor: nextCursor,
+      hasMore: ids.some(id => nextCursor[id] !== null)
+    };
   } catch (err) {
-    console.error('Error marking notification checked:', err);
+    console.error('Error fetching notification page:', err);
     throw err;
   }
 }
 
+export async function setNotificationChecked(userId: string, notificationId: string, checked: boolean): Promise<void> {
+  try {
+    await repository.notifications.setChecked(userId, notificationId, checked);
+  } catch (err) {
+    console.error('Error updating notification:', err);
+    throw err;
+  }
+}
+
+export async function markNotificationChecked(userId: string, notificationId: string): Promise<void> {
+  await setNotificationChecked(userId, notificationId, true);
+}
+
 // Accept either a single userId or an array of userIds (username and/or email) and return a
 // deduplicated unread count across those keys.
 export async function getUnreadCountForUser(userId: string | string[]): Promise<number> {
@@ -0,0 +1,64 @@
+import { repository } from './repository';
+import { PriceData } from '../types/price';
+import { PortfolioTransaction, TransactionInput } from '../types/portfolio';
+import { buildTransaction, ledgerIssue, sortLedger } from '../lib/portfolio';
+
+export type { ParsedTransactionFile } from '../lib/portfolio';
+export { equityCurve, parseTransactionCsv, replayLedger, valuePositions } from '../lib/portfolio';
+export { portfolioRisk } from '../lib/portfolioRisk';
+
+// Portfolio ledger access for the Portfolio page. Positions are never stored: they are
+// replayed from the transactions each time (src/lib/portfolio.ts).
+
+export async function getTransactions(userId: string): Promise<PortfolioTransaction[]> {
+  try {
+    return sortLedger(await repository.portfolios.listTransactions(userId));
+  } catch (error) {
+    console.error('Error fetching portfolio transactions:', error);
+    throw error;
+  }
+}
+
+// Checked against the whole ledger first, so a sell can't exceed the shares held on its date.
+export async function addTransactions(userId: string, inputs: TransactionInput[]): Promise<number> {
+  if (!inputs.length) return 0;
+  const existing = await getTransactions(userId);
+  const added = sortLedger(inputs).map(input => buildTransaction(userId, input));
+  const issue = ledgerIssue([...existing, ...added]);
+  if (issue) throw new Error(issue);
+
+  try {
+    await repository.portfolios.addTransactions(added);
+    return added.length;
+  } catch (error) {
+    console.error('Error adding portfolio transactions:', error);
+    throw error;
+  }
+}
+
+export async function deleteTransaction(userId: string, transactionId: string): Promise<void> {
+  const remaining = (await getTransactions(userId)).filter(tx => tx.transactionId !== transactionId);
+  const issue = ledgerIssue(remaining);
+  if (issue) throw new Error(`Removing this transaction would break the ledger: ${issue}`);
+
+  try {
+    await repository.portfolios.removeTransaction(userId, transactionId);
+  } catch (error) {
+    console.error('Error deleting portfolio transaction:', error);
+    throw error;
+  }
+}
+
+// Full daily histories for the held tickers, without bars dated after today.
+export async function getPortfolioPrices(tickers: string[]): Promise<Record<string, PriceData[]>> {
+  const today = new Date().toISOString().slice(0, 10);
+  try {
+    const entries = await Promise.all(
+      tickers.map(async ticker => [ticker, (await repository.prices.getPrices(ticker)).filter(p => p.date <= today)] as const)
+    );
+    return Object.fromEntries(entries);
+  } catch (error) {
+    console.error('Error fetching portfolio prices:', error);
+    throw error;
+  }
+}
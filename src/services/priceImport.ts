@@ -0,0 +1,32 @@
+import { repository } from './repository';
+import { PriceData } from '../types/price';
+import { buildImportPreview, rowsToWrite, TickerImportPreview } from '../lib/priceImport';
+
+export type { ImportIssue, ParsedPriceFile, TickerImportPreview } from '../lib/priceImport';
+export { parsePriceCsv } from '../lib/priceImport';
+
+// The local JSON backend keeps imported bars in memory only, until the page reloads.
+export const importPersists = repository.backend !== 'local';
+
+// Diffs parsed rows against what the active backend already stores, one ticker at a time.
+export async function previewPriceImport(rows: PriceData[]): Promise<TickerImportPreview[]> {
+  try {
+    return await buildImportPreview(rows, repository);
+  } catch (error) {
+    console.error('Error previewing price import:', error);
+    throw error;
+  }
+}
+
+// Writes new bars, plus changed bars when `overwriteChanged` is set. Returns the rows written.
+export async function applyPriceImport(previews: TickerImportPreview[], overwriteChanged: boolean): Promise<number> {
+  const rows = rowsToWrite(previews, overwriteChanged);
+  if (!rows.length) return 0;
+  try {
+    await repository.prices.putPrices(rows);
+    return rows.length;
+  } catch (error) {
+    console.error('Error importing prices:', error);
+    throw error;
+  }
+}
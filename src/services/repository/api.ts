@@ -0,0 +1,164 @@
+import { AssetMeta, AssetSearchResult } from '../../types/assets';
+import { PriceData } from '../../types/price';
+import { Notification } from '../../types/notification';
+import { Watchlist } from '../../types/watchlist';
+import { SessionPolicy } from '../../types/appSettings';
+import { PortfolioTransaction, TransactionInput } from '../../types/portfolio';
+import { CorporateAction } from '../../types/corporateAction';
+import { Forecast } from '../../types/forecast';
+import { AlertRule } from '../../types/alert';
+import { DataRepository } from './types';
+
+// Backend that talks to the Node API in server/ instead of DynamoDB, so the browser never
+// holds AWS credentials. Every request carries the Cognito ID token as a bearer token.
+
+type TokenProvider = () => Promise<string | null>;
+
+function withQuery(path: string, params: Record<string, string | number | undefined>) {
+  const search = new URLSearchParams();
+  Object.entries(params).forEach(([key, value]) => {
+    if (value !== undefined && value !== '') search.set(key, String(value));
+  });
+  const qs = search.toString();
+  return qs ? `${path}?${qs}` : path;
+}
+
+const enc = encodeURIComponent;
+
+// For the scheduled jobs' methods, which the API deliberately doesn't expose.
+function serverOnly(what: string): Promise<never> {
+  return Promise.reject(new Error(`${what} needs direct table access and is not available through the API`));
+}
+
+// Keeps each import request well under the server's 1MB body limit.
+const IMPORT_CHUNK_ROWS = 2000;
+
+export function createApiRepository(baseUrl: string, getToken: TokenProvider): DataRepository {
+  const root = baseUrl.replace(/\/+$/, '');
+
+  // Resolves to null on 404 when `allowNotFound` is set; any other non-2xx response throws
+  // with the server's error message.
+  async function request<T>(
+    method: string,
+    path: string,
+    options: { body?: unknown; allowNotFound?: boolean } = {}
+  ): Promise<T> {
+    const token = await getToken();
+    const response = await fetch(root + path, {
+      method,
+      headers: {
+        ...(token && { Authorization: `Bearer ${token}` }),
+        ...(options.body !== undefined && { 'Content-Type': 'application/json' })
+      },
+      body: options.body !== undefined ? JSON.stringify(options.body) : undefined
+    });
+
+    if (response.status === 404 && options.allowNotFound) return null as T;
+    if (!response.ok) {
+      const payload = await response.json().catch(() => null) as { error?: string } | null;
+      throw new Error(`${method} ${path} failed (${response.status}): ${payload?.error || response.statusText}`);
+    }
+    return response.status === 204 ? (undefined as T) : ((await response.json()) as T);
+  }
+
+  return {
+    backend: 'api',
+
+    assets: {
+      getAsset: ticker => request<AssetMeta | null>('GET', `/assets/${enc(ticker)}`, { allowNotFound: true }),
+      getAllAssets: () => request<AssetMeta[]>('GET', '/assets'),
+      getAssetsByMarket: market => request<AssetMeta[]>('GET', withQuery('/assets', { market })),
+      updateAssetPrice: (ticker, lastPrice, lastUpdated) =>
+        request<void>('PUT', `/assets/${enc(ticker)}/price`, { body: { lastPrice, lastUpdated } }),
+      search: (query, limit) => request<AssetSearchResult[]>('GET', withQuery('/search', { q: query, limit }))
+    },
+
+    prices: {
+      getPrices: (ticker, startDate, endDate, interval) =>
+        request<PriceData[]>('GET', withQuery(`/assets/${enc(ticker)}/prices`, { start: startDate, end: endDate, interval })),
+      getLatestPrices: (ticker, limit, interval) =>
+        request<PriceData[]>('GET', withQuery(`/assets/${enc(ticker)}/prices`, { latest: limit, interval })),
+      latestPriceDate: async (ticker, interval) =>
+        (await request<PriceData[]>('GET', withQuery(`/assets/${enc(ticker)}/prices`, { latest: 1, interval })))[0]?.date ?? null,
+
+      async putPrices(prices) {
+        for (let i = 0; i < prices.length; i += IMPORT_CHUNK_ROWS) {
+          await request<{ written: number }>('POST', '/prices/import', { body: { prices: prices.slice(i, i + IMPORT_CHUNK_ROWS) } });
+        }
+      }
+    },
+
+    corporateActions: {
+      getActions: ticker => request<CorporateAction[]>('GET', `/assets/${enc(ticker)}/corporate-actions`),
+
+      async putActions(actions) {
+        for (let i = 0; i < actions.length; i += IMPORT_CHUNK_ROWS) {
+          await request<{ written: number }>('POST', '/corporate-actions/import', { body: { actions: actions.slice(i, i + IMPORT_CHUNK_ROWS) } });
+        }
+      }
+    },
+
+    forecasts: {
+      getForecasts: (ticker, startDate, endDate, { prophet, horizon } = {}) =>
+        request<Forecast[]>('GET', withQuery(`/assets/${enc(ticker)}/forecasts`, { start: startDate, end: endDate, prophet, horizon }))
+    },
+
+    notifications: {
+      getUnread: userId => request<Notification[]>('GET', `/notifications/${enc(userId)}/unread`),
+
+      // The DynamoDB start key round-trips as opaque JSON so the server can resume the query.
+      query: (userId, { status, category, limit, startKey }) =>
+        request<{ items: Notification[]; exhausted: boolean }>('GET', withQuery(`/notifications/${enc(userId)}`, {
+          status,
+          category,
+          limit,
+          startKey: startKey && JSON.stringify(startKey)
+        })),
+
+      setChecked: (userId, notificationId, checked) =>
+        request<void>('PATCH', `/notifications/${enc(userId)}/${enc(notificationId)}`, { body: { checked } }),
+      add: () => serverOnly('Writing notifications')
+    },
+
+    // The server scopes watchlists to the token's user, so the userId argument isn't sent.
+    watchlists: {
+      list: () => request<Watchlist[]>('GET', '/watchlists'),
+      create: ({ name, tickers }) => request<Watchlist>('POST', '/watchlists', { body: { name, tickers } }),
+      rename: (_userId, watchlistId, name) =>
+        request<void>('PATCH', `/watchlists/${enc(watchlistId)}`, { body: { name } }),
+      remove: (_userId, watchlistId) => request<void>('DELETE', `/watchlists/${enc(watchlistId)}`),
+      addTicker: (_userId, watchlistId, ticker) =>
+        request<void>('POST', `/watchlists/${enc(watchlistId)}/tickers`, { body: { ticker } }),
+      removeTicker: (_userId, watchlistId, ticker) =>
+        request<void>('DELETE', `/watchlists/${enc(watchlistId)}/tickers/${enc(ticker)}`)
+    },
+
+    // Also scoped to the token's user; the server builds the rule from ticker + condition.
+    alerts: {
+      list: () => request<AlertRule[]>('GET', '/alerts'),
+      listAll: () => serverOnly("Listing every user's alert rules"),
+      create: ({ ticker, condition }) => request<AlertRule>('POST', '/alerts', { body: { ticker, condition } }),
+      setEnabled: (_userId, ruleId, enabled) => request<void>('PATCH', `/alerts/${enc(ruleId)}`, { body: { enabled } }),
+      remove: (_userId, ruleId) => request<void>('DELETE', `/alerts/${enc(ruleId)}`),
+      markTriggered: () => serverOnly('Recording alert triggers')
+    },
+
+    // Like watchlists, the ledger is the token user's; the server assigns ids and userId.
+    portfolios: {
+      listTransactions: () => request<PortfolioTransaction[]>('GET', '/portfolio/transactions'),
+      async addTransactions(transactions) {
+        const inputs: TransactionInput[] = transactions.map(({ userId: _userId, transactionId: _id, createdAt: _createdAt, ...input }) => input);
+        for (let i = 0; i < inputs.length; i += IMPORT_CHUNK_ROWS) {
+          await request<{ written: number }>('POST', '/portfolio/transactions', { body: { transactions: inputs.slice(i, i + IMPORT_CHUNK_ROWS) } });
+        }
+      },
+      removeTransaction: (_userId, transactionId) =>
+        request<void>('DELETE', `/portfolio/transactions/${enc(transactionId)}`)
+    },
+
+    settings: {
+      getSessionPolicy: () => request<SessionPolicy | null>('GET', '/settings/session', { allowNotFound: true }),
+      saveSessionPolicy: policy => request<void>('PUT', '/settings/session', { body: policy })
+    }
+  };
+}
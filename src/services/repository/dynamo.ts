@@ -0,0 +1,509 @@
+import {
+  BatchWriteCommand,
+  BatchWriteCommandInput,
+  DeleteCommand,
+  DynamoDBDocumentClient,
+  GetCommand,
+  PutCommand,
+  QueryCommand,
+  QueryCommandInput,
+  ScanCommand,
+  ScanCommandInput,
+  UpdateCommand
+} from '@aws-sdk/lib-dynamodb';
+import { TABLES, AssetMeta } from '../../types/assets';
+import { PriceData, PriceInterval } from '../../types/price';
+import { Notification } from '../../types/notification';
+import { Watchlist } from '../../types/watchlist';
+import { SessionPolicy } from '../../types/appSettings';
+import { PortfolioTransaction } from '../../types/portfolio';
+import { CorporateAction } from '../../types/corporateAction';
+import { ForecastItem } from '../../types/forecast';
+import { AlertRule } from '../../types/alert';
+import { rankAssets } from '../../lib/assetSearch';
+import { actionKey } from '../../lib/corporateActions';
+import { batchWriteItems } from '../../lib/batchWrite';
+import { isIntraday } from '../../lib/resample';
+import { DataRepository, NotificationQuery } from './types';
+
+const NOTIFICATIONS_CREATED_INDEX = 'UserCreatedIndex';
+const SESSION_POLICY_KEY = 'sessionPolicy';
+
+type WriteRequest = NonNullable<BatchWriteCommandInput['RequestItems']>[string][number];
+
+// Follow LastEvaluatedKey until the query or scan is drained; results are capped at 1MB per page.
+async function queryAll<T>(ddb: DynamoDBDocumentClient, input: QueryCommandInput): Promise<T[]> {
+  const items: T[] = [];
+  let lastKey: Record<string, unknown> | undefined;
+  do {
+    const response = await ddb.send(new QueryCommand({ ...input, ExclusiveStartKey: lastKey }));
+    items.push(...((response.Items || []) as T[]));
+    lastKey = response.LastEvaluatedKey;
+  } while (lastKey);
+  return items;
+}
+
+async function scanAll<T>(ddb: DynamoDBDocumentClient, input: ScanCommandInput): Promise<T[]> {
+  const items: T[] = [];
+  let lastKey: Record<string, unknown> | undefined;
+  do {
+    const response = await ddb.send(new ScanCommand({ ...input, ExclusiveStartKey: lastKey }));
+    items.push(...((response.Items || []) as T[]));
+    lastKey = response.LastEvaluatedKey;
+  } while (lastKey);
+  return items;
+}
+
+// DynamoDB string sets come back as Set<string> and are omitted entirely when empty.
+function watchlistFromItem(item: Record<string, unknown>): Watchlist {
+  const raw = item.tickers as Set<string> | string[] | undefined;
+  return {
+    ...(item as Omit<Watchlist, 'tickers'>),
+    tickers: raw ? Array.from(raw).sort() : []
+  };
+}
+
+// Partition key of one ticker's bars at one intraday interval in the IntradayPrices table.
+function seriesKey(ticker: string, interval: PriceInterval) {
+  return `${ticker}#${interval}`;
+}
+
+// Key schema follows scripts/setup-dynamodb.ts: Assets by `ticker` (MarketIndex on `market`),
+// AssetPrices by `ticker` + `date`, IntradayPrices by `series` (see seriesKey) + `date`, Notifications by `userId` + `notificationId`,
+// Forecasts by `prophetTicker` + `targetKey` (TickerTargetIndex on `ticker` + `targetDate`),
+// Watchlists by `userId` + `watchlistId`, AlertRules by `userId` + `ruleId`,
+// PortfolioTransactions by `userId` + `transactionId`, AppSettings by `settingKey`.
+export function createDynamoRepository(ddb: DynamoDBDocumentClient): DataRepository {
+  const updateTickers = async (action: 'ADD' | 'DELETE', userId: string, watchlistId: string, ticker: string) => {
+    // ADD/DELETE on a string set are atomic, so concurrent edits from two tabs don't clobber each other.
+    await ddb.send(new UpdateCommand({
+      TableName: TABLES.WATCHLISTS,
+      Key: { userId, watchlistId },
+      UpdateExpression: `${action} tickers :ticker SET updatedAt = :now`,
+      ConditionExpression: 'attribute_exists(watchlistId)',
+      ExpressionAttributeValues: { ':ticker': new Set([ticker]), ':now': new Date().toISOString() }
+    }));
+  };
+
+  return {
+    backend: 'dynamodb',
+
+    assets: {
+      async getAsset(ticker) {
+        try {
+          const response = await ddb.send(new GetCommand({ TableName: TABLES.ASSETS, Key: { ticker } }));
+          return (response.Item as AssetMeta) || null;
+        } catch (error) {
+          console.error('Error fetching asset:', error);
+          throw error;
+        }
+      },
+
+      async getAllAssets() {
+        try {
+          return await scanAll<AssetMeta>(ddb, { TableName: TABLES.ASSETS });
+        } catch (error) {
+          console.error('Error fetching all assets:', error);
+          throw error;
+        }
+      },
+
+      async getAssetsByMarket(market) {
+        try {
+          return await queryAll<AssetMeta>(ddb, {
+            TableName: TABLES.ASSETS,
+            IndexName: 'MarketIndex',
+            KeyConditionExpression: 'market = :market',
+            ExpressionAttributeValues: { ':market': market }
+          });
+        } catch (error) {
+          console.error('Error fetching assets by market:', error);
+          throw error;
+        }
+      },
+
+      // Only touches the price fields so name/description/market survive, and refuses to
+      // create a bare item for a ticker that was never registered.
+      async updateAssetPrice(ticker, lastPrice, lastUpdated = new Date().toISOString()) {
+        try {
+          await ddb.send(new UpdateCommand({
+            TableName: TABLES.ASSETS,
+            Key: { ticker },
+            UpdateExpression: 'SET lastPrice = :price, lastUpdated = :updated',
+            ConditionExpression: 'attribute_exists(ticker)',
+            ExpressionAttributeValues: { ':price': lastPrice, ':updated': lastUpdated }
+          }));
+        } catch (error) {
+          console.error('Error updating asset price:', error);
+          throw error;
+        }
+      },
+
+      // The Assets table is small enough that ranking a full scan beats maintaining a search index.
+      async search(query, limit) {
+        try {
+          return rankAssets(await scanAll<AssetMeta>(ddb, { TableName: TABLES.ASSETS }), query, limit);
+        } catch (error) {
+          console.error('Error searching assets:', error);
+          throw error;
+        }
+      }
+    },
+
+    prices: {
+      async getPrices(ticker, startDate, endDate, interval = '1d') {
+        const intraday = isIntraday(interval);
+        let keyCondition = intraday ? 'series = :t' : 'ticker = :t';
+        if (startDate && endDate) keyCondition += ' AND #date BETWEEN :start AND :end';
+        else if (startDate) keyCondition += ' AND #date >= :start';
+        else if (endDate) keyCondition += ' AND #date <= :end';
+
+        try {
+          const items = await queryAll<PriceData & { series?: string }>(ddb, {
+            TableName: intraday ? TABLES.INTRADAY_PRICES : TABLES.ASSET_PRICES,
+            KeyConditionExpression: keyCondition,
+            ExpressionAttributeValues: {
+              ':t': intraday ? seriesKey(ticker, interval) : ticker,
+              ...(startDate && { ':start': startDate }),
+              ...(endDate && { ':end': endDate })
+            },
+            ...((startDate || endDate) && { ExpressionAttributeNames: { '#date': 'date' } }),
+            ScanIndexForward: true
+          });
+          return intraday ? items.map(({ series: _series, ...bar }) => bar) : items;
+        } catch (error) {
+          console.error('Error fetching asset prices:', error);
+          throw error;
+        }
+      },
+
+      async getLatestPrices(ticker, limit, interval = '1d') {
+        const intraday = isIntraday(interval);
+        try {
+          const response = await ddb.send(new QueryCommand({
+            TableName: intraday ? TABLES.INTRADAY_PRICES : TABLES.ASSET_PRICES,
+            KeyConditionExpression: intraday ? 'series = :t' : 'ticker = :t',
+            ExpressionAttributeValues: { ':t': intraday ? seriesKey(ticker, interval) : ticker },
+            ScanIndexForward: false,
+            Limit: limit
+          }));
+          const items = ((response.Items || []) as (PriceData & { series?: string })[]).reverse();
+          return intraday ? items.map(({ series: _series, ...bar }) => bar) : items;
+        } catch (error) {
+          console.error('Error fetching latest asset prices:', error);
+          throw error;
+        }
+      },
+
+      async latestPriceDate(ticker, interval = '1d') {
+        const intraday = isIntraday(interval);
+        try {
+          const response = await ddb.send(new QueryCommand({
+            TableName: intraday ? TABLES.INTRADAY_PRICES : TABLES.ASSET_PRICES,
+            KeyConditionExpression: intraday ? 'series = :t' : 'ticker = :t',
+            ExpressionAttributeValues: { ':t': intraday ? seriesKey(ticker, interval) : ticker },
+            ProjectionExpression: '#date',
+            ExpressionAttributeNames: { '#date': 'date' },
+            ScanIndexForward: false,
+            Limit: 1
+          }));
+          return (response.Items?.[0]?.date as string | undefined) ?? null;
+        } catch (error) {
+          console.error('Error fetching latest price date:', error);
+          throw error;
+        }
+      },
+
+      async putPrices(prices) {
+        const writeTo = (tableName: string, items: Record<string, unknown>[]) => batchWriteItems<WriteRequest>(
+          async requestItems => (await ddb.send(new BatchWriteCommand({ RequestItems: requestItems }))).UnprocessedItems,
+          tableName,
+          items.map(Item => ({ PutRequest: { Item } }))
+        );
+        try {
+          const daily = prices.filter(bar => !bar.interval || !isIntraday(bar.interval));
+          const intraday = prices
+            .filter(bar => bar.interval && isIntraday(bar.interval))
+            .map(bar => ({ ...bar, series: seriesKey(bar.ticker, bar.interval as PriceInterval) }));
+          const unprocessed = (daily.length ? await writeTo(TABLES.ASSET_PRICES, daily) : 0) +
+            (intraday.length ? await writeTo(TABLES.INTRADAY_PRICES, intraday) : 0);
+          if (unprocessed) throw new Error(`${unprocessed} of ${prices.length} price rows were not written after retries`);
+        } catch (error) {
+          console.error('Error writing asset prices:', error);
+          throw error;
+        }
+      }
+    },
+
+    // actionKey ("<date>#<type>") is the sort key, so a query already comes back by ex-date.
+    corporateActions: {
+      async getActions(ticker) {
+        try {
+          const items = await queryAll<CorporateAction & { actionKey: string }>(ddb, {
+            TableName: TABLES.CORPORATE_ACTIONS,
+            KeyConditionExpression: 'ticker = :t',
+            ExpressionAttributeValues: { ':t': ticker }
+          });
+          return items.map(({ actionKey: _key, ...action }) => action);
+        } catch (error) {
+          console.error('Error fetching corporate actions:', error);
+          throw error;
+        }
+      },
+
+      async putActions(actions) {
+        try {
+          const unprocessed = await batchWriteItems<WriteRequest>(
+            async requestItems => (await ddb.send(new BatchWriteCommand({ RequestItems: requestItems }))).UnprocessedItems,
+            TABLES.CORPORATE_ACTIONS,
+            actions.map(action => ({ PutRequest: { Item: { ...action, actionKey: actionKey(action) } } }))
+          );
+          if (unprocessed) throw new Error(`${unprocessed} of ${actions.length} corporate actions were not written after retries`);
+        } catch (error) {
+          console.error('Error writing corporate actions:', error);
+          throw error;
+        }
+      }
+    },
+
+    // With a prophet the base table is queried directly; otherwise TickerTargetIndex is used.
+    // Sort keys hold full ISO timestamps, so the end bound is widened to cover the whole day.
+    forecasts: {
+      async getForecasts(ticker, startDate, endDate, { prophet, horizon } = {}) {
+        const bounds = {
+          ':start': startDate ? startDate.slice(0, 10) : '',
+          ':end': endDate ? `${endDate.slice(0, 10)}\uffff` : '\uffff',
+          ...(horizon !== undefined && { ':h': horizon })
+        };
+        const keyed: QueryCommandInput = prophet
+          ? {
+              TableName: TABLES.FORECASTS,
+              KeyConditionExpression: 'prophetTicker = :pk AND targetKey BETWEEN :start AND :end',
+              ExpressionAttributeValues: { ':pk': `${prophet}#${ticker}`, ...bounds }
+            }
+          : {
+              TableName: TABLES.FORECASTS,
+              IndexName: 'TickerTargetIndex',
+              KeyConditionExpression: 'ticker = :t AND targetDate BETWEEN :start AND :end',
+              ExpressionAttributeValues: { ':t': ticker, ...bounds }
+            };
+        try {
+          const items = await queryAll<ForecastItem>(ddb, horizon === undefined ? keyed : { ...keyed, FilterExpression: 'horizon = :h' });
+          return items.map(({ prophetTicker: _pk, targetKey: _sk, ...forecast }) => forecast);
+        } catch (error) {
+          console.error('Error fetching forecasts:', error);
+          throw error;
+        }
+      }
+    },
+
+    notifications: {
+      async getUnread(userId) {
+        // FilterExpression is applied per 1MB page, so queryAll keeps following LastEvaluatedKey
+        return queryAll<Notification>(ddb, {
+          TableName: TABLES.NOTIFICATIONS,
+          KeyConditionExpression: 'userId = :uid',
+          FilterExpression: 'checked = :false',
+          ExpressionAttributeValues: { ':uid': userId, ':false': false }
+        });
+      },
+
+      // Limit is shrunk to the remaining count so a filtered page never evaluates past what we return.
+      async query(userId, { status, category, limit, startKey }: NotificationQuery) {
+        const filters: string[] = [];
+        const names: Record<string, string> = {};
+        const values: Record<string, unknown> = { ':uid': userId };
+        if (status !== 'all') {
+          filters.push('checked = :checked');
+          values[':checked'] = status === 'read';
+        }
+        if (category) {
+          // legacy items without a category count as system notices
+          filters.push(category === 'system' ? '(#category = :category OR attribute_not_exists(#category))' : '#category = :category');
+          names['#category'] = 'category';
+          values[':category'] = category;
+        }
+
+        const items: Notification[] = [];
+        let lastKey = startKey;
+        do {
+          const response = await ddb.send(new QueryCommand({
+            TableName: TABLES.NOTIFICATIONS,
+            IndexName: NOTIFICATIONS_CREATED_INDEX,
+            KeyConditionExpression: 'userId = :uid',
+            FilterExpression: filters.length ? filters.join(' AND ') : undefined,
+            ExpressionAttributeNames: Object.keys(names).length ? names : undefined,
+            ExpressionAttributeValues: values,
+            ScanIndexForward: false,
+            Limit: limit - items.length,
+            ExclusiveStartKey: lastKey
+          }));
+          items.push(...((response.Items || []) as Notification[]));
+          lastKey = response.LastEvaluatedKey;
+        } while (lastKey && items.length < limit);
+
+        return { items, exhausted: !lastKey };
+      },
+
+      async setChecked(userId, notificationId, checked) {
+        await ddb.send(new UpdateCommand({
+          TableName: TABLES.NOTIFICATIONS,
+          Key: { userId, notificationId },
+          UpdateExpression: 'SET checked = :checked',
+          ExpressionAttributeValues: { ':checked': checked }
+        }));
+      },
+
+      async add(notification) {
+        try {
+          await ddb.send(new PutCommand({
+            TableName: TABLES.NOTIFICATIONS,
+            Item: notification,
+            ConditionExpression: 'attribute_not_exists(notificationId)'
+          }));
+          return true;
+        } catch (error) {
+          if ((error as Error).name === 'ConditionalCheckFailedException') return false;
+          throw error;
+        }
+      }
+    },
+
+    watchlists: {
+      async list(userId) {
+        const items = await queryAll<Record<string, unknown>>(ddb, {
+          TableName: TABLES.WATCHLISTS,
+          KeyConditionExpression: 'userId = :uid',
+          ExpressionAttributeValues: { ':uid': userId }
+        });
+        return items.map(watchlistFromItem);
+      },
+
+      // An empty string set is invalid in DynamoDB, so a list without tickers omits the attribute.
+      async create(watchlist) {
+        const { tickers, ...rest } = watchlist;
+        await ddb.send(new PutCommand({
+          TableName: TABLES.WATCHLISTS,
+          Item: tickers.length ? { ...rest, tickers: new Set(tickers) } : rest
+        }));
+        return watchlist;
+      },
+
+      async rename(userId, watchlistId, name) {
+        await ddb.send(new UpdateCommand({
+          TableName: TABLES.WATCHLISTS,
+          Key: { userId, watchlistId },
+          UpdateExpression: 'SET #name = :name, updatedAt = :now',
+          ConditionExpression: 'attribute_exists(watchlistId)',
+          ExpressionAttributeNames: { '#name': 'name' },
+          ExpressionAttributeValues: { ':name': name, ':now': new Date().toISOString() }
+        }));
+      },
+
+      async remove(userId, watchlistId) {
+        await ddb.send(new DeleteCommand({ TableName: TABLES.WATCHLISTS, Key: { userId, watchlistId } }));
+      },
+
+      async addTicker(userId, watchlistId, ticker) {
+        await updateTickers('ADD', userId, watchlistId, ticker);
+      },
+
+      async removeTicker(userId, watchlistId, ticker) {
+        await updateTickers('DELETE', userId, watchlistId, ticker);
+      }
+    },
+
+    alerts: {
+      async list(userId) {
+        return queryAll<AlertRule>(ddb, {
+          TableName: TABLES.ALERT_RULES,
+          KeyConditionExpression: 'userId = :uid',
+          ExpressionAttributeValues: { ':uid': userId }
+        });
+      },
+
+      async listAll() {
+        return scanAll<AlertRule>(ddb, { TableName: TABLES.ALERT_RULES });
+      },
+
+      async create(rule) {
+        await ddb.send(new PutCommand({ TableName: TABLES.ALERT_RULES, Item: rule }));
+        return rule;
+      },
+
+      async setEnabled(userId, ruleId, enabled) {
+        await ddb.send(new UpdateCommand({
+          TableName: TABLES.ALERT_RULES,
+          Key: { userId, ruleId },
+          UpdateExpression: 'SET enabled = :enabled',
+          ConditionExpression: 'attribute_exists(ruleId)',
+          ExpressionAttributeValues: { ':enabled': enabled }
+        }));
+      },
+
+      async remove(userId, ruleId) {
+        await ddb.send(new DeleteCommand({ TableName: TABLES.ALERT_RULES, Key: { userId, ruleId } }));
+      },
+
+      // Conditional, so overlapping runs can't move lastTriggeredDate backwards or recreate a
+      // rule deleted mid-run.
+      async markTriggered(userId, ruleId, date) {
+        try {
+          await ddb.send(new UpdateCommand({
+            TableName: TABLES.ALERT_RULES,
+            Key: { userId, ruleId },
+            UpdateExpression: 'SET lastTriggeredDate = :date',
+            ConditionExpression: 'attribute_exists(ruleId) AND (attribute_not_exists(lastTriggeredDate) OR lastTriggeredDate < :date)',
+            ExpressionAttributeValues: { ':date': date }
+          }));
+          return true;
+        } catch (error) {
+          if ((error as Error).name === 'ConditionalCheckFailedException') return false;
+          throw error;
+        }
+      }
+    },
+
+    portfolios: {
+      async listTransactions(userId) {
+        return queryAll<PortfolioTransaction>(ddb, {
+          TableName: TABLES.PORTFOLIO_TRANSACTIONS,
+          KeyConditionExpression: 'userId = :uid',
+          ExpressionAttributeValues: { ':uid': userId }
+        });
+      },
+
+      async addTransactions(transactions) {
+        const unprocessed = await batchWriteItems<WriteRequest>(
+          async requestItems => (await ddb.send(new BatchWriteCommand({ RequestItems: requestItems }))).UnprocessedItems,
+          TABLES.PORTFOLIO_TRANSACTIONS,
+          transactions.map(Item => ({ PutRequest: { Item } }))
+        );
+        if (unprocessed) throw new Error(`${unprocessed} of ${transactions.length} transactions were not written after retries`);
+      },
+
+      async removeTransaction(userId, transactionId) {
+        await ddb.send(new DeleteCommand({ TableName: TABLES.PORTFOLIO_TRANSACTIONS, Key: { userId, transactionId } }));
+      }
+    },
+
+    settings: {
+      async getSessionPolicy() {
+        const response = await ddb.send(new GetCommand({
+          TableName: TABLES.APP_SETTINGS,
+          Key: { settingKey: SESSION_POLICY_KEY }
+        }));
+        if (!response.Item) return null;
+        const { settingKey: _key, ...policy } = response.Item;
+        return policy as SessionPolicy;
+      },
+
+      async saveSessionPolicy(policy) {
+        await ddb.send(new PutCommand({
+          TableName: TABLES.APP_SETTINGS,
+          Item: { settingKey: SESSION_POLICY_KEY, ...policy }
+        }));
+      }
+    }
+  };
+}
@@ -0,0 +1,31 @@
+import { getIdToken } from '../cognito';
+import { createApiRepository } from './api';
+import { createLocalRepository } from './local';
+import { DataRepository } from './types';
+
+export type {
+  DataRepository,
+  AssetRepository,
+  PriceRepository,
+  ForecastRepository,
+  ForecastQuery,
+  NotificationRepository,
+  NotificationQuery,
+  WatchlistRepository,
+  AlertRuleRepository,
+  AppSettingsRepository
+} from './types';
+
+// The backend is picked once at startup: the API server when VITE_API_URL is set, otherwise
+// local JSON. The browser never talks to DynamoDB itself, so no AWS credentials are bundled;
+// the DynamoDB backend (./dynamo) runs behind the API server and in scripts.
+function createRepository(): DataRepository {
+  const apiUrl = import.meta.env.VITE_API_URL;
+  if (apiUrl) {
+    return createApiRepository(apiUrl, getIdToken);
+  }
+  console.warn('VITE_API_URL not set; using local data fallback');
+  return createLocalRepository();
+}
+
+export const repository: DataRepository = createRepository();
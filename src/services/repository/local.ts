@@ -0,0 +1,379 @@
+import { AssetMeta, RawAssetData, RawIntradayData, RawPricesData } from '../../types/assets';
+import { PriceData, PriceInterval } from '../../types/price';
+import { Notification } from '../../types/notification';
+import { Watchlist } from '../../types/watchlist';
+import { SessionPolicy } from '../../types/appSettings';
+import { PortfolioTransaction } from '../../types/portfolio';
+import { CorporateAction } from '../../types/corporateAction';
+import { Forecast } from '../../types/forecast';
+import { AlertRule } from '../../types/alert';
+import { rankAssets } from '../../lib/assetSearch';
+import { actionKey } from '../../lib/corporateActions';
+import { isIntraday } from '../../lib/resample';
+import { DataRepository } from './types';
+
+// Read-mostly backend over src/data/generatedPrices.json (and generatedIntraday.json for
+// intraday bars, generatedForecasts.json for forecasts) for running without AWS credentials.
+// Writes (asset price updates, notification read state, watchlists, alert rules, portfolios)
+// live in memory / localStorage only.
+
+const NOTIFICATIONS_KEY_PREFIX = 'chasingprophets.notifications.';
+const WATCHLISTS_KEY_PREFIX = 'chasingprophets.watchlists.';
+const ALERT_RULES_KEY_PREFIX = 'chasingprophets.alerts.';
+const PORTFOLIO_KEY_PREFIX = 'chasingprophets.portfolio.';
+const SESSION_POLICY_KEY = 'chasingprophets.settings.sessionPolicy';
+
+let pricesData: Promise<RawPricesData> | null = null;
+
+function loadPricesData(): Promise<RawPricesData> {
+  if (!pricesData) {
+    pricesData = import('../../data/generatedPrices.json').then(mod => mod.default as RawPricesData);
+  }
+  return pricesData;
+}
+
+let intradayData: Promise<RawIntradayData> | null = null;
+
+function loadIntradayData(): Promise<RawIntradayData> {
+  if (!intradayData) {
+    intradayData = import('../../data/generatedIntraday.json').then(mod => mod.default as RawIntradayData);
+  }
+  return intradayData;
+}
+
+let forecastsData: Promise<Record<string, Forecast[]>> | null = null;
+
+function loadForecastsData(): Promise<Record<string, Forecast[]>> {
+  if (!forecastsData) {
+    forecastsData = import('../../data/generatedForecasts.json').then(mod => mod.default as Record<string, Forecast[]>);
+  }
+  return forecastsData;
+}
+
+function normalizeAsset(data: RawAssetData | undefined, ticker: string): AssetMeta | null {
+  if (!data?.prices?.length) return null;
+  const last = data.prices[data.prices.length - 1];
+  const prev = data.prices[data.prices.length - 2];
+  const lastPrice = last?.close ?? null;
+  const priceChange = last && prev ? ((last.close - prev.close) / prev.close) * 100 : 0;
+  return {
+    ticker,
+    name: data.metadata.name,
+    market: data.metadata.market || 'Unknown',
+    lastPrice,
+    priceChange
+  };
+}
+
+function readNotifications(userId: string): Notification[] {
+  try {
+    const raw = localStorage.getItem(NOTIFICATIONS_KEY_PREFIX + userId);
+    return raw ? (JSON.parse(raw) as Notification[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+function writeNotifications(userId: string, items: Notification[]) {
+  localStorage.setItem(NOTIFICATIONS_KEY_PREFIX + userId, JSON.stringify(items));
+}
+
+function readWatchlists(userId: string): Watchlist[] {
+  try {
+    const raw = localStorage.getItem(WATCHLISTS_KEY_PREFIX + userId);
+    return raw ? (JSON.parse(raw) as Watchlist[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+function writeWatchlists(userId: string, lists: Watchlist[]) {
+  localStorage.setItem(WATCHLISTS_KEY_PREFIX + userId, JSON.stringify(lists));
+}
+
+function updateWatchlist(userId: string, watchlistId: string, change: (list: Watchlist) => Watchlist) {
+  const lists = readWatchlists(userId);
+  const idx = lists.findIndex(list => list.watchlistId === watchlistId);
+  if (idx === -1) throw new Error(`Watchlist ${watchlistId} not found`);
+  lists[idx] = { ...change(lists[idx]), updatedAt: new Date().toISOString() };
+  writeWatchlists(userId, lists);
+}
+
+function readAlertRules(userId: string): AlertRule[] {
+  try {
+    const raw = localStorage.getItem(ALERT_RULES_KEY_PREFIX + userId);
+    return raw ? (JSON.parse(raw) as AlertRule[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+function writeAlertRules(userId: string, rules: AlertRule[]) {
+  localStorage.setItem(ALERT_RULES_KEY_PREFIX + userId, JSON.stringify(rules));
+}
+
+function readTransactions(userId: string): PortfolioTransaction[] {
+  try {
+    const raw = localStorage.getItem(PORTFOLIO_KEY_PREFIX + userId);
+    return raw ? (JSON.parse(raw) as PortfolioTransaction[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+function writeTransactions(userId: string, transactions: PortfolioTransaction[]) {
+  localStorage.setItem(PORTFOLIO_KEY_PREFIX + userId, JSON.stringify(transactions));
+}
+
+function newestFirst(a: Notification, b: Notification) {
+  return (b.createdAt || '').localeCompare(a.createdAt || '') || b.notificationId.localeCompare(a.notificationId);
+}
+
+export function createLocalRepository(): DataRepository {
+  const priceOverrides = new Map<string, { lastPrice: number; lastUpdated: string }>();
+  // Imported bars live in memory for the session, layered over the bundled JSON by date and
+  // kept per "<ticker>#<interval>".
+  const importedPrices = new Map<string, Map<string, PriceData>>();
+  // The bundled JSON has no corporate actions; imported ones last for the session.
+  const corporateActions = new Map<string, Map<string, CorporateAction>>();
+
+  const withOverride = (asset: AssetMeta | null): AssetMeta | null => {
+    const override = asset && priceOverrides.get(asset.ticker);
+    return asset && override ? { ...asset, lastPrice: override.lastPrice } : asset;
+  };
+
+  const allAssets = async () => {
+    const data = await loadPricesData();
+    return Object.entries(data)
+      .map(([ticker, asset]) => withOverride(normalizeAsset(asset, ticker)))
+      .filter((asset): asset is AssetMeta => asset !== null);
+  };
+
+  // One stored series, oldest first.
+  const series = async (ticker: string, interval: PriceInterval) => {
+    const bundled = isIntraday(interval)
+      ? (await loadIntradayData())[ticker]?.[interval]
+      : (await loadPricesData())[ticker]?.prices;
+    const byDate = new Map<string, PriceData>();
+    (bundled || []).forEach(p => byDate.set(p.date, { ...p, ticker }));
+    importedPrices.get(`${ticker}#${interval}`)?.forEach((bar, date) => byDate.set(date, bar));
+    return Array.from(byDate.values()).sort((a, b) => a.date.localeCompare(b.date));
+  };
+
+  return {
+    backend: 'local',
+
+    assets: {
+      async getAsset(ticker) {
+        const data = await loadPricesData();
+        return withOverride(normalizeAsset(data[ticker], ticker));
+      },
+
+      async getAllAssets() {
+        return allAssets();
+      },
+
+      async getAssetsByMarket(market) {
+        const data = await loadPricesData();
+        return Object.entries(data)
+          .filter(([, asset]) => asset.metadata.market === market)
+          .map(([ticker, asset]) => withOverride(normalizeAsset(asset, ticker)))
+          .filter((asset): asset is AssetMeta => asset !== null);
+      },
+
+      async updateAssetPrice(ticker, lastPrice, lastUpdated = new Date().toISOString()) {
+        const data = await loadPricesData();
+        if (!data[ticker]) throw new Error(`Unknown asset ${ticker}`);
+        priceOverrides.set(ticker, { lastPrice, lastUpdated });
+      },
+
+      async search(query, limit) {
+        return rankAssets(await allAssets(), query, limit);
+      }
+    },
+
+    prices: {
+      async getPrices(ticker, startDate, endDate, interval: PriceInterval = '1d') {
+        return (await series(ticker, interval))
+          .filter(p => (!startDate || p.date >= startDate) && (!endDate || p.date <= endDate));
+      },
+
+      async getLatestPrices(ticker, limit, interval: PriceInterval = '1d') {
+        return (await series(ticker, interval)).slice(-limit);
+      },
+
+      async latestPriceDate(ticker, interval: PriceInterval = '1d') {
+        const bars = await series(ticker, interval);
+        return bars.length ? bars[bars.length - 1].date : null;
+      },
+
+      async putPrices(prices) {
+        prices.forEach(bar => {
+          const series = `${bar.ticker}#${bar.interval ?? '1d'}`;
+          const bars = importedPrices.get(series) || new Map<string, PriceData>();
+          bars.set(bar.date, bar);
+          importedPrices.set(series, bars);
+        });
+      }
+    },
+
+    corporateActions: {
+      async getActions(ticker) {
+        return Array.from(corporateActions.get(ticker)?.values() || []).sort((a, b) => actionKey(a).localeCompare(actionKey(b)));
+      },
+
+      async putActions(actions) {
+        actions.forEach(action => {
+          const byKey = corporateActions.get(action.ticker) || new Map<string, CorporateAction>();
+          byKey.set(actionKey(action), action);
+          corporateActions.set(action.ticker, byKey);
+        });
+      }
+    },
+
+    forecasts: {
+      async getForecasts(ticker, startDate, endDate, { prophet, horizon } = {}) {
+        const start = startDate?.slice(0, 10);
+        const end = endDate?.slice(0, 10);
+        return ((await loadForecastsData())[ticker] || []).filter(f => {
+          const day = f.targetDate.slice(0, 10);
+          return (!start || day >= start)
+            && (!end || day <= end)
+            && (!prophet || f.prophet === prophet)
+            && (horizon === undefined || f.horizon === horizon);
+        });
+      }
+    },
+
+    notifications: {
+      async getUnread(userId) {
+        return readNotifications(userId).filter(n => !n.checked);
+      },
+
+      async query(userId, { status, category, limit, startKey }) {
+        const matches = readNotifications(userId)
+          .filter(n => status === 'all' || (status === 'read') === !!n.checked)
+          .filter(n => !category || (n.category || 'system') === category)
+          .sort(newestFirst);
+        const start = startKey
+          ? matches.findIndex(n => n.notificationId === startKey.notificationId) + 1
+          : 0;
+        const items = matches.slice(start, start + limit);
+        return { items, exhausted: start + limit >= matches.length };
+      },
+
+      async setChecked(userId, notificationId, checked) {
+        writeNotifications(
+          userId,
+          readNotifications(userId).map(n => (n.notificationId === notificationId ? { ...n, checked } : n))
+        );
+      },
+
+      async add(notification) {
+        const existing = readNotifications(notification.userId);
+        if (existing.some(n => n.notificationId === notification.notificationId)) return false;
+        writeNotifications(notification.userId, [...existing, notification]);
+        return true;
+      }
+    },
+
+    watchlists: {
+      async list(userId) {
+        return readWatchlists(userId);
+      },
+
+      async create(watchlist) {
+        writeWatchlists(watchlist.userId, [...readWatchlists(watchlist.userId), watchlist]);
+        return watchlist;
+      },
+
+      async rename(userId, watchlistId, name) {
+        updateWatchlist(userId, watchlistId, list => ({ ...list, name }));
+      },
+
+      async remove(userId, watchlistId) {
+        writeWatchlists(userId, readWatchlists(userId).filter(list => list.watchlistId !== watchlistId));
+      },
+
+      async addTicker(userId, watchlistId, ticker) {
+        updateWatchlist(userId, watchlistId, list => ({
+          ...list,
+          tickers: Array.from(new Set([...list.tickers, ticker])).sort()
+        }));
+      },
+
+      async removeTicker(userId, watchlistId, ticker) {
+        updateWatchlist(userId, watchlistId, list => ({
+          ...list,
+          tickers: list.tickers.filter(t => t !== ticker)
+        }));
+      }
+    },
+
+    alerts: {
+      async list(userId) {
+        return readAlertRules(userId);
+      },
+
+      async listAll() {
+        return Object.keys(localStorage)
+          .filter(key => key.startsWith(ALERT_RULES_KEY_PREFIX))
+          .flatMap(key => readAlertRules(key.slice(ALERT_RULES_KEY_PREFIX.length)));
+      },
+
+      async create(rule) {
+        writeAlertRules(rule.userId, [...readAlertRules(rule.userId), rule]);
+        return rule;
+      },
+
+      async setEnabled(userId, ruleId, enabled) {
+        const rules = readAlertRules(userId);
+        if (!rules.some(rule => rule.ruleId === ruleId)) throw new Error(`Alert rule ${ruleId} not found`);
+        writeAlertRules(userId, rules.map(rule => (rule.ruleId === ruleId ? { ...rule, enabled } : rule)));
+      },
+
+      async remove(userId, ruleId) {
+        writeAlertRules(userId, readAlertRules(userId).filter(rule => rule.ruleId !== ruleId));
+      },
+
+      async markTriggered(userId, ruleId, date) {
+        const rules = readAlertRules(userId);
+        const rule = rules.find(r => r.ruleId === ruleId);
+        if (!rule || (rule.lastTriggeredDate && rule.lastTriggeredDate >= date)) return false;
+        writeAlertRules(userId, rules.map(r => (r === rule ? { ...r, lastTriggeredDate: date } : r)));
+        return true;
+      }
+    },
+
+    portfolios: {
+      async listTransactions(userId) {
+        return readTransactions(userId);
+      },
+
+      async addTransactions(transactions) {
+        new Set(transactions.map(tx => tx.userId)).forEach(userId => {
+          writeTransactions(userId, [...readTransactions(userId), ...transactions.filter(tx => tx.userId === userId)]);
+        });
+      },
+
+      async removeTransaction(userId, transactionId) {
+        writeTransactions(userId, readTransactions(userId).filter(tx => tx.transactionId !== transactionId));
+      }
+    },
+
+    settings: {
+      async getSessionPolicy() {
+        try {
+          const raw = localStorage.getItem(SESSION_POLICY_KEY);
+          return raw ? (JSON.parse(raw) as SessionPolicy) : null;
+        } catch {
+          return null;
+        }
+      },
+
+      async saveSessionPolicy(policy) {
+        localStorage.setItem(SESSION_POLICY_KEY, JSON.stringify(policy));
+      }
+    }
+  };
+}
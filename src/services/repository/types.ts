@@ -0,0 +1,122 @@
+import { AssetMeta, AssetSearchResult } from '../../types/assets';
+import { PriceData, PriceInterval, ProphetKey } from '../../types/price';
+import { Notification, NotificationCategory, NotificationStatus } from '../../types/notification';
+import { Watchlist } from '../../types/watchlist';
+import { SessionPolicy } from '../../types/appSettings';
+import { PortfolioTransaction } from '../../types/portfolio';
+import { CorporateAction } from '../../types/corporateAction';
+import { Forecast } from '../../types/forecast';
+import { AlertRule } from '../../types/alert';
+
+// Storage-agnostic data access. Services talk to these interfaces and never to a concrete
+// backend, so the API, DynamoDB and local JSON implementations are interchangeable.
+
+export interface AssetRepository {
+  getAsset(ticker: string): Promise<AssetMeta | null>;
+  getAllAssets(): Promise<AssetMeta[]>;
+  getAssetsByMarket(market: string): Promise<AssetMeta[]>;
+  updateAssetPrice(ticker: string, lastPrice: number, lastUpdated?: string): Promise<void>;
+  search(query: string, limit: number): Promise<AssetSearchResult[]>;
+}
+
+// Daily and intraday bars are stored apart; each interval is its own series per ticker.
+export interface PriceRepository {
+  // Bars of one stored interval (daily by default) ordered oldest first; bounds are inclusive
+  // and compared as ISO strings, so an intraday end bound needs a time to include its day.
+  getPrices(ticker: string, startDate?: string, endDate?: string, interval?: PriceInterval): Promise<PriceData[]>;
+  // The last `limit` bars of one stored interval, oldest first.
+  getLatestPrices(ticker: string, limit: number, interval?: PriceInterval): Promise<PriceData[]>;
+  // Date of the newest stored bar, or null when the series is empty.
+  latestPriceDate(ticker: string, interval?: PriceInterval): Promise<string | null>;
+  // Upserts whole bars by ticker + interval + date; rejects if any could not be written.
+  putPrices(prices: PriceData[]): Promise<void>;
+}
+
+// Splits and dividends keyed by ticker + ex-date + type; actions arrive validated
+// (src/lib/corporateActions.ts).
+export interface CorporateActionRepository {
+  // Ordered by ex-date, oldest first.
+  getActions(ticker: string): Promise<CorporateAction[]>;
+  // Upserts by ticker + ex-date + type; rejects if any could not be written.
+  putActions(actions: CorporateAction[]): Promise<void>;
+}
+
+export interface ForecastQuery {
+  prophet?: ProphetKey;
+  horizon?: number;
+}
+
+// Forecasts are written by the forecasting jobs, never through the app.
+export interface ForecastRepository {
+  // Forecasts of one ticker whose target date falls within [startDate, endDate], compared on
+  // the calendar day so YYYY-MM-DD bounds match full ISO timestamps. Unordered.
+  getForecasts(ticker: string, startDate?: string, endDate?: string, query?: ForecastQuery): Promise<Forecast[]>;
+}
+
+// Rules arrive built (src/lib/alerts.ts); scripts/evaluate-alerts.ts records when they fire.
+// listAll and markTriggered serve that job and need direct table access.
+export interface AlertRuleRepository {
+  list(userId: string): Promise<AlertRule[]>;
+  listAll(): Promise<AlertRule[]>;
+  create(rule: AlertRule): Promise<AlertRule>;
+  // Rejects unknown rules.
+  setEnabled(userId: string, ruleId: string, enabled: boolean): Promise<void>;
+  remove(userId: string, ruleId: string): Promise<void>;
+  // Sets lastTriggeredDate unless the rule is gone or already fired on that bar or a later one;
+  // resolves false in those cases.
+  markTriggered(userId: string, ruleId: string, date: string): Promise<boolean>;
+}
+
+export interface NotificationQuery {
+  status: NotificationStatus;
+  category?: NotificationCategory;
+  limit: number;
+  startKey?: Record<string, unknown>;
+}
+
+export interface NotificationRepository {
+  getUnread(userId: string): Promise<Notification[]>;
+  // Up to `limit` matches for one user, newest first, resuming after `startKey`.
+  // `exhausted` is true when no further matches exist past the returned items.
+  query(userId: string, query: NotificationQuery): Promise<{ items: Notification[]; exhausted: boolean }>;
+  setChecked(userId: string, notificationId: string, checked: boolean): Promise<void>;
+  // Written by scheduled jobs. Resolves false, writing nothing, when the id is already taken.
+  add(notification: Notification): Promise<boolean>;
+}
+
+// Tickers arrive already normalized (trimmed, upper-case); mutations reject unknown watchlists.
+export interface WatchlistRepository {
+  list(userId: string): Promise<Watchlist[]>;
+  create(watchlist: Watchlist): Promise<Watchlist>;
+  rename(userId: string, watchlistId: string, name: string): Promise<void>;
+  remove(userId: string, watchlistId: string): Promise<void>;
+  addTicker(userId: string, watchlistId: string, ticker: string): Promise<void>;
+  removeTicker(userId: string, watchlistId: string, ticker: string): Promise<void>;
+}
+
+// One transaction ledger per user; transactions arrive validated (src/lib/portfolio.ts).
+export interface PortfolioRepository {
+  listTransactions(userId: string): Promise<PortfolioTransaction[]>;
+  // Rejects if any could not be written.
+  addTransactions(transactions: PortfolioTransaction[]): Promise<void>;
+  removeTransaction(userId: string, transactionId: string): Promise<void>;
+}
+
+// Admin-managed settings; null means nothing has been saved yet and defaults apply.
+export interface AppSettingsRepository {
+  getSessionPolicy(): Promise<SessionPolicy | null>;
+  saveSessionPolicy(policy: SessionPolicy): Promise<void>;
+}
+
+export interface DataRepository {
+  backend: 'api' | 'dynamodb' | 'local';
+  assets: AssetRepository;
+  prices: PriceRepository;
+  corporateActions: CorporateActionRepository;
+  forecasts: ForecastRepository;
+  notifications: NotificationRepository;
+  watchlists: WatchlistRepository;
+  alerts: AlertRuleRepository;
+  portfolios: PortfolioRepository;
+  settings: AppSettingsRepository;
+}
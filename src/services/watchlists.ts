@@ -0,0 +1,85 @@
+import { repository } from './repository';
+import { Watchlist } from '../types/watchlist';
+import { buildWatchlist, normalizeTicker } from '../lib/watchlists';
+
+// Watchlist access for components. Storage is whichever backend ./repository picked
+// (the API, or localStorage when running without it).
+
+type Listener = () => void;
+const listeners = new Set<Listener>();
+
+// Lets the sidebar panel and AssetPage stay in sync without sharing state through a context.
+export function subscribeToWatchlists(listener: Listener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+function notifyChanged() {
+  listeners.forEach(listener => listener());
+}
+
+export async function getWatchlists(userId: string): Promise<Watchlist[]> {
+  try {
+    const lists = await repository.watchlists.list(userId);
+    return lists.sort((a, b) => a.name.localeCompare(b.name));
+  } catch (error) {
+    console.error('Error fetching watchlists:', error);
+    throw error;
+  }
+}
+
+export async function createWatchlist(userId: string, name: string, tickers: string[] = []): Promise<Watchlist> {
+  try {
+    const watchlist = await repository.watchlists.create(buildWatchlist(userId, name, tickers));
+    notifyChanged();
+    return watchlist;
+  } catch (error) {
+    console.error('Error creating watchlist:', error);
+    throw error;
+  }
+}
+
+export async function renameWatchlist(userId: string, watchlistId: string, name: string): Promise<void> {
+  const trimmed = name.trim();
+  if (!trimmed) throw new Error('Watchlist name cannot be empty');
+
+  try {
+    await repository.watchlists.rename(userId, watchlistId, trimmed);
+    notifyChanged();
+  } catch (error) {
+    console.error('Error renaming watchlist:', error);
+    throw error;
+  }
+}
+
+export async function deleteWatchlist(userId: string, watchlistId: string): Promise<void> {
+  try {
+    await repository.watchlists.remove(userId, watchlistId);
+    notifyChanged();
+  } catch (error) {
+    console.error('Error deleting watchlist:', error);
+    throw error;
+  }
+}
+
+export async function addTickerToWatchlist(userId: string, watchlistId: string, ticker: string): Promise<void> {
+  try {
+    await repository.watchlists.addTicker(userId, watchlistId, normalizeTicker(ticker));
+    notifyChanged();
+  } catch (error) {
+    console.error('Error adding ticker to watchlist:', error);
+    throw error;
+  }
+}
+
+export async function removeTickerFromWatchlist(userId: string, watchlistId: string, ticker: string): Promise<void> {
+  try {
+    await repository.watchlists.removeTicker(userId, watchlistId, normalizeTicker(ticker));
+    notifyChanged();
+  } catch (error) {
+    console.error('Error removing ticker from watchlist:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,21 @@
+import { ProphetKey } from './price';
+
+export type CrossDirection = 'above' | 'below';
+
+// What an alert watches for. Every condition is checked against the latest session's bar.
+export type AlertCondition =
+  | { kind: 'priceCross'; level: number; direction: CrossDirection }
+  | { kind: 'percentMove'; percent: number; days: number; direction: 'up' | 'down' | 'either' }
+  | { kind: 'rsiCross'; period: number; threshold: number; direction: CrossDirection }
+  | { kind: 'forecastDivergence'; prophet: ProphetKey; percent: number; horizon: number };
+
+// Stored shape in ChasingProphets-AlertRules (userId + ruleId)
+export type AlertRule = {
+  userId: string;
+  ruleId: string;
+  ticker: string;
+  condition: AlertCondition;
+  enabled: boolean;
+  createdAt: string;
+  lastTriggeredDate?: string; // price date of the last bar that fired, so a bar only notifies once
+};
@@ -0,0 +1,18 @@
+// Platform-wide settings edited by admins (Settings → Session Policy), stored one item per key.
+
+export type SessionPolicy = {
+  idleTimeoutMinutes: number;   // sign out after this long without input; 0 disables
+  warningSeconds: number;       // how long the "session expiring" toast shows before sign-out
+  updatedAt?: string;
+  updatedBy?: string;
+};
+
+export const DEFAULT_SESSION_POLICY: SessionPolicy = {
+  idleTimeoutMinutes: 30,
+  warningSeconds: 60
+};
+
+export const SESSION_POLICY_LIMITS = {
+  idleTimeoutMinutes: { min: 0, max: 24 * 60 },
+  warningSeconds: { min: 15, max: 600 }
+} as const;
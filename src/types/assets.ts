@@ -1,4 +1,4 @@
-import { BasePriceData } from './price';
+import { BasePriceData, PriceInterval } from './price';
 
 // Raw asset data from JSON file
 export type AssetMetadata = {
@@ -14,6 +14,9 @@ export type RawAssetData = {
 
 export type RawPricesData = Record<string, RawAssetData>;
 
+// Intraday sample bars by ticker and interval (src/data/generatedIntraday.json)
+export type RawIntradayData = Record<string, Partial<Record<PriceInterval, BasePriceData[]>>>;
+
 // Runtime asset types
 export type AssetMeta = {
   ticker: string;
@@ -35,5 +38,12 @@ export type AssetSearchResult = {
 export const TABLES = {
   ASSETS: 'ChasingProphets-Assets',
   ASSET_PRICES: 'ChasingProphets-AssetPrices',
-  NOTIFICATIONS: 'ChasingProphets-Notifications'
+  NOTIFICATIONS: 'ChasingProphets-Notifications',
+  FORECASTS: 'ChasingProphets-Forecasts',
+  WATCHLISTS: 'ChasingProphets-Watchlists',
+  ALERT_RULES: 'ChasingProphets-AlertRules',
+  APP_SETTINGS: 'ChasingProphets-AppSettings',
+  PORTFOLIO_TRANSACTIONS: 'ChasingProphets-PortfolioTransactions',
+  CORPORATE_ACTIONS: 'ChasingProphets-CorporateActions',
+  INTRADAY_PRICES: 'ChasingProphets-IntradayPrices'
 } as const;
\ No newline at end of file
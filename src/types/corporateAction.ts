@@ -0,0 +1,22 @@
+export type CorporateActionType = 'split' | 'dividend';
+
+export const CORPORATE_ACTION_TYPES: CorporateActionType[] = ['split', 'dividend'];
+
+// Stored shape in ChasingProphets-CorporateActions (ticker + actionKey "<date>#<type>"), at
+// most one action of each type per ticker and ex-date.
+// - split: ratio (new shares per old share: 2 for a 2-for-1, 0.1 for a 1-for-10 reverse split)
+// - dividend: amount (cash per share, in the price currency)
+export type CorporateAction = {
+  ticker: string;
+  date: string;       // ex-date, YYYY-MM-DD: the first session trading without the split/dividend
+  type: CorporateActionType;
+  ratio?: number;
+  amount?: number;
+  note?: string;
+};
+
+// How a price history is presented: as traded, or back-adjusted so the latest bars keep
+// their traded values and earlier bars are restated.
+// - split: splits only, so a 2-for-1 no longer shows as a 50% crash
+// - total: splits and cash dividends, so close-to-close changes are total returns
+export type PriceAdjustment = 'raw' | 'split' | 'total';
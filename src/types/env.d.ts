@@ -2,10 +2,9 @@
 
 interface ImportMetaEnv extends Partial<Record<string, string>> {
   readonly VITE_AWS_REGION: string;
-  readonly VITE_AWS_ACCESS_KEY_ID: string;
-  readonly VITE_AWS_SECRET_ACCESS_KEY: string;
   readonly VITE_COGNITO_USER_POOL_ID: string;
   readonly VITE_COGNITO_CLIENT_ID: string;
+  readonly VITE_API_URL?: string;
 }
 
 // This declaration tells TypeScript that there will be an `env` property on import.meta
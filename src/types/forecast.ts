@@ -0,0 +1,19 @@
+import { ProphetKey } from './price';
+
+// A single prophet forecast of a ticker's close on `targetDate`, issued on `issueDate`.
+export type Forecast = {
+  prophet: ProphetKey;
+  ticker: string;
+  issueDate: string;
+  targetDate: string;
+  horizon: number; // trading sessions between issue and target
+  value: number;
+  lower?: number;  // optional confidence interval around `value`
+  upper?: number;
+};
+
+// Stored shape in ChasingProphets-Forecasts: composite keys derived from the fields above
+export type ForecastItem = Forecast & {
+  prophetTicker: string; // `${prophet}#${ticker}` (partition key)
+  targetKey: string;     // `${targetDate}#${issueDate}` (sort key)
+};
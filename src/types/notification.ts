@@ -0,0 +1,27 @@
+export type NotificationCategory = 'alert' | 'system' | 'analysis';
+
+export const NOTIFICATION_CATEGORIES: NotificationCategory[] = ['alert', 'system', 'analysis'];
+
+export interface Notification {
+  userId: string;
+  notificationId: string;
+  message: string;
+  checked?: boolean;
+  createdAt?: string;
+  category?: NotificationCategory; // items written before categories existed are treated as 'system'
+  ticker?: string;
+  link?: string;
+  ruleId?: string;
+}
+
+export type NotificationStatus = 'all' | 'unread' | 'read';
+
+// Per-partition resume keys. A missing entry means "start from the newest item";
+// null means that partition has been read to the end.
+export type NotificationCursor = Record<string, Record<string, unknown> | null>;
+
+export interface NotificationPage {
+  items: Notification[];
+  cursor: NotificationCursor;
+  hasMore: boolean;
+}
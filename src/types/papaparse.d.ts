@@ -0,0 +1,27 @@
+// papaparse ships no types; this covers the string-input, header-row usage in src/lib/priceImport.ts.
+declare module 'papaparse' {
+  export interface ParseError {
+    type: string;
+    code: string;
+    message: string;
+    row?: number;
+  }
+
+  export interface ParseResult<T> {
+    data: T[];
+    errors: ParseError[];
+    meta: { delimiter: string; linebreak: string; fields?: string[] };
+  }
+
+  export interface ParseConfig {
+    header?: boolean;
+    delimiter?: string;
+    skipEmptyLines?: boolean | 'greedy';
+    transformHeader?: (header: string, index: number) => string;
+  }
+
+  export function parse<T = Record<string, string>>(input: string, config?: ParseConfig): ParseResult<T>;
+
+  const Papa: { parse: typeof parse };
+  export default Papa;
+}
@@ -0,0 +1,46 @@
+export type TransactionType = 'buy' | 'sell' | 'dividend' | 'split';
+
+export const TRANSACTION_TYPES: TransactionType[] = ['buy', 'sell', 'dividend', 'split'];
+
+// What a user enters or imports. Which amounts apply depends on the type:
+// - buy / sell: quantity (shares) and price (per share), optional fees
+// - dividend: amount (total cash received), optional fees (withholding)
+// - split: ratio (new shares per old share: 2 for a 2-for-1, 0.1 for a 1-for-10 reverse split)
+export type TransactionInput = {
+  ticker: string;
+  type: TransactionType;
+  date: string;       // YYYY-MM-DD
+  quantity?: number;
+  price?: number;
+  amount?: number;
+  ratio?: number;
+  fees?: number;
+  note?: string;
+};
+
+// Stored shape in ChasingProphets-PortfolioTransactions (userId + transactionId), one
+// ledger per user (AuthContext user.username).
+export type PortfolioTransaction = TransactionInput & {
+  userId: string;
+  transactionId: string;
+  createdAt: string;
+};
+
+// A holding derived by replaying the ledger; money fields are in the asset's currency.
+export type Position = {
+  ticker: string;
+  shares: number;
+  costBasis: number;        // what the remaining shares cost, fees included (average cost)
+  realizedPnl: number;      // from sells, after fees
+  dividends: number;        // cash received, after withholding
+  lastClose: number | null;
+  lastDate: string | null;
+  marketValue: number | null;
+  unrealizedPnl: number | null;
+};
+
+export type EquityCurve = {
+  dates: string[];
+  marketValue: number[];
+  costBasis: number[];
+};
@@ -1,6 +1,13 @@
+// Bar lengths. Daily bars are keyed by session date; intraday bars by the UTC timestamp their
+// interval opens at (e.g. "2024-03-04T14:30:00.000Z").
+export const PRICE_INTERVALS = ['1m', '5m', '15m', '1h', '1d'] as const;
+export type PriceInterval = typeof PRICE_INTERVALS[number];
+
 // Base price data (raw JSON format)
 export type BasePriceData = {
   date: string;
+  // Absent on daily bars
+  interval?: PriceInterval;
   open: number;
   high: number;
   low: number;
@@ -8,6 +15,10 @@ export type BasePriceData = {
   volume: number;
 };
 
+// Prophet models whose predictions ride along on PriceData
+export const PROPHET_KEYS = ['timeSage', 'trendOracle', 'marketMind', 'quantumPredictor'] as const;
+export type ProphetKey = typeof PROPHET_KEYS[number];
+
 // Extended price data with predictions
 export type PriceData = BasePriceData & {
   ticker: string;
@@ -0,0 +1,9 @@
+// A named list of tickers owned by one user (AuthContext user.username).
+export type Watchlist = {
+  userId: string;
+  watchlistId: string;
+  name: string;
+  tickers: string[];
+  createdAt: string;
+  updatedAt: string;
+};
@@ -4,4 +4,10 @@ import react from '@vitejs/plugin-react'
 // https://vite.dev/config/
 export default defineConfig({
   plugins: [react()],
+  server: {
+    // Lets VITE_API_URL=/api reach `npm run api` without CORS in development
+    proxy: {
+      '/api': 'http://localhost:8787'
+    }
+  },
 })
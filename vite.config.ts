@@ -4,7 +4,11 @@ import react from '@vitejs/plugin-react'
 export default defineConfig({
   plugins: [react()],
   server: {
-    port: 5173
+    port: 5173,
+    // Lets VITE_API_URL=/api reach `npm run api` without CORS in development
+    proxy: {
+      '/api': 'http://localhost:8787'
+    }
   },
   resolve: {
     alias: {
@@ -0,0 +1,10 @@
+import { defineConfig } from 'vitest/config';
+
+// Unit tests for the pure modules (src/lib, src/services with injected clients, server/).
+// Kept apart from vite.config.* so the browser-only `define`s don't leak into Node.
+export default defineConfig({
+  test: {
+    environment: 'node',
+    include: ['src/**/*.test.ts', 'server/**/*.test.ts']
+  }
+});